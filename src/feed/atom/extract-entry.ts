@@ -2,6 +2,7 @@
  * Extract Atom entry metadata
  */
 
+import { extractMedia } from '../media/extract.js';
 import { cleanAtomContent, cleanText } from './clean-text.js';
 import { parseAtomDate } from './parse-date.js';
 import type {
@@ -347,5 +348,11 @@ export function extractEntry(entryElement: AtomElement): AtomEntry {
     }
   }
 
+  // Media RSS extension
+  const media = extractMedia(entryElement);
+  if (media) {
+    entry.media = media;
+  }
+
   return entry;
 }
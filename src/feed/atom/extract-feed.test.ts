@@ -195,6 +195,37 @@ describe('extractFeed', () => {
     assert.equal(result.categories[1].term, 'news');
   });
 
+  it('should not collect authors, links or categories from entries', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>http://example.com/feed</id>
+  <title>Example Feed</title>
+  <updated>2025-12-17T10:00:00Z</updated>
+  <author><name>Editor</name></author>
+  <link rel="self" href="http://example.com/feed"/>
+  <entry>
+    <id>entry-1</id>
+    <title>Entry</title>
+    <updated>2025-12-17T10:00:00Z</updated>
+    <author><name>Writer</name></author>
+    <link href="http://example.com/entry-1"/>
+    <category term="tech"/>
+  </entry>
+</feed>`;
+
+    const feed = extractFeed(xml);
+
+    assert.deepEqual(
+      feed.authors?.map((a) => a.name),
+      ['Editor'],
+    );
+    assert.deepEqual(
+      feed.links?.map((l) => l.href),
+      ['http://example.com/feed'],
+    );
+    assert.equal(feed.categories, undefined);
+  });
+
   it('should extract contributors', () => {
     const xml = `<?xml version="1.0" encoding="utf-8"?>
 <feed xmlns="http://www.w3.org/2005/Atom">
@@ -77,7 +77,7 @@ function extractPerson(element: ReturnType<typeof parseXML>): AtomPerson | null
  */
 function extractPersons(root: ReturnType<typeof parseXML>, tagName: string): AtomPerson[] {
   const persons: AtomPerson[] = [];
-  const elements = root.querySelectorAll(tagName);
+  const elements = childElements(root, tagName);
 
   for (const element of elements) {
     const person = extractPerson(element);
@@ -89,6 +89,16 @@ function extractPersons(root: ReturnType<typeof parseXML>, tagName: string): Ato
   return persons;
 }
 
+/**
+ * Find direct children by tag name, so entry-level elements are not attributed to the feed
+ */
+function childElements(
+  root: ReturnType<typeof parseXML>,
+  tagName: string,
+): ReturnType<typeof parseXML>[] {
+  return root.children.filter((element) => element.tagName === tagName);
+}
+
 /**
  * Extract link
  */
@@ -138,7 +148,7 @@ function extractLink(element: ReturnType<typeof parseXML>): AtomLink | null {
  */
 function extractLinks(root: ReturnType<typeof parseXML>): AtomLink[] {
   const links: AtomLink[] = [];
-  const elements = root.querySelectorAll('link');
+  const elements = childElements(root, 'link');
 
   for (const element of elements) {
     const link = extractLink(element);
@@ -181,7 +191,7 @@ function extractCategory(element: ReturnType<typeof parseXML>): AtomCategory | n
  */
 function extractCategories(root: ReturnType<typeof parseXML>): AtomCategory[] {
   const categories: AtomCategory[] = [];
-  const elements = root.querySelectorAll('category');
+  const elements = childElements(root, 'category');
 
   for (const element of elements) {
     const category = extractCategory(element);
@@ -3,6 +3,8 @@
  * Spec: https://datatracker.ietf.org/doc/html/rfc4287
  */
 
+import type { MediaRss } from '../media/types.js';
+
 /**
  * Atom Person construct (author, contributor)
  */
@@ -127,6 +129,8 @@ export interface AtomEntry {
   rights?: string;
   /** Entry source feed info */
   source?: Partial<AtomFeed>;
+  /** Media RSS extension (media:group, media:thumbnail, ...), used by YouTube and Vimeo */
+  media?: MediaRss;
 }
 
 /**
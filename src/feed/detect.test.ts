@@ -1,6 +1,15 @@
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
-import { detectFormat, isAtom, isFeed, isJSONFeed, isRSS } from './detect.js';
+import {
+  detectFormat,
+  isAtom,
+  isFeed,
+  isHTML,
+  isJSONFeed,
+  isOPMLFormat,
+  isRDF,
+  isRSS,
+} from './detect.js';
 
 describe('detectFormat', () => {
   describe('RSS detection', () => {
@@ -50,6 +59,35 @@ describe('detectFormat', () => {
     <title>Test</title>
   </channel>
 </rdf:RDF>`;
+      assert.equal(detectFormat(rss), 'rdf');
+    });
+
+    it('should detect RSS 0.90 (RDF)', () => {
+      const rss = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns="http://my.netscape.com/rdf/simple/0.9/">
+  <channel><title>Test</title></channel>
+</rdf:RDF>`;
+      assert.equal(detectFormat(rss), 'rdf');
+      assert.equal(isRDF(rss), true);
+      assert.equal(isRSS(rss), true);
+    });
+
+    it('should detect OPML as its own format', () => {
+      const opml = `<?xml version="1.0"?>
+<opml version="2.0">
+  <head><title>Subscriptions</title></head>
+  <body><outline text="Feed" type="rss" xmlUrl="https://example.com/rss"/></body>
+</opml>`;
+      assert.equal(detectFormat(opml), 'opml');
+      assert.equal(isOPMLFormat(opml), true);
+      assert.equal(isFeed(opml), false);
+    });
+
+    it('should not mistake RSS quoting OPML for OPML', () => {
+      const rss = `<rss version="2.0"><channel><title>Test</title>
+<item><description><![CDATA[<pre><opml version="2.0"></opml></pre>]]></description></item>
+</channel></rss>`;
       assert.equal(detectFormat(rss), 'rss');
     });
 
@@ -270,3 +308,18 @@ describe('Helper functions', () => {
     assert.equal(isAtom(json), false);
   });
 });
+
+describe('isHTML', () => {
+  it('should detect HTML documents', () => {
+    assert.equal(isHTML('<!DOCTYPE html><html><body></body></html>'), true);
+    assert.equal(isHTML('\uFEFF  <html lang="en"><head></head></html>'), true);
+    assert.equal(isHTML('<!-- generated --><body><p>Hi</p></body>'), true);
+  });
+
+  it('should not detect feeds or plain text as HTML', () => {
+    assert.equal(isHTML('<rss><channel><title>Test</title></channel></rss>'), false);
+    assert.equal(isHTML('<feed xmlns="http://www.w3.org/2005/Atom"></feed>'), false);
+    assert.equal(isHTML('<htmlish>no</htmlish>'), false);
+    assert.equal(isHTML(''), false);
+  });
+});
@@ -9,13 +9,15 @@
  *
  * @remarks
  * Represents the detected or expected format of a feed.
- * - `'rss'` - RSS 2.0, 0.9x, or RSS 1.0 (RDF)
+ * - `'rss'` - RSS 2.0 or 0.9x
+ * - `'rdf'` - RSS 1.0 (RDF), or RSS 0.90 which shares its structure
  * - `'atom'` - Atom 1.0
  * - `'json-feed'` - JSON Feed 1.0 or 1.1
  * - `'sitemap'` - XML Sitemap (urlset or sitemapindex)
+ * - `'opml'` - OPML 1.0/2.0 subscription list (not a feed, see `parseOPML()`)
  * - `'unknown'` - Format could not be determined
  */
-export type FeedFormat = 'rss' | 'atom' | 'json-feed' | 'sitemap' | 'unknown';
+export type FeedFormat = 'rss' | 'rdf' | 'atom' | 'json-feed' | 'sitemap' | 'opml' | 'unknown';
 
 /**
  * Detect feed format from content string.
@@ -26,8 +28,10 @@ export type FeedFormat = 'rss' | 'atom' | 'json-feed' | 'sitemap' | 'unknown';
  *
  * Detection priority:
  * 1. JSON Feed (checks for JSON with jsonfeed.org version)
- * 2. RSS (checks for `<rss>` or `<rdf:RDF>` root elements)
- * 3. Atom (checks for `<feed>` root element with Atom namespace)
+ * 2. OPML (checks for `<opml>` root element)
+ * 3. RSS (checks for `<rss>` root element)
+ * 4. Atom (checks for `<feed>` root element with Atom namespace)
+ * 5. RDF (checks for `<rdf:RDF>` root element with an RSS 1.0/0.90 namespace or channel)
  *
  * @param content - Feed content as string
  * @returns Detected format or 'unknown' if format cannot be determined
@@ -75,6 +79,11 @@ export function detectFormat(content: string): FeedFormat {
     .replace(/<!--[\s\S]*?-->/g, '')
     .trim();
 
+  // Check for OPML subscription lists (root element only, feeds may quote OPML in content)
+  if (cleaned.match(/^(?:<!DOCTYPE[^>]*>\s*)?<opml[\s>]/i)) {
+    return 'opml';
+  }
+
   // Check for RSS root element first (most reliable)
   if (cleaned.match(/<rss[\s>]/i)) {
     return 'rss';
@@ -91,9 +100,14 @@ export function detectFormat(content: string): FeedFormat {
     return 'atom';
   }
 
-  // Check for RDF-based RSS 1.0
-  if (cleaned.match(/<rdf:RDF/i) && cleaned.includes('rss/1.0')) {
-    return 'rss';
+  // Check for RDF-based RSS 1.0 (and RSS 0.90)
+  if (
+    cleaned.match(/<rdf:RDF[\s>]/i) &&
+    (cleaned.includes('purl.org/rss/1.0') ||
+      cleaned.includes('my.netscape.com/rdf/simple/0.9') ||
+      cleaned.match(/<channel[\s>]/i))
+  ) {
+    return 'rdf';
   }
 
   // Check for channel element (common in RSS)
@@ -116,7 +130,7 @@ export function detectFormat(content: string): FeedFormat {
  * Check if content is a valid feed (any format).
  *
  * @param content - Feed content as string
- * @returns `true` if content is RSS, Atom, or JSON Feed
+ * @returns `true` if content is RSS, Atom, or JSON Feed (OPML subscription lists are not feeds)
  *
  * @example
  * ```typescript
@@ -126,17 +140,29 @@ export function detectFormat(content: string): FeedFormat {
  * ```
  */
 export function isFeed(content: string): boolean {
-  return detectFormat(content) !== 'unknown';
+  const format = detectFormat(content);
+  return format !== 'unknown' && format !== 'opml';
 }
 
 /**
  * Check if content is RSS format.
  *
  * @param content - Feed content as string
- * @returns `true` if content is RSS (any version)
+ * @returns `true` if content is RSS (any version, including RSS 1.0 / RDF)
  */
 export function isRSS(content: string): boolean {
-  return detectFormat(content) === 'rss';
+  const format = detectFormat(content);
+  return format === 'rss' || format === 'rdf';
+}
+
+/**
+ * Check if content is RSS 1.0 (RDF) format.
+ *
+ * @param content - Feed content as string
+ * @returns `true` if content is an `rdf:RDF` feed
+ */
+export function isRDF(content: string): boolean {
+  return detectFormat(content) === 'rdf';
 }
 
 /**
@@ -168,3 +194,33 @@ export function isJSONFeed(content: string): boolean {
 export function isSitemapFormat(content: string): boolean {
   return detectFormat(content) === 'sitemap';
 }
+
+/**
+ * Check if content is an HTML page rather than a feed.
+ *
+ * @remarks
+ * Looks for a doctype or an `<html>`, `<head>` or `<body>` element at the
+ * start of the document (after an optional XML declaration and comments).
+ * HTML pages can be turned into a feed with `synthesizeFeed()`.
+ *
+ * @param content - Content as string
+ * @returns `true` if content looks like an HTML document
+ */
+export function isHTML(content: string): boolean {
+  if (!content || typeof content !== 'string') {
+    return false;
+  }
+  return /^\s*(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<(?:!doctype\s+html|html|head|body)[\s>]/i.test(
+    content.replace(/^\uFEFF/, ''),
+  );
+}
+
+/**
+ * Check if content is an OPML subscription list.
+ *
+ * @param content - Content as string
+ * @returns `true` if content has an `<opml>` root element
+ */
+export function isOPMLFormat(content: string): boolean {
+  return detectFormat(content) === 'opml';
+}
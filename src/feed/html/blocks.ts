@@ -0,0 +1,289 @@
+/**
+ * Feed items from repeated teaser blocks.
+ *
+ * @remarks
+ * Heuristic for listing pages without structured data: siblings that share
+ * the same tag and classes and each carry a linked heading are treated as
+ * entries of the listing. Headings in navigation, page headers and footers
+ * are ignored, and each entry needs a date, `<article>` markup or an
+ * article-like URL.
+ *
+ * @packageDocumentation
+ */
+
+import { normalizeUrl } from '../../utils/normalize-url.js';
+import type { FeedItem } from '../types.js';
+import { toIsoDate } from './dates.js';
+import { isFeedEntry } from './signals.js';
+import type { HtmlFeedCandidate } from './types.js';
+
+/**
+ * Page chrome that never holds the listing itself.
+ *
+ * @remarks
+ * `<header>` is handled separately: an article's own header is content.
+ */
+const CHROME_TAGS = new Set(['nav', 'footer', 'aside', 'form', 'dialog']);
+
+/**
+ * ARIA roles of page chrome.
+ */
+const CHROME_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'menu', 'menubar']);
+
+/**
+ * Heading elements.
+ */
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/**
+ * Elements that do not separate words in a heading.
+ */
+const INLINE_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'cite',
+  'code',
+  'em',
+  'i',
+  'mark',
+  'q',
+  's',
+  'small',
+  'strong',
+  'sub',
+  'sup',
+  'u',
+  'wbr',
+]);
+
+/**
+ * Minimum number of blocks for a group to count as a listing.
+ */
+const MIN_BLOCKS = 2;
+
+/**
+ * Build feed items from the largest group of repeated sibling blocks.
+ *
+ * @remarks
+ * Starts from the headings of the page: every ancestor of a heading is a
+ * possible teaser block, grouped with its siblings of the same tag and
+ * classes, so the work grows with the number of headings rather than
+ * with the size of the page.
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Base URL for resolving links and images
+ * @returns Candidate with at least two items, or null
+ */
+export function feedFromBlocks(doc: Document, baseUrl: string): HtmlFeedCandidate | null {
+  const root = doc.querySelector('body') ?? doc.documentElement;
+  if (!root) {
+    return null;
+  }
+
+  let best: FeedItem[] = [];
+  for (const group of collectGroups(root)) {
+    if (group.length < MIN_BLOCKS || group.length <= best.length) {
+      continue;
+    }
+    const items = dedupe(
+      group
+        .map(({ block, heading }) => readBlock(block, heading, baseUrl))
+        .filter((item) => item !== null),
+    );
+    if (items.length >= MIN_BLOCKS && items.length > best.length) {
+      best = items;
+    }
+  }
+
+  if (best.length === 0) {
+    return null;
+  }
+  return { strategy: 'blocks', items: best };
+}
+
+/**
+ * A possible teaser block and its first heading.
+ */
+interface Block {
+  block: Element;
+  heading: Element;
+}
+
+/**
+ * Group the blocks around each heading by parent, tag name and classes.
+ *
+ * @remarks
+ * Headings in page chrome are skipped. Each block keeps its first heading,
+ * and blocks within a group stay in document order.
+ */
+function collectGroups(root: Element): Block[][] {
+  const groups = new Map<Element, Map<string, Block[]>>();
+  const seen = new Set<Element>();
+
+  for (const heading of Array.from(root.querySelectorAll(HEADING_SELECTOR))) {
+    const ancestors: Element[] = [];
+    for (let element: Element | null = heading; element && element !== root; ) {
+      ancestors.push(element);
+      element = element.parentElement;
+    }
+    if (isInChrome(ancestors)) {
+      continue;
+    }
+
+    for (const block of ancestors) {
+      // Ancestors of a seen block were visited along with it
+      if (seen.has(block)) {
+        break;
+      }
+      seen.add(block);
+
+      const parent = block.parentElement;
+      if (!parent) {
+        continue;
+      }
+      const signature = getSignature(block);
+      let siblings = groups.get(parent);
+      if (!siblings) {
+        siblings = new Map();
+        groups.set(parent, siblings);
+      }
+      const group = siblings.get(signature);
+      if (group) {
+        group.push({ block, heading });
+      } else {
+        siblings.set(signature, [{ block, heading }]);
+      }
+    }
+  }
+
+  return Array.from(groups.values()).flatMap((siblings) => Array.from(siblings.values()));
+}
+
+/**
+ * Check whether a heading (given with its ancestors) sits in page chrome.
+ *
+ * @remarks
+ * A `<header>` counts as chrome unless it belongs to an `<article>`.
+ * Tags and roles are compared directly: selector matching on every
+ * ancestor of every heading is slow on large pages.
+ */
+function isInChrome(ancestors: Element[]): boolean {
+  let header = -1;
+  let article = -1;
+  for (const [index, element] of ancestors.entries()) {
+    const tag = element.tagName.toLowerCase();
+    if (CHROME_TAGS.has(tag) || CHROME_ROLES.has(element.getAttribute('role') ?? '')) {
+      return true;
+    }
+    if (tag === 'header') header = index;
+    if (tag === 'article') article = index;
+  }
+  return header > article;
+}
+
+/**
+ * Tag name and sorted classes of an element.
+ */
+function getSignature(element: Element): string {
+  const classes = (element.getAttribute('class') ?? '').trim().split(/\s+/).filter(Boolean).sort();
+  return [element.tagName.toLowerCase(), ...classes].join('.');
+}
+
+/**
+ * Read a teaser block, or null if its heading is not linked or it does not
+ * look like an article.
+ */
+function readBlock(block: Element, heading: Element, baseUrl: string): FeedItem | null {
+  // The block is (or wraps) an <article> element
+  const article = heading.closest('article');
+  const isArticle = article !== null && block.contains(article);
+
+  // Card layouts link the whole article with an overlay link next to the heading
+  const link =
+    heading.querySelector('a[href]') ??
+    heading.closest('a[href]') ??
+    (isArticle ? article.querySelector('a[href]') : null);
+  if (!link || !block.contains(link)) {
+    return null;
+  }
+
+  const href = link.getAttribute('href') ?? '';
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href)) {
+    return null;
+  }
+
+  const url = normalizeUrl(baseUrl, href);
+  const title = headingText(heading);
+  if (!url || !title) {
+    return null;
+  }
+
+  const item: FeedItem = { id: url, url, title };
+
+  const time = block.querySelector('time[datetime]');
+  const published = toIsoDate(time?.getAttribute('datetime'));
+  if (published) {
+    item.published = published;
+  }
+
+  const summary = Array.from(block.querySelectorAll('p'))
+    .filter((paragraph) => !paragraph.contains(heading) && !heading.contains(paragraph))
+    .map((paragraph) => collapse(paragraph.textContent))
+    .find((text) => text.length > 0 && text !== title);
+  if (summary) {
+    item.summary = summary;
+  }
+
+  const image = block.querySelector('img');
+  const src = image?.getAttribute('src') || image?.getAttribute('data-src');
+  if (src && !src.startsWith('data:')) {
+    item.image = normalizeUrl(baseUrl, src);
+  }
+
+  return isFeedEntry(item, isArticle) ? item : null;
+}
+
+/**
+ * Drop items whose URL was already seen.
+ */
+function dedupe(items: FeedItem[]): FeedItem[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    if (seen.has(item.id)) {
+      return false;
+    }
+    seen.add(item.id);
+    return true;
+  });
+}
+
+/**
+ * Read a heading's text, keeping kickers and titles in separate elements
+ * apart (`<div>Sport</div><div>Title</div>` reads as "Sport Title").
+ */
+function headingText(heading: Element): string {
+  const parts: string[] = [];
+  const visit = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === 3) {
+        parts.push(child.textContent ?? '');
+      } else if (child.nodeType === 1) {
+        const separate = !INLINE_TAGS.has((child as Element).tagName.toLowerCase());
+        if (separate) parts.push(' ');
+        visit(child);
+        if (separate) parts.push(' ');
+      }
+    }
+  };
+  visit(heading);
+  return collapse(parts.join('')).replace(/ ([:,.;!?])/g, '$1');
+}
+
+/**
+ * Collapse whitespace and trim.
+ */
+function collapse(text: string | null | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
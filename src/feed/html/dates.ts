@@ -0,0 +1,33 @@
+/**
+ * Date normalization for synthesized feeds.
+ *
+ * @packageDocumentation
+ */
+
+import { parseRFC3339Date } from '../atom/parse-date.js';
+
+/**
+ * Normalize an HTML date/time value to ISO 8601.
+ *
+ * @remarks
+ * Accepts the space-separated form used by microformats and `<time datetime>`
+ * (`2024-05-01 10:00`, also with a `-0600` style offset) as well as full
+ * RFC 3339 timestamps.
+ *
+ * @param value - Date/time as written in the page
+ * @returns ISO 8601 string, or undefined if the value is not a date
+ */
+export function toIsoDate(value: string | null | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value
+    .trim()
+    .replace(/^(\d{4}-\d{2}-\d{2})\s+(?=\d)/, '$1T')
+    .replace(/(T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*([+-]\d{2}):?(\d{2})$/, '$1$2:$3')
+    .replace(/(T[\d:.]+)\s+Z$/i, '$1Z');
+  if (!/^\d{4}-\d{2}/.test(trimmed)) {
+    return undefined;
+  }
+  return parseRFC3339Date(trimmed) ?? undefined;
+}
@@ -0,0 +1,11 @@
+/**
+ * HTML feed synthesis module.
+ *
+ * @remarks
+ * Builds a normalized feed from an HTML listing page (blog index, news
+ * section, archive) using microformats2, Schema.org or repeated blocks.
+ *
+ * @packageDocumentation
+ */
+
+export { synthesizeFeed } from './synthesize.js';
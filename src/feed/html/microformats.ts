@@ -0,0 +1,195 @@
+/**
+ * Feed items from microformats2 h-feed / h-entry markup.
+ *
+ * @packageDocumentation
+ */
+
+import { extractMicroformats } from '../../metadata/microformats/extract.js';
+import type { MicroformatItem, MicroformatValue } from '../../metadata/microformats/types.js';
+import type { FeedAuthor, FeedItem } from '../types.js';
+import { toIsoDate } from './dates.js';
+import { isFeedEntry } from './signals.js';
+import type { HtmlFeedCandidate } from './types.js';
+
+/**
+ * Build feed items from the first h-feed, or from top-level h-entry items.
+ *
+ * @remarks
+ * Entries without a title are skipped.
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Page URL
+ * @returns Candidate with at least one item, or null
+ */
+export function feedFromMicroformats(doc: Document, baseUrl: string): HtmlFeedCandidate | null {
+  // Full extraction is costly on large pages, skip it when there is nothing to find
+  if (!doc.querySelector('.h-entry')) {
+    return null;
+  }
+
+  const { items } = extractMicroformats(doc, baseUrl);
+
+  const hFeed = findItem(items, 'h-feed');
+  const entries = hFeed
+    ? [...(hFeed.children ?? []), ...propertyItems(hFeed.properties.entry)].filter(isEntry)
+    : items.filter(isEntry);
+
+  // Untitled entries (notes, likes) make no sense as feed items here
+  const feedItems = entries
+    .map((entry, index) => toFeedItem(entry, index))
+    .filter((item) => isFeedEntry(item, true));
+  if (feedItems.length === 0) {
+    return null;
+  }
+
+  const candidate: HtmlFeedCandidate = {
+    strategy: 'microformats',
+    items: feedItems,
+  };
+  if (hFeed) {
+    candidate.title = firstText(hFeed.properties.name);
+    candidate.description = firstText(hFeed.properties.summary);
+    candidate.image = firstText(hFeed.properties.photo);
+    const authors = toAuthors(hFeed.properties.author);
+    if (authors.length > 0) {
+      candidate.authors = authors;
+    }
+  }
+  return candidate;
+}
+
+/**
+ * Find the first item of a type (depth-first through children).
+ */
+function findItem(items: MicroformatItem[], type: string): MicroformatItem | undefined {
+  for (const item of items) {
+    if (item.type.includes(type)) {
+      return item;
+    }
+    const nested = findItem(item.children ?? [], type);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an item is an h-entry.
+ */
+function isEntry(item: MicroformatItem): boolean {
+  return item.type.includes('h-entry');
+}
+
+/**
+ * Get the nested items of a property.
+ */
+function propertyItems(values: MicroformatValue[] | undefined): MicroformatItem[] {
+  return (values ?? []).filter(
+    (value): value is MicroformatItem => typeof value === 'object' && 'type' in value,
+  );
+}
+
+/**
+ * Convert an h-entry to a feed item.
+ */
+function toFeedItem(entry: MicroformatItem, index: number): FeedItem {
+  const { properties } = entry;
+  const url = firstText(properties.url);
+  const content = properties.content?.[0];
+
+  const item: FeedItem = {
+    id: firstText(properties.uid) ?? url ?? `entry-${index}`,
+    url,
+    title: firstText(properties.name),
+    summary: firstText(properties.summary),
+    published: toIsoDate(firstText(properties.published)),
+    modified: toIsoDate(firstText(properties.updated)),
+    image: firstText(properties.photo) ?? firstText(properties.featured),
+  };
+
+  if (content && typeof content === 'object') {
+    if ('html' in content && content.html !== undefined) {
+      item.contentHtml = content.html;
+    }
+    if (typeof content.value === 'string') {
+      item.contentText = content.value;
+    }
+  } else if (typeof content === 'string') {
+    item.contentText = content;
+  }
+
+  // A name that merely repeats the content is not a title (notes, likes)
+  if (item.title && item.contentText && item.title === item.contentText) {
+    item.title = undefined;
+  }
+
+  const authors = toAuthors(properties.author);
+  if (authors.length > 0) {
+    item.authors = authors;
+  }
+
+  const tags = (properties.category ?? []).map(valueText).filter((tag): tag is string => !!tag);
+  if (tags.length > 0) {
+    item.tags = tags;
+  }
+
+  return removeUndefined(item);
+}
+
+/**
+ * Convert author values (h-card, URL or name) to feed authors.
+ */
+function toAuthors(values: MicroformatValue[] | undefined): FeedAuthor[] {
+  const authors: FeedAuthor[] = [];
+  for (const value of values ?? []) {
+    if (typeof value === 'string') {
+      authors.push(/^https?:\/\//i.test(value) ? { url: value } : { name: value });
+    } else if ('type' in value) {
+      const author: FeedAuthor = {};
+      const name = firstText(value.properties.name);
+      const url = firstText(value.properties.url);
+      const email = firstText(value.properties.email);
+      if (name) author.name = name;
+      if (url) author.url = url;
+      if (email) author.email = email.replace(/^mailto:/i, '');
+      authors.push(author);
+    }
+  }
+  return authors;
+}
+
+/**
+ * Get the text of a property value.
+ */
+function valueText(value: MicroformatValue | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (typeof value.value === 'string') {
+    return value.value.trim() || undefined;
+  }
+  return value.value?.value;
+}
+
+/**
+ * Get the first value of a property as text (images and items yield their URL or name).
+ */
+function firstText(values: MicroformatValue[] | undefined): string | undefined {
+  return valueText(values?.[0]);
+}
+
+/**
+ * Drop undefined fields so items compare cleanly.
+ */
+function removeUndefined(item: FeedItem): FeedItem {
+  for (const key of Object.keys(item) as (keyof FeedItem)[]) {
+    if (item[key] === undefined) {
+      delete item[key];
+    }
+  }
+  return item;
+}
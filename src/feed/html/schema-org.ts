@@ -0,0 +1,292 @@
+/**
+ * Feed items from Schema.org collections (JSON-LD, microdata, RDFa).
+ *
+ * @packageDocumentation
+ */
+
+import { extractSchemaOrg } from '../../metadata/schema-org/extract.js';
+import { extractGraphItems, matchesAnyType } from '../../metadata/schema-org/parse-json-ld.js';
+import { normalizeUrl } from '../../utils/normalize-url.js';
+import type { FeedAuthor, FeedItem } from '../types.js';
+import { toIsoDate } from './dates.js';
+import { isFeedEntry } from './signals.js';
+import type { HtmlFeedCandidate } from './types.js';
+
+/**
+ * Schema.org types treated as feed entries.
+ */
+const ARTICLE_TYPES = [
+  'Article',
+  'BlogPosting',
+  'NewsArticle',
+  'TechArticle',
+  'Report',
+  'ScholarlyArticle',
+  'SocialMediaPosting',
+  'LiveBlogPosting',
+];
+
+/**
+ * Schema.org types whose members form a listing.
+ */
+const COLLECTION_TYPES = ['ItemList', 'Blog', 'CollectionPage'];
+
+/**
+ * Properties that hold the members of a collection.
+ */
+const MEMBER_PROPERTIES = ['itemListElement', 'blogPost', 'blogPosts', 'hasPart', 'mainEntity'];
+
+type SchemaObject = Record<string, unknown>;
+
+/**
+ * Build feed items from a Schema.org collection.
+ *
+ * @remarks
+ * Prefers the largest ItemList, Blog or CollectionPage (including ones nested
+ * as `mainEntity`); falls back to two or more top-level articles when there
+ * is no collection or none of its members qualifies as an entry.
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Page URL
+ * @returns Candidate with at least one item, or null
+ */
+export function feedFromSchemaOrg(doc: Document, baseUrl: string): HtmlFeedCandidate | null {
+  const schema = extractSchemaOrg(doc, baseUrl);
+  const blocks = [...schema.jsonLd, ...(schema.microdata ?? []), ...(schema.rdfa ?? [])];
+  const roots = blocks.flatMap((block) => extractGraphItems(block.parsed)).filter(isObject);
+
+  let best: { collection: SchemaObject; members: SchemaObject[] } | null = null;
+  for (const collection of findCollections(roots)) {
+    const members = getMembers(collection);
+    if (members.length > 0 && (!best || members.length > best.members.length)) {
+      best = { collection, members };
+    }
+  }
+
+  if (best) {
+    const candidate: HtmlFeedCandidate = {
+      strategy: 'schema-org',
+      items: toFeedItems(best.members, baseUrl),
+    };
+    const title = text(best.collection.name) ?? text(best.collection.headline);
+    const description = text(best.collection.description);
+    if (title) candidate.title = title;
+    if (description) candidate.description = description;
+    if (candidate.items.length > 0) {
+      return candidate;
+    }
+  }
+
+  const articles = roots.filter((item) => matchesAnyType(item, ARTICLE_TYPES));
+  if (articles.length < 2) {
+    return null;
+  }
+  const items = toFeedItems(articles, baseUrl);
+  return items.length > 0 ? { strategy: 'schema-org', items } : null;
+}
+
+/**
+ * Find collection objects, including ones nested in `mainEntity`.
+ */
+function findCollections(roots: SchemaObject[]): SchemaObject[] {
+  const collections: SchemaObject[] = [];
+  const visit = (item: SchemaObject, depth: number) => {
+    if (matchesAnyType(item, COLLECTION_TYPES)) {
+      collections.push(item);
+    }
+    if (depth < 3) {
+      for (const nested of toArray(item.mainEntity).filter(isObject)) {
+        visit(nested, depth + 1);
+      }
+    }
+  };
+  for (const root of roots) {
+    visit(root, 0);
+  }
+  return collections;
+}
+
+/**
+ * Get the article-like members of a collection.
+ *
+ * @remarks
+ * Unwraps `ListItem` wrappers; a ListItem that only carries a URL becomes a
+ * minimal entry with that URL and its `name`.
+ */
+function getMembers(collection: SchemaObject): SchemaObject[] {
+  const members: SchemaObject[] = [];
+  for (const property of MEMBER_PROPERTIES) {
+    for (const value of toArray(collection[property])) {
+      const member = unwrapListItem(value);
+      if (member && !matchesAnyType(member, COLLECTION_TYPES)) {
+        members.push(member);
+      }
+    }
+    if (members.length > 0) {
+      break;
+    }
+  }
+  return sortByPosition(members);
+}
+
+/**
+ * Unwrap a ListItem (or plain URL) to the thing it lists.
+ */
+function unwrapListItem(value: unknown): SchemaObject | null {
+  if (typeof value === 'string') {
+    return { url: value };
+  }
+  if (!isObject(value)) {
+    return null;
+  }
+  if (!matchesAnyType(value, ['ListItem'])) {
+    return value;
+  }
+
+  const { item } = value;
+  if (isObject(item)) {
+    return { position: value.position, ...item };
+  }
+  const url = typeof item === 'string' ? item : value.url;
+  if (typeof url !== 'string') {
+    return null;
+  }
+  return { position: value.position, url, name: value.name };
+}
+
+/**
+ * Sort members by `position` if every member has one.
+ */
+function sortByPosition(members: SchemaObject[]): SchemaObject[] {
+  const positions = members.map((member) => Number(toArray(member.position)[0]));
+  if (positions.some((position) => Number.isNaN(position))) {
+    return members;
+  }
+  return members
+    .map((member, index) => ({ member, position: positions[index] }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ member }) => member);
+}
+
+/**
+ * Convert collection members to feed items, dropping duplicates by URL.
+ *
+ * @remarks
+ * Members need a title, and unless typed as an article, a date or an
+ * article-like URL (plain URL lists are often navigation).
+ */
+function toFeedItems(members: SchemaObject[], baseUrl: string): FeedItem[] {
+  const items: FeedItem[] = [];
+  const seen = new Set<string>();
+
+  members.forEach((member, index) => {
+    const url = resolve(text(member.url) ?? text(member['@id']), baseUrl);
+    const title = text(member.headline) ?? text(member.name);
+    if (!url && !title) {
+      return;
+    }
+    if (url) {
+      if (seen.has(url)) return;
+      seen.add(url);
+    }
+
+    const item: FeedItem = { id: url ?? `item-${index}` };
+    if (title) item.title = title;
+    if (url) item.url = url;
+
+    const summary = text(member.description) ?? text(member.abstract);
+    const published = toIsoDate(text(member.datePublished) ?? text(member.dateCreated));
+    const modified = toIsoDate(text(member.dateModified));
+    const image = resolve(imageUrl(member.image) ?? imageUrl(member.thumbnailUrl), baseUrl);
+    const authors = toAuthors(member.author, baseUrl);
+    const tags = toArray(member.keywords)
+      .flatMap((value) => (typeof value === 'string' ? value.split(',') : []))
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
+    if (summary) item.summary = summary;
+    if (published) item.published = published;
+    if (modified) item.modified = modified;
+    if (image) item.image = image;
+    if (authors.length > 0) item.authors = authors;
+    if (tags.length > 0) item.tags = tags;
+
+    if (isFeedEntry(item, matchesAnyType(member, ARTICLE_TYPES))) {
+      items.push(item);
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Convert `author` values (Person/Organization or names) to feed authors.
+ */
+function toAuthors(value: unknown, baseUrl: string): FeedAuthor[] {
+  const authors: FeedAuthor[] = [];
+  for (const entry of toArray(value)) {
+    if (typeof entry === 'string' && entry.trim()) {
+      authors.push({ name: entry.trim() });
+    } else if (isObject(entry)) {
+      const author: FeedAuthor = {};
+      const name = text(entry.name);
+      const url = resolve(text(entry.url), baseUrl);
+      if (name) author.name = name;
+      if (url) author.url = url;
+      if (name || url) authors.push(author);
+    }
+  }
+  return authors;
+}
+
+/**
+ * Get an image URL from a string, ImageObject or array of either.
+ */
+function imageUrl(value: unknown): string | undefined {
+  const [first] = toArray(value);
+  if (typeof first === 'string') {
+    return first.trim() || undefined;
+  }
+  if (isObject(first)) {
+    return text(first.url) ?? text(first.contentUrl);
+  }
+  return undefined;
+}
+
+/**
+ * Get the first string value of a property (or the `@value` of a literal).
+ */
+function text(value: unknown): string | undefined {
+  const [first] = toArray(value);
+  if (typeof first === 'string') {
+    return first.trim() || undefined;
+  }
+  if (typeof first === 'number') {
+    return String(first);
+  }
+  if (isObject(first)) {
+    return text(first['@value']);
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a possibly relative URL against the page URL.
+ */
+function resolve(url: string | undefined, baseUrl: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  return normalizeUrl(baseUrl, url) || undefined;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is SchemaObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,64 @@
+/**
+ * Article signals for synthesized feed items.
+ *
+ * @remarks
+ * Listing pages link to far more than their entries: sections, tags, login,
+ * partner sites. An item is only kept when it has a title and something that
+ * marks it as an article - a publication date, article markup, or a URL
+ * shaped like an article permalink.
+ *
+ * @packageDocumentation
+ */
+
+import type { FeedItem } from '../types.js';
+
+/**
+ * Date in the path (`/2024/05/`, `/2024-05-01-`).
+ */
+const DATED_PATH = /\/(?:19|20)\d{2}[/-](?:0?[1-9]|1[0-2])(?:[/-]|$)/;
+
+/**
+ * Numeric article ID (`-id30153219.html`, `-110793491.html`, `/12345`).
+ */
+const NUMERIC_ID = /(?:^|[^a-z0-9])(?:id)?\d{5,}(?:$|[^a-z0-9])/i;
+
+/**
+ * Slug of at least three words (`why-netnewswire-is-not-web-app`).
+ */
+const WORD_SLUG = /[a-zÀ-ɏ\d]+(?:[-_][a-zÀ-ɏ\d]+){2,}/i;
+
+/**
+ * Check whether a URL looks like an article permalink rather than a section.
+ *
+ * @param url - Absolute item URL
+ * @returns True for dated paths, numeric IDs and multi-word slugs
+ */
+export function isArticleUrl(url: string | undefined): boolean {
+  if (!url) {
+    return false;
+  }
+
+  let path: string;
+  try {
+    path = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+
+  const slug = path.split('/').filter(Boolean).pop() ?? '';
+  return DATED_PATH.test(path) || NUMERIC_ID.test(slug) || WORD_SLUG.test(slug);
+}
+
+/**
+ * Check whether an item qualifies as a feed entry.
+ *
+ * @param item - Candidate item
+ * @param isArticle - Whether the markup already marks it as an article
+ * @returns True if the item has a title and a date, article markup or article URL
+ */
+export function isFeedEntry(item: FeedItem, isArticle = false): boolean {
+  if (!item.title) {
+    return false;
+  }
+  return isArticle || item.published !== undefined || isArticleUrl(item.url);
+}
@@ -0,0 +1,128 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { getCache, getHomepage } from '../../test-helpers.js';
+import { synthesizeFeed } from './synthesize.js';
+
+/**
+ * Synthesize the feed of a cached homepage.
+ */
+function synthesizeHomepage(domain: string) {
+  const homepage = getHomepage(domain);
+  assert.ok(homepage, `Should find ${domain} homepage`);
+  return synthesizeFeed(homepage.content, `https://${domain}/`);
+}
+
+describe('synthesizeFeed Integration Tests - Real World Homepages', () => {
+  it('should only return titled items with a URL', () => {
+    for (const homepage of getCache().getAllHomepages()) {
+      const domain = homepage.relativePath.split('/')[0];
+      for (const item of synthesizeHomepage(domain).items) {
+        assert.ok(item.title, `${domain}: ${item.url} should have a title`);
+        assert.ok(item.url, `${domain}: ${item.title} should have a URL`);
+      }
+    }
+  });
+
+  it('should skip navigation and section links on news homepages', () => {
+    const sections = [
+      'https://lto.de/recht/hintergruende',
+      'https://lto.de/justiz',
+      'https://rnd.de/politik',
+      'https://rnd.de/sport/',
+      'https://www.rnd.de/netzwerk/',
+      'https://www.sueddeutsche.de/meinung',
+      'https://www.sueddeutsche.de/bayern',
+      'https://adventskalender.sueddeutsche.de/',
+    ];
+
+    for (const domain of ['lto.de', 'rnd.de', 'sueddeutsche.de']) {
+      const urls = synthesizeHomepage(domain).items.map((item) => item.url);
+      assert.ok(urls.length > 0, `${domain}: should find articles`);
+      for (const section of sections) {
+        assert.ok(!urls.includes(section), `${domain}: should skip ${section}`);
+      }
+    }
+  });
+
+  it('should find the teasers of lto.de', () => {
+    const feed = synthesizeHomepage('lto.de');
+
+    assert.deepEqual(
+      feed.items.map((item) => item.url),
+      [
+        'https://lto.de/recht/hintergruende/h/dritter-vernehmungstag-des-kronzeugen-im-block-prozess',
+        'https://lto.de/recht/presseschau/p/presseschau-2025-12-17-trump-bbc-lieferkettengesetz-abgeschwaecht-egmr-vorlage-eugh',
+        'https://www.lto.de/karriere/jura-studium/stories/detail/jurastudium-foedert-geschlechterklischees-analyse-jurafuchs',
+        'https://lto.de/recht/nachrichten/n/lg-berlin-ii-61o6024kart-bestpreis-klausel-booking-schadensersatz',
+        'https://lto.de/recht/nachrichten/n/reform-buergergeld-grundsicherung',
+      ],
+    );
+  });
+
+  it('should find the teasers of rnd.de', () => {
+    const feed = synthesizeHomepage('rnd.de');
+
+    assert.equal(feed.items.length, 10);
+    assert.equal(feed.items[0].title, 'WM-Auslosung: Der Liveblog zum Nachlesen');
+    assert.equal(
+      feed.items[0].url,
+      'https://rnd.de/sport/wm-auslosung-am-freitagabend-skurille-show-in-washington-d-c-der-liveticker-zum-nachlesen-YT35CNY7SNCGTDPWXR6NTMRCX4.html',
+    );
+  });
+
+  it('should find the card teasers of sueddeutsche.de', () => {
+    const feed = synthesizeHomepage('sueddeutsche.de');
+
+    assert.equal(feed.items.length, 36);
+    assert.equal(feed.items[1].title, 'USA: Trump Is Making the Same Mistake as Biden');
+    assert.equal(
+      feed.items[1].url,
+      'https://www.sueddeutsche.de/projekte/artikel/politik/trump-is-making-the-same-mistake-as-biden-e574898/',
+    );
+  });
+
+  it('should fall back from untitled Schema.org entries on faz.net', () => {
+    const feed = synthesizeHomepage('faz.net');
+
+    assert.equal(feed.items.length, 11);
+    assert.equal(
+      feed.items[0].title,
+      'Technologischer Fortschritt: Deutschland entdeckt die Langsamkeit',
+    );
+    assert.equal(
+      feed.items[0].url,
+      'https://www.faz.net/aktuell/wirtschaft/deutschland-entdeckt-die-langsamkeit-110801957.html',
+    );
+  });
+
+  it('should keep kickers and titles apart on n-tv.de', () => {
+    const feed = synthesizeHomepage('n-tv.de');
+
+    assert.equal(feed.items.length, 20);
+    assert.equal(
+      feed.items[0].title,
+      'Hamburg & Schleswig-Holstein THW Kiel muss bis Saisonende auf Emil Madsen verzichten',
+    );
+  });
+
+  it('should return the posts of blogs and tech sites', () => {
+    const techcrunch = synthesizeHomepage('techcrunch.com');
+    assert.equal(techcrunch.items.length, 7);
+    assert.ok(techcrunch.items.every((item) => item.published));
+
+    assert.deepEqual(
+      synthesizeHomepage('react.dev').items.map((item) => item.title),
+      [
+        'Additional Vulnerabilities in RSC',
+        'Vulnerability in React Server Components',
+        'React Conf 2025 Recap',
+      ],
+    );
+    assert.equal(synthesizeHomepage('inessential.com').items.length, 8);
+    assert.equal(synthesizeHomepage('daringfireball.net').items.length, 6);
+  });
+
+  it('should return no items for untitled microblog notes on manton.org', () => {
+    assert.deepEqual(synthesizeHomepage('www.manton.org').items, []);
+  });
+});
@@ -0,0 +1,357 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { synthesizeFeed } from './synthesize.js';
+
+describe('synthesizeFeed', () => {
+  describe('microformats', () => {
+    it('should map h-feed entries to feed items', () => {
+      const html = `
+        <html lang="en"><head><title>Page Title</title></head><body>
+        <div class="h-feed">
+          <h1 class="p-name">Notes from Ada</h1>
+          <p class="p-summary">Occasional writing</p>
+          <article class="h-entry">
+            <h2><a class="p-name u-url" href="/posts/engines">On Engines</a></h2>
+            <time class="dt-published" datetime="2024-05-01 10:00:00Z">May 1</time>
+            <p class="p-summary">Thoughts on the analytical engine.</p>
+            <img class="u-photo" src="/img/engine.jpg" alt="Engine">
+            <a class="p-category" href="/tags/math">math</a>
+            <a class="p-author h-card" href="https://ada.example">Ada</a>
+          </article>
+          <article class="h-entry">
+            <a class="u-url" href="/notes/1"></a>
+            <div class="e-content p-name">Just a <b>note</b></div>
+          </article>
+        </div>
+        </body></html>
+      `;
+
+      const feed = synthesizeFeed(html, 'https://blog.example/');
+
+      assert.equal(feed.format, 'html');
+      assert.equal(feed.title, 'Notes from Ada');
+      assert.equal(feed.description, 'Occasional writing');
+      assert.equal(feed.url, 'https://blog.example/');
+      assert.equal(feed.language, 'en');
+      assert.deepEqual(feed.items, [
+        {
+          id: 'https://blog.example/posts/engines',
+          url: 'https://blog.example/posts/engines',
+          title: 'On Engines',
+          summary: 'Thoughts on the analytical engine.',
+          published: '2024-05-01T10:00:00.000Z',
+          image: 'https://blog.example/img/engine.jpg',
+          authors: [{ name: 'Ada', url: 'https://ada.example' }],
+          tags: ['math'],
+        },
+      ]);
+    });
+
+    it('should skip entries without a title', () => {
+      const html = `
+        <div class="h-entry"><div class="e-content"><p>Just a note</p></div><a class="u-url" href="/1"></a></div>
+        <div class="h-entry"><div class="e-content"><p>Another note</p></div><a class="u-url" href="/2"></a></div>
+      `;
+
+      assert.deepEqual(synthesizeFeed(html, 'https://example.com/').items, []);
+    });
+
+    it('should use top-level h-entry items without an h-feed', () => {
+      const html = `
+        <title>Archive</title>
+        <div class="h-entry">
+          <a class="p-name u-url" href="/a">A</a>
+          <time class="dt-published" datetime="2025-12-16 14:41:52 -0600">Dec 16</time>
+        </div>
+        <div class="h-entry"><a class="p-name u-url" href="/b">B</a></div>
+      `;
+
+      const feed = synthesizeFeed(html, 'https://example.com/archive');
+
+      assert.equal(feed.title, 'Archive');
+      assert.deepEqual(
+        feed.items.map(({ title, published }) => ({ title, published })),
+        [
+          { title: 'A', published: '2025-12-16T20:41:52.000Z' },
+          { title: 'B', published: undefined },
+        ],
+      );
+    });
+  });
+
+  describe('schema.org', () => {
+    it('should read ItemList entries from JSON-LD', () => {
+      const html = `
+        <head>
+          <title>News</title>
+          <script type="application/ld+json">
+          {
+            "@context": "https://schema.org",
+            "@type": "CollectionPage",
+            "name": "Latest News",
+            "mainEntity": {
+              "@type": "ItemList",
+              "itemListElement": [
+                { "@type": "ListItem", "position": 2, "url": "/news/2024/05/older", "name": "Older" },
+                {
+                  "@type": "ListItem",
+                  "position": 1,
+                  "item": {
+                    "@type": "NewsArticle",
+                    "headline": "Newest",
+                    "url": "https://example.com/news/newest",
+                    "datePublished": "2024-06-01T08:00:00+02:00",
+                    "description": "Breaking.",
+                    "image": { "@type": "ImageObject", "url": "/img/newest.jpg" },
+                    "author": { "@type": "Person", "name": "Grace" }
+                  }
+                }
+              ]
+            }
+          }
+          </script>
+        </head>
+      `;
+
+      const feed = synthesizeFeed(html, 'https://example.com/news/');
+
+      assert.equal(feed.title, 'News');
+      assert.deepEqual(feed.items, [
+        {
+          id: 'https://example.com/news/newest',
+          title: 'Newest',
+          url: 'https://example.com/news/newest',
+          summary: 'Breaking.',
+          published: '2024-06-01T06:00:00.000Z',
+          image: 'https://example.com/img/newest.jpg',
+          authors: [{ name: 'Grace' }],
+        },
+        {
+          id: 'https://example.com/news/2024/05/older',
+          title: 'Older',
+          url: 'https://example.com/news/2024/05/older',
+        },
+      ]);
+    });
+
+    it('should skip list entries without a title or article signal', () => {
+      const html = `
+        <script type="application/ld+json">
+        {
+          "@type": "ItemList",
+          "itemListElement": [
+            { "@type": "ListItem", "url": "/politics/", "name": "Politics" },
+            { "@type": "ListItem", "url": "/sports/", "name": "Sports" },
+            { "@type": "ListItem", "url": "/news/2024/06/untitled-story" },
+            { "@type": "ListItem", "url": "/news/2024/06/story", "name": "Story" },
+            { "@type": "NewsArticle", "url": "/live", "headline": "Live" }
+          ]
+        }
+        </script>
+      `;
+
+      assert.deepEqual(
+        synthesizeFeed(html, 'https://example.com/').items.map((item) => item.title),
+        ['Story', 'Live'],
+      );
+    });
+
+    it('should fall back to top-level articles when no list entry qualifies', () => {
+      const html = `
+        <script type="application/ld+json">
+        {
+          "@graph": [
+            {
+              "@type": "ItemList",
+              "itemListElement": [
+                { "@type": "ListItem", "url": "/politics/", "name": "Politics" },
+                { "@type": "ListItem", "url": "/sports/", "name": "Sports" }
+              ]
+            },
+            { "@type": "NewsArticle", "headline": "First", "url": "/first" },
+            { "@type": "NewsArticle", "headline": "Second", "url": "/second" }
+          ]
+        }
+        </script>
+      `;
+
+      assert.deepEqual(
+        synthesizeFeed(html, 'https://example.com/').items.map((item) => item.title),
+        ['First', 'Second'],
+      );
+    });
+
+    it('should collect microdata BlogPosting items', () => {
+      const html = `
+        <title>Blog</title>
+        <div itemscope itemtype="https://schema.org/BlogPosting">
+          <h2 itemprop="headline">One</h2><link itemprop="url" href="/one">
+          <time itemprop="datePublished" datetime="2024-01-01">Jan 1</time>
+        </div>
+        <div itemscope itemtype="https://schema.org/BlogPosting">
+          <h2 itemprop="headline">Two</h2><link itemprop="url" href="/two">
+        </div>
+      `;
+
+      const feed = synthesizeFeed(html, 'https://example.com/');
+
+      assert.deepEqual(
+        feed.items.map(({ title, url, published }) => ({ title, url, published })),
+        [
+          { title: 'One', url: 'https://example.com/one', published: '2024-01-01T00:00:00.000Z' },
+          { title: 'Two', url: 'https://example.com/two', published: undefined },
+        ],
+      );
+    });
+
+    it('should ignore a single article page', () => {
+      const html = `
+        <title>Post</title>
+        <script type="application/ld+json">{"@type":"BlogPosting","headline":"Only"}</script>
+      `;
+
+      assert.deepEqual(synthesizeFeed(html, 'https://example.com/post').items, []);
+    });
+  });
+
+  describe('repeated blocks', () => {
+    it('should read teaser blocks with linked headings', () => {
+      const html = `
+        <html><head>
+          <title>Example Blog</title>
+          <meta name="description" content="All the posts">
+          <meta property="og:image" content="/logo.png">
+        </head><body>
+          <nav><ul><li><h3><a href="/">Home</a></h3></li><li><h3><a href="/about">About</a></h3></li></ul></nav>
+          <main>
+            <div class="post card">
+              <a href="/p/1"><img src="/img/1.jpg"></a>
+              <h2><a href="/p/1">First post</a></h2>
+              <time datetime="2024-03-01T12:00:00Z">March 1</time>
+              <p>Intro to the first post.</p>
+            </div>
+            <div class="card post">
+              <h2><a href="/p/second-post-title">Second post</a></h2>
+              <p>Intro to the second post.</p>
+            </div>
+            <div class="card post"><h2>No link here</h2></div>
+            <div class="card post"><h2><a href="/p/1">First post again</a></h2></div>
+          </main>
+        </body></html>
+      `;
+
+      const feed = synthesizeFeed(html, 'https://example.com/blog/');
+
+      assert.equal(feed.title, 'Example Blog');
+      assert.equal(feed.description, 'All the posts');
+      assert.equal(feed.image, 'https://example.com/logo.png');
+      assert.deepEqual(feed.items, [
+        {
+          id: 'https://example.com/p/1',
+          url: 'https://example.com/p/1',
+          title: 'First post',
+          published: '2024-03-01T12:00:00.000Z',
+          summary: 'Intro to the first post.',
+          image: 'https://example.com/img/1.jpg',
+        },
+        {
+          id: 'https://example.com/p/second-post-title',
+          url: 'https://example.com/p/second-post-title',
+          title: 'Second post',
+          summary: 'Intro to the second post.',
+        },
+      ]);
+    });
+
+    it('should skip section links in page headers and without article signals', () => {
+      const html = `
+        <html><body>
+        <header class="site">
+          <div class="menu"><h3><a href="/2024/05/menu-story-one">One</a></h3></div>
+          <div class="menu"><h3><a href="/2024/05/menu-story-two">Two</a></h3></div>
+          <div class="menu"><h3><a href="/2024/05/menu-story-three">Three</a></h3></div>
+        </header>
+        <main>
+          <section class="topic"><header><h2><a href="/politics/2024/05/">Politics</a></h2></header></section>
+          <section class="topic"><header><h2><a href="/sports/2024/05/">Sports</a></h2></header></section>
+          <section class="topic"><header><h2><a href="/culture/2024/05/">Culture</a></h2></header></section>
+          <div class="box"><h2><a href="/weather">Weather</a></h2></div>
+          <div class="box"><h2><a href="/puzzles">Puzzles</a></h2></div>
+          <div class="box"><h2><a href="/podcasts">Podcasts</a></h2></div>
+          <article class="teaser"><header><h2><a href="/a">Alpha</a></h2></header></article>
+          <article class="teaser"><header><h2><a href="/b">Beta</a></h2></header></article>
+        </main>
+        <footer>
+          <div class="col"><h4><a href="/2024/05/footer-story-one">Imprint</a></h4></div>
+          <div class="col"><h4><a href="/2024/05/footer-story-two">Privacy</a></h4></div>
+          <div class="col"><h4><a href="/2024/05/footer-story-three">Jobs</a></h4></div>
+        </footer>
+        </body></html>
+      `;
+
+      assert.deepEqual(
+        synthesizeFeed(html, 'https://example.com/').items.map((item) => item.url),
+        ['https://example.com/a', 'https://example.com/b'],
+      );
+    });
+
+    it('should read card teasers with an overlay link and a kicker', () => {
+      const html = `
+        <html><body>
+        <article class="card">
+          <a href="/world/flood-warning-issued-li.123456" aria-label="Open"></a>
+          <h3><span>World</span><span>:</span><span>Flood warning issued</span></h3>
+        </article>
+        <article class="card">
+          <a href="/sport/final-ends-in-draw-li.123457" aria-label="Open"></a>
+          <h3><div>Sport</div><div>Final ends in a draw</div></h3>
+        </article>
+        </body></html>
+      `;
+
+      assert.deepEqual(
+        synthesizeFeed(html, 'https://example.com/').items.map(({ title, url }) => ({
+          title,
+          url,
+        })),
+        [
+          {
+            title: 'World: Flood warning issued',
+            url: 'https://example.com/world/flood-warning-issued-li.123456',
+          },
+          {
+            title: 'Sport Final ends in a draw',
+            url: 'https://example.com/sport/final-ends-in-draw-li.123457',
+          },
+        ],
+      );
+    });
+
+    it('should return an empty feed for pages without a listing', () => {
+      const feed = synthesizeFeed('<title>About</title><p>Hello</p>', 'https://example.com/about');
+
+      assert.deepEqual(feed, {
+        format: 'html',
+        title: 'About',
+        url: 'https://example.com/about',
+        feedUrl: 'https://example.com/about',
+        items: [],
+      });
+    });
+  });
+
+  it('should prefer microformats over other strategies', () => {
+    const html = `
+      <div class="h-entry"><a class="p-name u-url" href="/mf">Marked up</a></div>
+      <article><h2><a href="/x">X</a></h2></article>
+      <article><h2><a href="/y">Y</a></h2></article>
+    `;
+
+    const feed = synthesizeFeed(html, 'https://example.com/');
+
+    assert.deepEqual(
+      feed.items.map((item) => item.url),
+      ['https://example.com/mf'],
+    );
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Feed synthesis from HTML listing pages.
+ *
+ * @packageDocumentation
+ */
+
+import { getBaseUrl } from '../../utils/base-url.js';
+import { type DocumentInput, ensureDocument } from '../../utils/html-parser.js';
+import { normalizeUrl } from '../../utils/normalize-url.js';
+import type { Feed } from '../types.js';
+import { feedFromBlocks } from './blocks.js';
+import { feedFromMicroformats } from './microformats.js';
+import { feedFromSchemaOrg } from './schema-org.js';
+import type { HtmlFeedCandidate } from './types.js';
+
+/**
+ * Strategies in order of preference (most explicit markup first).
+ */
+const STRATEGIES = [feedFromMicroformats, feedFromSchemaOrg, feedFromBlocks];
+
+/**
+ * Synthesize a normalized feed from an HTML page.
+ *
+ * @remarks
+ * Tries microformats2 h-feed / h-entry markup first, then Schema.org
+ * collections (ItemList, Blog, or several articles), then repeated teaser
+ * blocks with a linked heading. The first strategy that finds items wins.
+ * Items need a title and a date, article markup or an article-like URL, so
+ * section and navigation links are not mistaken for entries.
+ * Feed-level title, description, image and language fall back to the
+ * page's `<title>`, meta description, `og:image` and `<html lang>`.
+ *
+ * Returns a feed with no items if the page has no recognizable listing.
+ *
+ * @param input - Parsed HTML document or raw HTML string
+ * @param baseUrl - Page URL (used for relative links and as `url` and `feedUrl`)
+ * @returns Normalized feed with `format: 'html'`
+ *
+ * @example
+ * ```typescript
+ * const feed = synthesizeFeed(html, 'https://example.com/blog');
+ * console.log(feed.items.map((item) => item.url));
+ * ```
+ */
+export function synthesizeFeed(input: DocumentInput, baseUrl: string | URL): Feed {
+  const doc = ensureDocument(input);
+  const pageUrl = String(baseUrl);
+  const resolveBase = getBaseUrl(doc, pageUrl) ?? pageUrl;
+
+  let candidate: HtmlFeedCandidate | null = null;
+  for (const strategy of STRATEGIES) {
+    candidate = strategy(doc, resolveBase);
+    if (candidate) {
+      break;
+    }
+  }
+
+  const feed: Feed = {
+    format: 'html',
+    title: candidate?.title ?? readTitle(doc) ?? pageUrl,
+    url: pageUrl,
+    feedUrl: pageUrl,
+    items: candidate?.items ?? [],
+  };
+
+  const description = candidate?.description ?? readMeta(doc, ['description', 'og:description']);
+  const image = candidate?.image ?? readMeta(doc, ['og:image', 'twitter:image']);
+  const language = doc.documentElement?.getAttribute('lang')?.trim();
+
+  if (description) feed.description = description;
+  if (image) feed.image = normalizeUrl(resolveBase, image);
+  if (language) feed.language = language;
+  if (candidate?.authors) feed.authors = candidate.authors;
+
+  return feed;
+}
+
+/**
+ * Read the page title (`og:site_name` is deliberately not preferred: listing
+ * pages often have a more specific `<title>`).
+ */
+function readTitle(doc: Document): string | undefined {
+  const title = doc.querySelector('title')?.textContent?.replace(/\s+/g, ' ').trim();
+  return title || readMeta(doc, ['og:title', 'og:site_name']);
+}
+
+/**
+ * Read the first non-empty `<meta>` content by name or property.
+ */
+function readMeta(doc: Document, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const content = doc
+      .querySelector(`meta[name="${key}"], meta[property="${key}"]`)
+      ?.getAttribute('content')
+      ?.trim();
+    if (content) {
+      return content;
+    }
+  }
+  return undefined;
+}
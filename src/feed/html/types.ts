@@ -0,0 +1,35 @@
+/**
+ * HTML feed synthesis types.
+ *
+ * @packageDocumentation
+ */
+
+import type { FeedAuthor, FeedItem } from '../types.js';
+
+/**
+ * Strategy used to synthesize a feed from an HTML page.
+ *
+ * @remarks
+ * - `'microformats'` - mf2 h-feed / h-entry markup
+ * - `'schema-org'` - Schema.org ItemList, Blog or article collections
+ * - `'blocks'` - Repeated teaser blocks (heading link, date, summary, image)
+ */
+export type HtmlFeedStrategy = 'microformats' | 'schema-org' | 'blocks';
+
+/**
+ * Items (and optional feed-level data) found by one strategy.
+ */
+export interface HtmlFeedCandidate {
+  /** Strategy that found the items */
+  strategy: HtmlFeedStrategy;
+  /** Feed title, if the markup declares one */
+  title?: string;
+  /** Feed description, if the markup declares one */
+  description?: string;
+  /** Feed image, if the markup declares one */
+  image?: string;
+  /** Feed-level authors, if the markup declares them */
+  authors?: FeedAuthor[];
+  /** Feed items */
+  items: FeedItem[];
+}
@@ -2,12 +2,15 @@
  * Feed Parser Module
  *
  * @remarks
- * Universal feed parser supporting RSS 2.0, Atom 1.0, and JSON Feed 1.0/1.1.
+ * Universal feed parser supporting RSS 2.0, RSS 1.0 (RDF), Atom 1.0, and JSON Feed 1.0/1.1.
  * Provides automatic format detection, URL normalization, and a unified output format.
  *
  * Main API:
  * - {@link parseFeed} - Auto-detect and parse any feed format
  * - {@link detectFormat} - Detect feed format without parsing
+ * - {@link serializeFeed} - Write a feed as RSS, Atom, or JSON Feed
+ * - {@link parseOPML} / {@link serializeOPML} - Read and write OPML subscription lists
+ * - {@link synthesizeFeed} - Build a feed from an HTML listing page
  * - {@link normalizeUrl} - Resolve relative URLs to absolute
  *
  * Format-specific parsers available for advanced use cases.
@@ -23,24 +26,61 @@ export {
   type FeedFormat,
   isAtom,
   isFeed,
+  isHTML,
   isJSONFeed,
+  isOPMLFormat,
+  isRDF,
   isRSS,
   isSitemapFormat,
 } from './detect.js';
+// HTML listing pages
+export { synthesizeFeed } from './html/index.js';
 export { parseJSONFeed } from './json-feed/index.js';
 export type {
   JSONFeed as JSONFeedType,
   JSONFeedDocument,
   JSONFeedItem,
 } from './json-feed/types.js';
+export type {
+  MediaContent,
+  MediaCredit,
+  MediaGroup,
+  MediaPlayer,
+  MediaRss,
+  MediaThumbnail,
+} from './media/index.js';
+// Media RSS (shared by RSS and Atom)
+export { extractMedia, selectMediaContents, selectMediaImage } from './media/index.js';
 // Normalization utilities (advanced use)
-export { normalizeAtom, normalizeJSONFeed, normalizeRSS } from './normalize.js';
+export { normalizeAtom, normalizeJSONFeed, normalizeRDF, normalizeRSS } from './normalize.js';
+// OPML subscription lists
+export {
+  flattenOPML,
+  isOPML,
+  type OpmlDocument,
+  type OpmlEntry,
+  type OpmlHead,
+  type OpmlOutline,
+  type OpmlSubscription,
+  parseOPML,
+  serializeOPML,
+} from './opml/index.js';
 // Main unified API
 export { parseFeed, parseFeedAs, parseFeedNormalized } from './parse.js';
 // Format-specific parsers (advanced use)
+export { parseRDF } from './rdf/index.js';
+export type { RdfChannel, RdfDublinCore, RdfFeed, RdfItem, RdfSyndication } from './rdf/types.js';
 export { parseRSS } from './rss/index.js';
 // Format-specific types (advanced use)
-export type { RssChannel, RssFeedExtended, RssItem } from './rss/types.js';
+export type {
+  RssChannel,
+  RssFeedExtended,
+  RssItem,
+  RssItunes,
+  RssPodcast,
+} from './rss/types.js';
+// Serialization
+export { type SerializeFormat, serializeFeed } from './serialize/index.js';
 // Sitemap parser
 export { isSitemap, parseSitemap } from './sitemap/index.js';
 export type {
@@ -53,4 +93,14 @@ export type {
   SitemapVideo,
 } from './sitemap/types.js';
 // Normalized types (recommended for most use cases)
-export type { Feed, FeedAuthor, FeedEnclosure, FeedItem, ParseResult } from './types.js';
+export type {
+  Feed,
+  FeedAuthor,
+  FeedEnclosure,
+  FeedItem,
+  FeedItemPodcast,
+  FeedPodcast,
+  FeedPodcastPerson,
+  FeedPodcastValue,
+  ParseResult,
+} from './types.js';
@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseAtom } from '../atom/parse.js';
+import { parseFeed } from '../parse.js';
+import { parseRSSXML } from '../rss/xml-parser.js';
+import { extractMedia, selectMediaContents, selectMediaImage } from './extract.js';
+
+describe('extractMedia', () => {
+  it('should extract media:group with renditions and shared metadata', () => {
+    const xml = `
+      <item>
+        <media:group>
+          <media:title type="plain">Launch &amp; Landing</media:title>
+          <media:description>Full coverage</media:description>
+          <media:keywords>space, rockets</media:keywords>
+          <media:content url="https://cdn.example.com/low.mp4" type="video/mp4" medium="video"
+            width="640" height="360" bitrate="800" fileSize="1000" duration="120" />
+          <media:content url="https://cdn.example.com/high.mp4" type="video/mp4" medium="video"
+            width="1920" height="1080" bitrate="6000" fileSize="9000" duration="120" />
+          <media:thumbnail url="https://cdn.example.com/small.jpg" width="120" height="90" />
+          <media:thumbnail url="https://cdn.example.com/large.jpg" width="1280" height="720" />
+          <media:credit role="Producer" scheme="urn:ebu">Space Desk</media:credit>
+          <media:player url="https://example.com/embed/42" width="640" height="360" />
+          <media:rating scheme="urn:simple">nonadult</media:rating>
+          <media:community>
+            <media:starRating average="4.5" count="20" min="1" max="5" />
+            <media:statistics views="1234" favorites="56" />
+            <media:tags>space: 5, launch</media:tags>
+          </media:community>
+          <media:restriction relationship="deny" type="country">us ca</media:restriction>
+        </media:group>
+      </item>
+    `;
+    const media = extractMedia(parseRSSXML(xml));
+
+    assert.deepEqual(media, {
+      groups: [
+        {
+          title: 'Launch & Landing',
+          description: 'Full coverage',
+          keywords: ['space', 'rockets'],
+          thumbnails: [
+            { url: 'https://cdn.example.com/small.jpg', width: 120, height: 90 },
+            { url: 'https://cdn.example.com/large.jpg', width: 1280, height: 720 },
+          ],
+          credits: [{ name: 'Space Desk', role: 'producer', scheme: 'urn:ebu' }],
+          player: { url: 'https://example.com/embed/42', width: 640, height: 360 },
+          ratings: [{ value: 'nonadult', scheme: 'urn:simple' }],
+          community: {
+            starRating: { average: 4.5, count: 20, min: 1, max: 5 },
+            statistics: { views: 1234, favorites: 56 },
+            tags: [{ name: 'space', weight: 5 }, { name: 'launch' }],
+          },
+          restrictions: [{ relationship: 'deny', type: 'country', values: ['us', 'ca'] }],
+          contents: [
+            {
+              url: 'https://cdn.example.com/low.mp4',
+              type: 'video/mp4',
+              medium: 'video',
+              fileSize: 1000,
+              bitrate: 800,
+              duration: 120,
+              width: 640,
+              height: 360,
+            },
+            {
+              url: 'https://cdn.example.com/high.mp4',
+              type: 'video/mp4',
+              medium: 'video',
+              fileSize: 9000,
+              bitrate: 6000,
+              duration: 120,
+              width: 1920,
+              height: 1080,
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should keep content-level metadata on the content', () => {
+    const xml = `
+      <item>
+        <media:content url="https://example.com/photo.jpg" medium="image" isDefault="true">
+          <media:title>Sunset</media:title>
+          <media:credit role="photographer">Ann</media:credit>
+        </media:content>
+        <media:thumbnail url="https://example.com/item-thumb.jpg" />
+      </item>
+    `;
+    const media = extractMedia(parseRSSXML(xml));
+
+    assert.deepEqual(media, {
+      thumbnails: [{ url: 'https://example.com/item-thumb.jpg' }],
+      contents: [
+        {
+          url: 'https://example.com/photo.jpg',
+          title: 'Sunset',
+          credits: [{ name: 'Ann', role: 'photographer' }],
+          medium: 'image',
+          isDefault: true,
+        },
+      ],
+    });
+  });
+
+  it('should return undefined without media elements', () => {
+    assert.equal(extractMedia(parseRSSXML('<item><title>Plain</title></item>')), undefined);
+  });
+});
+
+describe('selectMediaImage / selectMediaContents', () => {
+  it('should pick the largest thumbnail and one rendition per group', () => {
+    const media = {
+      thumbnails: [{ url: 'small.jpg', width: 100, height: 100 }],
+      groups: [
+        {
+          thumbnails: [{ url: 'big.jpg', width: 1000, height: 500 }],
+          contents: [
+            { url: 'sd.mp4', width: 640, height: 360 },
+            { url: 'hd.mp4', width: 1280, height: 720 },
+          ],
+        },
+        {
+          contents: [
+            { url: 'a.mp3', bitrate: 320 },
+            { url: 'b.mp3', bitrate: 128, isDefault: true },
+          ],
+        },
+      ],
+      contents: [{ url: 'extra.pdf' }],
+    };
+
+    assert.equal(selectMediaImage(media), 'big.jpg');
+    assert.deepEqual(
+      selectMediaContents(media).map((content) => content.url),
+      ['extra.pdf', 'hd.mp4', 'b.mp3'],
+    );
+  });
+
+  it('should fall back to the largest image content', () => {
+    const media = {
+      contents: [
+        { url: 'clip.mp4', medium: 'video', width: 4000, height: 3000 },
+        { url: 'photo-s.jpg', type: 'image/jpeg', width: 400, height: 300 },
+        { url: 'photo-l.jpg', medium: 'image', width: 1600, height: 1200 },
+      ],
+    };
+
+    assert.equal(selectMediaImage(media), 'photo-l.jpg');
+  });
+});
+
+describe('Media RSS in feeds', () => {
+  it('should parse YouTube-style Atom entries', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
+        <id>yt:channel:abc</id>
+        <title>Channel</title>
+        <updated>2024-05-01T00:00:00Z</updated>
+        <entry>
+          <id>yt:video:xyz</id>
+          <title>Video</title>
+          <link rel="alternate" href="https://www.youtube.com/watch?v=xyz"/>
+          <updated>2024-05-01T00:00:00Z</updated>
+          <media:group>
+            <media:title>Video</media:title>
+            <media:content url="https://www.youtube.com/v/xyz?version=3" type="application/x-shockwave-flash" width="640" height="390"/>
+            <media:thumbnail url="https://i.ytimg.com/vi/xyz/hqdefault.jpg" width="480" height="360"/>
+            <media:description>What this video is about</media:description>
+            <media:community>
+              <media:starRating count="10" average="5.00" min="1" max="5"/>
+              <media:statistics views="999"/>
+            </media:community>
+          </media:group>
+        </entry>
+      </feed>`;
+
+    const atom = parseAtom(xml);
+    assert.equal(atom.entries[0].media?.groups?.[0].community?.statistics?.views, 999);
+
+    const { feed } = parseFeed(xml);
+    const [item] = feed.items;
+    assert.equal(item.image, 'https://i.ytimg.com/vi/xyz/hqdefault.jpg');
+    assert.equal(item.summary, 'What this video is about');
+    assert.deepEqual(item.enclosures, [
+      { url: 'https://www.youtube.com/v/xyz?version=3', type: 'application/x-shockwave-flash' },
+    ]);
+  });
+
+  it('should feed the best thumbnail and rendition into RSS items', () => {
+    const xml = `<?xml version="1.0"?>
+      <rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/">
+        <channel>
+          <title>Videos</title>
+          <link>https://example.com</link>
+          <description>Clips</description>
+          <item>
+            <title>Clip</title>
+            <enclosure url="https://example.com/clip.mp3" length="10" type="audio/mpeg" />
+            <media:group>
+              <media:content url="https://example.com/clip-sd.mp4" type="video/mp4" width="640" height="360" />
+              <media:content url="https://example.com/clip-hd.mp4" type="video/mp4" width="1280" height="720" fileSize="5000" />
+              <media:thumbnail url="https://example.com/thumb-s.jpg" width="160" height="90" />
+              <media:thumbnail url="https://example.com/thumb-l.jpg" width="1280" height="720" />
+            </media:group>
+          </item>
+        </channel>
+      </rss>`;
+
+    const { feed } = parseFeed(xml);
+    const [item] = feed.items;
+
+    assert.equal(item.image, 'https://example.com/thumb-l.jpg');
+    assert.deepEqual(item.enclosures, [
+      { url: 'https://example.com/clip.mp3', type: 'audio/mpeg', length: 10 },
+      { url: 'https://example.com/clip-hd.mp4', type: 'video/mp4', length: 5000 },
+    ]);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Extract Media RSS (media:*) elements
+ * Works on RSS items and Atom entries alike; only direct children are read
+ * at each level so item, group and content metadata stay separate
+ */
+
+import { cleanText } from '../rss/clean-text.js';
+import { getChild, getChildren } from '../rss/xml-parser.js';
+import type {
+  MediaCategory,
+  MediaCommunity,
+  MediaContent,
+  MediaCredit,
+  MediaGroup,
+  MediaMetadata,
+  MediaRating,
+  MediaRestriction,
+  MediaRss,
+  MediaThumbnail,
+} from './types.js';
+
+/**
+ * Minimal element shape shared by the RSS and Atom XML parsers
+ */
+export interface MediaElement {
+  tagName: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: MediaElement[];
+}
+
+/**
+ * Extract Media RSS data from an item or entry element
+ */
+export function extractMedia(element: MediaElement): MediaRss | undefined {
+  const media: MediaRss = extractMetadata(element);
+
+  const contents = extractContents(element);
+  if (contents.length > 0) {
+    media.contents = contents;
+  }
+
+  const groups = getChildren(element, 'media:group')
+    .map(
+      (groupEl): MediaGroup => ({
+        ...extractMetadata(groupEl),
+        contents: extractContents(groupEl),
+      }),
+    )
+    .filter((group) => group.contents.length > 0 || Object.keys(group).length > 1);
+  if (groups.length > 0) {
+    media.groups = groups;
+  }
+
+  return Object.keys(media).length > 0 ? media : undefined;
+}
+
+/**
+ * Get all contents, top-level and grouped
+ */
+export function getMediaContents(media: MediaRss | undefined): MediaContent[] {
+  if (!media) return [];
+  return [...(media.contents ?? []), ...(media.groups ?? []).flatMap((group) => group.contents)];
+}
+
+/**
+ * Get all thumbnails at any level (item, group, content)
+ */
+export function getMediaThumbnails(media: MediaRss | undefined): MediaThumbnail[] {
+  if (!media) return [];
+  return [
+    ...(media.thumbnails ?? []),
+    ...(media.groups ?? []).flatMap((group) => group.thumbnails ?? []),
+    ...getMediaContents(media).flatMap((content) => content.thumbnails ?? []),
+  ];
+}
+
+/**
+ * Pick the best image: the largest thumbnail, else the largest image content
+ */
+export function selectMediaImage(media: MediaRss | undefined): string | undefined {
+  const thumbnails = getMediaThumbnails(media);
+  if (thumbnails.length > 0) {
+    return largest(thumbnails)?.url;
+  }
+  const images = getMediaContents(media).filter(isImage);
+  return largest(images)?.url;
+}
+
+/**
+ * Pick the contents worth exposing as enclosures
+ * One rendition per group (the default, else the largest), plus all top-level contents
+ */
+export function selectMediaContents(media: MediaRss | undefined): MediaContent[] {
+  if (!media) return [];
+  const selected = [...(media.contents ?? [])];
+  for (const group of media.groups ?? []) {
+    const best = group.contents.find((content) => content.isDefault) ?? largest(group.contents);
+    if (best) {
+      selected.push(best);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Extract the optional elements shared by items, groups and contents
+ */
+function extractMetadata(element: MediaElement): MediaMetadata {
+  const metadata: MediaMetadata = {};
+
+  const title = childText(element, 'media:title');
+  const description = childText(element, 'media:description');
+  const copyright = childText(element, 'media:copyright');
+  const keywords = childText(element, 'media:keywords')
+    ?.split(',')
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.length > 0);
+
+  const thumbnails = getChildren(element, 'media:thumbnail').flatMap((el): MediaThumbnail[] => {
+    const url = attribute(el, 'url');
+    if (!url) return [];
+    const thumbnail: MediaThumbnail = { url };
+    const width = parseNumber(attribute(el, 'width'));
+    const height = parseNumber(attribute(el, 'height'));
+    const time = attribute(el, 'time');
+    if (width !== undefined) thumbnail.width = width;
+    if (height !== undefined) thumbnail.height = height;
+    if (time) thumbnail.time = time;
+    return [thumbnail];
+  });
+
+  const categories = getChildren(element, 'media:category').flatMap((el): MediaCategory[] => {
+    const value = cleanText(el.text);
+    if (!value) return [];
+    const category: MediaCategory = { value };
+    const scheme = attribute(el, 'scheme');
+    const label = attribute(el, 'label');
+    if (scheme) category.scheme = scheme;
+    if (label) category.label = label;
+    return [category];
+  });
+
+  const credits = getChildren(element, 'media:credit').flatMap((el): MediaCredit[] => {
+    const name = cleanText(el.text);
+    if (!name) return [];
+    const credit: MediaCredit = { name };
+    const role = attribute(el, 'role');
+    const scheme = attribute(el, 'scheme');
+    if (role) credit.role = role.toLowerCase();
+    if (scheme) credit.scheme = scheme;
+    return [credit];
+  });
+
+  const playerEl = getChild(element, 'media:player');
+  const playerUrl = attribute(playerEl, 'url');
+  if (playerEl && playerUrl) {
+    metadata.player = { url: playerUrl };
+    const width = parseNumber(attribute(playerEl, 'width'));
+    const height = parseNumber(attribute(playerEl, 'height'));
+    if (width !== undefined) metadata.player.width = width;
+    if (height !== undefined) metadata.player.height = height;
+  }
+
+  const ratings = getChildren(element, 'media:rating').flatMap((el): MediaRating[] => {
+    const value = cleanText(el.text);
+    if (!value) return [];
+    const scheme = attribute(el, 'scheme');
+    return [scheme ? { value, scheme } : { value }];
+  });
+
+  const restrictions = getChildren(element, 'media:restriction').map((el): MediaRestriction => {
+    const restriction: MediaRestriction = {
+      relationship: attribute(el, 'relationship')?.toLowerCase() || 'allow',
+      values: cleanText(el.text)
+        .split(/\s+/)
+        .filter((value) => value.length > 0 && !/^(?:all|none)$/i.test(value)),
+    };
+    const type = attribute(el, 'type');
+    if (type) restriction.type = type.toLowerCase();
+    return restriction;
+  });
+
+  const community = extractCommunity(getChild(element, 'media:community'));
+
+  if (title) metadata.title = title;
+  if (description) metadata.description = description;
+  if (keywords && keywords.length > 0) metadata.keywords = keywords;
+  if (thumbnails.length > 0) metadata.thumbnails = thumbnails;
+  if (categories.length > 0) metadata.categories = categories;
+  if (credits.length > 0) metadata.credits = credits;
+  if (ratings.length > 0) metadata.ratings = ratings;
+  if (community) metadata.community = community;
+  if (restrictions.length > 0) metadata.restrictions = restrictions;
+  if (copyright) metadata.copyright = copyright;
+
+  return metadata;
+}
+
+/**
+ * Extract media:content children (skipping ones without a URL)
+ */
+function extractContents(element: MediaElement): MediaContent[] {
+  return getChildren(element, 'media:content').flatMap((el): MediaContent[] => {
+    const url = attribute(el, 'url');
+    if (!url) return [];
+
+    const content: MediaContent = { url, ...extractMetadata(el) };
+    const type = attribute(el, 'type');
+    const medium = attribute(el, 'medium');
+    const expression = attribute(el, 'expression');
+    const lang = attribute(el, 'lang');
+    const isDefault = attribute(el, 'isDefault');
+    const numbers = {
+      fileSize: parseNumber(attribute(el, 'fileSize')),
+      bitrate: parseNumber(attribute(el, 'bitrate')),
+      framerate: parseNumber(attribute(el, 'framerate')),
+      samplingrate: parseNumber(attribute(el, 'samplingrate')),
+      channels: parseNumber(attribute(el, 'channels')),
+      duration: parseNumber(attribute(el, 'duration')),
+      width: parseNumber(attribute(el, 'width')),
+      height: parseNumber(attribute(el, 'height')),
+    };
+
+    if (type) content.type = type;
+    if (medium) content.medium = medium.toLowerCase();
+    if (isDefault) content.isDefault = isDefault.toLowerCase() === 'true';
+    if (expression) content.expression = expression.toLowerCase();
+    for (const [key, value] of Object.entries(numbers) as [keyof typeof numbers, number][]) {
+      if (value !== undefined) content[key] = value;
+    }
+    if (lang) content.lang = lang;
+
+    return [content];
+  });
+}
+
+/**
+ * Extract media:community (star rating, statistics, tags)
+ */
+function extractCommunity(element: MediaElement | null): MediaCommunity | undefined {
+  if (!element) return undefined;
+  const community: MediaCommunity = {};
+
+  const starEl = getChild(element, 'media:starRating');
+  if (starEl) {
+    const starRating = {
+      average: parseNumber(attribute(starEl, 'average')),
+      count: parseNumber(attribute(starEl, 'count')),
+      min: parseNumber(attribute(starEl, 'min')),
+      max: parseNumber(attribute(starEl, 'max')),
+    };
+    community.starRating = Object.fromEntries(
+      Object.entries(starRating).filter(([, value]) => value !== undefined),
+    );
+  }
+
+  const statsEl = getChild(element, 'media:statistics');
+  if (statsEl) {
+    const statistics = {
+      views: parseNumber(attribute(statsEl, 'views')),
+      favorites: parseNumber(attribute(statsEl, 'favorites')),
+    };
+    community.statistics = Object.fromEntries(
+      Object.entries(statistics).filter(([, value]) => value !== undefined),
+    );
+  }
+
+  // "tag1: 10, tag2" - weight defaults to 1 per spec, kept undefined when absent
+  const tags = childText(element, 'media:tags')
+    ?.split(',')
+    .map((entry) => {
+      const [name, weight] = entry.split(':').map((part) => part.trim());
+      const parsed = parseNumber(weight);
+      return parsed === undefined ? { name } : { name, weight: parsed };
+    })
+    .filter((tag) => tag.name.length > 0);
+  if (tags && tags.length > 0) {
+    community.tags = tags;
+  }
+
+  return Object.keys(community).length > 0 ? community : undefined;
+}
+
+/**
+ * Check whether a content is an image
+ */
+function isImage(content: MediaContent): boolean {
+  return content.medium === 'image' || (content.type?.startsWith('image/') ?? false);
+}
+
+/**
+ * Pick the entry with the largest pixel area (then bitrate), keeping order on ties
+ */
+function largest<T extends { width?: number; height?: number; bitrate?: number }>(
+  entries: T[],
+): T | undefined {
+  let best: T | undefined;
+  for (const entry of entries) {
+    if (!best || score(entry) > score(best)) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+function score(entry: { width?: number; height?: number; bitrate?: number }): number {
+  return (entry.width ?? 0) * (entry.height ?? 0) * 1e6 + (entry.bitrate ?? 0);
+}
+
+/**
+ * Get the cleaned text of the first direct child
+ */
+function childText(element: MediaElement, tagName: string): string | undefined {
+  return cleanText(getChild(element, tagName)?.text) || undefined;
+}
+
+/**
+ * Get a cleaned attribute value (entities decoded)
+ */
+function attribute(element: MediaElement | null, name: string): string | undefined {
+  return cleanText(element?.attributes[name]) || undefined;
+}
+
+/**
+ * Parse a number, ignoring invalid values
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const num = Number.parseFloat(value);
+  return Number.isNaN(num) ? undefined : num;
+}
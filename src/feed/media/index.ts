@@ -0,0 +1,26 @@
+/**
+ * Media RSS
+ * Shared by the RSS and Atom parsers
+ */
+
+export {
+  extractMedia,
+  getMediaContents,
+  getMediaThumbnails,
+  type MediaElement,
+  selectMediaContents,
+  selectMediaImage,
+} from './extract.js';
+export type {
+  MediaCategory,
+  MediaCommunity,
+  MediaContent,
+  MediaCredit,
+  MediaGroup,
+  MediaMetadata,
+  MediaPlayer,
+  MediaRating,
+  MediaRestriction,
+  MediaRss,
+  MediaThumbnail,
+} from './types.js';
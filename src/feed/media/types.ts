@@ -0,0 +1,161 @@
+/**
+ * Media RSS Type Definitions
+ * Spec: https://www.rssboard.org/media-rss
+ * Used by both RSS items and Atom entries (YouTube, Vimeo, photo agencies)
+ */
+
+/**
+ * Media RSS thumbnail (media:thumbnail)
+ */
+export interface MediaThumbnail {
+  url: string;
+  width?: number;
+  height?: number;
+  /** Time offset in the media (NTP format) */
+  time?: string;
+}
+
+/**
+ * Media RSS credit (media:credit)
+ */
+export interface MediaCredit {
+  /** Credited entity */
+  name: string;
+  /** Role (e.g., 'producer', 'photographer') */
+  role?: string;
+  /** Role scheme URI */
+  scheme?: string;
+}
+
+/**
+ * Media RSS player (media:player)
+ */
+export interface MediaPlayer {
+  /** Embeddable player URL */
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Media RSS rating (media:rating)
+ */
+export interface MediaRating {
+  /** Rating value (e.g., 'adult', 'nonadult', 'r') */
+  value: string;
+  /** Rating scheme URI */
+  scheme?: string;
+}
+
+/**
+ * Media RSS category (media:category)
+ */
+export interface MediaCategory {
+  value: string;
+  scheme?: string;
+  label?: string;
+}
+
+/**
+ * Media RSS community data (media:community)
+ */
+export interface MediaCommunity {
+  /** Star rating (media:starRating) */
+  starRating?: {
+    average?: number;
+    count?: number;
+    min?: number;
+    max?: number;
+  };
+  /** Statistics (media:statistics) */
+  statistics?: {
+    views?: number;
+    favorites?: number;
+  };
+  /** User tags with optional weights (media:tags) */
+  tags?: { name: string; weight?: number }[];
+}
+
+/**
+ * Media RSS restriction (media:restriction)
+ */
+export interface MediaRestriction {
+  /** 'allow' or 'deny' */
+  relationship: string;
+  /** 'country', 'uri' or 'sharing' */
+  type?: string;
+  /** Restricted values (country codes, URIs), empty for 'all'/'none' */
+  values: string[];
+}
+
+/**
+ * Optional elements allowed on items, groups and contents
+ */
+export interface MediaMetadata {
+  /** Title (media:title) */
+  title?: string;
+  /** Description (media:description) */
+  description?: string;
+  /** Keywords (media:keywords) */
+  keywords?: string[];
+  /** Thumbnails (media:thumbnail) */
+  thumbnails?: MediaThumbnail[];
+  /** Categories (media:category) */
+  categories?: MediaCategory[];
+  /** Credits (media:credit) */
+  credits?: MediaCredit[];
+  /** Embeddable player (media:player) */
+  player?: MediaPlayer;
+  /** Ratings (media:rating) */
+  ratings?: MediaRating[];
+  /** Community data (media:community) */
+  community?: MediaCommunity;
+  /** Restrictions (media:restriction) */
+  restrictions?: MediaRestriction[];
+  /** Copyright notice (media:copyright) */
+  copyright?: string;
+}
+
+/**
+ * Media RSS content (media:content)
+ */
+export interface MediaContent extends MediaMetadata {
+  url: string;
+  /** Size in bytes */
+  fileSize?: number;
+  /** MIME type */
+  type?: string;
+  /** 'image', 'audio', 'video', 'document' or 'executable' */
+  medium?: string;
+  /** Default object of a media:group */
+  isDefault?: boolean;
+  /** 'full', 'sample' or 'nonstop' */
+  expression?: string;
+  /** Kilobits per second */
+  bitrate?: number;
+  framerate?: number;
+  samplingrate?: number;
+  channels?: number;
+  /** Duration in seconds */
+  duration?: number;
+  width?: number;
+  height?: number;
+  lang?: string;
+}
+
+/**
+ * Media RSS group (media:group) - alternative renditions of one object
+ */
+export interface MediaGroup extends MediaMetadata {
+  contents: MediaContent[];
+}
+
+/**
+ * Media RSS data of an item or entry
+ */
+export interface MediaRss extends MediaMetadata {
+  /** Top-level media:content elements */
+  contents?: MediaContent[];
+  /** media:group elements */
+  groups?: MediaGroup[];
+}
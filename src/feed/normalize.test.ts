@@ -84,6 +84,63 @@ describe('normalizeRSS', () => {
     assert.equal(result.items[0].contentHtml, '<p>Full content</p>');
     assert.equal(result.items[0].summary, 'Summary');
   });
+
+  it('should merge iTunes and Podcasting 2.0 tags', () => {
+    const rss: RssFeedExtended = {
+      version: '2.0',
+      channel: {
+        title: 'Show',
+        link: 'http://example.com',
+        description: 'Test',
+        itunes: {
+          author: 'Jane',
+          image: 'http://example.com/art.jpg',
+          categories: [{ text: 'Technology', subcategories: [{ text: 'Podcasting' }] }],
+          owner: { name: 'Jane', email: 'jane@example.com' },
+        },
+        podcast: {
+          guid: 'abc',
+          locked: { value: true, owner: 'jane@example.com' },
+          persons: [{ name: 'Jane', role: 'host', img: 'http://example.com/jane.jpg' }],
+        },
+      },
+      items: [
+        {
+          title: 'Episode',
+          namespaces: {
+            itunes: { duration: '1:30', episode: 4, season: 1, episodeType: 'full' },
+            podcast: {
+              episode: { number: 5, display: 'Bonus' },
+              transcripts: [{ url: 'http://example.com/ep.vtt', type: 'text/vtt' }],
+            },
+          },
+        },
+        { title: 'Article' },
+      ],
+    };
+
+    const result = normalizeRSS(rss);
+
+    assert.equal(result.image, 'http://example.com/art.jpg');
+    assert.deepEqual(result.podcast, {
+      author: 'Jane',
+      owner: { name: 'Jane', email: 'jane@example.com' },
+      image: 'http://example.com/art.jpg',
+      categories: [{ name: 'Technology', subcategories: ['Podcasting'] }],
+      guid: 'abc',
+      locked: true,
+      persons: [{ name: 'Jane', role: 'host', image: 'http://example.com/jane.jpg' }],
+    });
+    assert.deepEqual(result.items[0].podcast, {
+      duration: 90,
+      episode: 5,
+      episodeDisplay: 'Bonus',
+      season: 1,
+      episodeType: 'full',
+      transcripts: [{ url: 'http://example.com/ep.vtt', type: 'text/vtt' }],
+    });
+    assert.equal(result.items[1].podcast, undefined);
+  });
 });
 
 describe('normalizeAtom', () => {
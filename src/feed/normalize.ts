@@ -4,8 +4,26 @@
 
 import type { AtomDocument } from './atom/types.js';
 import type { JSONFeedDocument } from './json-feed/types.js';
-import type { RssFeedExtended, RssItemExtended } from './rss/types.js';
-import type { Feed, FeedAuthor, FeedEnclosure, FeedItem } from './types.js';
+import { selectMediaContents, selectMediaImage } from './media/extract.js';
+import type { MediaRss } from './media/types.js';
+import type { RdfFeed } from './rdf/types.js';
+import { parseDuration } from './rss/extract-podcast.js';
+import type {
+  RssChannel,
+  RssFeedExtended,
+  RssItemExtended,
+  RssNamespaces,
+  RssPodcastPerson,
+} from './rss/types.js';
+import type {
+  Feed,
+  FeedAuthor,
+  FeedEnclosure,
+  FeedItem,
+  FeedItemPodcast,
+  FeedPodcast,
+  FeedPodcastPerson,
+} from './types.js';
 
 /**
  * Normalize RSS feed to unified format
@@ -20,11 +38,12 @@ export function normalizeRSS(rss: RssFeedExtended): Feed {
     url: channel.link,
     feedUrl: undefined, // RSS doesn't have self-link in standard fields
     language: channel.language,
-    image: channel.image?.url,
+    image: channel.image?.url || channel.itunes?.image,
     authors: channel.managingEditor
       ? [{ name: channel.managingEditor, email: channel.managingEditor }]
       : undefined,
     updated: channel.lastBuildDate || channel.pubDate,
+    podcast: normalizeRSSPodcast(channel),
     items: items.map((item: RssItemExtended): FeedItem => {
       return {
         id: item.guid?.value || item.link || item.title || '',
@@ -39,16 +58,156 @@ export function normalizeRSS(rss: RssFeedExtended): Feed {
             ? [{ name: item.author || item.namespaces?.dcCreator || '' }]
             : undefined,
         tags: item.category,
-        image: item.namespaces?.mediaThumbnail?.[0]?.url,
-        enclosures: item.enclosure
-          ? [
-              {
-                url: item.enclosure.url,
-                type: item.enclosure.type,
-                length: item.enclosure.length,
-              },
-            ]
-          : undefined,
+        image: selectMediaImage(item.namespaces?.media) || item.namespaces?.itunes?.image,
+        enclosures: mergeEnclosures(
+          item.enclosure
+            ? [
+                {
+                  url: item.enclosure.url,
+                  type: item.enclosure.type,
+                  length: item.enclosure.length,
+                },
+              ]
+            : [],
+          item.namespaces?.media,
+        ),
+        podcast: normalizeRSSItemPodcast(item.namespaces),
+      };
+    }),
+  };
+}
+
+/**
+ * Add Media RSS contents (one rendition per media:group) to the enclosures
+ */
+function mergeEnclosures(
+  enclosures: FeedEnclosure[],
+  media: MediaRss | undefined,
+): FeedEnclosure[] | undefined {
+  const merged = [...enclosures];
+  for (const content of selectMediaContents(media)) {
+    if (merged.some((enclosure) => enclosure.url === content.url)) {
+      continue;
+    }
+    const enclosure: FeedEnclosure = { url: content.url };
+    if (content.type) enclosure.type = content.type;
+    if (content.fileSize !== undefined) enclosure.length = content.fileSize;
+    merged.push(enclosure);
+  }
+  return merged.length > 0 ? merged : undefined;
+}
+
+/**
+ * Merge channel-level iTunes and Podcasting 2.0 tags
+ */
+function normalizeRSSPodcast(channel: RssChannel): FeedPodcast | undefined {
+  const { itunes, podcast } = channel;
+  if (!itunes && !podcast) {
+    return undefined;
+  }
+
+  return removeUndefined<FeedPodcast>({
+    author: itunes?.author,
+    owner: itunes?.owner ? { ...itunes.owner } : undefined,
+    image: itunes?.image,
+    categories: itunes?.categories?.map((category) =>
+      category.subcategories
+        ? {
+            name: category.text,
+            subcategories: category.subcategories.map((sub) => sub.text),
+          }
+        : { name: category.text },
+    ),
+    explicit: itunes?.explicit,
+    type: itunes?.type,
+    block: itunes?.block,
+    complete: itunes?.complete,
+    newFeedUrl: itunes?.newFeedUrl,
+    guid: podcast?.guid,
+    locked: podcast?.locked?.value,
+    funding: podcast?.funding,
+    persons: podcast?.persons?.map(normalizePodcastPerson),
+    value: podcast?.value,
+  });
+}
+
+/**
+ * Merge item-level iTunes and Podcasting 2.0 tags
+ */
+function normalizeRSSItemPodcast(
+  namespaces: RssNamespaces | undefined,
+): FeedItemPodcast | undefined {
+  const itunes = namespaces?.itunes;
+  const podcast = namespaces?.podcast;
+  if (!itunes && !podcast) {
+    return undefined;
+  }
+
+  return removeUndefined<FeedItemPodcast>({
+    duration: parseDuration(itunes?.duration),
+    episode: podcast?.episode?.number ?? itunes?.episode,
+    episodeDisplay: podcast?.episode?.display,
+    season: podcast?.season?.number ?? itunes?.season,
+    seasonName: podcast?.season?.name,
+    episodeType: itunes?.episodeType,
+    explicit: itunes?.explicit,
+    image: itunes?.image,
+    block: itunes?.block,
+    transcripts: podcast?.transcripts,
+    chapters: podcast?.chapters,
+    persons: podcast?.persons?.map(normalizePodcastPerson),
+    soundbites: podcast?.soundbites,
+    value: podcast?.value,
+  });
+}
+
+/**
+ * Normalize a podcast:person
+ */
+function normalizePodcastPerson(person: RssPodcastPerson): FeedPodcastPerson {
+  return removeUndefined<FeedPodcastPerson>({
+    name: person.name,
+    role: person.role,
+    group: person.group,
+    image: person.img,
+    url: person.href,
+  });
+}
+
+/**
+ * Drop undefined fields so podcast sections only list what the feed declares
+ */
+function removeUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+/**
+ * Normalize RSS 1.0 (RDF) feed to unified format
+ */
+export function normalizeRDF(rdf: RdfFeed): Feed {
+  const { channel, items } = rdf;
+  const creators = channel.dc?.creator ?? (channel.dc?.publisher ? [channel.dc.publisher] : []);
+
+  return {
+    format: 'rdf',
+    title: channel.title || channel.dc?.title || '',
+    description: channel.description || channel.dc?.description,
+    url: channel.link || undefined,
+    feedUrl: channel.about,
+    language: channel.dc?.language,
+    image: channel.image?.url,
+    authors: creators.length > 0 ? creators.map((name): FeedAuthor => ({ name })) : undefined,
+    updated: channel.dc?.date,
+    items: items.map((item): FeedItem => {
+      return {
+        id: item.about || item.link || item.title,
+        title: item.title || item.dc?.title,
+        url: item.link || undefined,
+        contentHtml: item.contentEncoded || item.description,
+        summary: item.description || item.dc?.description,
+        published: item.dc?.date,
+        authors: item.dc?.creator?.map((name): FeedAuthor => ({ name })),
+        tags: item.dc?.subject,
       };
     }),
   };
@@ -91,7 +250,7 @@ export function normalizeAtom(atom: AtomDocument): Feed {
         externalUrl: entryRelatedLink?.href,
         contentHtml: entry.content?.type === 'html' ? entry.content.value : undefined,
         contentText: entry.content?.type === 'text' ? entry.content.value : undefined,
-        summary: entry.summary,
+        summary: entry.summary || entry.media?.description || entry.media?.groups?.[0]?.description,
         published: entry.published,
         modified: entry.updated,
         authors: entry.authors?.map(
@@ -102,7 +261,13 @@ export function normalizeAtom(atom: AtomDocument): Feed {
           }),
         ),
         tags: entry.categories?.map((c) => c.term),
-        image: undefined, // Atom doesn't have item images in standard
+        image: selectMediaImage(entry.media), // Atom itself has no item images
+        enclosures: mergeEnclosures(
+          (entry.links ?? [])
+            .filter((l) => l.rel === 'enclosure')
+            .map((l): FeedEnclosure => ({ url: l.href, type: l.type, length: l.length })),
+          entry.media,
+        ),
       };
     }),
   };
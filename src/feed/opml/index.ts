@@ -0,0 +1,13 @@
+/**
+ * OPML Subscription Lists
+ *
+ * @remarks
+ * Parses OPML 1.0/2.0 subscription lists (with nested folders) and writes
+ * OPML 2.0 from feeds, discovered feeds or outlines.
+ *
+ * @packageDocumentation
+ */
+
+export { flattenOPML, isOPML, parseOPML } from './parse.js';
+export { type OpmlEntry, serializeOPML } from './serialize.js';
+export type { OpmlDocument, OpmlHead, OpmlOutline, OpmlSubscription } from './types.js';
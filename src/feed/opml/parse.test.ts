@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Feed } from '../types.js';
+import { flattenOPML, isOPML, parseOPML } from './parse.js';
+import { serializeOPML } from './serialize.js';
+
+const OPML = `<?xml version="1.0" encoding="UTF-8"?>
+  <opml version="2.0">
+    <head>
+      <title>My Subscriptions</title>
+      <dateCreated>Mon, 01 Apr 2024 10:00:00 GMT</dateCreated>
+      <ownerName>Sam</ownerName>
+    </head>
+    <body>
+      <outline text="Tech &amp; Code" title="Tech &amp; Code">
+        <outline text="Hacker News" type="rss" xmlUrl="https://news.ycombinator.com/rss"
+          htmlUrl="https://news.ycombinator.com/" category="/news,aggregators" />
+        <outline text="Languages">
+          <outline text="Rust Blog" type="rss" xmlUrl="/rust/feed.xml" />
+        </outline>
+      </outline>
+      <outline text="Loose" type="rss" xmlurl="https://example.com/loose.xml" htmlurl="https://example.com/" />
+      <outline text="Shared list" type="include" url="https://example.com/shared.opml" />
+    </body>
+  </opml>`;
+
+describe('parseOPML', () => {
+  it('should parse head and nested outline folders', () => {
+    const opml = parseOPML(OPML, 'https://example.com/subs.opml');
+
+    assert.equal(opml.version, '2.0');
+    assert.deepEqual(opml.head, {
+      title: 'My Subscriptions',
+      ownerName: 'Sam',
+      dateCreated: '2024-04-01T10:00:00.000Z',
+    });
+    assert.equal(opml.outlines.length, 3);
+
+    const [folder, loose, include] = opml.outlines;
+    assert.equal(folder.text, 'Tech & Code');
+    assert.deepEqual(folder.children?.[0], {
+      text: 'Hacker News',
+      type: 'rss',
+      xmlUrl: 'https://news.ycombinator.com/rss',
+      htmlUrl: 'https://news.ycombinator.com/',
+      categories: ['/news', 'aggregators'],
+    });
+    assert.equal(folder.children?.[1].children?.[0].xmlUrl, 'https://example.com/rust/feed.xml');
+    assert.equal(loose.xmlUrl, 'https://example.com/loose.xml');
+    assert.equal(loose.htmlUrl, 'https://example.com/');
+    assert.equal(include.url, 'https://example.com/shared.opml');
+  });
+
+  it('should keep the scheme of absolute outline URLs', () => {
+    const opml = parseOPML(
+      '<opml version="2.0"><body><outline text="Old" xmlUrl="http://old.example.org/rss.xml"/></body></opml>',
+      'https://example.com/subs.opml',
+    );
+
+    assert.equal(opml.outlines[0].xmlUrl, 'http://old.example.org/rss.xml');
+  });
+
+  it('should parse OPML 1.0 without head', () => {
+    const opml = parseOPML(
+      '<opml version="1.0"><body><outline title="Only title" xmlUrl="https://a.example/feed"/></body></opml>',
+    );
+
+    assert.equal(opml.version, '1.0');
+    assert.deepEqual(opml.head, {});
+    assert.equal(opml.outlines[0].text, 'Only title');
+  });
+
+  it('should throw without opml root or body', () => {
+    assert.throws(() => parseOPML('<rss><channel></channel></rss>'), /Missing <opml>/);
+    assert.throws(() => parseOPML('<opml version="2.0"><head></head></opml>'), /Missing <body>/);
+  });
+});
+
+describe('flattenOPML', () => {
+  it('should list subscriptions with their folder paths', () => {
+    const subscriptions = flattenOPML(parseOPML(OPML));
+
+    assert.deepEqual(
+      subscriptions.map((s) => [s.title, s.folders]),
+      [
+        ['Hacker News', ['Tech & Code']],
+        ['Rust Blog', ['Tech & Code', 'Languages']],
+        ['Loose', []],
+      ],
+    );
+    assert.deepEqual(subscriptions[0].categories, ['/news', 'aggregators']);
+  });
+});
+
+describe('isOPML', () => {
+  it('should detect OPML documents', () => {
+    assert.equal(isOPML(OPML), true);
+    assert.equal(isOPML('<rss version="2.0"><channel></channel></rss>'), false);
+  });
+});
+
+describe('serializeOPML', () => {
+  it('should write feeds and discovered feeds as subscriptions', () => {
+    const feed: Feed = {
+      format: 'rss',
+      title: 'News & Views',
+      url: 'https://example.com/',
+      feedUrl: 'https://example.com/feed.xml',
+      items: [],
+    };
+    const xml = serializeOPML(
+      [
+        feed,
+        { url: 'https://other.example/atom', type: 'atom', title: 'Other' },
+        { format: 'html', title: 'No feed URL', items: [] },
+      ],
+      { title: 'Export', dateCreated: '2024-04-01T10:00:00Z' },
+    );
+
+    assert.ok(xml.includes('<dateCreated>Mon, 01 Apr 2024 10:00:00 GMT</dateCreated>'));
+    assert.ok(xml.includes('text="News &amp; Views"'));
+    assert.deepEqual(
+      flattenOPML(parseOPML(xml)).map((s) => [s.title, s.xmlUrl, s.htmlUrl]),
+      [
+        ['News & Views', 'https://example.com/feed.xml', 'https://example.com/'],
+        ['Other', 'https://other.example/atom', undefined],
+      ],
+    );
+  });
+
+  it('should round-trip parsed outlines including folders', () => {
+    const opml = parseOPML(OPML);
+    const reparsed = parseOPML(serializeOPML(opml.outlines, opml.head));
+
+    assert.deepEqual(reparsed, {
+      ...opml,
+      head: { ...opml.head, docs: 'http://opml.org/spec2.opml' },
+    });
+  });
+});
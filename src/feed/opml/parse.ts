@@ -0,0 +1,156 @@
+/**
+ * OPML subscription list parser
+ * Handles OPML 1.0/2.0 with nested outline folders; attribute names are matched
+ * case-insensitively since readers disagree on xmlUrl vs xmlurl
+ */
+
+import { normalizeUrl } from '../../utils/normalize-url.js';
+import { cleanText } from '../rss/clean-text.js';
+import { parseRSSDate } from '../rss/parse-date.js';
+import type { RSSElement } from '../rss/xml-parser.js';
+import { getChild, getChildren, getText, parseRSSXML, querySelector } from '../rss/xml-parser.js';
+import type { OpmlDocument, OpmlHead, OpmlOutline, OpmlSubscription } from './types.js';
+
+/**
+ * Head elements kept as text
+ */
+const HEAD_TEXT_FIELDS = ['title', 'ownerName', 'ownerEmail', 'ownerId', 'docs'] as const;
+
+/**
+ * Outline attributes kept as text
+ */
+const OUTLINE_TEXT_FIELDS = ['title', 'type', 'description', 'language', 'version'] as const;
+
+/**
+ * Outline attributes holding URLs
+ */
+const OUTLINE_URL_FIELDS = ['xmlUrl', 'htmlUrl', 'url'] as const;
+
+/**
+ * Parse OPML document from XML string
+ * @param xml - OPML XML string
+ * @param baseUrl - Optional base URL for resolving relative URLs
+ */
+export function parseOPML(xml: string, baseUrl?: string | URL): OpmlDocument {
+  const doc = parseRSSXML(xml);
+
+  const opmlEl = doc.tagName.toLowerCase() === 'opml' ? doc : querySelector(doc, 'opml');
+  if (!opmlEl) {
+    throw new Error('Invalid OPML: Missing <opml> root element');
+  }
+
+  const bodyEl = getChild(opmlEl, 'body');
+  if (!bodyEl) {
+    throw new Error('Invalid OPML: Missing <body> element');
+  }
+
+  return {
+    version: cleanText(opmlEl.attributes.version) || '1.0',
+    head: extractHead(getChild(opmlEl, 'head')),
+    outlines: getChildren(bodyEl, 'outline').map((el) => extractOutline(el, baseUrl)),
+  };
+}
+
+/**
+ * Detect if content is OPML format
+ */
+export function isOPML(xml: string): boolean {
+  return typeof xml === 'string' && /<opml[\s>]/i.test(xml) && /<body[\s>/]/i.test(xml);
+}
+
+/**
+ * List all feed subscriptions (outlines with an xmlUrl) in document order
+ * Folder outlines are recorded in each subscription's folders path
+ */
+export function flattenOPML(opml: OpmlDocument): OpmlSubscription[] {
+  const subscriptions: OpmlSubscription[] = [];
+
+  const walk = (outlines: OpmlOutline[], folders: string[]) => {
+    for (const outline of outlines) {
+      if (outline.xmlUrl) {
+        const subscription: OpmlSubscription = {
+          xmlUrl: outline.xmlUrl,
+          title: outline.title || outline.text || outline.xmlUrl,
+          folders,
+          categories: outline.categories ?? [],
+        };
+        if (outline.htmlUrl) subscription.htmlUrl = outline.htmlUrl;
+        if (outline.type) subscription.type = outline.type;
+        if (outline.description) subscription.description = outline.description;
+        subscriptions.push(subscription);
+      }
+      if (outline.children) {
+        walk(outline.children, outline.xmlUrl ? folders : [...folders, outline.text]);
+      }
+    }
+  };
+
+  walk(opml.outlines, []);
+  return subscriptions;
+}
+
+/**
+ * Extract head metadata
+ */
+function extractHead(headEl: RSSElement | null): OpmlHead {
+  const head: OpmlHead = {};
+  if (!headEl) return head;
+
+  for (const field of HEAD_TEXT_FIELDS) {
+    const value = cleanText(getText(getChild(headEl, field)));
+    if (value) head[field] = value;
+  }
+
+  const dateCreated = parseRSSDate(getText(getChild(headEl, 'dateCreated')));
+  const dateModified = parseRSSDate(getText(getChild(headEl, 'dateModified')));
+  if (dateCreated) head.dateCreated = dateCreated;
+  if (dateModified) head.dateModified = dateModified;
+
+  return head;
+}
+
+/**
+ * Extract an outline and its nested outlines
+ */
+function extractOutline(outlineEl: RSSElement, baseUrl: string | URL | undefined): OpmlOutline {
+  const attributes = lowercaseAttributes(outlineEl);
+  const outline: OpmlOutline = {
+    text: attributes.text || attributes.title || '',
+  };
+
+  for (const field of OUTLINE_TEXT_FIELDS) {
+    const value = attributes[field.toLowerCase()];
+    if (value) outline[field] = value;
+  }
+
+  for (const field of OUTLINE_URL_FIELDS) {
+    const value = attributes[field.toLowerCase()];
+    if (value) outline[field] = baseUrl ? normalizeUrl(baseUrl, value) : value;
+  }
+
+  const categories = attributes.category
+    ?.split(',')
+    .map((category) => category.trim())
+    .filter((category) => category.length > 0);
+  if (categories && categories.length > 0) outline.categories = categories;
+
+  const created = parseRSSDate(attributes.created);
+  if (created) outline.created = created;
+
+  const nested = getChildren(outlineEl, 'outline').map((el) => extractOutline(el, baseUrl));
+  if (nested.length > 0) outline.children = nested;
+
+  return outline;
+}
+
+/**
+ * Get cleaned attributes keyed by lowercase name
+ */
+function lowercaseAttributes(element: RSSElement): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(element.attributes)) {
+    const cleaned = cleanText(value);
+    if (cleaned) attributes[name.toLowerCase()] = cleaned;
+  }
+  return attributes;
+}
@@ -0,0 +1,111 @@
+/**
+ * OPML 2.0 serializer
+ * Writes subscription lists from normalized feeds, discovered feeds or outlines
+ */
+
+import type { DiscoveredFeed } from '../../metadata/feed-discovery/types.js';
+import { emptyElement, lines, renderAttributes, textElement, toRFC822 } from '../serialize/xml.js';
+import type { Feed } from '../types.js';
+import type { OpmlHead, OpmlOutline } from './types.js';
+
+/**
+ * Entries accepted by {@link serializeOPML}
+ */
+export type OpmlEntry = Feed | DiscoveredFeed | OpmlOutline;
+
+/**
+ * Serialize a subscription list to OPML 2.0
+ * Feeds without a feedUrl are skipped since a subscription needs the feed address;
+ * pass outlines with children to write folders
+ * @param entries - Feeds (from parseFeed/gatherFeed), discovered feeds or outlines
+ * @param head - Optional head metadata (title, dates, owner)
+ */
+export function serializeOPML(entries: OpmlEntry[], head: OpmlHead = {}): string {
+  const headXml = lines(2, [
+    textElement('title', head.title),
+    textElement('dateCreated', toRFC822(head.dateCreated)),
+    textElement('dateModified', toRFC822(head.dateModified)),
+    textElement('ownerName', head.ownerName),
+    textElement('ownerEmail', head.ownerEmail),
+    textElement('ownerId', head.ownerId),
+    textElement('docs', head.docs ?? 'http://opml.org/spec2.opml'),
+  ]);
+  const body = entries
+    .map(toOutline)
+    .filter((outline): outline is OpmlOutline => outline !== undefined)
+    .map((outline) => serializeOutline(outline, 2))
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    headXml,
+    '  </head>',
+    ...(body ? ['  <body>', body, '  </body>'] : ['  <body/>']),
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Convert an entry to an outline
+ */
+function toOutline(entry: OpmlEntry): OpmlOutline | undefined {
+  // Normalized feed
+  if ('items' in entry) {
+    if (!entry.feedUrl) return undefined;
+    return {
+      text: entry.title || entry.feedUrl,
+      title: entry.title || undefined,
+      type: 'rss',
+      xmlUrl: entry.feedUrl,
+      htmlUrl: entry.url,
+      description: entry.description,
+      language: entry.language,
+    };
+  }
+
+  // Outline (subscription or folder)
+  if ('text' in entry) {
+    return entry;
+  }
+
+  // Discovered feed
+  return {
+    text: entry.title || entry.url,
+    title: entry.title,
+    type: 'rss',
+    xmlUrl: entry.url,
+  };
+}
+
+/**
+ * Serialize an outline and its nested outlines
+ */
+function serializeOutline(outline: OpmlOutline, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const attributes = {
+    text: outline.text,
+    title: outline.title,
+    type: outline.type,
+    xmlUrl: outline.xmlUrl,
+    htmlUrl: outline.htmlUrl,
+    url: outline.url,
+    description: outline.description,
+    language: outline.language,
+    version: outline.version,
+    category: outline.categories?.join(','),
+    created: toRFC822(outline.created),
+  };
+
+  if (!outline.children || outline.children.length === 0) {
+    return `${indent}${emptyElement('outline', attributes)}`;
+  }
+
+  return [
+    `${indent}<outline${renderAttributes(attributes)}>`,
+    ...outline.children.map((nested) => serializeOutline(nested, depth + 1)),
+    `${indent}</outline>`,
+  ].join('\n');
+}
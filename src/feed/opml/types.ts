@@ -0,0 +1,87 @@
+/**
+ * OPML Type Definitions
+ * Spec: http://opml.org/spec2.opml (OPML 1.0 documents use the same structure)
+ * Used for feed subscription lists exchanged between feed readers
+ */
+
+/**
+ * OPML head metadata
+ */
+export interface OpmlHead {
+  /** Title of the document */
+  title?: string;
+  /** Creation date in ISO 8601 format */
+  dateCreated?: string;
+  /** Last modification date in ISO 8601 format */
+  dateModified?: string;
+  /** Owner name */
+  ownerName?: string;
+  /** Owner email */
+  ownerEmail?: string;
+  /** Owner profile URL */
+  ownerId?: string;
+  /** Format documentation URL */
+  docs?: string;
+}
+
+/**
+ * OPML outline - a subscription, a folder of outlines, or an include/link
+ */
+export interface OpmlOutline {
+  /** Displayed text (required by the spec, falls back to title) */
+  text: string;
+  /** Title, usually the feed title */
+  title?: string;
+  /** Outline type (e.g., 'rss' for subscriptions, 'include' or 'link') */
+  type?: string;
+  /** Feed URL */
+  xmlUrl?: string;
+  /** Website URL */
+  htmlUrl?: string;
+  /** Target URL of 'include' and 'link' outlines */
+  url?: string;
+  /** Feed description */
+  description?: string;
+  /** Feed language */
+  language?: string;
+  /** Feed format version (e.g., 'RSS2') */
+  version?: string;
+  /** Categories (comma-separated `category` attribute, slash-delimited paths kept as-is) */
+  categories?: string[];
+  /** Creation date in ISO 8601 format */
+  created?: string;
+  /** Nested outlines (folders) */
+  children?: OpmlOutline[];
+}
+
+/**
+ * Complete OPML document
+ */
+export interface OpmlDocument {
+  /** OPML version ('1.0', '1.1' or '2.0') */
+  version: string;
+  /** Head metadata */
+  head: OpmlHead;
+  /** Top-level outlines of the body */
+  outlines: OpmlOutline[];
+}
+
+/**
+ * A feed subscription from a flattened OPML document
+ */
+export interface OpmlSubscription {
+  /** Feed URL */
+  xmlUrl: string;
+  /** Feed title (title, else text) */
+  title: string;
+  /** Website URL */
+  htmlUrl?: string;
+  /** Outline type */
+  type?: string;
+  /** Feed description */
+  description?: string;
+  /** Texts of the enclosing folder outlines, outermost first */
+  folders: string[];
+  /** Categories from the `category` attribute */
+  categories: string[];
+}
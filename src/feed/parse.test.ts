@@ -70,6 +70,38 @@ describe('parseFeed', () => {
     assert.ok(result.original);
   });
 
+  it('should auto-detect and parse RSS 1.0 (RDF)', () => {
+    const rdf = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns="http://purl.org/rss/1.0/"
+         xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="http://example.com/feed.rdf">
+    <title>Test RDF</title>
+    <link>http://example.com</link>
+    <description>Test</description>
+    <dc:language>en</dc:language>
+  </channel>
+  <item rdf:about="http://example.com/1">
+    <title>Item 1</title>
+    <link>http://example.com/1</link>
+    <dc:creator>Jane</dc:creator>
+    <dc:date>2025-12-17T10:00:00Z</dc:date>
+  </item>
+</rdf:RDF>`;
+
+    const result = parseFeed(rdf);
+
+    assert.equal(result.feed.format, 'rdf');
+    assert.equal(result.feed.title, 'Test RDF');
+    assert.equal(result.feed.feedUrl, 'http://example.com/feed.rdf');
+    assert.equal(result.feed.language, 'en');
+    assert.equal(result.feed.items.length, 1);
+    assert.equal(result.feed.items[0].id, 'http://example.com/1');
+    assert.equal(result.feed.items[0].published, '2025-12-17T10:00:00.000Z');
+    assert.deepEqual(result.feed.items[0].authors, [{ name: 'Jane' }]);
+    assert.ok(result.original);
+  });
+
   it('should throw error for unknown format', () => {
     const invalid = 'This is not a feed';
 
@@ -7,7 +7,8 @@
 import { parseAtom } from './atom/index.js';
 import { detectFormat, type FeedFormat } from './detect.js';
 import { parseJSONFeed } from './json-feed/index.js';
-import { normalizeAtom, normalizeJSONFeed, normalizeRSS } from './normalize.js';
+import { normalizeAtom, normalizeJSONFeed, normalizeRDF, normalizeRSS } from './normalize.js';
+import { parseRDF } from './rdf/index.js';
 import { parseRSS } from './rss/index.js';
 import type { Feed, ParseResult } from './types.js';
 
@@ -16,7 +17,7 @@ import type { Feed, ParseResult } from './types.js';
  *
  * @remarks
  * This is the main entry point for feed parsing. It automatically detects whether
- * the content is RSS, Atom, or JSON Feed, parses it, and returns a normalized
+ * the content is RSS, RSS 1.0 (RDF), Atom, or JSON Feed, parses it, and returns a normalized
  * output structure along with the original format-specific data.
  *
  * All relative URLs in the feed are converted to absolute URLs if a base URL is provided.
@@ -56,7 +57,7 @@ export function parseFeed(content: string, baseUrl?: string | URL): ParseResult
  * and provides more control over the parsing process.
  *
  * @param content - Feed content as string (XML or JSON)
- * @param format - Explicit format to parse as ('rss', 'atom', or 'json-feed')
+ * @param format - Explicit format to parse as ('rss', 'rdf', 'atom', or 'json-feed')
  * @param baseUrl - Optional base URL for resolving relative URLs
  * @returns Object containing normalized feed data and original format-specific data
  * @throws Error if parsing fails or format is 'unknown'
@@ -85,6 +86,14 @@ export function parseFeedAs(
       };
     }
 
+    case 'rdf': {
+      const rdf = parseRDF(content, baseUrl);
+      return {
+        feed: normalizeRDF(rdf),
+        original: rdf,
+      };
+    }
+
     case 'atom': {
       const atom = parseAtom(content, baseUrl);
       return {
@@ -106,6 +115,12 @@ export function parseFeedAs(
         'Sitemaps cannot be parsed with parseFeed(). Use parseSitemap() from the sitemap module instead.',
       );
     }
+
+    case 'opml': {
+      throw new Error(
+        'OPML subscription lists cannot be parsed with parseFeed(). Use parseOPML() or gatherOpml() instead.',
+      );
+    }
   }
 }
 
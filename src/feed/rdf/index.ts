@@ -0,0 +1,15 @@
+/**
+ * RSS 1.0 (RDF) Feed Parser
+ * Public API exports
+ */
+
+export { isRDF, parseRDF } from './parse.js';
+export type {
+  RdfChannel,
+  RdfDublinCore,
+  RdfFeed,
+  RdfImage,
+  RdfItem,
+  RdfSyndication,
+  RdfTextInput,
+} from './types.js';
@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeRDF } from '../normalize.js';
+import { isRDF, parseRDF } from './parse.js';
+
+const RDF = `<?xml version="1.0"?>
+  <rdf:RDF
+    xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+    xmlns="http://purl.org/rss/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:syn="http://purl.org/rss/1.0/modules/syndication/"
+    xmlns:content="http://purl.org/rss/1.0/modules/content/">
+    <channel rdf:about="https://example.com/news.rdf">
+      <title>Example News</title>
+      <link>https://example.com/</link>
+      <description>News &amp; notes</description>
+      <image rdf:resource="https://example.com/logo.png" />
+      <textinput rdf:resource="https://example.com/search" />
+      <items>
+        <rdf:Seq>
+          <rdf:li rdf:resource="https://example.com/2" />
+          <rdf:li rdf:resource="https://example.com/1" />
+        </rdf:Seq>
+      </items>
+      <dc:language>en-us</dc:language>
+      <dc:publisher>Example Inc.</dc:publisher>
+      <dc:date>2024-03-01T12:00:00+01:00</dc:date>
+      <syn:updatePeriod>Hourly</syn:updatePeriod>
+      <syn:updateFrequency>2</syn:updateFrequency>
+      <syn:updateBase>2000-01-01T12:00+00:00</syn:updateBase>
+    </channel>
+    <image rdf:about="https://example.com/logo.png">
+      <title>Example News</title>
+      <url>https://example.com/logo.png</url>
+      <link>https://example.com/</link>
+    </image>
+    <item rdf:about="https://example.com/1">
+      <title>First</title>
+      <link>https://example.com/1</link>
+      <description>First summary</description>
+      <dc:creator>Ann</dc:creator>
+      <dc:creator>Bob</dc:creator>
+      <dc:subject>science</dc:subject>
+      <dc:date>2024-02-28T08:00:00Z</dc:date>
+    </item>
+    <item rdf:about="https://example.com/2">
+      <title>Second</title>
+      <link>https://example.com/2</link>
+      <content:encoded><![CDATA[<p>Full <b>text</b></p>]]></content:encoded>
+    </item>
+    <textinput rdf:about="https://example.com/search">
+      <title>Search</title>
+      <description>Search the site</description>
+      <name>q</name>
+      <link>https://example.com/search</link>
+    </textinput>
+  </rdf:RDF>`;
+
+describe('parseRDF', () => {
+  it('should resolve channel siblings and order items by rdf:Seq', () => {
+    const feed = parseRDF(RDF);
+
+    assert.equal(feed.version, '1.0');
+    assert.equal(feed.channel.about, 'https://example.com/news.rdf');
+    assert.equal(feed.channel.description, 'News & notes');
+    assert.deepEqual(feed.channel.image, {
+      about: 'https://example.com/logo.png',
+      title: 'Example News',
+      url: 'https://example.com/logo.png',
+      link: 'https://example.com/',
+    });
+    assert.equal(feed.channel.textInput?.name, 'q');
+    assert.deepEqual(feed.channel.itemRefs, ['https://example.com/2', 'https://example.com/1']);
+    assert.deepEqual(
+      feed.items.map((item) => item.title),
+      ['Second', 'First'],
+    );
+  });
+
+  it('should extract Dublin Core, Syndication and content:encoded', () => {
+    const feed = parseRDF(RDF);
+
+    assert.deepEqual(feed.channel.dc, {
+      publisher: 'Example Inc.',
+      language: 'en-us',
+      date: '2024-03-01T11:00:00.000Z',
+    });
+    assert.deepEqual(feed.channel.syndication, {
+      updatePeriod: 'hourly',
+      updateFrequency: 2,
+      updateBase: '2000-01-01T12:00:00.000Z',
+    });
+    assert.deepEqual(feed.items[1].dc, {
+      creator: ['Ann', 'Bob'],
+      subject: ['science'],
+      date: '2024-02-28T08:00:00.000Z',
+    });
+    assert.equal(feed.items[0].contentEncoded, '<p>Full <b>text</b></p>');
+  });
+
+  it('should parse RSS 0.90 and resolve relative URLs', () => {
+    const xml = `<?xml version="1.0"?>
+      <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+        xmlns="http://my.netscape.com/rdf/simple/0.9/">
+        <channel>
+          <title>Old</title>
+          <link>/</link>
+          <description>Netscape era</description>
+        </channel>
+        <image>
+          <title>Old</title>
+          <url>/logo.gif</url>
+          <link>/</link>
+        </image>
+        <item><title>One</title><link>/one</link></item>
+        <item><title>Two</title><link>/two</link></item>
+      </rdf:RDF>`;
+    const feed = parseRDF(xml, 'https://old.example.com/feed.rdf');
+
+    assert.equal(feed.version, '0.9');
+    assert.equal(feed.channel.link, 'https://old.example.com/');
+    assert.equal(feed.channel.image?.url, 'https://old.example.com/logo.gif');
+    assert.deepEqual(
+      feed.items.map((item) => item.link),
+      ['https://old.example.com/one', 'https://old.example.com/two'],
+    );
+  });
+
+  it('should throw without rdf:RDF root or channel', () => {
+    assert.throws(() => parseRDF('<rss><channel></channel></rss>'), /Missing <rdf:RDF>/);
+    assert.throws(() => parseRDF('<rdf:RDF></rdf:RDF>'), /Missing <channel>/);
+  });
+});
+
+describe('isRDF', () => {
+  it('should detect rdf:RDF feeds', () => {
+    assert.equal(isRDF(RDF), true);
+    assert.equal(isRDF('<rss version="2.0"><channel></channel></rss>'), false);
+  });
+});
+
+describe('normalizeRDF', () => {
+  it('should map channel and items to the unified format', () => {
+    const feed = normalizeRDF(parseRDF(RDF));
+
+    assert.equal(feed.format, 'rdf');
+    assert.equal(feed.url, 'https://example.com/');
+    assert.equal(feed.feedUrl, 'https://example.com/news.rdf');
+    assert.equal(feed.image, 'https://example.com/logo.png');
+    assert.deepEqual(feed.authors, [{ name: 'Example Inc.' }]);
+    assert.equal(feed.updated, '2024-03-01T11:00:00.000Z');
+
+    const [second, first] = feed.items;
+    assert.equal(second.id, 'https://example.com/2');
+    assert.equal(second.contentHtml, '<p>Full <b>text</b></p>');
+    assert.equal(first.summary, 'First summary');
+    assert.deepEqual(first.authors, [{ name: 'Ann' }, { name: 'Bob' }]);
+    assert.deepEqual(first.tags, ['science']);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * RSS 1.0 (RDF) feed parser
+ * Channel, image, textinput and items are siblings under <rdf:RDF>;
+ * the channel links to them by rdf:resource
+ */
+
+import { normalizeUrlHttps } from '../../utils/normalize-url.js';
+import { cleanText } from '../rss/clean-text.js';
+import { parseRSSDate } from '../rss/parse-date.js';
+import type { RSSElement } from '../rss/xml-parser.js';
+import {
+  getAttribute,
+  getChild,
+  getChildren,
+  getText,
+  parseRSSXML,
+  querySelector,
+} from '../rss/xml-parser.js';
+import type {
+  RdfChannel,
+  RdfDublinCore,
+  RdfFeed,
+  RdfImage,
+  RdfItem,
+  RdfSyndication,
+  RdfTextInput,
+} from './types.js';
+
+/**
+ * Single-valued Dublin Core elements
+ */
+const DC_TEXT_FIELDS = [
+  'title',
+  'description',
+  'publisher',
+  'type',
+  'format',
+  'identifier',
+  'source',
+  'language',
+  'relation',
+  'coverage',
+  'rights',
+] as const;
+
+/**
+ * Repeatable Dublin Core elements
+ */
+const DC_LIST_FIELDS = ['creator', 'subject', 'contributor'] as const;
+
+/**
+ * Parse RSS 1.0 (RDF) feed from XML string
+ * Also accepts RSS 0.90, which shares the RDF structure
+ * @param xml - RDF XML string
+ * @param baseUrl - Optional base URL for resolving relative URLs
+ */
+export function parseRDF(xml: string, baseUrl?: string | URL): RdfFeed {
+  const doc = parseRSSXML(xml);
+
+  const rdfEl = querySelector(doc, 'rdf:RDF');
+  if (!rdfEl) {
+    throw new Error('Invalid RDF: Missing <rdf:RDF> root element');
+  }
+
+  const channelEl = getChild(rdfEl, 'channel');
+  if (!channelEl) {
+    throw new Error('Invalid RDF: Missing <channel> element');
+  }
+
+  const version = Object.values(rdfEl.attributes).some((value) =>
+    value.includes('my.netscape.com/rdf/simple/0.9'),
+  )
+    ? '0.9'
+    : '1.0';
+
+  const channel = extractChannel(channelEl, rdfEl);
+  const items = orderItems(getChildren(rdfEl, 'item').map(extractItem), channel.itemRefs);
+
+  return {
+    version,
+    channel: baseUrl ? normalizeChannelUrls(channel, baseUrl) : channel,
+    items: baseUrl ? items.map((item) => normalizeItemUrls(item, baseUrl)) : items,
+  };
+}
+
+/**
+ * Detect if content is RSS 1.0 (RDF) format
+ */
+export function isRDF(xml: string): boolean {
+  return typeof xml === 'string' && /<rdf:RDF[\s>]/i.test(xml) && /<channel[\s>]/i.test(xml);
+}
+
+/**
+ * Extract channel metadata, resolving image and textinput siblings
+ */
+function extractChannel(channelEl: RSSElement, rdfEl: RSSElement): RdfChannel {
+  const channel: RdfChannel = {
+    title: childText(channelEl, 'title') ?? '',
+    link: childText(channelEl, 'link') ?? '',
+    description: childText(channelEl, 'description') ?? '',
+  };
+
+  const about = getAttribute(channelEl, 'rdf:about');
+  if (about) channel.about = about;
+
+  // RSS 1.0 puts image/textinput next to the channel; RSS 0.90 has no references
+  const imageEl = resolveSibling(rdfEl, channelEl, 'image');
+  if (imageEl) {
+    const image: RdfImage = {
+      title: childText(imageEl, 'title') ?? '',
+      url: childText(imageEl, 'url') ?? '',
+      link: childText(imageEl, 'link') ?? '',
+    };
+    const imageAbout = getAttribute(imageEl, 'rdf:about');
+    if (imageAbout) image.about = imageAbout;
+    if (image.url) channel.image = image;
+  }
+
+  const textInputEl = resolveSibling(rdfEl, channelEl, 'textinput');
+  if (textInputEl) {
+    const textInput: RdfTextInput = {
+      title: childText(textInputEl, 'title') ?? '',
+      description: childText(textInputEl, 'description') ?? '',
+      name: childText(textInputEl, 'name') ?? '',
+      link: childText(textInputEl, 'link') ?? '',
+    };
+    const textInputAbout = getAttribute(textInputEl, 'rdf:about');
+    if (textInputAbout) textInput.about = textInputAbout;
+    channel.textInput = textInput;
+  }
+
+  // <items><rdf:Seq><rdf:li rdf:resource="..."/></rdf:Seq></items>
+  const seqEl = getChild(getChild(channelEl, 'items'), 'rdf:Seq');
+  if (seqEl) {
+    const itemRefs = getChildren(seqEl, 'rdf:li')
+      .map((li) => getAttribute(li, 'rdf:resource') || getAttribute(li, 'resource'))
+      .filter((ref): ref is string => !!ref);
+    if (itemRefs.length > 0) channel.itemRefs = itemRefs;
+  }
+
+  const dc = extractDublinCore(channelEl);
+  if (dc) channel.dc = dc;
+
+  const syndication = extractSyndication(channelEl);
+  if (syndication) channel.syndication = syndication;
+
+  return channel;
+}
+
+/**
+ * Extract an item
+ */
+function extractItem(itemEl: RSSElement): RdfItem {
+  const item: RdfItem = {
+    title: childText(itemEl, 'title') ?? '',
+    link: childText(itemEl, 'link') ?? '',
+  };
+
+  const about = getAttribute(itemEl, 'rdf:about');
+  const description = childText(itemEl, 'description');
+  const contentEncoded = cleanText(getText(getChild(itemEl, 'content:encoded')), {
+    preserveLineBreaks: true,
+  });
+  const dc = extractDublinCore(itemEl);
+
+  if (about) item.about = about;
+  if (description) item.description = description;
+  if (contentEncoded) item.contentEncoded = contentEncoded;
+  if (dc) item.dc = dc;
+
+  return item;
+}
+
+/**
+ * Extract Dublin Core elements (dc:*)
+ */
+function extractDublinCore(element: RSSElement): RdfDublinCore | undefined {
+  const dc: RdfDublinCore = {};
+
+  for (const field of DC_TEXT_FIELDS) {
+    const value = childText(element, `dc:${field}`);
+    if (value) dc[field] = value;
+  }
+
+  for (const field of DC_LIST_FIELDS) {
+    const values = getChildren(element, `dc:${field}`)
+      .map((el) => cleanText(getText(el)))
+      .filter((text) => text.length > 0);
+    if (values.length > 0) dc[field] = values;
+  }
+
+  const date = parseRSSDate(childText(element, 'dc:date'));
+  if (date) dc.date = date;
+
+  return Object.keys(dc).length > 0 ? dc : undefined;
+}
+
+/**
+ * Extract Syndication module elements (syn:*)
+ */
+function extractSyndication(element: RSSElement): RdfSyndication | undefined {
+  const syndication: RdfSyndication = {};
+
+  const updatePeriod = childText(element, 'syn:updatePeriod')?.toLowerCase();
+  const updateFrequency = Number.parseInt(childText(element, 'syn:updateFrequency') ?? '', 10);
+  const updateBase = parseRSSDate(childText(element, 'syn:updateBase'));
+
+  if (updatePeriod) syndication.updatePeriod = updatePeriod;
+  if (!Number.isNaN(updateFrequency) && updateFrequency > 0) {
+    syndication.updateFrequency = updateFrequency;
+  }
+  if (updateBase) syndication.updateBase = updateBase;
+
+  return Object.keys(syndication).length > 0 ? syndication : undefined;
+}
+
+/**
+ * Find the sibling referenced by the channel (or the only sibling of that name)
+ */
+function resolveSibling(
+  rdfEl: RSSElement,
+  channelEl: RSSElement,
+  tagName: string,
+): RSSElement | null {
+  const siblings = getChildren(rdfEl, tagName);
+  const ref = getAttribute(getChild(channelEl, tagName), 'rdf:resource');
+  if (ref) {
+    const match = siblings.find((el) => getAttribute(el, 'rdf:about') === ref);
+    if (match) return match;
+  }
+  return siblings[0] ?? null;
+}
+
+/**
+ * Order items by the channel's rdf:Seq; unlisted items keep document order at the end
+ */
+function orderItems(items: RdfItem[], itemRefs: string[] | undefined): RdfItem[] {
+  if (!itemRefs) return items;
+  const position = (item: RdfItem): number => {
+    const index = itemRefs.indexOf(item.about ?? item.link);
+    return index === -1 ? itemRefs.length : index;
+  };
+  return items
+    .map((item, index) => ({ item, index, position: position(item) }))
+    .sort((a, b) => a.position - b.position || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Normalize all URLs in channel
+ */
+function normalizeChannelUrls(channel: RdfChannel, baseUrl: string | URL): RdfChannel {
+  return {
+    ...channel,
+    link: channel.link ? normalizeUrlHttps(baseUrl, channel.link) : channel.link,
+    image: channel.image
+      ? {
+          ...channel.image,
+          url: normalizeUrlHttps(baseUrl, channel.image.url),
+          link: channel.image.link
+            ? normalizeUrlHttps(baseUrl, channel.image.link)
+            : channel.image.link,
+        }
+      : channel.image,
+  };
+}
+
+/**
+ * Normalize all URLs in item
+ */
+function normalizeItemUrls(item: RdfItem, baseUrl: string | URL): RdfItem {
+  return {
+    ...item,
+    link: item.link ? normalizeUrlHttps(baseUrl, item.link) : item.link,
+  };
+}
+
+/**
+ * Get the cleaned text of the first direct child
+ */
+function childText(element: RSSElement, tagName: string): string | undefined {
+  return cleanText(getText(getChild(element, tagName))) || undefined;
+}
@@ -0,0 +1,121 @@
+/**
+ * RSS 1.0 (RDF) Feed Type Definitions
+ * Spec: https://web.resource.org/rss/1.0/spec
+ * Modules: Dublin Core (dc:*), Syndication (syn:*), Content (content:encoded)
+ */
+
+/**
+ * Dublin Core module (dc:*)
+ */
+export interface RdfDublinCore {
+  title?: string;
+  /** Creators (dc:creator, may repeat) */
+  creator?: string[];
+  /** Subjects / keywords (dc:subject, may repeat) */
+  subject?: string[];
+  description?: string;
+  publisher?: string;
+  /** Contributors (dc:contributor, may repeat) */
+  contributor?: string[];
+  /** Date in ISO 8601 format */
+  date?: string;
+  type?: string;
+  format?: string;
+  identifier?: string;
+  source?: string;
+  language?: string;
+  relation?: string;
+  coverage?: string;
+  rights?: string;
+}
+
+/**
+ * Syndication module (syn:*) - how often the feed is updated
+ */
+export interface RdfSyndication {
+  /** Period: hourly, daily, weekly, monthly or yearly (default daily) */
+  updatePeriod?: string;
+  /** Updates per period (default 1) */
+  updateFrequency?: number;
+  /** Base date for the update schedule (ISO 8601) */
+  updateBase?: string;
+}
+
+/**
+ * RDF Channel - the feed itself
+ */
+export interface RdfChannel {
+  /** Channel URI (rdf:about) */
+  about?: string;
+  /** Title of the channel (required) */
+  title: string;
+  /** URL of the website (required) */
+  link: string;
+  /** Description of the channel (required) */
+  description: string;
+  /** Channel image (the image element referenced by the channel) */
+  image?: RdfImage;
+  /** Text input (the textinput element referenced by the channel) */
+  textInput?: RdfTextInput;
+  /** Item URIs in the order listed by the channel's rdf:Seq */
+  itemRefs?: string[];
+  /** Dublin Core metadata */
+  dc?: RdfDublinCore;
+  /** Syndication module */
+  syndication?: RdfSyndication;
+}
+
+/**
+ * RDF Image
+ */
+export interface RdfImage {
+  /** Image URI (rdf:about) */
+  about?: string;
+  title: string;
+  url: string;
+  link: string;
+}
+
+/**
+ * RDF Text Input
+ */
+export interface RdfTextInput {
+  /** Text input URI (rdf:about) */
+  about?: string;
+  title: string;
+  description: string;
+  /** Name of the form field */
+  name: string;
+  /** Form action URL */
+  link: string;
+}
+
+/**
+ * RDF Item - an article/entry
+ */
+export interface RdfItem {
+  /** Item URI (rdf:about) */
+  about?: string;
+  /** Title of the item (required) */
+  title: string;
+  /** URL of the item (required) */
+  link: string;
+  /** Description/summary */
+  description?: string;
+  /** Full content (content:encoded) */
+  contentEncoded?: string;
+  /** Dublin Core metadata */
+  dc?: RdfDublinCore;
+}
+
+/**
+ * Complete RSS 1.0 feed structure
+ */
+export interface RdfFeed {
+  /** '1.0', or '0.9' for the Netscape RDF Site Summary namespace */
+  version: string;
+  /** Channel metadata */
+  channel: RdfChannel;
+  /** Feed items (ordered by the channel's rdf:Seq when present) */
+  items: RdfItem[];
+}
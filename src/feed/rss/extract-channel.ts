@@ -3,6 +3,7 @@
  */
 
 import { cleanText } from './clean-text.js';
+import { extractItunes, extractPodcast } from './extract-podcast.js';
 import { parseRSSDate } from './parse-date.js';
 import type { RssChannel } from './types.js';
 import type { RSSElement } from './xml-parser.js';
@@ -121,5 +122,11 @@ export function extractChannel(channelElement: RSSElement): RssChannel {
   if (skipHours && skipHours.length > 0) channel.skipHours = skipHours;
   if (skipDays && skipDays.length > 0) channel.skipDays = skipDays;
 
+  // Podcast tags
+  const itunes = extractItunes(channelElement);
+  const podcast = extractPodcast(channelElement);
+  if (itunes) channel.itunes = itunes;
+  if (podcast) channel.podcast = podcast;
+
   return channel;
 }
@@ -43,9 +43,9 @@ export function extractItem(itemElement: RSSElement): RssItem {
   const enclosureEl = querySelector(itemElement, 'enclosure');
   const enclosure: RssEnclosure | undefined = enclosureEl
     ? {
-        url: getAttribute(enclosureEl, 'url') || '',
+        url: cleanText(getAttribute(enclosureEl, 'url')),
         length: Number.parseInt(getAttribute(enclosureEl, 'length') || '0', 10),
-        type: getAttribute(enclosureEl, 'type') || '',
+        type: cleanText(getAttribute(enclosureEl, 'type')),
       }
     : undefined;
 
@@ -1,14 +1,15 @@
 /**
  * Extract RSS namespace extensions
- * Common namespaces: content:encoded, dc:creator, media:*, atom:link
+ * Common namespaces: content:encoded, dc:creator, media:*, atom:link, itunes:*, podcast:*
  */
 
-// import type { RssMediaContent, RssMediaThumbnail } from './types.js';
+import { extractMedia, getMediaContents, getMediaThumbnails } from '../media/extract.js';
 import { cleanText } from './clean-text.js';
+import { extractItunes, extractPodcast } from './extract-podcast.js';
 import { parseRSSDate } from './parse-date.js';
 import type { RssNamespaces } from './types.js';
 import type { RSSElement } from './xml-parser.js';
-import { getAttribute, getText, querySelector, querySelectorAll } from './xml-parser.js';
+import { getText, querySelector, querySelectorAll } from './xml-parser.js';
 
 /**
  * Extract namespace extensions from item
@@ -52,38 +53,30 @@ export function extractNamespaces(itemElement: RSSElement): RssNamespaces {
     }
   }
 
-  // media:content - Media RSS content
-  const mediaContents = querySelectorAll(itemElement, 'media:content');
-  if (mediaContents.length > 0) {
-    namespaces.mediaContent = mediaContents.map((el) => ({
-      url: getAttribute(el, 'url') || '',
-      type: getAttribute(el, 'type') || undefined,
-      medium: getAttribute(el, 'medium') || undefined,
-      width: (() => {
-        const w = getAttribute(el, 'width');
-        return w ? Number.parseInt(w, 10) : undefined;
-      })(),
-      height: (() => {
-        const h = getAttribute(el, 'height');
-        return h ? Number.parseInt(h, 10) : undefined;
-      })(),
-    }));
+  // media:* - Media RSS (contents, groups, thumbnails, credits, player, ...)
+  const media = extractMedia(itemElement);
+  if (media) {
+    namespaces.media = media;
+
+    // Flat lists across all levels (top-level, media:group, media:content)
+    const mediaContent = getMediaContents(media);
+    if (mediaContent.length > 0) {
+      namespaces.mediaContent = mediaContent;
+    }
+    const mediaThumbnail = getMediaThumbnails(media);
+    if (mediaThumbnail.length > 0) {
+      namespaces.mediaThumbnail = mediaThumbnail;
+    }
   }
 
-  // media:thumbnail - Media RSS thumbnail
-  const mediaThumbnails = querySelectorAll(itemElement, 'media:thumbnail');
-  if (mediaThumbnails.length > 0) {
-    namespaces.mediaThumbnail = mediaThumbnails.map((el) => ({
-      url: getAttribute(el, 'url') || '',
-      width: (() => {
-        const w = getAttribute(el, 'width');
-        return w ? Number.parseInt(w, 10) : undefined;
-      })(),
-      height: (() => {
-        const h = getAttribute(el, 'height');
-        return h ? Number.parseInt(h, 10) : undefined;
-      })(),
-    }));
+  // itunes:* and podcast:* - Podcast episode tags
+  const itunes = extractItunes(itemElement);
+  if (itunes) {
+    namespaces.itunes = itunes;
+  }
+  const podcast = extractPodcast(itemElement);
+  if (podcast) {
+    namespaces.podcast = podcast;
   }
 
   return namespaces;
@@ -0,0 +1,192 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractChannel } from './extract-channel.js';
+import { extractNamespaces } from './extract-namespaces.js';
+import { extractItunes, extractPodcast, parseDuration } from './extract-podcast.js';
+import { parseRSS } from './parse.js';
+import { parseRSSXML } from './xml-parser.js';
+
+describe('extractItunes', () => {
+  it('should extract channel tags with category tree and owner', () => {
+    const xml = `
+      <channel>
+        <title>Show</title>
+        <itunes:author>Jane &amp; John</itunes:author>
+        <itunes:image href="https://example.com/art.jpg" />
+        <itunes:explicit>false</itunes:explicit>
+        <itunes:type>Serial</itunes:type>
+        <itunes:category text="Technology">
+          <itunes:category text="Podcasting" />
+        </itunes:category>
+        <itunes:category text="Society &amp; Culture" />
+        <itunes:owner>
+          <itunes:name>Jane</itunes:name>
+          <itunes:email>jane@example.com</itunes:email>
+        </itunes:owner>
+        <itunes:block>Yes</itunes:block>
+        <itunes:keywords>tech, audio ,</itunes:keywords>
+      </channel>
+    `;
+    const itunes = extractItunes(parseRSSXML(xml));
+
+    assert.deepEqual(itunes, {
+      author: 'Jane & John',
+      image: 'https://example.com/art.jpg',
+      explicit: false,
+      block: true,
+      keywords: ['tech', 'audio'],
+      categories: [
+        { text: 'Technology', subcategories: [{ text: 'Podcasting' }] },
+        { text: 'Society & Culture' },
+      ],
+      owner: { name: 'Jane', email: 'jane@example.com' },
+      type: 'serial',
+    });
+  });
+
+  it('should extract episode tags', () => {
+    const xml = `
+      <item>
+        <itunes:duration>1:02:03</itunes:duration>
+        <itunes:episode>12</itunes:episode>
+        <itunes:season>2</itunes:season>
+        <itunes:episodeType>Trailer</itunes:episodeType>
+        <itunes:explicit>yes</itunes:explicit>
+      </item>
+    `;
+    const itunes = extractItunes(parseRSSXML(xml));
+
+    assert.deepEqual(itunes, {
+      explicit: true,
+      duration: '1:02:03',
+      episode: 12,
+      season: 2,
+      episodeType: 'trailer',
+    });
+  });
+
+  it('should return undefined without itunes tags', () => {
+    assert.equal(extractItunes(parseRSSXML('<item><title>Plain</title></item>')), undefined);
+  });
+});
+
+describe('extractPodcast', () => {
+  it('should extract channel tags', () => {
+    const xml = `
+      <channel>
+        <podcast:guid>917393e3-1b1e-5cef-ace4-edaa54e1f810</podcast:guid>
+        <podcast:locked owner="jane@example.com">yes</podcast:locked>
+        <podcast:funding url="https://example.com/donate">Support the show</podcast:funding>
+        <podcast:person role="Host" img="https://example.com/jane.jpg" href="https://jane.example">Jane</podcast:person>
+        <podcast:value type="lightning" method="keysend" suggested="0.00000005000">
+          <podcast:valueRecipient name="Jane" type="node" address="02d5c1" split="95" />
+          <podcast:valueRecipient name="Host" type="node" address="03ae9f" split="5" fee="true" />
+        </podcast:value>
+      </channel>
+    `;
+    const podcast = extractPodcast(parseRSSXML(xml));
+
+    assert.deepEqual(podcast, {
+      guid: '917393e3-1b1e-5cef-ace4-edaa54e1f810',
+      locked: { value: true, owner: 'jane@example.com' },
+      funding: [{ url: 'https://example.com/donate', text: 'Support the show' }],
+      persons: [
+        {
+          name: 'Jane',
+          role: 'host',
+          img: 'https://example.com/jane.jpg',
+          href: 'https://jane.example',
+        },
+      ],
+      value: [
+        {
+          type: 'lightning',
+          method: 'keysend',
+          suggested: '0.00000005000',
+          recipients: [
+            { name: 'Jane', type: 'node', address: '02d5c1', split: 95 },
+            { name: 'Host', type: 'node', address: '03ae9f', split: 5, fee: true },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should extract episode tags', () => {
+    const xml = `
+      <item>
+        <podcast:transcript url="https://example.com/ep1.vtt" type="text/vtt" language="en" rel="captions" />
+        <podcast:transcript url="https://example.com/ep1.srt" type="application/srt" />
+        <podcast:chapters url="https://example.com/ep1.json" type="application/json+chapters" />
+        <podcast:soundbite startTime="73.0" duration="60.0">Best part</podcast:soundbite>
+        <podcast:season name="Origins">1</podcast:season>
+        <podcast:episode display="Ch. 3">3.5</podcast:episode>
+      </item>
+    `;
+    const podcast = extractPodcast(parseRSSXML(xml));
+
+    assert.deepEqual(podcast, {
+      transcripts: [
+        { url: 'https://example.com/ep1.vtt', type: 'text/vtt', language: 'en', rel: 'captions' },
+        { url: 'https://example.com/ep1.srt', type: 'application/srt' },
+      ],
+      chapters: { url: 'https://example.com/ep1.json', type: 'application/json+chapters' },
+      soundbites: [{ startTime: 73, duration: 60, title: 'Best part' }],
+      season: { number: 1, name: 'Origins' },
+      episode: { number: 3.5, display: 'Ch. 3' },
+    });
+  });
+});
+
+describe('parseDuration', () => {
+  it('should parse seconds, MM:SS and HH:MM:SS', () => {
+    assert.equal(parseDuration('3600'), 3600);
+    assert.equal(parseDuration('45:30'), 2730);
+    assert.equal(parseDuration('1:02:03'), 3723);
+    assert.equal(parseDuration('90.6'), 91);
+  });
+
+  it('should reject invalid durations', () => {
+    assert.equal(parseDuration('about an hour'), undefined);
+    assert.equal(parseDuration(''), undefined);
+    assert.equal(parseDuration(undefined), undefined);
+  });
+});
+
+describe('podcast tags in RSS parsing', () => {
+  const xml = `<?xml version="1.0"?>
+    <rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+      <channel>
+        <title>Show</title>
+        <link>https://example.com</link>
+        <description>A show</description>
+        <itunes:author>Show Author</itunes:author>
+        <item>
+          <title>Episode 1</title>
+          <itunes:author>Episode Author</itunes:author>
+          <itunes:duration>600</itunes:duration>
+          <podcast:episode>1</podcast:episode>
+        </item>
+      </channel>
+    </rss>`;
+
+  it('should keep channel tags separate from item tags', () => {
+    const feed = parseRSS(xml);
+
+    assert.deepEqual(feed.channel.itunes, { author: 'Show Author' });
+    assert.equal(feed.channel.podcast, undefined);
+    assert.deepEqual(feed.items[0].namespaces?.itunes, {
+      author: 'Episode Author',
+      duration: '600',
+    });
+    assert.deepEqual(feed.items[0].namespaces?.podcast, { episode: { number: 1 } });
+  });
+
+  it('should expose tags through extractChannel and extractNamespaces', () => {
+    const root = parseRSSXML(xml);
+    const channelEl = root.children[0];
+
+    assert.equal(extractChannel(channelEl).itunes?.author, 'Show Author');
+    assert.equal(extractNamespaces(channelEl.children[4]).itunes?.duration, '600');
+  });
+});
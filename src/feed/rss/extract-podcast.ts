@@ -0,0 +1,308 @@
+/**
+ * Extract podcast namespace extensions
+ * Apple Podcasts (itunes:*) and Podcasting 2.0 (podcast:*) tags
+ * Only direct children are read, so channel tags never pick up item tags
+ */
+
+import { cleanText } from './clean-text.js';
+import type {
+  RssItunes,
+  RssItunesCategory,
+  RssPodcast,
+  RssPodcastChapters,
+  RssPodcastEpisode,
+  RssPodcastFunding,
+  RssPodcastLocked,
+  RssPodcastPerson,
+  RssPodcastSeason,
+  RssPodcastSoundbite,
+  RssPodcastTranscript,
+  RssPodcastValue,
+  RssPodcastValueRecipient,
+} from './types.js';
+import type { RSSElement } from './xml-parser.js';
+import { getAttribute, getChild, getChildren, getText } from './xml-parser.js';
+
+/**
+ * Extract itunes:* tags from a channel or item element
+ */
+export function extractItunes(element: RSSElement): RssItunes | undefined {
+  const itunes: RssItunes = {};
+
+  const title = childText(element, 'itunes:title');
+  const author = childText(element, 'itunes:author');
+  const subtitle = childText(element, 'itunes:subtitle');
+  const summary = childText(element, 'itunes:summary');
+  const image = attribute(getChild(element, 'itunes:image'), 'href');
+  const explicit = parseExplicit(childText(element, 'itunes:explicit'));
+  const block = parseYes(childText(element, 'itunes:block'));
+  const complete = parseYes(childText(element, 'itunes:complete'));
+  const type = childText(element, 'itunes:type')?.toLowerCase();
+  const newFeedUrl = childText(element, 'itunes:new-feed-url');
+  const duration = childText(element, 'itunes:duration');
+  const episode = parseNumber(childText(element, 'itunes:episode'));
+  const season = parseNumber(childText(element, 'itunes:season'));
+  const episodeType = childText(element, 'itunes:episodeType')?.toLowerCase();
+
+  const keywords = childText(element, 'itunes:keywords')
+    ?.split(',')
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.length > 0);
+
+  const categories = getChildren(element, 'itunes:category')
+    .map(extractCategory)
+    .filter((category): category is RssItunesCategory => category !== null);
+
+  const ownerEl = getChild(element, 'itunes:owner');
+  const owner = ownerEl
+    ? {
+        name: childText(ownerEl, 'itunes:name'),
+        email: childText(ownerEl, 'itunes:email'),
+      }
+    : undefined;
+
+  if (title) itunes.title = title;
+  if (author) itunes.author = author;
+  if (subtitle) itunes.subtitle = subtitle;
+  if (summary) itunes.summary = summary;
+  if (image) itunes.image = image;
+  if (explicit !== undefined) itunes.explicit = explicit;
+  if (block !== undefined) itunes.block = block;
+  if (keywords && keywords.length > 0) itunes.keywords = keywords;
+  if (categories.length > 0) itunes.categories = categories;
+  if (owner && (owner.name || owner.email)) {
+    itunes.owner = {};
+    if (owner.name) itunes.owner.name = owner.name;
+    if (owner.email) itunes.owner.email = owner.email;
+  }
+  if (type) itunes.type = type;
+  if (complete !== undefined) itunes.complete = complete;
+  if (newFeedUrl) itunes.newFeedUrl = newFeedUrl;
+  if (duration) itunes.duration = duration;
+  if (episode !== undefined) itunes.episode = episode;
+  if (season !== undefined) itunes.season = season;
+  if (episodeType) itunes.episodeType = episodeType;
+
+  return Object.keys(itunes).length > 0 ? itunes : undefined;
+}
+
+/**
+ * Extract podcast:* tags from a channel or item element
+ */
+export function extractPodcast(element: RSSElement): RssPodcast | undefined {
+  const podcast: RssPodcast = {};
+
+  const guid = childText(element, 'podcast:guid');
+  if (guid) podcast.guid = guid;
+
+  const lockedEl = getChild(element, 'podcast:locked');
+  const lockedValue = parseYes(cleanText(getText(lockedEl)) || undefined);
+  if (lockedEl && lockedValue !== undefined) {
+    const locked: RssPodcastLocked = { value: lockedValue };
+    const owner = attribute(lockedEl, 'owner');
+    if (owner) locked.owner = owner;
+    podcast.locked = locked;
+  }
+
+  const funding = getChildren(element, 'podcast:funding')
+    .map((el): RssPodcastFunding | null => {
+      const url = attribute(el, 'url');
+      if (!url) return null;
+      const text = cleanText(getText(el));
+      return text ? { url, text } : { url };
+    })
+    .filter((entry): entry is RssPodcastFunding => entry !== null);
+  if (funding.length > 0) podcast.funding = funding;
+
+  const persons = getChildren(element, 'podcast:person')
+    .map(extractPerson)
+    .filter((person): person is RssPodcastPerson => person !== null);
+  if (persons.length > 0) podcast.persons = persons;
+
+  const value = getChildren(element, 'podcast:value')
+    .map(extractValue)
+    .filter((entry): entry is RssPodcastValue => entry !== null);
+  if (value.length > 0) podcast.value = value;
+
+  const transcripts = getChildren(element, 'podcast:transcript')
+    .map((el): RssPodcastTranscript | null => {
+      const url = attribute(el, 'url');
+      const type = attribute(el, 'type');
+      if (!url || !type) return null;
+      const transcript: RssPodcastTranscript = { url, type };
+      const language = attribute(el, 'language');
+      const rel = attribute(el, 'rel');
+      if (language) transcript.language = language;
+      if (rel) transcript.rel = rel;
+      return transcript;
+    })
+    .filter((entry): entry is RssPodcastTranscript => entry !== null);
+  if (transcripts.length > 0) podcast.transcripts = transcripts;
+
+  const chaptersEl = getChild(element, 'podcast:chapters');
+  const chaptersUrl = attribute(chaptersEl, 'url');
+  if (chaptersUrl) {
+    const chapters: RssPodcastChapters = {
+      url: chaptersUrl,
+      type: attribute(chaptersEl, 'type') || 'application/json+chapters',
+    };
+    podcast.chapters = chapters;
+  }
+
+  const soundbites = getChildren(element, 'podcast:soundbite')
+    .map((el): RssPodcastSoundbite | null => {
+      const startTime = parseNumber(attribute(el, 'startTime'));
+      const duration = parseNumber(attribute(el, 'duration'));
+      if (startTime === undefined || duration === undefined) return null;
+      const soundbite: RssPodcastSoundbite = { startTime, duration };
+      const title = cleanText(getText(el));
+      if (title) soundbite.title = title;
+      return soundbite;
+    })
+    .filter((entry): entry is RssPodcastSoundbite => entry !== null);
+  if (soundbites.length > 0) podcast.soundbites = soundbites;
+
+  const seasonEl = getChild(element, 'podcast:season');
+  const seasonNumber = parseNumber(cleanText(getText(seasonEl)));
+  if (seasonNumber !== undefined) {
+    const season: RssPodcastSeason = { number: seasonNumber };
+    const name = attribute(seasonEl, 'name');
+    if (name) season.name = name;
+    podcast.season = season;
+  }
+
+  const episodeEl = getChild(element, 'podcast:episode');
+  const episodeNumber = parseNumber(cleanText(getText(episodeEl)));
+  if (episodeNumber !== undefined) {
+    const episode: RssPodcastEpisode = { number: episodeNumber };
+    const display = attribute(episodeEl, 'display');
+    if (display) episode.display = display;
+    podcast.episode = episode;
+  }
+
+  return Object.keys(podcast).length > 0 ? podcast : undefined;
+}
+
+/**
+ * Parse an itunes:duration value to seconds
+ * Accepts plain seconds, MM:SS and HH:MM:SS
+ */
+export function parseDuration(duration: string | null | undefined): number | undefined {
+  if (!duration) return undefined;
+  const trimmed = duration.trim();
+  if (!/^\d+(?:\.\d+)?$|^\d+(?::\d{1,2}){1,2}(?:\.\d+)?$/.test(trimmed)) {
+    return undefined;
+  }
+  const seconds = trimmed
+    .split(':')
+    .reduce((total, part) => total * 60 + Number.parseFloat(part), 0);
+  return Math.round(seconds);
+}
+
+/**
+ * Extract an itunes:category and its subcategories
+ */
+function extractCategory(element: RSSElement): RssItunesCategory | null {
+  const text = attribute(element, 'text');
+  if (!text) return null;
+  const subcategories = getChildren(element, 'itunes:category')
+    .map(extractCategory)
+    .filter((category): category is RssItunesCategory => category !== null);
+  return subcategories.length > 0 ? { text, subcategories } : { text };
+}
+
+/**
+ * Extract a podcast:person
+ */
+function extractPerson(element: RSSElement): RssPodcastPerson | null {
+  const name = cleanText(getText(element));
+  if (!name) return null;
+  const person: RssPodcastPerson = { name };
+  const role = attribute(element, 'role');
+  const group = attribute(element, 'group');
+  const img = attribute(element, 'img');
+  const href = attribute(element, 'href');
+  if (role) person.role = role.toLowerCase();
+  if (group) person.group = group.toLowerCase();
+  if (img) person.img = img;
+  if (href) person.href = href;
+  return person;
+}
+
+/**
+ * Extract a podcast:value block with its recipients
+ */
+function extractValue(element: RSSElement): RssPodcastValue | null {
+  const type = attribute(element, 'type');
+  const method = attribute(element, 'method');
+  if (!type || !method) return null;
+
+  const recipients = getChildren(element, 'podcast:valueRecipient').flatMap((el) => {
+    const recipientType = attribute(el, 'type');
+    const address = attribute(el, 'address');
+    const split = parseNumber(attribute(el, 'split'));
+    if (!recipientType || !address || split === undefined) return [];
+    const recipient: RssPodcastValueRecipient = {
+      type: recipientType,
+      address,
+      split,
+    };
+    const name = attribute(el, 'name');
+    const fee = parseYes(attribute(el, 'fee'));
+    const customKey = attribute(el, 'customKey');
+    const customValue = attribute(el, 'customValue');
+    if (name) recipient.name = name;
+    if (fee !== undefined) recipient.fee = fee;
+    if (customKey) recipient.customKey = customKey;
+    if (customValue) recipient.customValue = customValue;
+    return [recipient];
+  });
+
+  const value: RssPodcastValue = { type, method, recipients };
+  const suggested = attribute(element, 'suggested');
+  if (suggested) value.suggested = suggested;
+  return value;
+}
+
+/**
+ * Get the cleaned text of the first direct child
+ */
+function childText(element: RSSElement, tagName: string): string | undefined {
+  return cleanText(getText(getChild(element, tagName))) || undefined;
+}
+
+/**
+ * Get a cleaned attribute value (entities decoded)
+ */
+function attribute(element: RSSElement | null, name: string): string | undefined {
+  return cleanText(getAttribute(element, name)) || undefined;
+}
+
+/**
+ * Parse itunes:explicit (yes/true/explicit vs. no/false/clean)
+ */
+function parseExplicit(value: string | undefined): boolean | undefined {
+  const normalized = value?.toLowerCase();
+  if (normalized === 'yes' || normalized === 'true' || normalized === 'explicit') return true;
+  if (normalized === 'no' || normalized === 'false' || normalized === 'clean') return false;
+  return undefined;
+}
+
+/**
+ * Parse yes/no and true/false flags
+ */
+function parseYes(value: string | undefined): boolean | undefined {
+  const normalized = value?.toLowerCase();
+  if (normalized === 'yes' || normalized === 'true') return true;
+  if (normalized === 'no' || normalized === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Parse a number, ignoring invalid values
+ */
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const num = Number.parseFloat(value);
+  return Number.isNaN(num) ? undefined : num;
+}
@@ -8,6 +8,7 @@ export { cleanText, decodeEntities, normalizeWhitespace, stripCDATA } from './cl
 export { extractChannel } from './extract-channel.js';
 export { extractItem, extractItems } from './extract-item.js';
 export { extractNamespaces } from './extract-namespaces.js';
+export { extractItunes, extractPodcast, parseDuration } from './extract-podcast.js';
 // Main parser
 export { isRSS, parseRSS } from './parse.js';
 export { isValidDate, parseRFC822Date, parseRSSDate } from './parse-date.js';
@@ -22,9 +23,23 @@ export type {
   RssImage,
   RssItem,
   RssItemExtended,
+  RssItunes,
+  RssItunesCategory,
+  RssItunesOwner,
   RssMediaContent,
   RssMediaThumbnail,
   RssNamespaces,
+  RssPodcast,
+  RssPodcastChapters,
+  RssPodcastEpisode,
+  RssPodcastFunding,
+  RssPodcastLocked,
+  RssPodcastPerson,
+  RssPodcastSeason,
+  RssPodcastSoundbite,
+  RssPodcastTranscript,
+  RssPodcastValue,
+  RssPodcastValueRecipient,
   RssSource,
 } from './types.js';
 export type { RSSElement } from './xml-parser.js';
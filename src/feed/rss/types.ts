@@ -3,6 +3,8 @@
  * Spec: https://www.rssboard.org/rss-specification
  */
 
+import type { MediaContent, MediaRss, MediaThumbnail } from '../media/types.js';
+
 /**
  * RSS Channel - represents the feed itself
  */
@@ -41,6 +43,10 @@ export interface RssChannel {
   skipHours?: number[];
   /** Skip days */
   skipDays?: string[];
+  /** Apple Podcasts channel tags (itunes:*) */
+  itunes?: RssItunes;
+  /** Podcasting 2.0 channel tags (podcast:*) */
+  podcast?: RssPodcast;
 }
 
 /**
@@ -154,30 +160,244 @@ export interface RssNamespaces {
   dcDate?: string;
   /** Dublin Core subject (dc:subject) */
   dcSubject?: string[];
-  /** Media content URL (media:content) */
+  /** Media content (media:content), including contents of media:group */
   mediaContent?: RssMediaContent[];
-  /** Media thumbnail (media:thumbnail) */
+  /** Media thumbnails (media:thumbnail) at any level */
   mediaThumbnail?: RssMediaThumbnail[];
+  /** Full Media RSS structure (media:group, media:credit, media:player, ...) */
+  media?: MediaRss;
+  /** Apple Podcasts episode tags (itunes:*) */
+  itunes?: RssItunes;
+  /** Podcasting 2.0 episode tags (podcast:*) */
+  podcast?: RssPodcast;
 }
 
 /**
- * Media RSS Content
+ * Media RSS Content (see {@link MediaContent})
  */
-export interface RssMediaContent {
-  url: string;
+export type RssMediaContent = MediaContent;
+
+/**
+ * Media RSS Thumbnail (see {@link MediaThumbnail})
+ */
+export type RssMediaThumbnail = MediaThumbnail;
+
+/**
+ * Apple Podcasts tags (itunes:* namespace)
+ * Spec: https://help.apple.com/itc/podcasts_connect/#/itcb54353390
+ * Channel-only: categories, owner, type, complete, newFeedUrl
+ * Item-only: duration, episode, season, episodeType
+ */
+export interface RssItunes {
+  /** Show or episode title (itunes:title) */
+  title?: string;
+  /** Show or episode author (itunes:author) */
+  author?: string;
+  /** Short description (itunes:subtitle) */
+  subtitle?: string;
+  /** Long description (itunes:summary) */
+  summary?: string;
+  /** Artwork URL (itunes:image href) */
+  image?: string;
+  /** Parental advisory (itunes:explicit: yes/true/explicit vs. no/false/clean) */
+  explicit?: boolean;
+  /** Hidden from Apple Podcasts (itunes:block Yes) */
+  block?: boolean;
+  /** Comma-separated keywords (itunes:keywords) */
+  keywords?: string[];
+  /** Category tree (itunes:category, nested at most one level) */
+  categories?: RssItunesCategory[];
+  /** Show owner (itunes:owner) */
+  owner?: RssItunesOwner;
+  /** Show type: episodic or serial (itunes:type) */
   type?: string;
-  medium?: string;
-  width?: number;
-  height?: number;
+  /** No more episodes will be published (itunes:complete Yes) */
+  complete?: boolean;
+  /** New feed location (itunes:new-feed-url) */
+  newFeedUrl?: string;
+  /** Episode duration as written: seconds, MM:SS or HH:MM:SS (itunes:duration) */
+  duration?: string;
+  /** Episode number (itunes:episode) */
+  episode?: number;
+  /** Season number (itunes:season) */
+  season?: number;
+  /** Episode type: full, trailer or bonus (itunes:episodeType) */
+  episodeType?: string;
 }
 
 /**
- * Media RSS Thumbnail
+ * Apple Podcasts category (itunes:category text)
  */
-export interface RssMediaThumbnail {
+export interface RssItunesCategory {
+  /** Category name */
+  text: string;
+  /** Nested subcategories */
+  subcategories?: RssItunesCategory[];
+}
+
+/**
+ * Apple Podcasts show owner (itunes:owner)
+ */
+export interface RssItunesOwner {
+  /** Owner name (itunes:name) */
+  name?: string;
+  /** Owner email (itunes:email) */
+  email?: string;
+}
+
+/**
+ * Podcasting 2.0 tags (podcast:* namespace)
+ * Spec: https://podcastindex.org/namespace/1.0
+ * Channel-only: guid, locked, funding
+ * Item-only: transcripts, chapters, soundbites, season, episode
+ */
+export interface RssPodcast {
+  /** Globally unique podcast GUID (podcast:guid) */
+  guid?: string;
+  /** Feed must not be imported elsewhere (podcast:locked) */
+  locked?: RssPodcastLocked;
+  /** Donation and support links (podcast:funding) */
+  funding?: RssPodcastFunding[];
+  /** People involved (podcast:person) */
+  persons?: RssPodcastPerson[];
+  /** Value-for-value payment details (podcast:value) */
+  value?: RssPodcastValue[];
+  /** Episode transcripts (podcast:transcript) */
+  transcripts?: RssPodcastTranscript[];
+  /** Episode chapters file (podcast:chapters) */
+  chapters?: RssPodcastChapters;
+  /** Highlight clips (podcast:soundbite) */
+  soundbites?: RssPodcastSoundbite[];
+  /** Episode season (podcast:season) */
+  season?: RssPodcastSeason;
+  /** Episode number (podcast:episode) */
+  episode?: RssPodcastEpisode;
+}
+
+/**
+ * podcast:locked
+ */
+export interface RssPodcastLocked {
+  /** Whether the feed is locked */
+  value: boolean;
+  /** Owner email allowed to move the feed */
+  owner?: string;
+}
+
+/**
+ * podcast:funding
+ */
+export interface RssPodcastFunding {
+  /** Funding page URL */
   url: string;
-  width?: number;
-  height?: number;
+  /** Link text */
+  text?: string;
+}
+
+/**
+ * podcast:person
+ */
+export interface RssPodcastPerson {
+  /** Person's name */
+  name: string;
+  /** Role (e.g., host, guest) */
+  role?: string;
+  /** Role group (e.g., cast, writing) */
+  group?: string;
+  /** Picture URL (img) */
+  img?: string;
+  /** Profile URL (href) */
+  href?: string;
+}
+
+/**
+ * podcast:value
+ */
+export interface RssPodcastValue {
+  /** Payment layer (e.g., lightning) */
+  type: string;
+  /** Payment method (e.g., keysend) */
+  method: string;
+  /** Suggested amount per minute */
+  suggested?: string;
+  /** Payment recipients (podcast:valueRecipient) */
+  recipients: RssPodcastValueRecipient[];
+}
+
+/**
+ * podcast:valueRecipient
+ */
+export interface RssPodcastValueRecipient {
+  /** Recipient name */
+  name?: string;
+  /** Address type (e.g., node) */
+  type: string;
+  /** Payment address */
+  address: string;
+  /** Share of the payment */
+  split: number;
+  /** Whether the split is a fee */
+  fee?: boolean;
+  /** Custom record key */
+  customKey?: string;
+  /** Custom record value */
+  customValue?: string;
+}
+
+/**
+ * podcast:transcript
+ */
+export interface RssPodcastTranscript {
+  /** Transcript URL */
+  url: string;
+  /** MIME type (e.g., text/vtt, application/srt) */
+  type: string;
+  /** Transcript language */
+  language?: string;
+  /** Set to 'captions' for closed captions */
+  rel?: string;
+}
+
+/**
+ * podcast:chapters
+ */
+export interface RssPodcastChapters {
+  /** Chapters file URL */
+  url: string;
+  /** MIME type (usually application/json+chapters) */
+  type: string;
+}
+
+/**
+ * podcast:soundbite
+ */
+export interface RssPodcastSoundbite {
+  /** Start offset in seconds */
+  startTime: number;
+  /** Length in seconds */
+  duration: number;
+  /** Clip title */
+  title?: string;
+}
+
+/**
+ * podcast:season
+ */
+export interface RssPodcastSeason {
+  /** Season number */
+  number: number;
+  /** Season name */
+  name?: string;
+}
+
+/**
+ * podcast:episode
+ */
+export interface RssPodcastEpisode {
+  /** Episode number (may be fractional) */
+  number: number;
+  /** Display label (e.g., 'Ch. 3') */
+  display?: string;
 }
 
 /**
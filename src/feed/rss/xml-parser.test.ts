@@ -2,6 +2,8 @@ import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
 import {
   getAttribute,
+  getChild,
+  getChildren,
   getText,
   parseRSSXML,
   querySelector,
@@ -87,6 +89,20 @@ describe('parseRSSXML', () => {
     assert.equal(root.text, '');
   });
 
+  it('should not mistake longer tag names or self-closing tags for nesting', () => {
+    const xml = `
+      <podcast:value type="lightning">
+        <podcast:valueRecipient name="Host" split="90" />
+        <itunes:category text="Technology"><itunes:category text="Podcasting" /></itunes:category>
+      </podcast:value>
+    `;
+    const root = parseRSSXML(xml);
+    assert.equal(root.tagName, 'podcast:value');
+    assert.equal(root.children.length, 2);
+    assert.equal(root.children[0].tagName, 'podcast:valueRecipient');
+    assert.equal(root.children[1].children[0].attributes.text, 'Podcasting');
+  });
+
   it('should handle deeply nested elements', () => {
     const xml = `
       <rss>
@@ -162,6 +178,14 @@ describe('parseRSSXML', () => {
     assert.equal(root.attributes.href, 'https://example.com');
   });
 
+  it('should handle attributes on the following line', () => {
+    const xml = '<rdf:RDF\n  xmlns="http://purl.org/rss/1.0/">\n  <channel/>\n</rdf:RDF>';
+    const root = parseRSSXML(xml);
+    assert.equal(root.tagName, 'rdf:RDF');
+    assert.equal(root.attributes.xmlns, 'http://purl.org/rss/1.0/');
+    assert.equal(root.children[0].tagName, 'channel');
+  });
+
   it('should handle real RSS channel structure', () => {
     const xml = `
       <channel>
@@ -297,6 +321,26 @@ describe('querySelectorAll', () => {
   });
 });
 
+describe('getChildren', () => {
+  it('should find direct children case-insensitively', () => {
+    const root = parseRSSXML('<body><Outline/><group><outline/></group><outline/></body>');
+    assert.equal(getChildren(root, 'outline').length, 2);
+    assert.equal(getChildren(root, 'missing').length, 0);
+  });
+});
+
+describe('getChild', () => {
+  it('should find the first direct child', () => {
+    const root = parseRSSXML('<item><title>One</title><title>Two</title></item>');
+    assert.equal(getText(getChild(root, 'TITLE')), 'One');
+    assert.equal(getChild(root, 'link'), null);
+  });
+
+  it('should return null for null', () => {
+    assert.equal(getChild(null, 'title'), null);
+  });
+});
+
 describe('getText', () => {
   it('should get text from element', () => {
     const xml = '<title>Hello World</title>';
@@ -110,9 +110,21 @@ function findClosingTag(xml: string, tagName: string, startPos: number): number
     }
 
     if (nextOpen !== -1 && nextOpen < nextClose) {
+      pos = nextOpen + openTag.length;
+
+      // Only count real nested opening tags: skip longer names sharing the
+      // prefix (<podcast:value> vs. <podcast:valueRecipient>) and self-closing tags
+      if (!/[\s/>]/.test(xml[pos] ?? '')) {
+        continue;
+      }
+      const tagEnd = xml.indexOf('>', pos);
+      if (tagEnd !== -1 && xml[tagEnd - 1] === '/') {
+        pos = tagEnd + 1;
+        continue;
+      }
+
       // Found nested opening tag
       depth++;
-      pos = nextOpen + openTag.length;
     } else {
       // Found closing tag
       depth--;
@@ -158,7 +170,7 @@ function parseElement(
   const tagContent = isSelfClosing ? openTagContent.slice(0, -1).trim() : openTagContent;
 
   // Extract tag name and attributes
-  const spaceIndex = tagContent.indexOf(' ');
+  const spaceIndex = tagContent.search(/\s/);
   const tagName = spaceIndex === -1 ? tagContent : tagContent.substring(0, spaceIndex);
   const attributes = spaceIndex === -1 ? {} : parseAttributes(tagContent.substring(spaceIndex));
 
@@ -276,6 +288,27 @@ export function querySelectorAll(
   return results;
 }
 
+/**
+ * Find direct children by tag name (case-insensitive)
+ */
+export function getChildren<T extends { tagName: string; children: T[] }>(
+  element: T,
+  tagName: string,
+): T[] {
+  const name = tagName.toLowerCase();
+  return element.children.filter((el) => el.tagName.toLowerCase() === name);
+}
+
+/**
+ * Find the first direct child by tag name (case-insensitive)
+ */
+export function getChild<T extends { tagName: string; children: T[] }>(
+  element: T | null | undefined,
+  tagName: string,
+): T | null {
+  return element ? (getChildren(element, tagName)[0] ?? null) : null;
+}
+
 /**
  * Get text content of element
  */
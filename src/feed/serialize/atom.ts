@@ -0,0 +1,118 @@
+/**
+ * Serialize a normalized feed to Atom 1.0
+ * HTML content and summaries are written as type="html" in CDATA, plain text as
+ * type="text"; xml:base is set to the home page so relative references resolve
+ */
+
+import type { Feed, FeedAuthor, FeedItem } from '../types.js';
+import {
+  cdataElement,
+  emptyElement,
+  lines,
+  renderAttributes,
+  textElement,
+  toRFC3339,
+} from './xml.js';
+
+/**
+ * Serialize feed to Atom 1.0 XML
+ */
+export function serializeAtom(feed: Feed): string {
+  // Atom requires updated; fall back to the newest item date
+  const updated =
+    toRFC3339(feed.updated) ??
+    feed.items
+      .map((item) => toRFC3339(item.modified ?? item.published))
+      .filter((date): date is string => date !== undefined)
+      .sort()
+      .pop() ??
+    new Date().toISOString();
+
+  const metadata = lines(1, [
+    textElement('id', feed.feedUrl || feed.url || feed.title),
+    textElement('title', feed.title, { type: 'text' }),
+    textElement('subtitle', feed.description, { type: 'text' }),
+    textElement('updated', updated),
+    feed.url ? emptyElement('link', { rel: 'alternate', type: 'text/html', href: feed.url }) : '',
+    feed.feedUrl
+      ? emptyElement('link', { rel: 'self', type: 'application/atom+xml', href: feed.feedUrl })
+      : '',
+    textElement('logo', feed.image),
+    ...(feed.authors ?? []).map((author) => serializePerson(author, 1)),
+  ]);
+  const entries = feed.items.map((item) => serializeEntry(item, updated)).join('\n');
+
+  const rootAttributes = renderAttributes({
+    xmlns: 'http://www.w3.org/2005/Atom',
+    'xmlns:media': 'http://search.yahoo.com/mrss/',
+    'xml:base': feed.url,
+    'xml:lang': feed.language,
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed${rootAttributes}>`,
+    metadata,
+    ...(entries ? [entries] : []),
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize a single entry
+ */
+function serializeEntry(item: FeedItem, feedUpdated: string): string {
+  const children = lines(2, [
+    textElement('id', item.id),
+    // Atom requires a non-empty title; untitled items (e.g. microblog posts) use their id
+    textElement('title', item.title || item.id, { type: 'text' }),
+    textElement('updated', toRFC3339(item.modified ?? item.published) ?? feedUpdated),
+    textElement('published', toRFC3339(item.published)),
+    item.url ? emptyElement('link', { rel: 'alternate', type: 'text/html', href: item.url }) : '',
+    item.externalUrl ? emptyElement('link', { rel: 'related', href: item.externalUrl }) : '',
+    ...(item.enclosures ?? []).map((enclosure) =>
+      emptyElement('link', {
+        rel: 'enclosure',
+        href: enclosure.url,
+        type: enclosure.type,
+        length: enclosure.length,
+      }),
+    ),
+    ...(item.authors ?? []).map((author) => serializePerson(author, 2)),
+    ...(item.tags ?? []).map((tag) => emptyElement('category', { term: tag })),
+    item.summary ? serializeText('summary', item.summary) : '',
+    item.contentHtml
+      ? cdataElement('content', item.contentHtml, { type: 'html' })
+      : textElement('content', item.contentText, { type: 'text' }),
+    item.image ? emptyElement('media:thumbnail', { url: item.image }) : '',
+  ]);
+
+  return ['  <entry>', children, '  </entry>'].join('\n');
+}
+
+/**
+ * Serialize an author, which requires a name in Atom
+ */
+function serializePerson(author: FeedAuthor, depth: number): string {
+  const name = author.name || author.email || author.url;
+  if (!name) return '';
+  return [
+    '<author>',
+    lines(depth + 1, [
+      textElement('name', name),
+      textElement('email', author.email),
+      textElement('uri', author.url),
+    ]),
+    `${'  '.repeat(depth)}</author>`,
+  ].join('\n');
+}
+
+/**
+ * Serialize a text construct, as HTML when it contains markup
+ */
+function serializeText(tagName: string, value: string): string {
+  return /<[a-z!/]/i.test(value)
+    ? cdataElement(tagName, value, { type: 'html' })
+    : textElement(tagName, value, { type: 'text' });
+}
@@ -0,0 +1,13 @@
+/**
+ * Feed Serializer Module
+ *
+ * @remarks
+ * Writes normalized feeds as RSS 2.0, Atom 1.0 or JSON Feed 1.1.
+ *
+ * @packageDocumentation
+ */
+
+export { serializeAtom } from './atom.js';
+export { serializeJSONFeed } from './json-feed.js';
+export { serializeRSS } from './rss.js';
+export { type SerializeFormat, serializeFeed } from './serialize.js';
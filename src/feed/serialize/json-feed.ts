@@ -0,0 +1,63 @@
+/**
+ * Serialize a normalized feed to JSON Feed 1.1
+ * Spec: https://www.jsonfeed.org/version/1.1/
+ */
+
+import type { JSONFeed, JSONFeedAuthor, JSONFeedItem } from '../json-feed/types.js';
+import type { Feed, FeedAuthor, FeedItem } from '../types.js';
+import { toRFC3339 } from './xml.js';
+
+/**
+ * Serialize feed to JSON Feed 1.1
+ */
+export function serializeJSONFeed(feed: Feed): string {
+  const jsonFeed: JSONFeed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.url,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    icon: feed.image,
+    authors: serializeAuthors(feed.authors),
+    language: feed.language,
+    items: feed.items.map(serializeItem),
+  };
+
+  return `${JSON.stringify(jsonFeed, null, 2)}\n`;
+}
+
+/**
+ * Serialize a single item
+ */
+function serializeItem(item: FeedItem): JSONFeedItem {
+  return {
+    id: item.id,
+    url: item.url,
+    external_url: item.externalUrl,
+    title: item.title,
+    content_html: item.contentHtml,
+    // Items need content_html or content_text; fall back to the summary
+    content_text: item.contentText ?? (item.contentHtml ? undefined : (item.summary ?? '')),
+    summary: item.summary,
+    image: item.image,
+    date_published: toRFC3339(item.published),
+    date_modified: toRFC3339(item.modified),
+    authors: serializeAuthors(item.authors),
+    tags: item.tags && item.tags.length > 0 ? item.tags : undefined,
+    attachments: item.enclosures?.map((enclosure) => ({
+      url: enclosure.url,
+      mime_type: enclosure.type || 'application/octet-stream',
+      size_in_bytes: enclosure.length,
+    })),
+  };
+}
+
+/**
+ * Serialize authors (JSON Feed has no email field)
+ */
+function serializeAuthors(authors: FeedAuthor[] | undefined): JSONFeedAuthor[] | undefined {
+  const serialized = (authors ?? [])
+    .filter((author) => author.name || author.url)
+    .map((author) => ({ name: author.name, url: author.url }));
+  return serialized.length > 0 ? serialized : undefined;
+}
@@ -0,0 +1,104 @@
+/**
+ * Serialize a normalized feed to RSS 2.0
+ * Uses content:encoded for HTML content, dc:creator for authors, atom:link for
+ * the self reference and media:* for images and additional enclosures
+ */
+
+import type { Feed, FeedAuthor, FeedItem } from '../types.js';
+import { cdataElement, emptyElement, escapeXml, lines, textElement, toRFC822 } from './xml.js';
+
+/**
+ * Serialize feed to RSS 2.0 XML
+ */
+export function serializeRSS(feed: Feed): string {
+  const channel = lines(2, [
+    textElement('title', feed.title),
+    `<link>${escapeXml(feed.url || feed.feedUrl || '')}</link>`,
+    `<description>${escapeXml(feed.description ?? '')}</description>`,
+    feed.feedUrl
+      ? emptyElement('atom:link', {
+          href: feed.feedUrl,
+          rel: 'self',
+          type: 'application/rss+xml',
+        })
+      : '',
+    textElement('language', feed.language),
+    textElement('lastBuildDate', toRFC822(feed.updated)),
+    textElement('managingEditor', managingEditor(feed.authors)),
+    feed.image ? serializeImage(feed) : '',
+  ]);
+  const items = feed.items.map(serializeItem).join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    channel,
+    ...(items ? [items] : []),
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize channel image
+ */
+function serializeImage(feed: Feed): string {
+  return [
+    '<image>',
+    lines(3, [
+      textElement('url', feed.image),
+      textElement('title', feed.title),
+      `<link>${escapeXml(feed.url || feed.feedUrl || '')}</link>`,
+    ]),
+    '    </image>',
+  ].join('\n');
+}
+
+/**
+ * Serialize a single item
+ */
+function serializeItem(item: FeedItem): string {
+  const [enclosure, ...extraEnclosures] = item.enclosures ?? [];
+
+  const children = lines(3, [
+    textElement('title', item.title),
+    textElement('link', item.url),
+    textElement('guid', item.id, { isPermaLink: item.id === item.url ? 'true' : 'false' }),
+    cdataElement('description', item.summary ?? item.contentText),
+    cdataElement('content:encoded', item.contentHtml),
+    textElement('pubDate', toRFC822(item.published)),
+    ...(item.authors ?? []).map((author) => textElement('dc:creator', author.name)),
+    ...(item.tags ?? []).map((tag) => textElement('category', tag)),
+    enclosure
+      ? emptyElement('enclosure', {
+          url: enclosure.url,
+          length: enclosure.length ?? 0,
+          type: enclosure.type || 'application/octet-stream',
+        })
+      : '',
+    ...extraEnclosures.map((extra) =>
+      emptyElement('media:content', {
+        url: extra.url,
+        type: extra.type,
+        fileSize: extra.length,
+      }),
+    ),
+    item.image ? emptyElement('media:thumbnail', { url: item.image }) : '',
+  ]);
+
+  return ['    <item>', children, '    </item>'].join('\n');
+}
+
+/**
+ * Format the first author with an email as "email (name)"
+ * RSS requires an email address here, so authors without one are skipped
+ */
+function managingEditor(authors: FeedAuthor[] | undefined): string | undefined {
+  const author = authors?.find((a) => a.email);
+  if (!author?.email) return undefined;
+  return author.name && author.name !== author.email
+    ? `${author.email} (${author.name})`
+    : author.email;
+}
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseFeed } from '../parse.js';
+import type { Feed } from '../types.js';
+import { serializeFeed } from './serialize.js';
+import { cdata, escapeXml, toRFC822, toRFC3339 } from './xml.js';
+
+const FEED: Feed = {
+  format: 'json-feed',
+  title: 'Tom & Jerry <News>',
+  description: 'Cats, mice & "quotes"',
+  url: 'https://example.com/',
+  feedUrl: 'https://example.com/feed',
+  language: 'en',
+  image: 'https://example.com/logo.png',
+  updated: '2024-05-02T10:00:00.000Z',
+  items: [
+    {
+      id: 'https://example.com/posts/1',
+      title: 'Chase & Escape',
+      url: 'https://example.com/posts/1',
+      contentHtml: '<p>Full <b>story</b> with a ]]> marker</p>',
+      summary: 'Short summary',
+      published: '2024-05-01T08:30:00.000Z',
+      authors: [{ name: 'Jane Doe' }],
+      tags: ['cartoons', 'classics'],
+      image: 'https://example.com/posts/1.jpg',
+      enclosures: [
+        { url: 'https://cdn.example.com/ep1.mp3?a=1&b=2', type: 'audio/mpeg', length: 1234 },
+        { url: 'https://cdn.example.com/ep1.mp4', type: 'video/mp4', length: 5678 },
+      ],
+    },
+    {
+      id: 'urn:uuid:2',
+      title: 'Second',
+      url: 'https://example.com/posts/2',
+      summary: 'Plain text only',
+      published: '2024-04-30T12:00:00.000Z',
+    },
+  ],
+};
+
+describe('serializeFeed', () => {
+  it('should round-trip through RSS 2.0', () => {
+    const xml = serializeFeed(FEED, 'rss');
+    const { feed } = parseFeed(xml);
+
+    assert.ok(xml.includes('<pubDate>Wed, 01 May 2024 08:30:00 GMT</pubDate>'));
+    assert.ok(xml.includes('<guid isPermaLink="false">urn:uuid:2</guid>'));
+    assert.equal(feed.format, 'rss');
+    assert.equal(feed.title, FEED.title);
+    assert.equal(feed.description, FEED.description);
+    assert.equal(feed.url, FEED.url);
+    assert.equal(feed.language, 'en');
+    assert.equal(feed.image, FEED.image);
+    assert.equal(feed.updated, FEED.updated);
+
+    const [first, second] = feed.items;
+    assert.equal(first.id, FEED.items[0].id);
+    assert.equal(first.title, 'Chase & Escape');
+    assert.equal(first.url, FEED.items[0].url);
+    assert.equal(first.contentHtml, FEED.items[0].contentHtml);
+    assert.equal(first.summary, 'Short summary');
+    assert.equal(first.published, FEED.items[0].published);
+    assert.deepEqual(first.authors, [{ name: 'Jane Doe' }]);
+    assert.deepEqual(first.tags, ['cartoons', 'classics']);
+    assert.equal(first.image, FEED.items[0].image);
+    assert.deepEqual(first.enclosures, FEED.items[0].enclosures);
+    assert.equal(second.id, 'urn:uuid:2');
+    assert.equal(second.summary, 'Plain text only');
+  });
+
+  it('should round-trip through Atom 1.0', () => {
+    const xml = serializeFeed(FEED, 'atom');
+    const { feed } = parseFeed(xml);
+
+    assert.ok(xml.includes('xml:base="https://example.com/"'));
+    assert.ok(xml.includes('<content type="html"><![CDATA['));
+    assert.equal(feed.format, 'atom');
+    assert.equal(feed.title, FEED.title);
+    assert.equal(feed.description, FEED.description);
+    assert.equal(feed.url, FEED.url);
+    assert.equal(feed.feedUrl, FEED.feedUrl);
+    assert.equal(feed.image, FEED.image);
+    assert.equal(feed.updated, FEED.updated);
+    assert.equal(feed.authors, undefined);
+
+    const [first, second] = feed.items;
+    assert.equal(first.id, FEED.items[0].id);
+    assert.equal(first.title, 'Chase & Escape');
+    assert.equal(first.url, FEED.items[0].url);
+    assert.equal(first.contentHtml, FEED.items[0].contentHtml);
+    assert.equal(first.summary, 'Short summary');
+    assert.equal(first.published, FEED.items[0].published);
+    assert.deepEqual(first.authors, [{ name: 'Jane Doe', email: undefined, url: undefined }]);
+    assert.deepEqual(first.tags, ['cartoons', 'classics']);
+    assert.equal(first.image, FEED.items[0].image);
+    assert.deepEqual(first.enclosures, FEED.items[0].enclosures);
+    assert.equal(second.id, 'urn:uuid:2');
+    assert.equal(second.modified, FEED.items[1].published);
+  });
+
+  it('should round-trip through JSON Feed 1.1', () => {
+    const json = serializeFeed(FEED, 'json-feed');
+    const { feed } = parseFeed(json);
+
+    const defined = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+    assert.equal(JSON.parse(json).version, 'https://jsonfeed.org/version/1.1');
+    assert.deepEqual(
+      defined({ ...feed, items: [] }),
+      defined({ ...FEED, updated: undefined, items: [] }),
+    );
+    assert.deepEqual(defined(feed.items[0]), defined(FEED.items[0]));
+    // content_text is required without content_html, so the summary stands in
+    assert.deepEqual(defined(feed.items[1]), { ...FEED.items[1], contentText: 'Plain text only' });
+  });
+
+  it('should fill in elements required by RSS and Atom', () => {
+    const minimal: Feed = {
+      format: 'rss',
+      title: 'Minimal',
+      items: [{ id: 'https://example.com/a', published: '2024-01-02T03:04:05Z' }],
+    };
+
+    const rss = parseFeed(serializeFeed(minimal, 'rss')).feed;
+    assert.equal(rss.items[0].id, 'https://example.com/a');
+
+    const atom = parseFeed(serializeFeed(minimal, 'atom')).feed;
+    assert.equal(atom.updated, '2024-01-02T03:04:05.000Z');
+    assert.equal(atom.items[0].title, 'https://example.com/a');
+  });
+});
+
+describe('XML helpers', () => {
+  it('should escape markup and strip invalid characters', () => {
+    assert.equal(
+      escapeXml(`<a href="x">'&'</a>\u0001`),
+      '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;',
+    );
+  });
+
+  it('should split CDATA terminators', () => {
+    assert.equal(cdata('a]]>b'), '<![CDATA[a]]]]><![CDATA[>b]]>');
+  });
+
+  it('should format RFC 822 and RFC 3339 dates', () => {
+    assert.equal(toRFC822('2024-05-01T08:30:00+02:00'), 'Wed, 01 May 2024 06:30:00 GMT');
+    assert.equal(toRFC3339('Wed, 01 May 2024 06:30:00 GMT'), '2024-05-01T06:30:00.000Z');
+    assert.equal(toRFC3339('not a date'), undefined);
+  });
+});
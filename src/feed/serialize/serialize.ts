@@ -0,0 +1,49 @@
+/**
+ * Feed serialization - write a normalized feed as RSS, Atom or JSON Feed
+ */
+
+import type { Feed } from '../types.js';
+import { serializeAtom } from './atom.js';
+import { serializeJSONFeed } from './json-feed.js';
+import { serializeRSS } from './rss.js';
+
+/**
+ * Output formats supported by {@link serializeFeed}.
+ */
+export type SerializeFormat = 'rss' | 'atom' | 'json-feed';
+
+/**
+ * Serialize a normalized feed to RSS 2.0, Atom 1.0 or JSON Feed 1.1.
+ *
+ * @remarks
+ * Use this to re-publish aggregated or filtered feeds. Text is escaped, HTML content
+ * is written in CDATA (RSS `content:encoded`, Atom `type="html"`), and dates are
+ * converted to RFC 822 for RSS and RFC 3339 for Atom and JSON Feed.
+ *
+ * The output parses back with {@link parseFeed} to the same titles, URLs, ids,
+ * content, summaries, dates (to the second), authors, tags, images and enclosures.
+ * Format limits apply: RSS keeps only the first item author and cannot express
+ * `modified` or `externalUrl`, JSON Feed has no author emails or feed `updated`.
+ * Podcast details are not serialized.
+ *
+ * @param feed - Normalized feed (e.g. from {@link parseFeed})
+ * @param format - Output format
+ * @returns Serialized feed document
+ *
+ * @example
+ * ```typescript
+ * const { feed } = parseFeed(xml);
+ * feed.items = feed.items.filter((item) => item.tags?.includes('typescript'));
+ * const atom = serializeFeed(feed, 'atom');
+ * ```
+ */
+export function serializeFeed(feed: Feed, format: SerializeFormat): string {
+  switch (format) {
+    case 'rss':
+      return serializeRSS(feed);
+    case 'atom':
+      return serializeAtom(feed);
+    case 'json-feed':
+      return serializeJSONFeed(feed);
+  }
+}
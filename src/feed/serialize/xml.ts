@@ -0,0 +1,110 @@
+/**
+ * XML writing helpers shared by the RSS, Atom and OPML serializers
+ */
+
+/**
+ * Characters not allowed in XML 1.0 documents
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping invalid XML characters
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Escape text for use in element content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wrap markup in a CDATA section
+ * A literal "]]>" is split across two sections so it cannot end the block early
+ */
+export function cdata(text: string): string {
+  return `<![CDATA[${text.replace(INVALID_XML_CHARS, '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Render an element with escaped text content, or nothing when the value is empty
+ */
+export function textElement(
+  tagName: string,
+  value: string | number | undefined,
+  attributes: Record<string, string | number | undefined> = {},
+): string {
+  if (value === undefined || value === '') return '';
+  return `<${tagName}${renderAttributes(attributes)}>${escapeXml(String(value))}</${tagName}>`;
+}
+
+/**
+ * Render an element whose content is kept verbatim in CDATA
+ */
+export function cdataElement(
+  tagName: string,
+  value: string | undefined,
+  attributes: Record<string, string | number | undefined> = {},
+): string {
+  if (!value) return '';
+  return `<${tagName}${renderAttributes(attributes)}>${cdata(value)}</${tagName}>`;
+}
+
+/**
+ * Render a self-closing element
+ */
+export function emptyElement(
+  tagName: string,
+  attributes: Record<string, string | number | undefined>,
+): string {
+  return `<${tagName}${renderAttributes(attributes)}/>`;
+}
+
+/**
+ * Render attributes, skipping undefined and empty values
+ */
+export function renderAttributes(attributes: Record<string, string | number | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+/**
+ * Join non-empty lines, indenting each by the given depth
+ */
+export function lines(depth: number, parts: string[]): string {
+  const indent = '  '.repeat(depth);
+  return parts
+    .filter((part) => part.length > 0)
+    .map((part) => `${indent}${part}`)
+    .join('\n');
+}
+
+/**
+ * Convert an ISO 8601 date to RFC 822 (RSS)
+ */
+export function toRFC822(date: string | undefined): string | undefined {
+  const parsed = parseDate(date);
+  return parsed?.toUTCString();
+}
+
+/**
+ * Convert an ISO 8601 date to RFC 3339 (Atom, JSON Feed)
+ */
+export function toRFC3339(date: string | undefined): string | undefined {
+  const parsed = parseDate(date);
+  return parsed?.toISOString();
+}
+
+/**
+ * Parse a date, ignoring invalid values
+ */
+function parseDate(date: string | undefined): Date | undefined {
+  if (!date) return undefined;
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+}
@@ -3,7 +3,7 @@
  *
  * @remarks
  * These types provide a consistent interface for working with feeds regardless
- * of the original format (RSS, Atom, or JSON Feed). All format-specific data
+ * of the original format (RSS, RDF, Atom, or JSON Feed). All format-specific data
  * is normalized to this structure by the parser.
  *
  * @packageDocumentation
@@ -75,6 +75,121 @@ export interface FeedItem {
   image?: string;
   /** Attached files (audio, video, documents) */
   enclosures?: FeedEnclosure[];
+  /** Podcast episode details (iTunes and Podcasting 2.0 tags) */
+  podcast?: FeedItemPodcast;
+}
+
+/**
+ * Person credited on a podcast or episode.
+ */
+export interface FeedPodcastPerson {
+  /** Person's name */
+  name: string;
+  /** Role (e.g., 'host', 'guest') */
+  role?: string;
+  /** Role group (e.g., 'cast') */
+  group?: string;
+  /** Picture URL */
+  image?: string;
+  /** Profile URL */
+  url?: string;
+}
+
+/**
+ * Value-for-value payment details (Podcasting 2.0).
+ */
+export interface FeedPodcastValue {
+  /** Payment layer (e.g., 'lightning') */
+  type: string;
+  /** Payment method (e.g., 'keysend') */
+  method: string;
+  /** Suggested amount per minute */
+  suggested?: string;
+  /** Payment recipients with their share */
+  recipients: {
+    name?: string;
+    type: string;
+    address: string;
+    split: number;
+    fee?: boolean;
+    customKey?: string;
+    customValue?: string;
+  }[];
+}
+
+/**
+ * Show-level podcast details.
+ *
+ * @remarks
+ * Merged from iTunes (`itunes:*`) and Podcasting 2.0 (`podcast:*`) channel tags.
+ */
+export interface FeedPodcast {
+  /** Show author */
+  author?: string;
+  /** Show owner (contact for directories) */
+  owner?: FeedAuthor;
+  /** Show artwork URL */
+  image?: string;
+  /** Apple Podcasts categories with their subcategories */
+  categories?: { name: string; subcategories?: string[] }[];
+  /** Explicit content flag */
+  explicit?: boolean;
+  /** Show type: 'episodic' or 'serial' */
+  type?: string;
+  /** Hidden from directories */
+  block?: boolean;
+  /** No more episodes will be published */
+  complete?: boolean;
+  /** New feed location the show moved to */
+  newFeedUrl?: string;
+  /** Globally unique podcast GUID */
+  guid?: string;
+  /** Feed must not be imported by other platforms */
+  locked?: boolean;
+  /** Donation and support links */
+  funding?: { url: string; text?: string }[];
+  /** People involved with the show */
+  persons?: FeedPodcastPerson[];
+  /** Value-for-value payment details */
+  value?: FeedPodcastValue[];
+}
+
+/**
+ * Episode-level podcast details.
+ *
+ * @remarks
+ * Merged from iTunes (`itunes:*`) and Podcasting 2.0 (`podcast:*`) item tags.
+ * Podcasting 2.0 values win where both exist.
+ */
+export interface FeedItemPodcast {
+  /** Duration in seconds */
+  duration?: number;
+  /** Episode number */
+  episode?: number;
+  /** Episode display label (e.g., 'Ch. 3') */
+  episodeDisplay?: string;
+  /** Season number */
+  season?: number;
+  /** Season name */
+  seasonName?: string;
+  /** Episode type: 'full', 'trailer' or 'bonus' */
+  episodeType?: string;
+  /** Explicit content flag */
+  explicit?: boolean;
+  /** Episode artwork URL */
+  image?: string;
+  /** Hidden from directories */
+  block?: boolean;
+  /** Transcripts */
+  transcripts?: { url: string; type: string; language?: string; rel?: string }[];
+  /** Chapters file */
+  chapters?: { url: string; type: string };
+  /** People involved with the episode */
+  persons?: FeedPodcastPerson[];
+  /** Highlight clips (start and duration in seconds) */
+  soundbites?: { startTime: number; duration: number; title?: string }[];
+  /** Value-for-value payment details */
+  value?: FeedPodcastValue[];
 }
 
 /**
@@ -86,8 +201,8 @@ export interface FeedItem {
  * regardless of the original format.
  */
 export interface Feed {
-  /** Original feed format */
-  format: 'rss' | 'atom' | 'json-feed' | 'sitemap';
+  /** Original feed format (`html` for feeds synthesized from an HTML page) */
+  format: 'rss' | 'rdf' | 'atom' | 'json-feed' | 'sitemap' | 'html';
   /** Feed title (required) */
   title: string;
   /** Feed description or subtitle */
@@ -104,6 +219,8 @@ export interface Feed {
   authors?: FeedAuthor[];
   /** Last update date in ISO 8601 format */
   updated?: string;
+  /** Podcast show details (iTunes and Podcasting 2.0 tags) */
+  podcast?: FeedPodcast;
   /** Feed items (entries/articles/posts) */
   items: FeedItem[];
 }
@@ -5,7 +5,7 @@
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
 import type { Article } from '../types.js';
-import { gatherArticle } from './index.js';
+import { gatherArticle, gatherArticleFromHtml } from './index.js';
 
 describe('gatherArticle', () => {
   describe('URL validation', () => {
@@ -367,3 +367,66 @@ describe('gatherArticle', () => {
   // Integration tests would go here but require network access
   // For real integration tests, see gather.integration.test.ts
 });
+
+describe('gatherArticleFromHtml', () => {
+  const paragraph =
+    'Offline pipelines keep HTML on disk and still want clean article text with metadata. ';
+  const html = `<html lang="en"><head><title>Stored Article</title></head><body>
+    <article><h1>Stored Article</h1>
+    <p>${paragraph.repeat(8)}</p><p>${paragraph.repeat(8)}</p>
+    <img src="/images/key.jpg"></article></body></html>`;
+
+  it('should extract the article without fetching', () => {
+    const article = gatherArticleFromHtml(html, 'https://example.com/post');
+
+    assert.equal(article.url.href, 'https://example.com/post');
+    assert.equal(article.title, 'Stored Article');
+    assert.match(article.content ?? '', /Offline pipelines/);
+    assert.ok(article.wordCount > 200);
+    assert.equal(article.language, 'en');
+    assert.equal(article.html, html);
+  });
+
+  it('should match gatherArticle on a data: URL', async () => {
+    const url = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+    const fetched = await gatherArticle(url);
+
+    assert.deepEqual(gatherArticleFromHtml(html, url), fetched);
+  });
+
+  it('should throw on invalid URLs', () => {
+    assert.throws(() => gatherArticleFromHtml(html, ''), /Invalid article URL/);
+  });
+
+  it('should fall back to metadata when Readability is disabled', () => {
+    const article = gatherArticleFromHtml(html, 'https://example.com/post', {
+      readability: false,
+    });
+
+    assert.equal(article.content, undefined);
+    assert.equal(article.title, 'Stored Article');
+    assert.match(article.text, /Offline pipelines/);
+    assert.ok(article.wordCount > 200);
+  });
+
+  it('should skip text and link extraction when disabled', () => {
+    const article = gatherArticleFromHtml(html, 'https://example.com/post', {
+      extractText: false,
+      extractLinks: false,
+    });
+
+    assert.equal(article.text, '');
+    assert.deepEqual(article.internalLinks, []);
+    assert.deepEqual(article.externalLinks, []);
+    assert.match(article.content ?? '', /Offline pipelines/);
+  });
+
+  it('should pass contentOptions to htmlToText', () => {
+    const linked = html.replace('</article>', '<p>Read <a href="/more">more</a>.</p></article>');
+    const article = gatherArticleFromHtml(linked, 'https://example.com/post', {
+      contentOptions: { links: 'inline' },
+    });
+
+    assert.match(article.content ?? '', /more \(.*\/more\)/);
+  });
+});
@@ -6,9 +6,10 @@
 
 import { htmlToText } from '../../content/html-to-text/index.js';
 import { calculateReadingTime, countWords, extractContent } from '../../content/index.js';
-import { pluck } from '../../pluck/index.js';
 import { parseHTML } from '../../utils/html-parser.js';
-import type { Article } from '../types.js';
+import { gatherFetch } from '../fetch.js';
+import { parseGatherUrl } from '../input.js';
+import type { Article, GatherArticleExtractionOptions, GatherArticleOptions } from '../types.js';
 import { extractBestDescription } from '../website/description.js';
 import { extractBestImage } from '../website/image.js';
 import { extractBestLanguage } from '../website/language.js';
@@ -28,8 +29,10 @@ import { extractBestUrl } from '../website/url.js';
  * content extraction, and more.
  *
  * @param url - Article URL as string or URL object
+ * @param options - Gathering options (pluck options, robots.txt compliance, scheduler, extraction)
  * @returns Gathered article data including URL, content, metadata, language, and links
  * @throws Error if URL is invalid or fetch fails
+ * @throws {PluckRobotsError} If `respectRobotsTxt` is set and the URL is disallowed
  *
  * @example
  * ```typescript
@@ -50,62 +53,93 @@ import { extractBestUrl } from '../website/url.js';
  * console.log(article.readingTime);    // Estimated reading time in minutes
  * ```
  */
-export async function gatherArticle(url: string | URL): Promise<Article> {
-  // Convert string to URL and validate
-  let articleUrl: URL;
-  try {
-    articleUrl = typeof url === 'string' ? new URL(url) : url;
-  } catch (error) {
-    throw new Error(`Invalid article URL: ${typeof url === 'string' ? url : url.toString()}`, {
-      cause: error,
-    });
-  }
-
-  // Ensure URL is valid (has protocol and host)
-  if (!articleUrl.protocol || !articleUrl.host) {
-    throw new Error(`Invalid article URL: must have protocol and host (${articleUrl.toString()})`);
-  }
+export async function gatherArticle(
+  url: string | URL,
+  options: GatherArticleOptions = {},
+): Promise<Article> {
+  const articleUrl = parseGatherUrl(url, 'article');
 
   // Fetch the article
-  const response = await pluck(articleUrl);
+  const response = await gatherFetch(articleUrl, options);
   const html = await response.textUtf8();
 
+  return buildArticle(html, response.finalUrl, options);
+}
+
+/**
+ * Gather article data from HTML you already have, without any network access.
+ *
+ * @remarks
+ * Runs the same extraction as {@link gatherArticle} and returns the same shape.
+ * The URL stands in for the final URL after redirects: relative links are
+ * resolved against it (unless the page declares a canonical URL).
+ *
+ * @param html - HTML content
+ * @param url - URL the HTML was served from
+ * @param options - Extraction options (Readability, text and link extraction)
+ * @returns Gathered article data
+ * @throws Error if URL is invalid
+ *
+ * @example
+ * ```typescript
+ * const article = gatherArticleFromHtml(html, 'https://example.com/post');
+ * console.log(article.title, article.wordCount);
+ * ```
+ */
+export function gatherArticleFromHtml(
+  html: string,
+  url: string | URL,
+  options: GatherArticleExtractionOptions = {},
+): Article {
+  return buildArticle(html, parseGatherUrl(url, 'article').href, options);
+}
+
+/**
+ * Extract article data from decoded HTML.
+ */
+function buildArticle(
+  html: string,
+  finalUrl: string,
+  options: GatherArticleExtractionOptions,
+): Article {
   // Parse HTML document
   const doc = parseHTML(html);
 
-  // Extract plain text from HTML
-  const text = htmlToText(html);
+  // Extract plain text from HTML (unless disabled)
+  const text = options.extractText === false ? '' : htmlToText(html, options.textOptions);
 
   // Extract best URL (canonical or final redirect URL)
-  const pageUrl = extractBestUrl(doc, response.finalUrl);
+  const pageUrl = extractBestUrl(doc, finalUrl);
 
   // Extract title, description, and content: try Readability first, fall back to metadata
   let title: string | undefined;
   let description: string | undefined;
   let content: string | undefined;
 
-  try {
-    // Try to extract article content with Mozilla Readability
-    const contentResult = extractContent(doc, { baseUrl: pageUrl });
-
-    if (contentResult.success) {
-      // Extract title if available
-      if (contentResult.title?.trim()) {
-        title = contentResult.title.trim();
-      }
-
-      // Extract excerpt/description if available
-      if (contentResult.excerpt?.trim()) {
-        description = contentResult.excerpt.trim();
-      }
-
-      // Extract cleaned HTML content and convert to plain text
-      if (contentResult.content?.trim()) {
-        content = htmlToText(contentResult.content);
+  if (options.readability !== false) {
+    try {
+      // Try to extract article content with Mozilla Readability
+      const contentResult = extractContent(doc, { baseUrl: pageUrl });
+
+      if (contentResult.success) {
+        // Extract title if available
+        if (contentResult.title?.trim()) {
+          title = contentResult.title.trim();
+        }
+
+        // Extract excerpt/description if available
+        if (contentResult.excerpt?.trim()) {
+          description = contentResult.excerpt.trim();
+        }
+
+        // Extract cleaned HTML content and convert to plain text
+        if (contentResult.content?.trim()) {
+          content = htmlToText(contentResult.content, options.contentOptions);
+        }
       }
+    } catch {
+      // Readability extraction failed, will fall back to metadata
     }
-  } catch {
-    // Readability extraction failed, will fall back to metadata
   }
 
   // If no title from Readability, fall back to metadata title
@@ -132,8 +166,11 @@ export async function gatherArticle(url: string | URL): Promise<Article> {
   // Extract language and region
   const { language, region } = extractBestLanguage(doc);
 
-  // Extract internal and external links
-  const { internal, external } = extractPageLinks(doc, pageUrl);
+  // Extract internal and external links (unless disabled)
+  const { internal, external } =
+    options.extractLinks === false
+      ? { internal: [], external: [] }
+      : extractPageLinks(doc, pageUrl);
   const internalLinks: URL[] = [];
   for (const link of internal) {
     try {
@@ -4,9 +4,74 @@
 
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
-import { gatherFeed } from './feed.js';
+import { createPluck, HarRecorder, HarReplayer } from '../pluck/index.js';
+import { gatherFeed, gatherFeedFromString } from './feed.js';
 
 describe('gatherFeed', () => {
+  describe('Options', () => {
+    it('should fetch through a custom pluckFn', async () => {
+      const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Mocked</title><link>https://example.com/</link>
+<item><title>Hello</title><link>https://example.com/hello</link></item></channel></rss>`;
+      const pluckFn = createPluck({
+        middleware: [
+          {
+            beforeRequest: () =>
+              new Response(rss, { headers: { 'content-type': 'application/rss+xml' } }),
+          },
+        ],
+      });
+
+      const feed = await gatherFeed('https://example.com/feed.xml', { pluckFn });
+
+      assert.equal(feed.title, 'Mocked');
+      assert.equal(feed.items[0]?.title, 'Hello');
+    });
+
+    it('should pass pluck options through to the request', async () => {
+      const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Passthrough</title><link>https://example.com/</link></channel></rss>`;
+      let accept: string | null = null;
+
+      const feed = await gatherFeed('https://example.com/feed.xml', {
+        pluck: {
+          headers: { Accept: 'application/rss+xml' },
+          middleware: [
+            {
+              beforeRequest: (request) => {
+                accept = request.headers.get('accept');
+                return new Response(rss, { headers: { 'content-type': 'application/rss+xml' } });
+              },
+            },
+          ],
+        },
+      });
+
+      assert.equal(accept, 'application/rss+xml');
+      assert.equal(feed.title, 'Passthrough');
+    });
+
+    it('should replay a recorded HAR session offline', async () => {
+      const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Recorded</title><link>https://example.com/</link>
+<item><title>Offline</title><link>https://example.com/offline</link></item></channel></rss>`;
+      const recorder = new HarRecorder(
+        async () => new Response(rss, { headers: { 'content-type': 'application/rss+xml' } }),
+      );
+      await gatherFeed('https://example.com/feed.xml', {
+        pluckFn: createPluck({ transport: recorder.transport }),
+      });
+
+      const replayer = new HarReplayer(JSON.stringify(recorder));
+      const feed = await gatherFeed('https://example.com/feed.xml', {
+        pluckFn: createPluck({ transport: replayer.transport }),
+      });
+
+      assert.equal(feed.title, 'Recorded');
+      assert.equal(feed.items[0]?.title, 'Offline');
+    });
+  });
+
   describe('URL validation', () => {
     it('should throw on invalid URL string', async () => {
       await assert.rejects(async () => gatherFeed('not-a-valid-url'), /Invalid feed URL/);
@@ -36,3 +101,70 @@ describe('gatherFeed', () => {
   // Integration tests would go here but require network access
   // For real integration tests, see feed.integration.test.ts
 });
+
+describe('gatherFeedFromString', () => {
+  const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Stored</title><link>/</link>
+<item><title>Relative</title><link>/posts/1</link></item></channel></rss>`;
+
+  it('should parse feeds without fetching', () => {
+    const feed = gatherFeedFromString(rss, 'https://example.com/feed.xml');
+
+    assert.equal(feed.format, 'rss');
+    assert.equal(feed.title, 'Stored');
+    assert.equal(feed.items[0]?.url, 'https://example.com/posts/1');
+  });
+
+  it('should fall back to sitemaps', () => {
+    const sitemap = `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>https://example.com/a</loc></url></urlset>`;
+    const feed = gatherFeedFromString(sitemap, 'https://example.com/sitemap.xml');
+
+    assert.equal(feed.format, 'sitemap');
+    assert.equal(feed.title, 'example.com Sitemap');
+    assert.equal(feed.items[0]?.url, 'https://example.com/a');
+  });
+
+  it('should synthesize feeds from HTML listing pages', () => {
+    const html = `<!DOCTYPE html>
+<html lang="en"><head><title>Blog</title></head><body>
+<article><h2><a href="/posts/2">Second</a></h2></article>
+<article><h2><a href="/posts/1">First</a></h2></article>
+</body></html>`;
+    const feed = gatherFeedFromString(html, 'https://example.com/blog');
+
+    assert.equal(feed.format, 'html');
+    assert.equal(feed.title, 'Blog');
+    assert.deepEqual(
+      feed.items.map((item) => item.url),
+      ['https://example.com/posts/2', 'https://example.com/posts/1'],
+    );
+  });
+
+  it('should match gatherFeed on a data: URL', async () => {
+    const url = `data:application/rss+xml,${encodeURIComponent(rss)}`;
+    const fetched = await gatherFeed(url);
+
+    assert.deepEqual(gatherFeedFromString(rss, url), fetched);
+  });
+
+  it('should throw on invalid URLs', () => {
+    assert.throws(() => gatherFeedFromString(rss, 'feed.xml'), /Invalid feed URL/);
+  });
+
+  it('should use the feed URL as feedUrl when the feed has none', () => {
+    const feed = gatherFeedFromString(rss, 'https://example.com/feed.xml');
+
+    assert.equal(feed.feedUrl, 'https://example.com/feed.xml');
+  });
+
+  it('should point OPML subscription lists to gatherOpml()', () => {
+    const opml = `<?xml version="1.0"?>
+<opml version="2.0"><body><outline text="A" xmlUrl="https://a.example/feed"/></body></opml>`;
+
+    assert.throws(
+      () => gatherFeedFromString(opml, 'https://example.com/subs.opml'),
+      /OPML subscription list, not a feed\. Use gatherOpml\(\)/,
+    );
+  });
+});
@@ -4,11 +4,14 @@
  * @packageDocumentation
  */
 
-import { detectFormat } from '../feed/detect.js';
+import { detectFormat, isHTML } from '../feed/detect.js';
+import { synthesizeFeed } from '../feed/html/index.js';
 import { parseFeed } from '../feed/parse.js';
 import { parseSitemap } from '../feed/sitemap/index.js';
 import type { Feed, FeedItem } from '../feed/types.js';
-import { pluck } from '../pluck/index.js';
+import { gatherFetch } from './fetch.js';
+import { parseGatherUrl } from './input.js';
+import type { GatherFeedOptions } from './types.js';
 
 /**
  * Gather and parse a feed from a URL in one convenient call.
@@ -16,11 +19,16 @@ import { pluck } from '../pluck/index.js';
  * @remarks
  * This is a high-level convenience method that combines fetching and parsing.
  * It handles encoding detection, redirects, and feed format detection automatically.
- * Falls back to sitemap parsing when standard feed formats aren't detected.
+ * Falls back to sitemap parsing when standard feed formats aren't detected,
+ * and synthesizes a feed (`format: 'html'`) when the URL serves an HTML
+ * listing page instead of a feed. Feeds that don't declare their own URL
+ * (most RSS) get the fetched URL as `feedUrl`, so they can be exported to OPML.
  *
  * @param url - Feed URL as string or URL object
+ * @param options - Gathering options (pluck options, scheduler)
  * @returns Normalized feed data
  * @throws Error if URL is invalid, fetch fails, or feed cannot be parsed
+ *   (including OPML subscription lists, which {@link gatherOpml} handles)
  *
  * @example
  * ```typescript
@@ -32,38 +40,70 @@ import { pluck } from '../pluck/index.js';
  * console.log(feed.items[0].url);
  * ```
  */
-export async function gatherFeed(url: string | URL): Promise<Feed> {
-  // Convert string to URL and validate
-  let feedUrl: URL;
-  try {
-    feedUrl = typeof url === 'string' ? new URL(url) : url;
-  } catch (error) {
-    throw new Error(`Invalid feed URL: ${typeof url === 'string' ? url : url.toString()}`, {
-      cause: error,
-    });
-  }
-
-  // Ensure URL is valid (has protocol and host)
-  if (!feedUrl.protocol || !feedUrl.host) {
-    throw new Error(`Invalid feed URL: must have protocol and host (${feedUrl.toString()})`);
-  }
+export async function gatherFeed(
+  url: string | URL,
+  options: GatherFeedOptions = {},
+): Promise<Feed> {
+  const feedUrl = parseGatherUrl(url, 'feed');
 
   // Fetch the feed content
-  const response = await pluck(feedUrl);
+  const response = await gatherFetch(feedUrl, options);
   const content = await response.textUtf8();
 
+  // Parse using the final URL (after redirects)
+  return buildFeed(content, response.finalUrl);
+}
+
+/**
+ * Parse feed content you already have, without any network access.
+ *
+ * @remarks
+ * Runs the same format detection, parsing, sitemap and HTML fallbacks as
+ * {@link gatherFeed} and returns the same shape. Relative URLs in the
+ * feed are resolved against the given URL.
+ *
+ * @param content - Feed content (RSS, Atom, JSON Feed, sitemap or HTML page)
+ * @param url - URL the feed was served from
+ * @returns Normalized feed data
+ * @throws Error if URL is invalid or feed cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const xml = await readFile('feed.xml', 'utf8');
+ * const feed = gatherFeedFromString(xml, 'https://example.com/feed.xml');
+ * console.log(feed.items.length);
+ * ```
+ */
+export function gatherFeedFromString(content: string, url: string | URL): Feed {
+  return buildFeed(content, parseGatherUrl(url, 'feed').href);
+}
+
+/**
+ * Parse decoded feed content, falling back to HTML pages and sitemaps.
+ */
+function buildFeed(content: string, baseUrl: string): Feed {
+  // HTML pages get a feed synthesized from their listing markup
+  if (isHTML(content)) {
+    return synthesizeFeed(content, baseUrl);
+  }
+
   // Detect format and handle accordingly
   const format = detectFormat(content);
 
   // Handle sitemaps as fallback
   if (format === 'sitemap') {
-    return normalizeSitemapToFeed(content, response.finalUrl);
+    return normalizeSitemapToFeed(content, baseUrl);
   }
 
-  // Parse the feed using the final URL (after redirects)
-  const result = parseFeed(content, response.finalUrl);
+  // Subscription lists hold many feeds, not items
+  if (format === 'opml') {
+    throw new Error(
+      `${baseUrl} is an OPML subscription list, not a feed. Use gatherOpml() to fetch its subscriptions.`,
+    );
+  }
 
-  return result.feed;
+  const feed = parseFeed(content, baseUrl).feed;
+  return feed.feedUrl ? feed : { ...feed, feedUrl: baseUrl };
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * Shared fetching for the gather functions.
+ *
+ * @packageDocumentation
+ */
+
+import type { PluckInit, PluckResponse } from '../pluck/index.js';
+import { pluck } from '../pluck/index.js';
+import type { GatherFetchOptions } from './types.js';
+
+/**
+ * Fetch a URL for a gather function, honouring its fetch options.
+ *
+ * @param url - URL to fetch
+ * @param options - Pluck options, custom pluck function and scheduler
+ * @returns Pluck response
+ */
+export function gatherFetch(
+  url: URL,
+  options: GatherFetchOptions & { respectRobotsTxt?: PluckInit['respectRobotsTxt'] },
+): Promise<PluckResponse> {
+  const { pluckFn, scheduler } = options;
+  const init: PluckInit = { ...options.pluck };
+  if (options.respectRobotsTxt !== undefined) {
+    init.respectRobotsTxt = options.respectRobotsTxt;
+  }
+  if (options.blockPrivateNetworks !== undefined) {
+    init.blockPrivateNetworks = options.blockPrivateNetworks;
+  }
+
+  if (scheduler && pluckFn) {
+    return scheduler.schedule(url.href, (signal) => pluckFn(url, { ...init, signal }), {
+      signal: init.signal ?? undefined,
+    });
+  }
+  if (scheduler) {
+    return scheduler.pluck(url, init);
+  }
+  return (pluckFn ?? pluck)(url, init);
+}
@@ -9,7 +9,18 @@
  * @packageDocumentation
  */
 
-export { gatherArticle } from './article/index.js';
-export { gatherFeed } from './feed.js';
-export type { Article, Website } from './types.js';
-export { gatherWebsite } from './website/index.js';
+export { gatherArticle, gatherArticleFromHtml } from './article/index.js';
+export { gatherFeed, gatherFeedFromString } from './feed.js';
+export { gatherOpml } from './opml.js';
+export type {
+  Article,
+  GatherArticleExtractionOptions,
+  GatherArticleOptions,
+  GatherFeedOptions,
+  GatherFetchOptions,
+  GatherOpmlOptions,
+  GatherWebsiteExtractionOptions,
+  GatherWebsiteOptions,
+  Website,
+} from './types.js';
+export { gatherWebsite, gatherWebsiteFromHtml } from './website/index.js';
@@ -0,0 +1,36 @@
+/**
+ * Shared input validation for the gather functions.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Parse and validate the URL passed to a gather function.
+ *
+ * @remarks
+ * `data:` and `file:` URLs have no host and are accepted as they are.
+ *
+ * @param url - URL as string or URL object
+ * @param kind - Resource kind for error messages (e.g. `'website'`)
+ * @returns Parsed URL
+ * @throws Error if the URL is invalid or lacks a host
+ */
+export function parseGatherUrl(url: string | URL, kind: string): URL {
+  // Convert string to URL and validate
+  let parsed: URL;
+  try {
+    parsed = typeof url === 'string' ? new URL(url) : url;
+  } catch (error) {
+    throw new Error(`Invalid ${kind} URL: ${typeof url === 'string' ? url : url.toString()}`, {
+      cause: error,
+    });
+  }
+
+  // Ensure URL is valid (has protocol and host, unless it's a local resource)
+  const isLocal = parsed.protocol === 'data:' || parsed.protocol === 'file:';
+  if (!parsed.protocol || (!parsed.host && !isLocal)) {
+    throw new Error(`Invalid ${kind} URL: must have protocol and host (${parsed.toString()})`);
+  }
+
+  return parsed;
+}
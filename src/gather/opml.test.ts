@@ -0,0 +1,80 @@
+/**
+ * Tests for OPML gathering functionality.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { flattenOPML } from '../feed/opml/index.js';
+import { createPluck } from '../pluck/index.js';
+import { gatherOpml } from './opml.js';
+
+const LISTS: Record<string, string> = {
+  'https://example.com/subs.opml': `<?xml version="1.0"?>
+<opml version="2.0"><head><title>Main</title></head><body>
+  <outline text="News"><outline text="Daily" type="rss" xmlUrl="/daily.xml"/></outline>
+  <outline text="Shared" type="include" url="/shared.opml"/>
+  <outline text="Broken" type="include" url="/missing.opml"/>
+</body></opml>`,
+  'https://example.com/shared.opml': `<?xml version="1.0"?>
+<opml version="2.0"><head/><body>
+  <outline text="Weekly" type="rss" xmlUrl="https://weekly.example/feed"/>
+  <outline text="Back" type="include" url="https://example.com/subs.opml"/>
+</body></opml>`,
+};
+
+function mockPluck(requests: string[] = []) {
+  return createPluck({
+    middleware: [
+      {
+        beforeRequest: (request) => {
+          requests.push(request.url);
+          const body = LISTS[request.url];
+          return body
+            ? new Response(body, { headers: { 'content-type': 'text/x-opml' } })
+            : new Response('Not found', { status: 404 });
+        },
+      },
+    ],
+  });
+}
+
+describe('gatherOpml', () => {
+  it('should fetch a list and expand includes', async () => {
+    const requests: string[] = [];
+    const opml = await gatherOpml('https://example.com/subs.opml', {
+      pluckFn: mockPluck(requests),
+    });
+
+    assert.equal(opml.head.title, 'Main');
+    assert.deepEqual(
+      flattenOPML(opml).map((s) => [s.xmlUrl, s.folders]),
+      [
+        ['https://example.com/daily.xml', ['News']],
+        ['https://weekly.example/feed', ['Shared']],
+      ],
+    );
+    // The include pointing back at the main list is not fetched again
+    assert.deepEqual(requests, [
+      'https://example.com/subs.opml',
+      'https://example.com/shared.opml',
+      'https://example.com/missing.opml',
+    ]);
+    assert.equal(opml.outlines[2].children, undefined);
+  });
+
+  it('should leave includes alone when expansion is disabled', async () => {
+    const requests: string[] = [];
+    const opml = await gatherOpml('https://example.com/subs.opml', {
+      pluckFn: mockPluck(requests),
+      expandIncludes: false,
+    });
+
+    assert.equal(requests.length, 1);
+    assert.equal(opml.outlines[1].url, 'https://example.com/shared.opml');
+    assert.equal(opml.outlines[1].children, undefined);
+  });
+
+  it('should throw on invalid URLs', async () => {
+    await assert.rejects(async () => gatherOpml('subs.opml'), /Invalid OPML URL/);
+  });
+});
@@ -4,6 +4,157 @@
  * @packageDocumentation
  */
 
+import type { HtmlToTextOptions } from '../content/index.js';
+import type { PluckFunction, PluckInit, PluckScheduler } from '../pluck/index.js';
+
+/**
+ * Fetch options shared by the gather functions.
+ */
+export interface GatherFetchOptions {
+  /**
+   * Options for the underlying pluck() request (timeout, user agent, headers,
+   * size limit, abort signal, retries, ...).
+   *
+   * @remarks
+   * The top-level `respectRobotsTxt` and `blockPrivateNetworks` options take
+   * precedence over the same fields here.
+   *
+   * @example { timeout: 5000, userAgent: 'MyBot/1.0', signal: controller.signal }
+   */
+  pluck?: PluckInit;
+
+  /**
+   * Refuse to fetch private, loopback and link-local targets (for user-submitted URLs).
+   *
+   * @remarks
+   * Throws `PluckBlockedError` if the URL or a redirect hop is blocked.
+   * See {@link PluckInit.blockPrivateNetworks} for details.
+   *
+   * @default false
+   */
+  blockPrivateNetworks?: PluckInit['blockPrivateNetworks'];
+
+  /**
+   * Route the request through a scheduler (per-host rate limiting, concurrency caps).
+   */
+  scheduler?: PluckScheduler;
+
+  /**
+   * Preconfigured pluck function (e.g. from `createPluck()`) used for the request.
+   *
+   * @default pluck
+   */
+  pluckFn?: PluckFunction;
+}
+
+/**
+ * Extraction options for gatherWebsite() and gatherWebsiteFromHtml().
+ */
+export interface GatherWebsiteExtractionOptions {
+  /**
+   * Convert the page to plain text for the `text` field.
+   *
+   * @remarks
+   * `htmlToText` is one of the more expensive steps; when disabled, `text`
+   * is an empty string.
+   *
+   * @default true
+   */
+  extractText?: boolean;
+
+  /**
+   * Options for converting the page to `text`.
+   */
+  textOptions?: HtmlToTextOptions;
+
+  /**
+   * Collect internal and external links.
+   *
+   * @remarks
+   * When disabled, `internalLinks` and `externalLinks` are empty.
+   *
+   * @default true
+   */
+  extractLinks?: boolean;
+}
+
+/**
+ * Options for gatherWebsite().
+ */
+export interface GatherWebsiteOptions extends GatherWebsiteExtractionOptions, GatherFetchOptions {
+  /**
+   * Obey robots.txt before fetching the page.
+   *
+   * @remarks
+   * Throws `PluckRobotsError` if the URL is disallowed.
+   * See {@link PluckInit.respectRobotsTxt} for details.
+   *
+   * @default false
+   */
+  respectRobotsTxt?: PluckInit['respectRobotsTxt'];
+}
+
+/**
+ * Extraction options for gatherArticle() and gatherArticleFromHtml().
+ */
+export interface GatherArticleExtractionOptions extends GatherWebsiteExtractionOptions {
+  /**
+   * Extract the article body with Mozilla Readability.
+   *
+   * @remarks
+   * When disabled, `content` is undefined and `title` and `description`
+   * come from the page metadata; `wordCount` is based on `text`.
+   *
+   * @default true
+   */
+  readability?: boolean;
+
+  /**
+   * Options for converting the Readability output to `content`.
+   */
+  contentOptions?: HtmlToTextOptions;
+}
+
+/**
+ * Options for gatherArticle().
+ */
+export interface GatherArticleOptions extends GatherArticleExtractionOptions, GatherFetchOptions {
+  /**
+   * Obey robots.txt before fetching the article.
+   *
+   * @remarks
+   * Throws `PluckRobotsError` if the URL is disallowed.
+   * See {@link PluckInit.respectRobotsTxt} for details.
+   *
+   * @default false
+   */
+  respectRobotsTxt?: PluckInit['respectRobotsTxt'];
+}
+
+/**
+ * Options for gatherFeed().
+ */
+export interface GatherFeedOptions extends GatherFetchOptions {}
+
+/**
+ * Options for gatherOpml().
+ */
+export interface GatherOpmlOptions extends GatherFetchOptions {
+  /**
+   * Fetch OPML 2.0 `type="include"` outlines and nest the included lists as their children.
+   *
+   * @default true
+   */
+  expandIncludes?: boolean;
+
+  /**
+   * Maximum nesting of included lists (guards against include chains).
+   *
+   * @default 3
+   */
+  maxIncludeDepth?: number;
+}
+
 /**
  * Gathered website data.
  *
@@ -93,7 +244,7 @@ export interface Website {
    * @remarks
    * Automatically converted from HTML using the `htmlToText` function.
    * Removes all tags, decodes entities, and preserves document structure
-   * with appropriate line breaks.
+   * with appropriate line breaks. Empty when `extractText` is disabled.
    */
   text: string;
 
@@ -148,7 +299,7 @@ export interface Article {
    * @remarks
    * Automatically converted from HTML using the `htmlToText` function.
    * Removes all tags, decodes entities, and preserves document structure
-   * with appropriate line breaks.
+   * with appropriate line breaks. Empty when `extractText` is disabled.
    */
   text: string;
 
@@ -159,7 +310,7 @@ export interface Article {
    * Extracted using Mozilla Readability (cleaned HTML), then converted to
    * plain text using `htmlToText` for proper formatting.
    * This is the main article body without navigation, ads, or other clutter.
-   * Falls back to undefined if Readability extraction fails.
+   * Falls back to undefined if Readability extraction fails or is disabled.
    */
   content?: string;
 
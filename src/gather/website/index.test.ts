@@ -4,8 +4,9 @@
 
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
+import { PluckBlockedError } from '../../pluck/index.js';
 import type { Website } from '../types.js';
-import { gatherWebsite } from './index.js';
+import { gatherWebsite, gatherWebsiteFromHtml } from './index.js';
 
 describe('gatherWebsite', () => {
   describe('URL validation', () => {
@@ -34,6 +35,37 @@ describe('gatherWebsite', () => {
     });
   });
 
+  describe('Options', () => {
+    it('should block private targets with blockPrivateNetworks', async () => {
+      await assert.rejects(
+        async () => gatherWebsite('http://127.0.0.1/', { blockPrivateNetworks: true }),
+        PluckBlockedError,
+      );
+    });
+
+    it('should pass pluck options through to the request', async () => {
+      let userAgent: string | null = null;
+      const site = await gatherWebsite('https://example.com/', {
+        pluck: {
+          headers: { 'User-Agent': 'magpie-test/1.0' },
+          middleware: [
+            {
+              beforeRequest: (request) => {
+                userAgent = request.headers.get('user-agent');
+                return new Response('<title>Mocked</title>', {
+                  headers: { 'content-type': 'text/html' },
+                });
+              },
+            },
+          ],
+        },
+      });
+
+      assert.equal(userAgent, 'magpie-test/1.0');
+      assert.equal(site.title, 'Mocked');
+    });
+  });
+
   describe('Return type', () => {
     it('should return Website interface with required properties', () => {
       // Type assertion to verify interface shape
@@ -262,3 +294,68 @@ describe('gatherWebsite', () => {
   // Integration tests would go here but require network access
   // For real integration tests, see gather.integration.test.ts
 });
+
+describe('gatherWebsiteFromHtml', () => {
+  const html = `<html lang="de-AT"><head>
+    <title>Offline Page</title>
+    <meta name="description" content="Parsed without network">
+    <link rel="alternate" type="application/rss+xml" href="https://example.com/feed.xml">
+  </head><body><p>Hello</p><a href="/about">About</a><a href="https://other.test/">Other</a></body></html>`;
+
+  it('should extract the same data as gatherWebsite without fetching', () => {
+    const site = gatherWebsiteFromHtml(html, 'https://example.com/page');
+
+    assert.equal(site.url.href, 'https://example.com/page');
+    assert.equal(site.title, 'Offline Page');
+    assert.equal(site.description, 'Parsed without network');
+    assert.equal(site.language, 'de');
+    assert.equal(site.region, 'AT');
+    assert.deepEqual(
+      site.feeds.map((feed) => feed.href),
+      ['https://example.com/feed.xml'],
+    );
+    assert.deepEqual(
+      site.internalLinks.map((link) => link.href),
+      ['https://example.com/about'],
+    );
+    assert.deepEqual(
+      site.externalLinks.map((link) => link.href),
+      ['https://other.test/'],
+    );
+    assert.equal(site.html, html);
+    assert.match(site.text, /Hello/);
+  });
+
+  it('should match gatherWebsite on a data: URL', async () => {
+    const url = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+    const fetched = await gatherWebsite(url);
+    const offline = gatherWebsiteFromHtml(html, url);
+
+    assert.deepEqual(offline, fetched);
+  });
+
+  it('should throw on invalid URLs', () => {
+    assert.throws(() => gatherWebsiteFromHtml(html, 'example.com'), /Invalid website URL/);
+  });
+
+  it('should skip text and link extraction when disabled', () => {
+    const site = gatherWebsiteFromHtml(html, 'https://example.com/page', {
+      extractText: false,
+      extractLinks: false,
+    });
+
+    assert.equal(site.text, '');
+    assert.deepEqual(site.internalLinks, []);
+    assert.deepEqual(site.externalLinks, []);
+    assert.equal(site.title, 'Offline Page');
+    assert.equal(site.feeds.length, 1);
+  });
+
+  it('should pass textOptions to htmlToText', () => {
+    const site = gatherWebsiteFromHtml(html, 'https://example.com/page', {
+      textOptions: { links: 'inline' },
+    });
+
+    assert.match(site.text, /About \(\/about\)/);
+  });
+});
@@ -6,9 +6,10 @@
 
 import { htmlToText } from '../../content/html-to-text/index.js';
 import { extractFeedDiscovery } from '../../metadata/feed-discovery/index.js';
-import { pluck } from '../../pluck/index.js';
 import { parseHTML } from '../../utils/html-parser.js';
-import type { Website } from '../types.js';
+import { gatherFetch } from '../fetch.js';
+import { parseGatherUrl } from '../input.js';
+import type { GatherWebsiteExtractionOptions, GatherWebsiteOptions, Website } from '../types.js';
 import { extractBestDescription } from './description.js';
 import { extractBestIcon } from './icon.js';
 import { extractBestImage } from './image.js';
@@ -29,8 +30,10 @@ import { extractBestUrl } from './url.js';
  * content extraction, and more.
  *
  * @param url - Website URL as string or URL object
+ * @param options - Gathering options (pluck options, robots.txt compliance, scheduler, extraction)
  * @returns Gathered website data including final URL, title, description, image, icon, language, html, text, feeds, and links
  * @throws Error if URL is invalid or fetch fails
+ * @throws {PluckRobotsError} If `respectRobotsTxt` is set and the URL is disallowed
  *
  * @example
  * ```typescript
@@ -50,34 +53,64 @@ import { extractBestUrl } from './url.js';
  * console.log(site.externalLinks);  // Array of external link URL objects
  * ```
  */
-export async function gatherWebsite(url: string | URL): Promise<Website> {
-  // Convert string to URL and validate
-  let siteUrl: URL;
-  try {
-    siteUrl = typeof url === 'string' ? new URL(url) : url;
-  } catch (error) {
-    throw new Error(`Invalid website URL: ${typeof url === 'string' ? url : url.toString()}`, {
-      cause: error,
-    });
-  }
-
-  // Ensure URL is valid (has protocol and host)
-  if (!siteUrl.protocol || !siteUrl.host) {
-    throw new Error(`Invalid website URL: must have protocol and host (${siteUrl.toString()})`);
-  }
+export async function gatherWebsite(
+  url: string | URL,
+  options: GatherWebsiteOptions = {},
+): Promise<Website> {
+  const siteUrl = parseGatherUrl(url, 'website');
 
   // Fetch the website
-  const response = await pluck(siteUrl);
+  const response = await gatherFetch(siteUrl, options);
   const html = await response.textUtf8();
 
+  return buildWebsite(html, response.finalUrl, options);
+}
+
+/**
+ * Gather website data from HTML you already have, without any network access.
+ *
+ * @remarks
+ * Runs the same extraction as {@link gatherWebsite} and returns the same shape.
+ * The URL stands in for the final URL after redirects: relative links are
+ * resolved against it (unless the page declares a canonical URL).
+ *
+ * @param html - HTML content
+ * @param url - URL the HTML was served from
+ * @param options - Extraction options (text and link extraction)
+ * @returns Gathered website data
+ * @throws Error if URL is invalid
+ *
+ * @example
+ * ```typescript
+ * const html = await readFile('snapshot.html', 'utf8');
+ * const site = gatherWebsiteFromHtml(html, 'https://example.com/');
+ * console.log(site.title, site.feeds);
+ * ```
+ */
+export function gatherWebsiteFromHtml(
+  html: string,
+  url: string | URL,
+  options: GatherWebsiteExtractionOptions = {},
+): Website {
+  return buildWebsite(html, parseGatherUrl(url, 'website').href, options);
+}
+
+/**
+ * Extract website data from decoded HTML.
+ */
+function buildWebsite(
+  html: string,
+  finalUrl: string,
+  options: GatherWebsiteExtractionOptions,
+): Website {
   // Parse HTML document
   const doc = parseHTML(html);
 
-  // Extract plain text from HTML
-  const text = htmlToText(html);
+  // Extract plain text from HTML (unless disabled)
+  const text = options.extractText === false ? '' : htmlToText(html, options.textOptions);
 
   // Extract best URL (canonical or final redirect URL)
-  const pageUrl = extractBestUrl(doc, response.finalUrl);
+  const pageUrl = extractBestUrl(doc, finalUrl);
 
   // Extract feed discovery metadata
   const feedDiscovery = extractFeedDiscovery(doc, pageUrl);
@@ -119,8 +152,11 @@ export async function gatherWebsite(url: string | URL): Promise<Website> {
     }
   }
 
-  // Extract internal and external links
-  const { internal, external } = extractPageLinks(doc, pageUrl);
+  // Extract internal and external links (unless disabled)
+  const { internal, external } =
+    options.extractLinks === false
+      ? { internal: [], external: [] }
+      : extractPageLinks(doc, pageUrl);
 
   // Convert link strings to URL objects
   const internalLinks: URL[] = [];
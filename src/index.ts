@@ -43,13 +43,55 @@ export type {
   FeedEnclosure,
   FeedFormat,
   FeedItem,
+  FeedItemPodcast,
+  FeedPodcast,
+  FeedPodcastPerson,
+  FeedPodcastValue,
+  OpmlDocument,
+  OpmlEntry,
+  OpmlHead,
+  OpmlOutline,
+  OpmlSubscription,
   ParseResult,
+  SerializeFormat,
 } from './feed/index.js';
 // Feed Parser - Main API
-export { detectFormat, isAtom, isFeed, isJSONFeed, isRSS, parseFeed } from './feed/index.js';
+export {
+  detectFormat,
+  flattenOPML,
+  isAtom,
+  isFeed,
+  isHTML,
+  isJSONFeed,
+  isRDF,
+  isRSS,
+  parseFeed,
+  parseOPML,
+  serializeFeed,
+  serializeOPML,
+  synthesizeFeed,
+} from './feed/index.js';
 // High-level gathering - Convenience methods combining fetch + parse
-export type { Article, Website } from './gather/index.js';
-export { gatherArticle, gatherFeed, gatherWebsite } from './gather/index.js';
+export type {
+  Article,
+  GatherArticleExtractionOptions,
+  GatherArticleOptions,
+  GatherFeedOptions,
+  GatherFetchOptions,
+  GatherOpmlOptions,
+  GatherWebsiteExtractionOptions,
+  GatherWebsiteOptions,
+  Website,
+} from './gather/index.js';
+export {
+  gatherArticle,
+  gatherArticleFromHtml,
+  gatherFeed,
+  gatherFeedFromString,
+  gatherOpml,
+  gatherWebsite,
+  gatherWebsiteFromHtml,
+} from './gather/index.js';
 // Metadata Extraction - Types and Functions
 export type {
   AlternateLink,
@@ -62,6 +104,7 @@ export type {
   CopyrightMetadata,
   DiscoveredFeed,
   DublinCoreMetadata,
+  ExtractAllOptions,
   ExtractedLink,
   FeedDiscoveryMetadata,
   GeoMetadata,
@@ -72,6 +115,14 @@ export type {
   LinksExtractionOptions,
   LinksMetadata,
   MaskIcon,
+  MetadataExtractorName,
+  MetadataExtractorResults,
+  MicroformatHtml,
+  MicroformatImage,
+  MicroformatItem,
+  MicroformatRelUrl,
+  MicroformatsMetadata,
+  MicroformatValue,
   MonetizationMetadata,
   MSTile,
   NewsMetadata,
@@ -82,11 +133,13 @@ export type {
   OpenGraphMetadata,
   OpenGraphProfile,
   OpenGraphVideo,
+  PageMetadata,
   PaginationMetadata,
   PreloadResource,
   RobotDirectives,
   RobotsMetadata,
   SchemaOrgMetadata,
+  SchemaOrgSource,
   SEOMetadata,
   SecurityMetadata,
   SitemapDiscoveryMetadata,
@@ -98,6 +151,7 @@ export type {
   VerificationMetadata,
 } from './metadata/index.js';
 export {
+  extractAll,
   extractAnalytics,
   extractAssets,
   extractCanonical,
@@ -108,6 +162,7 @@ export {
   extractIcons,
   extractLanguage,
   extractLinks,
+  extractMicroformats,
   extractMonetization,
   extractNews,
   extractOpenGraph,
@@ -120,18 +175,73 @@ export {
   extractSocialProfiles,
   extractTwitterCard,
   extractVerification,
+  METADATA_EXTRACTORS,
 } from './metadata/index.js';
-export type { PluckInit, PluckResponse } from './pluck/index.js';
+export type {
+  CookieJarData,
+  CookieRequestOptions,
+  Har,
+  HarEntry,
+  HarNameValue,
+  PluckCacheEntry,
+  PluckCacheStatus,
+  PluckCacheStore,
+  PluckCookie,
+  PluckCredential,
+  PluckCredentials,
+  PluckEncodingSource,
+  PluckFunction,
+  PluckInit,
+  PluckMetaRefreshOptions,
+  PluckMiddleware,
+  PluckNetworkPolicy,
+  PluckProgress,
+  PluckProxyPoolOptions,
+  PluckProxyRotation,
+  PluckRedirectContext,
+  PluckRedirectKind,
+  PluckRequestContext,
+  PluckResponse,
+  PluckRetryAttempt,
+  PluckRetryOptions,
+  PluckRobotsOptions,
+  PluckScheduleOptions,
+  PluckSchedulerOptions,
+  PluckSchedulerProgress,
+  PluckTiming,
+  PluckTimingHop,
+  PluckTransport,
+  RobotsTxt,
+  RobotsTxtCacheEntry,
+  RobotsTxtGroup,
+  RobotsTxtRule,
+} from './pluck/index.js';
 // Enhanced fetch for web scraping
 export {
+  CookieJar,
+  createPluck,
+  createProxyTransport,
+  FileCacheStore,
+  getRobotsTxtCrawlDelay,
+  HarRecorder,
+  HarReplayer,
+  isAllowedByRobotsTxt,
+  isPrivateAddress,
+  MemoryCacheStore,
+  PluckBlockedError,
   PluckContentTypeError,
   PluckEncodingError,
   PluckError,
+  PluckFileError,
   PluckHttpError,
   PluckNetworkError,
   PluckRedirectError,
+  PluckRobotsError,
+  PluckScheduler,
   PluckSizeError,
   PluckTimeoutError,
+  ProxyPool,
+  parseRobotsTxt,
   pluck,
 } from './pluck/index.js';
 // Experimental SPA rendering
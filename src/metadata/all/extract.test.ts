@@ -0,0 +1,127 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseHTML } from '../../utils/html-parser.js';
+import { extractFeedDiscovery } from '../feed-discovery/extract.js';
+import { extractLinks } from '../links/extract.js';
+import { extractOpenGraph } from '../opengraph/extract.js';
+import { extractSEO } from '../seo/extract.js';
+import { extractAll, METADATA_EXTRACTORS } from './extract.js';
+
+describe('extractAll', () => {
+  const html = `<!DOCTYPE html>
+    <html lang="en"><head>
+      <title>Aggregate Page</title>
+      <meta name="description" content="All metadata at once">
+      <meta property="og:title" content="OG Aggregate">
+      <meta name="twitter:card" content="summary">
+      <link rel="canonical" href="https://example.com/page">
+      <link rel="alternate" type="application/rss+xml" href="/feed.xml">
+    </head><body>
+      <a href="/about">About</a>
+      <a href="https://other.test/">Other</a>
+    </body></html>`;
+
+  it('should run every extractor by default', () => {
+    const metadata = extractAll(parseHTML(html));
+
+    for (const name of METADATA_EXTRACTORS) {
+      assert.ok(metadata[name], `Should have ${name} result`);
+      assert.equal(typeof metadata.timings[name], 'number');
+    }
+    assert.deepEqual(metadata.errors, {});
+    assert.equal(METADATA_EXTRACTORS.length, 23);
+  });
+
+  it('should match the individual extractors', () => {
+    const doc = parseHTML(html);
+    const metadata = extractAll(doc, { baseUrl: 'https://example.com/page' });
+
+    assert.deepEqual(metadata.seo, extractSEO(doc));
+    assert.deepEqual(metadata.openGraph, extractOpenGraph(doc));
+    assert.deepEqual(metadata.feedDiscovery, extractFeedDiscovery(doc, 'https://example.com/page'));
+    assert.deepEqual(metadata.links, extractLinks(doc, 'https://example.com/page'));
+  });
+
+  it('should resolve URLs against baseUrl', () => {
+    const metadata = extractAll(html, { baseUrl: new URL('https://example.com/page') });
+
+    assert.ok(metadata.links?.internal?.some((link) => link.url === 'https://example.com/about'));
+    assert.ok(metadata.links?.external?.some((link) => link.url === 'https://other.test/'));
+  });
+
+  it('should accept raw HTML strings', () => {
+    const metadata = extractAll(html);
+
+    assert.equal(metadata.seo?.title, 'Aggregate Page');
+    assert.equal(metadata.twitterCard?.card, 'summary');
+  });
+
+  it('should run only included extractors', () => {
+    const metadata = extractAll(html, { include: ['seo', 'openGraph'] });
+
+    assert.equal(metadata.seo?.title, 'Aggregate Page');
+    assert.equal(metadata.openGraph?.title, 'OG Aggregate');
+    assert.equal(metadata.twitterCard, undefined);
+    assert.deepEqual(Object.keys(metadata.timings).sort(), ['openGraph', 'seo']);
+  });
+
+  it('should skip excluded extractors', () => {
+    const metadata = extractAll(html, { include: ['seo', 'links'], exclude: ['links'] });
+
+    assert.ok(metadata.seo);
+    assert.equal(metadata.links, undefined);
+    assert.deepEqual(Object.keys(metadata.timings), ['seo']);
+  });
+
+  it('should pass links options to extractLinks', () => {
+    const metadata = extractAll(html, {
+      baseUrl: 'https://example.com/page',
+      include: ['links'],
+      links: { scope: 'external' },
+    });
+
+    assert.deepEqual(
+      metadata.links?.all?.map((link) => link.url),
+      ['https://other.test/'],
+    );
+  });
+
+  it('should isolate extractor failures in errors', () => {
+    const doc = parseHTML(html);
+    const querySelector = doc.querySelector.bind(doc);
+    const querySelectorAll = doc.querySelectorAll.bind(doc);
+    const guard = (selector: string) => {
+      if (selector.includes('og:')) {
+        throw new Error('broken selector');
+      }
+    };
+    doc.querySelector = ((selector: string) => {
+      guard(selector);
+      return querySelector(selector);
+    }) as typeof doc.querySelector;
+    doc.querySelectorAll = ((selector: string) => {
+      guard(selector);
+      return querySelectorAll(selector);
+    }) as typeof doc.querySelectorAll;
+
+    const metadata = extractAll(doc, { include: ['seo', 'openGraph'] });
+
+    assert.equal(metadata.seo?.title, 'Aggregate Page');
+    assert.equal(metadata.openGraph, undefined);
+    assert.ok(metadata.errors.openGraph instanceof Error);
+    assert.match(metadata.errors.openGraph.message, /broken selector/);
+    assert.equal(typeof metadata.timings.openGraph, 'number');
+  });
+
+  it('should wrap non-Error throws', () => {
+    const doc = parseHTML(html);
+    doc.querySelector = () => {
+      throw 'not an error';
+    };
+
+    const metadata = extractAll(doc, { include: ['seo'] });
+
+    assert.ok(metadata.errors.seo instanceof Error);
+    assert.equal(metadata.errors.seo.message, 'not an error');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Aggregate metadata extraction.
+ *
+ * @remarks
+ * Runs every metadata extractor (or a chosen subset) against one parsed
+ * document and collects the results, errors and timings.
+ *
+ * @packageDocumentation
+ */
+
+import { type DocumentInput, ensureDocument } from '../../utils/html-parser.js';
+import { extractAnalytics } from '../analytics/extract.js';
+import { extractAssets } from '../assets/extract.js';
+import { extractCanonical } from '../canonical/extract.js';
+import { extractCopyright } from '../copyright/extract.js';
+import { extractDublinCore } from '../dublin-core/extract.js';
+import { extractFeedDiscovery } from '../feed-discovery/extract.js';
+import { extractGeo } from '../geo/extract.js';
+import { extractIcons } from '../icons/extract.js';
+import { extractLanguage } from '../language/extract.js';
+import { extractLinks } from '../links/extract.js';
+import { extractMicroformats } from '../microformats/extract.js';
+import { extractMonetization } from '../monetization/extract.js';
+import { extractNews } from '../news/extract.js';
+import { extractOpenGraph } from '../opengraph/extract.js';
+import { extractPagination } from '../pagination/extract.js';
+import { extractRobots } from '../robots/extract.js';
+import { extractSchemaOrg } from '../schema-org/extract.js';
+import { extractSecurity } from '../security/extract.js';
+import { extractSEO } from '../seo/extract.js';
+import { extractSitemapDiscovery } from '../sitemap-discovery/extract.js';
+import { extractSocialProfiles } from '../social-profiles/extract.js';
+import { extractTwitterCard } from '../twitter-card/extract.js';
+import { extractVerification } from '../verification/extract.js';
+import type {
+  ExtractAllOptions,
+  MetadataExtractorName,
+  MetadataExtractorResults,
+  PageMetadata,
+} from './types.js';
+
+/**
+ * Every extractor, keyed by module, adapted to a common signature.
+ */
+const EXTRACTORS: {
+  [K in MetadataExtractorName]: (
+    doc: Document,
+    options: ExtractAllOptions,
+  ) => MetadataExtractorResults[K];
+} = {
+  analytics: (doc) => extractAnalytics(doc),
+  assets: (doc, { baseUrl }) => extractAssets(doc, baseUrl),
+  canonical: (doc) => extractCanonical(doc),
+  copyright: (doc) => extractCopyright(doc),
+  dublinCore: (doc) => extractDublinCore(doc),
+  feedDiscovery: (doc, { baseUrl }) => extractFeedDiscovery(doc, baseUrl ?? undefined),
+  geo: (doc) => extractGeo(doc),
+  icons: (doc) => extractIcons(doc),
+  language: (doc) => extractLanguage(doc),
+  links: (doc, { baseUrl, links }) => extractLinks(doc, baseUrl, links),
+  microformats: (doc, { baseUrl }) => extractMicroformats(doc, baseUrl),
+  monetization: (doc) => extractMonetization(doc),
+  news: (doc) => extractNews(doc),
+  openGraph: (doc) => extractOpenGraph(doc),
+  pagination: (doc) => extractPagination(doc),
+  robots: (doc) => extractRobots(doc),
+  schemaOrg: (doc, { baseUrl }) => extractSchemaOrg(doc, baseUrl),
+  security: (doc) => extractSecurity(doc),
+  seo: (doc) => extractSEO(doc),
+  sitemapDiscovery: (doc, { baseUrl }) => extractSitemapDiscovery(doc, baseUrl ?? undefined),
+  socialProfiles: (doc) => extractSocialProfiles(doc),
+  twitterCard: (doc) => extractTwitterCard(doc),
+  verification: (doc) => extractVerification(doc),
+};
+
+/**
+ * Names of all metadata extractors, in the order extractAll() runs them.
+ */
+export const METADATA_EXTRACTORS = Object.keys(EXTRACTORS) as MetadataExtractorName[];
+
+/**
+ * Extract all metadata from HTML in one pass.
+ *
+ * @remarks
+ * Parses the input once (if given a string) and runs every extractor, or the
+ * subset selected with `include` / `exclude`, against the same document.
+ * Each extractor is isolated: if one throws, its error is recorded in
+ * `errors` and the others still run. Per-extractor timings (milliseconds)
+ * are recorded in `timings` for profiling.
+ *
+ * @param input - Parsed HTML document or raw HTML string
+ * @param options - Base URL, extractor selection and links options
+ * @returns Page metadata keyed by module, plus errors and timings
+ *
+ * @example
+ * ```typescript
+ * const doc = parseHTML(html);
+ * const metadata = extractAll(doc, { baseUrl: 'https://example.com/post' });
+ * console.log(metadata.seo?.title, metadata.openGraph?.image);
+ *
+ * // Only what you need
+ * const social = extractAll(doc, { include: ['openGraph', 'twitterCard'] });
+ *
+ * // Everything except the expensive bits
+ * const cheap = extractAll(doc, { exclude: ['links', 'assets'] });
+ * ```
+ */
+export function extractAll(input: DocumentInput, options: ExtractAllOptions = {}): PageMetadata {
+  const baseUrl = options.baseUrl ? String(options.baseUrl) : undefined;
+  const doc = ensureDocument(input, baseUrl);
+
+  const include = options.include ? new Set(options.include) : null;
+  const exclude = new Set(options.exclude ?? []);
+  const metadata: PageMetadata = { errors: {}, timings: {} };
+
+  for (const name of METADATA_EXTRACTORS) {
+    if ((include && !include.has(name)) || exclude.has(name)) {
+      continue;
+    }
+    runExtractor(name, doc, options, metadata);
+  }
+
+  return metadata;
+}
+
+/**
+ * Run a single extractor, recording its result or error and its timing.
+ */
+function runExtractor<K extends MetadataExtractorName>(
+  name: K,
+  doc: Document,
+  options: ExtractAllOptions,
+  metadata: PageMetadata,
+): void {
+  const start = performance.now();
+  try {
+    (metadata as Partial<MetadataExtractorResults>)[name] = EXTRACTORS[name](doc, options);
+  } catch (error) {
+    metadata.errors[name] = error instanceof Error ? error : new Error(String(error));
+  } finally {
+    metadata.timings[name] = performance.now() - start;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Aggregate metadata extraction module.
+ *
+ * @remarks
+ * Run every metadata extractor against one parsed document.
+ *
+ * @packageDocumentation
+ */
+
+export { extractAll, METADATA_EXTRACTORS } from './extract.js';
+export type {
+  ExtractAllOptions,
+  MetadataExtractorName,
+  MetadataExtractorResults,
+  PageMetadata,
+} from './types.js';
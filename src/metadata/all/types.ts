@@ -0,0 +1,159 @@
+/**
+ * Aggregate metadata extraction types.
+ *
+ * @remarks
+ * Types for running every metadata extractor against one parsed document.
+ *
+ * @packageDocumentation
+ */
+
+import type { AnalyticsMetadata } from '../analytics/types.js';
+import type { AssetsMetadata } from '../assets/types.js';
+import type { CanonicalMetadata } from '../canonical/types.js';
+import type { CopyrightMetadata } from '../copyright/types.js';
+import type { DublinCoreMetadata } from '../dublin-core/types.js';
+import type { FeedDiscoveryMetadata } from '../feed-discovery/types.js';
+import type { GeoMetadata } from '../geo/types.js';
+import type { IconsMetadata } from '../icons/types.js';
+import type { LanguageMetadata } from '../language/types.js';
+import type { LinksExtractionOptions, LinksMetadata } from '../links/types.js';
+import type { MicroformatsMetadata } from '../microformats/types.js';
+import type { MonetizationMetadata } from '../monetization/types.js';
+import type { NewsMetadata } from '../news/types.js';
+import type { OpenGraphMetadata } from '../opengraph/types.js';
+import type { PaginationMetadata } from '../pagination/types.js';
+import type { RobotsMetadata } from '../robots/types.js';
+import type { SchemaOrgMetadata } from '../schema-org/types.js';
+import type { SecurityMetadata } from '../security/types.js';
+import type { SEOMetadata } from '../seo/types.js';
+import type { SitemapDiscoveryMetadata } from '../sitemap-discovery/types.js';
+import type { SocialProfilesMetadata } from '../social-profiles/types.js';
+import type { TwitterCardMetadata } from '../twitter-card/types.js';
+import type { VerificationMetadata } from '../verification/types.js';
+
+/**
+ * Results of every metadata extractor, keyed by module.
+ */
+export interface MetadataExtractorResults {
+  /** Result of `extractAnalytics()` */
+  analytics: AnalyticsMetadata;
+
+  /** Result of `extractAssets()` */
+  assets: AssetsMetadata;
+
+  /** Result of `extractCanonical()` */
+  canonical: CanonicalMetadata;
+
+  /** Result of `extractCopyright()` */
+  copyright: CopyrightMetadata;
+
+  /** Result of `extractDublinCore()` */
+  dublinCore: DublinCoreMetadata;
+
+  /** Result of `extractFeedDiscovery()` */
+  feedDiscovery: FeedDiscoveryMetadata;
+
+  /** Result of `extractGeo()` */
+  geo: GeoMetadata;
+
+  /** Result of `extractIcons()` */
+  icons: IconsMetadata;
+
+  /** Result of `extractLanguage()` */
+  language: LanguageMetadata;
+
+  /** Result of `extractLinks()` */
+  links: LinksMetadata;
+
+  /** Result of `extractMicroformats()` */
+  microformats: MicroformatsMetadata;
+
+  /** Result of `extractMonetization()` */
+  monetization: MonetizationMetadata;
+
+  /** Result of `extractNews()` */
+  news: NewsMetadata;
+
+  /** Result of `extractOpenGraph()` */
+  openGraph: OpenGraphMetadata;
+
+  /** Result of `extractPagination()` */
+  pagination: PaginationMetadata;
+
+  /** Result of `extractRobots()` */
+  robots: RobotsMetadata;
+
+  /** Result of `extractSchemaOrg()` */
+  schemaOrg: SchemaOrgMetadata;
+
+  /** Result of `extractSecurity()` */
+  security: SecurityMetadata;
+
+  /** Result of `extractSEO()` */
+  seo: SEOMetadata;
+
+  /** Result of `extractSitemapDiscovery()` */
+  sitemapDiscovery: SitemapDiscoveryMetadata;
+
+  /** Result of `extractSocialProfiles()` */
+  socialProfiles: SocialProfilesMetadata;
+
+  /** Result of `extractTwitterCard()` */
+  twitterCard: TwitterCardMetadata;
+
+  /** Result of `extractVerification()` */
+  verification: VerificationMetadata;
+}
+
+/**
+ * Name of a metadata extractor (module key in {@link PageMetadata}).
+ */
+export type MetadataExtractorName = keyof MetadataExtractorResults;
+
+/**
+ * Options for extractAll().
+ */
+export interface ExtractAllOptions {
+  /**
+   * Base URL of the document.
+   *
+   * @remarks
+   * Used to resolve relative URLs in feed and sitemap discovery, assets,
+   * links, Schema.org microdata/RDFa and microformats, and to tell internal from
+   * external links.
+   */
+  baseUrl?: string | URL | null;
+
+  /**
+   * Run only these extractors.
+   *
+   * @default all extractors
+   */
+  include?: MetadataExtractorName[];
+
+  /**
+   * Skip these extractors (applied after `include`).
+   */
+  exclude?: MetadataExtractorName[];
+
+  /**
+   * Options passed to `extractLinks()`.
+   */
+  links?: LinksExtractionOptions;
+}
+
+/**
+ * Aggregated page metadata from extractAll().
+ *
+ * @remarks
+ * Every extractor that ran successfully has its result under its module key.
+ * Extractors that were skipped or threw are absent; failures are recorded in
+ * `errors` instead, so one broken extractor never hides the others.
+ */
+export interface PageMetadata extends Partial<MetadataExtractorResults> {
+  /** Errors thrown by individual extractors */
+  errors: Partial<Record<MetadataExtractorName, Error>>;
+
+  /** Time spent in each extractor that ran, in milliseconds */
+  timings: Partial<Record<MetadataExtractorName, number>>;
+}
@@ -8,6 +8,13 @@
  * @packageDocumentation
  */
 
+export type {
+  ExtractAllOptions,
+  MetadataExtractorName,
+  MetadataExtractorResults,
+  PageMetadata,
+} from './all/index.js';
+export { extractAll, METADATA_EXTRACTORS } from './all/index.js';
 export type { AnalyticsMetadata } from './analytics/index.js';
 // Phase 6 modules (implemented)
 export { extractAnalytics } from './analytics/index.js';
@@ -36,6 +43,15 @@ export type { LanguageMetadata } from './language/index.js';
 export { extractLanguage } from './language/index.js';
 export type { ExtractedLink, LinksExtractionOptions, LinksMetadata } from './links/index.js';
 export { extractLinks } from './links/index.js';
+export type {
+  MicroformatHtml,
+  MicroformatImage,
+  MicroformatItem,
+  MicroformatRelUrl,
+  MicroformatsMetadata,
+  MicroformatValue,
+} from './microformats/index.js';
+export { extractMicroformats } from './microformats/index.js';
 export type { MonetizationMetadata } from './monetization/index.js';
 export { extractMonetization } from './monetization/index.js';
 export type { NewsMetadata } from './news/index.js';
@@ -54,7 +70,7 @@ export type { PaginationMetadata } from './pagination/index.js';
 export { extractPagination } from './pagination/index.js';
 export type { RobotDirectives, RobotsMetadata } from './robots/index.js';
 export { extractRobots, parseDirectives } from './robots/index.js';
-export type { JsonLdBlock, SchemaOrgMetadata } from './schema-org/index.js';
+export type { JsonLdBlock, SchemaOrgMetadata, SchemaOrgSource } from './schema-org/index.js';
 // Phase 2 modules (implemented)
 export { extractSchemaOrg } from './schema-org/index.js';
 export type { SecurityMetadata } from './security/index.js';
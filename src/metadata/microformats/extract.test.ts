@@ -0,0 +1,307 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseHTML } from '../../utils/html-parser.js';
+import { extractMicroformats } from './extract.js';
+
+describe('extractMicroformats', () => {
+  describe('h-card', () => {
+    it('should imply name from text content', () => {
+      const result = extractMicroformats('<p class="h-card">Frances Berriman</p>');
+
+      assert.deepEqual(result.items, [
+        { type: ['h-card'], properties: { name: ['Frances Berriman'] } },
+      ]);
+    });
+
+    it('should imply name, photo and url', () => {
+      const html = `
+        <a class="h-card" href="http://benward.me">Ben Ward</a>
+        <img class="h-card" alt="Sally Ride" src="http://upload.wikimedia.org/sally.jpg">
+        <div class="h-card"><a href="/profile"><img src="/me.png" alt="Tantek"></a></div>
+      `;
+
+      const result = extractMicroformats(html, 'https://example.com/page');
+
+      assert.deepEqual(result.items, [
+        {
+          type: ['h-card'],
+          properties: { name: ['Ben Ward'], url: ['http://benward.me'] },
+        },
+        {
+          type: ['h-card'],
+          properties: {
+            name: ['Sally Ride'],
+            photo: [{ value: 'http://upload.wikimedia.org/sally.jpg', alt: 'Sally Ride' }],
+          },
+        },
+        {
+          type: ['h-card'],
+          properties: {
+            name: ['Tantek'],
+            photo: [{ value: 'https://example.com/me.png', alt: 'Tantek' }],
+            url: ['https://example.com/profile'],
+          },
+        },
+      ]);
+    });
+
+    it('should parse explicit properties and not imply overridden ones', () => {
+      const html = `
+        <div class="h-card" id="me">
+          <img class="u-photo" src="photo.jpg" />
+          <a class="p-name u-url" href="http://blog.lizardwrangler.com/">Mitchell Baker</a>
+          <abbr class="p-org" title="Mozilla Foundation">Mozilla</abbr>
+          <data class="p-tel" value="+1 555 0100">call me</data>
+        </div>
+      `;
+
+      const result = extractMicroformats(html, 'http://example.com/');
+
+      assert.deepEqual(result.items, [
+        {
+          type: ['h-card'],
+          id: 'me',
+          properties: {
+            photo: ['http://example.com/photo.jpg'],
+            name: ['Mitchell Baker'],
+            url: ['http://blog.lizardwrangler.com/'],
+            org: ['Mozilla Foundation'],
+            tel: ['+1 555 0100'],
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('h-entry', () => {
+    it('should parse e-* content and nested p-author h-card', () => {
+      const html = `
+        <article class="h-entry">
+          <h1 class="p-name">Microformats are amazing</h1>
+          <p>Published by <a class="p-author h-card" href="http://example.com">W. Developer</a>
+             on <time class="dt-published" datetime="2013-06-13 12:00:00">13<sup>th</sup> June 2013</time></p>
+          <p class="p-summary">In which I extoll the virtues of using microformats.</p>
+          <div class="e-content">
+            <p>Blah blah <a href="/more">blah</a></p>
+          </div>
+        </article>
+      `;
+
+      const result = extractMicroformats(html, 'http://example.com/post');
+
+      assert.deepEqual(result.items, [
+        {
+          type: ['h-entry'],
+          properties: {
+            name: ['Microformats are amazing'],
+            author: [
+              {
+                type: ['h-card'],
+                properties: { name: ['W. Developer'], url: ['http://example.com'] },
+                value: 'W. Developer',
+              },
+            ],
+            published: ['2013-06-13 12:00:00'],
+            summary: ['In which I extoll the virtues of using microformats.'],
+            content: [
+              {
+                html: '<p>Blah blah <a href="http://example.com/more">blah</a></p>',
+                value: 'Blah blah blah',
+              },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should parse u-* properties on media elements', () => {
+      const html = `
+        <div class="h-entry">
+          <p class="p-name">Media</p>
+          <video class="u-video" src="/movie.mp4" poster="/poster.jpg"></video>
+          <audio class="u-audio" src="/sound.mp3"></audio>
+          <object class="u-featured" data="/embed.swf"></object>
+          <span class="u-uid">urn:uuid:1234</span>
+        </div>
+      `;
+
+      const [item] = extractMicroformats(html, 'https://example.com/').items;
+
+      assert.deepEqual(item.properties.video, ['https://example.com/movie.mp4']);
+      assert.deepEqual(item.properties.audio, ['https://example.com/sound.mp3']);
+      assert.deepEqual(item.properties.featured, ['https://example.com/embed.swf']);
+      assert.deepEqual(item.properties.uid, ['urn:uuid:1234']);
+    });
+
+    it('should not imply name when other p-* properties exist', () => {
+      const html = '<div class="h-entry"><p class="p-summary">Only a summary</p></div>';
+
+      const [item] = extractMicroformats(html).items;
+
+      assert.deepEqual(item.properties, { summary: ['Only a summary'] });
+    });
+  });
+
+  describe('h-feed', () => {
+    it('should collect nested h-entry items as children', () => {
+      const html = `
+        <div class="h-feed">
+          <h1 class="p-name">My Blog</h1>
+          <article class="h-entry"><a class="u-url p-name" href="/one">One</a></article>
+          <section><article class="h-entry"><a class="u-url p-name" href="/two">Two</a></article></section>
+        </div>
+      `;
+
+      const result = extractMicroformats(html, 'https://blog.example/');
+
+      assert.equal(result.items.length, 1);
+      const [feed] = result.items;
+      assert.deepEqual(feed.type, ['h-feed']);
+      assert.deepEqual(feed.properties, { name: ['My Blog'] });
+      assert.deepEqual(feed.children, [
+        {
+          type: ['h-entry'],
+          properties: { url: ['https://blog.example/one'], name: ['One'] },
+        },
+        {
+          type: ['h-entry'],
+          properties: { url: ['https://blog.example/two'], name: ['Two'] },
+        },
+      ]);
+    });
+
+    it('should sort and deduplicate root class names', () => {
+      const result = extractMicroformats('<div class="h-entry h-as-note h-entry">Note</div>');
+
+      assert.deepEqual(result.items[0].type, ['h-as-note', 'h-entry']);
+    });
+  });
+
+  describe('h-event', () => {
+    it('should combine value class pattern date and time parts', () => {
+      const html = `
+        <div class="h-event">
+          <span class="p-name">IndieWebCamp</span>
+          <span class="dt-start"><span class="value">2013-03-14</span> at <span class="value">7pm</span></span>
+          <span class="dt-end"><time class="value" datetime="21:30"></time></span>
+          <span class="p-location h-card"><span class="p-name">Portland</span></span>
+        </div>
+      `;
+
+      const [event] = extractMicroformats(html).items;
+
+      assert.deepEqual(event.properties.start, ['2013-03-14 19:00']);
+      assert.deepEqual(event.properties.end, ['2013-03-14 21:30']);
+      assert.deepEqual(event.properties.location, [
+        { type: ['h-card'], properties: { name: ['Portland'] }, value: 'Portland' },
+      ]);
+    });
+
+    it('should read dt-* from datetime, title and value attributes', () => {
+      const html = `
+        <div class="h-event">
+          <p class="p-name">Launch</p>
+          <time class="dt-start" datetime="2024-05-01T10:00:00Z">May 1</time>
+          <abbr class="dt-end" title="2024-05-01T12:00:00Z">noon</abbr>
+          <data class="dt-updated" value="2024-04-01">April</data>
+          <span class="dt-duration">PT2H</span>
+        </div>
+      `;
+
+      const [event] = extractMicroformats(html).items;
+
+      assert.deepEqual(event.properties.start, ['2024-05-01T10:00:00Z']);
+      assert.deepEqual(event.properties.end, ['2024-05-01T12:00:00Z']);
+      assert.deepEqual(event.properties.updated, ['2024-04-01']);
+      assert.deepEqual(event.properties.duration, ['PT2H']);
+    });
+  });
+
+  describe('value class pattern', () => {
+    it('should join value and value-title parts for p-* properties', () => {
+      const html = `
+        <div class="h-card">
+          <span class="p-tel"><span class="value">+44</span> (0) <span class="value">1223 123 123</span></span>
+          <span class="p-note"><span class="value-title" title="Titled"> </span>ignored</span>
+        </div>
+      `;
+
+      const [card] = extractMicroformats(html).items;
+
+      assert.deepEqual(card.properties.tel, ['+441223 123 123']);
+      assert.deepEqual(card.properties.note, ['Titled']);
+    });
+  });
+
+  describe('text content', () => {
+    it('should drop scripts and styles and replace images', () => {
+      const html = `
+        <div class="h-entry">
+          <p class="p-name">Hello <img src="/wave.png"> world<script>track()</script><style>p{}</style></p>
+          <p class="p-summary">Smile <img src="/s.png" alt=":)"></p>
+        </div>
+      `;
+
+      const [entry] = extractMicroformats(html, 'https://example.com/').items;
+
+      assert.deepEqual(entry.properties.name, ['Hello  https://example.com/wave.png  world']);
+      assert.deepEqual(entry.properties.summary, ['Smile  :)']);
+    });
+  });
+
+  describe('rels', () => {
+    it('should collect rels and rel-urls', () => {
+      const html = `
+        <head>
+          <link rel="webmention" href="/webmention">
+          <link rel="alternate" type="application/rss+xml" href="/feed" title="Feed">
+        </head>
+        <body>
+          <a rel="me" href="https://github.com/someone">GitHub</a>
+          <a rel="me nofollow" href="https://twitter.com/someone" hreflang="en">Twitter</a>
+          <a rel="me" href="https://github.com/someone">Dupe</a>
+        </body>
+      `;
+
+      const result = extractMicroformats(html, 'https://example.com/');
+
+      assert.deepEqual(result.rels, {
+        webmention: ['https://example.com/webmention'],
+        alternate: ['https://example.com/feed'],
+        me: ['https://github.com/someone', 'https://twitter.com/someone'],
+        nofollow: ['https://twitter.com/someone'],
+      });
+      assert.deepEqual(result['rel-urls']['https://example.com/feed'], {
+        rels: ['alternate'],
+        text: '',
+        title: 'Feed',
+        type: 'application/rss+xml',
+      });
+      assert.deepEqual(result['rel-urls']['https://twitter.com/someone'], {
+        rels: ['me', 'nofollow'],
+        text: 'Twitter',
+        hreflang: 'en',
+      });
+      assert.equal(result['rel-urls']['https://github.com/someone'].text, 'GitHub');
+    });
+  });
+
+  it('should honor the <base> tag', () => {
+    const html = `
+      <base href="https://cdn.example.com/">
+      <a class="h-card" href="people/ada">Ada</a>
+    `;
+
+    const result = extractMicroformats(parseHTML(html), 'https://example.com/');
+
+    assert.deepEqual(result.items[0].properties.url, ['https://cdn.example.com/people/ada']);
+  });
+
+  it('should return empty structures without microformats', () => {
+    assert.deepEqual(extractMicroformats('<p class="hentry">Classic</p>'), {
+      items: [],
+      rels: {},
+      'rel-urls': {},
+    });
+  });
+});
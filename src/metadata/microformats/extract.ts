@@ -0,0 +1,51 @@
+/**
+ * Microformats2 extraction.
+ *
+ * @remarks
+ * Extracts h-card, h-entry, h-feed, h-event and any other microformats2
+ * items plus `rel` links, as canonical mf2 JSON.
+ *
+ * @packageDocumentation
+ */
+
+import { getBaseUrl } from '../../utils/base-url.js';
+import { type DocumentInput, ensureDocument } from '../../utils/html-parser.js';
+import { parseItems, parseRels } from './parse.js';
+import type { MicroformatsMetadata } from './types.js';
+
+/**
+ * Extract microformats2 metadata from HTML.
+ *
+ * @remarks
+ * Runs the microformats2 parsing algorithm: root (`h-*`) and property
+ * (`p-*`, `u-*`, `dt-*`, `e-*`) classes, the value class pattern, implied
+ * `name` / `photo` / `url`, nested microformats (as properties or
+ * `children`) and `rels` / `rel-urls`. The output matches the canonical mf2
+ * JSON structure, so it can be compared with the official test suite.
+ *
+ * @param input - Parsed HTML document or raw HTML string
+ * @param baseUrl - Document URL for resolving relative URLs (a `<base>` tag wins)
+ * @returns Microformats2 metadata (`items`, `rels`, `rel-urls`)
+ *
+ * @example
+ * ```typescript
+ * const mf2 = extractMicroformats(doc, 'https://example.com/');
+ * const entry = mf2.items.find((item) => item.type.includes('h-entry'));
+ * console.log(entry?.properties.name?.[0]);
+ * console.log(mf2.rels.me); // rel="me" profile links
+ * ```
+ */
+export function extractMicroformats(
+  input: DocumentInput,
+  baseUrl?: string | URL | null,
+): MicroformatsMetadata {
+  const doc = ensureDocument(input);
+  const resolveBase = getBaseUrl(doc, baseUrl ?? undefined);
+
+  const { rels, relUrls } = parseRels(doc, resolveBase);
+  return {
+    items: parseItems(doc, resolveBase),
+    rels,
+    'rel-urls': relUrls,
+  };
+}
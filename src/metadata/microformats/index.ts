@@ -0,0 +1,19 @@
+/**
+ * Microformats2 extraction module.
+ *
+ * @remarks
+ * Parses h-card, h-entry, h-feed, h-event and other microformats2 markup
+ * into canonical mf2 JSON.
+ *
+ * @packageDocumentation
+ */
+
+export { extractMicroformats } from './extract.js';
+export type {
+  MicroformatHtml,
+  MicroformatImage,
+  MicroformatItem,
+  MicroformatRelUrl,
+  MicroformatsMetadata,
+  MicroformatValue,
+} from './types.js';
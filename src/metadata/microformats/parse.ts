@@ -0,0 +1,469 @@
+/**
+ * Microformats2 parsing algorithm.
+ *
+ * @remarks
+ * Implements root and property class parsing, nested microformats,
+ * implied `name` / `photo` / `url` properties and `rels` / `rel-urls`
+ * as described in the microformats2 parsing specification. Classic
+ * (backcompat) microformats are not parsed.
+ *
+ * @see {@link https://microformats.org/wiki/microformats2-parsing}
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  MicroformatImage,
+  MicroformatItem,
+  MicroformatRelUrl,
+  MicroformatValue,
+} from './types.js';
+import {
+  getClasses,
+  getDatePart,
+  isRoot,
+  PROPERTY_CLASS,
+  parseDatetime,
+  parseValueClassPattern,
+  ROOT_CLASS,
+  readHtml,
+  readText,
+  resolveUrl,
+} from './values.js';
+
+/**
+ * Bookkeeping while parsing the properties of one item.
+ */
+interface ItemState {
+  /** Found explicit p-* properties */
+  hasP: boolean;
+
+  /** Found explicit u-* properties */
+  hasU: boolean;
+
+  /** Found explicit e-* properties */
+  hasE: boolean;
+
+  /** Found nested microformats */
+  hasNested: boolean;
+
+  /** Date of the first dt-* property with a date */
+  impliedDate?: string;
+}
+
+/**
+ * Parse all top-level microformats in a document.
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Base URL for resolving URLs
+ * @returns Top-level items (nested ones are properties or children)
+ */
+export function parseItems(doc: Document, baseUrl: string | undefined): MicroformatItem[] {
+  const items: MicroformatItem[] = [];
+
+  const walk = (element: Element) => {
+    if (isRoot(element)) {
+      items.push(parseItem(element, baseUrl));
+      return;
+    }
+    for (const child of Array.from(element.children)) {
+      walk(child);
+    }
+  };
+
+  // Fragments may have several top-level elements
+  for (const element of Array.from(doc.children)) {
+    walk(element);
+  }
+  return items;
+}
+
+/**
+ * Parse all `rel` links in a document.
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Base URL for resolving URLs
+ * @returns URLs by rel value and rel details by URL
+ */
+export function parseRels(
+  doc: Document,
+  baseUrl: string | undefined,
+): { rels: Record<string, string[]>; relUrls: Record<string, MicroformatRelUrl> } {
+  const rels: Record<string, string[]> = {};
+  const relUrls: Record<string, MicroformatRelUrl> = {};
+
+  for (const element of Array.from(
+    doc.querySelectorAll('a[rel][href], area[rel][href], link[rel][href]'),
+  )) {
+    const values = (element.getAttribute('rel') ?? '').trim().split(/\s+/).filter(Boolean);
+    if (values.length === 0) {
+      continue;
+    }
+
+    const url = resolveUrl(element.getAttribute('href') ?? '', baseUrl);
+    for (const rel of values) {
+      rels[rel] ??= [];
+      if (!rels[rel].includes(url)) {
+        rels[rel].push(url);
+      }
+    }
+
+    relUrls[url] ??= { rels: [], text: (element.textContent ?? '').trim() };
+    const entry = relUrls[url];
+    for (const rel of values) {
+      if (!entry.rels.includes(rel)) {
+        entry.rels.push(rel);
+      }
+    }
+    for (const attribute of ['hreflang', 'media', 'title', 'type'] as const) {
+      const value = element.getAttribute(attribute);
+      if (value !== null && entry[attribute] === undefined) {
+        entry[attribute] = value;
+      }
+    }
+  }
+
+  return { rels, relUrls };
+}
+
+/**
+ * Parse a microformat root element.
+ */
+function parseItem(element: Element, baseUrl: string | undefined): MicroformatItem {
+  const type = [...new Set(getClasses(element).filter((name) => ROOT_CLASS.test(name)))].sort();
+  const item: MicroformatItem = { type, properties: {} };
+
+  const id = element.getAttribute('id');
+  if (id) {
+    item.id = id;
+  }
+
+  const children: MicroformatItem[] = [];
+  const state: ItemState = { hasP: false, hasU: false, hasE: false, hasNested: false };
+  for (const child of Array.from(element.children)) {
+    parseProperties(child, item, children, state, baseUrl);
+  }
+
+  applyImpliedProperties(element, item, state, baseUrl);
+
+  if (children.length > 0) {
+    item.children = children;
+  }
+  return item;
+}
+
+/**
+ * Parse an element (and its descendants) for properties of an item.
+ */
+function parseProperties(
+  element: Element,
+  item: MicroformatItem,
+  children: MicroformatItem[],
+  state: ItemState,
+  baseUrl: string | undefined,
+): void {
+  const properties = getPropertyClasses(element);
+
+  if (isRoot(element)) {
+    state.hasNested = true;
+    const nested = parseItem(element, baseUrl);
+    if (properties.length === 0) {
+      children.push(nested);
+      return;
+    }
+
+    for (const [prefix, name] of properties) {
+      const value: MicroformatItem = { ...nested };
+      if (prefix === 'p') {
+        value.value = firstString(nested.properties.name) ?? readText(element, baseUrl);
+      } else if (prefix === 'u') {
+        value.value = firstString(nested.properties.url) ?? parseUrl(element, baseUrl);
+      } else if (prefix === 'dt') {
+        value.value = parseDatetime(element, state.impliedDate);
+      } else {
+        value.html = readHtml(element, baseUrl);
+        value.value = readText(element, baseUrl);
+      }
+      markProperty(state, prefix);
+      addProperty(item, name, value);
+    }
+    // Nested microformats own their descendants
+    return;
+  }
+
+  for (const [prefix, name] of properties) {
+    let value: MicroformatValue;
+    if (prefix === 'p') {
+      value = parseText(element, baseUrl);
+    } else if (prefix === 'u') {
+      value = parseUrl(element, baseUrl);
+    } else if (prefix === 'dt') {
+      value = parseDatetime(element, state.impliedDate);
+      state.impliedDate ??= getDatePart(value);
+    } else {
+      value = { html: readHtml(element, baseUrl), value: readText(element, baseUrl) };
+    }
+    markProperty(state, prefix);
+    addProperty(item, name, value);
+  }
+
+  for (const child of Array.from(element.children)) {
+    parseProperties(child, item, children, state, baseUrl);
+  }
+}
+
+/**
+ * Get `[prefix, name]` pairs of an element's property classes.
+ */
+function getPropertyClasses(element: Element): [string, string][] {
+  const seen = new Set<string>();
+  const properties: [string, string][] = [];
+  for (const name of getClasses(element)) {
+    const match = PROPERTY_CLASS.exec(name);
+    if (match && !seen.has(name)) {
+      seen.add(name);
+      properties.push([match[1], match[2]]);
+    }
+  }
+  return properties;
+}
+
+/**
+ * Record which kind of explicit property was found.
+ */
+function markProperty(state: ItemState, prefix: string): void {
+  if (prefix === 'p') {
+    state.hasP = true;
+  } else if (prefix === 'u') {
+    state.hasU = true;
+  } else if (prefix === 'e') {
+    state.hasE = true;
+  }
+}
+
+/**
+ * Append a property value.
+ */
+function addProperty(item: MicroformatItem, name: string, value: MicroformatValue): void {
+  item.properties[name] ??= [];
+  item.properties[name].push(value);
+}
+
+/**
+ * Get the first plain string value of a property.
+ */
+function firstString(values: MicroformatValue[] | undefined): string | undefined {
+  const value = values?.[0];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parse a `p-*` property value.
+ */
+function parseText(element: Element, baseUrl: string | undefined): string {
+  const parts = parseValueClassPattern(element);
+  if (parts) {
+    return parts.join('');
+  }
+
+  const tag = element.tagName.toLowerCase();
+  if ((tag === 'abbr' || tag === 'link') && element.hasAttribute('title')) {
+    return element.getAttribute('title') ?? '';
+  }
+  if ((tag === 'data' || tag === 'input') && element.hasAttribute('value')) {
+    return element.getAttribute('value') ?? '';
+  }
+  if ((tag === 'img' || tag === 'area') && element.hasAttribute('alt')) {
+    return element.getAttribute('alt') ?? '';
+  }
+  return readText(element, baseUrl);
+}
+
+/**
+ * Parse a `u-*` property value.
+ */
+function parseUrl(element: Element, baseUrl: string | undefined): string | MicroformatImage {
+  const tag = element.tagName.toLowerCase();
+
+  if ((tag === 'a' || tag === 'area' || tag === 'link') && element.hasAttribute('href')) {
+    return resolveUrl(element.getAttribute('href') ?? '', baseUrl);
+  }
+  if (tag === 'img' && element.hasAttribute('src')) {
+    return readImage(element, baseUrl);
+  }
+  if (['audio', 'video', 'source', 'iframe'].includes(tag) && element.hasAttribute('src')) {
+    return resolveUrl(element.getAttribute('src') ?? '', baseUrl);
+  }
+  if (tag === 'video' && element.hasAttribute('poster')) {
+    return resolveUrl(element.getAttribute('poster') ?? '', baseUrl);
+  }
+  if (tag === 'object' && element.hasAttribute('data')) {
+    return resolveUrl(element.getAttribute('data') ?? '', baseUrl);
+  }
+
+  const parts = parseValueClassPattern(element);
+  if (parts) {
+    return resolveUrl(parts.join(''), baseUrl);
+  }
+  if (tag === 'abbr' && element.hasAttribute('title')) {
+    return resolveUrl(element.getAttribute('title') ?? '', baseUrl);
+  }
+  if ((tag === 'data' || tag === 'input') && element.hasAttribute('value')) {
+    return resolveUrl(element.getAttribute('value') ?? '', baseUrl);
+  }
+  return resolveUrl((element.textContent ?? '').trim(), baseUrl);
+}
+
+/**
+ * Read an image URL, with its alt text if present.
+ */
+function readImage(element: Element, baseUrl: string | undefined): string | MicroformatImage {
+  const value = resolveUrl(element.getAttribute('src') ?? '', baseUrl);
+  const alt = element.getAttribute('alt');
+  return alt === null ? value : { value, alt };
+}
+
+/**
+ * Add implied `name`, `photo` and `url` properties.
+ */
+function applyImpliedProperties(
+  element: Element,
+  item: MicroformatItem,
+  state: ItemState,
+  baseUrl: string | undefined,
+): void {
+  const { properties } = item;
+
+  if (!properties.name && !state.hasP && !state.hasE && !state.hasNested) {
+    properties.name = [impliedName(element, baseUrl)];
+  }
+
+  if (!properties.photo && !state.hasU && !state.hasNested) {
+    const photo = impliedPhoto(element, baseUrl);
+    if (photo !== undefined) {
+      properties.photo = [photo];
+    }
+  }
+
+  if (!properties.url && !state.hasU && !state.hasNested) {
+    const url = impliedUrl(element, baseUrl);
+    if (url !== undefined) {
+      properties.url = [url];
+    }
+  }
+}
+
+/**
+ * Imply the `name` property.
+ */
+function impliedName(element: Element, baseUrl: string | undefined): string {
+  const fromElement = (candidate: Element | null): string | undefined => {
+    if (!candidate) {
+      return undefined;
+    }
+    const tag = candidate.tagName.toLowerCase();
+    const alt = candidate.getAttribute('alt');
+    if ((tag === 'img' || tag === 'area') && alt) {
+      return alt;
+    }
+    const title = candidate.getAttribute('title');
+    if (tag === 'abbr' && title) {
+      return title;
+    }
+    return undefined;
+  };
+
+  const tag = element.tagName.toLowerCase();
+  if ((tag === 'img' || tag === 'area') && element.hasAttribute('alt')) {
+    return element.getAttribute('alt') ?? '';
+  }
+  if (tag === 'abbr' && element.hasAttribute('title')) {
+    return element.getAttribute('title') ?? '';
+  }
+
+  const child = onlyChild(element);
+  const grandchild = child ? onlyChild(child) : null;
+  return fromElement(child) ?? fromElement(grandchild) ?? readText(element, baseUrl, 'alt');
+}
+
+/**
+ * Imply the `photo` property.
+ */
+function impliedPhoto(
+  element: Element,
+  baseUrl: string | undefined,
+): string | MicroformatImage | undefined {
+  const fromElement = (candidate: Element | null): string | MicroformatImage | undefined => {
+    if (!candidate) {
+      return undefined;
+    }
+    const tag = candidate.tagName.toLowerCase();
+    if (tag === 'img' && candidate.hasAttribute('src')) {
+      return readImage(candidate, baseUrl);
+    }
+    if (tag === 'object' && candidate.hasAttribute('data')) {
+      return resolveUrl(candidate.getAttribute('data') ?? '', baseUrl);
+    }
+    return undefined;
+  };
+
+  const direct = fromElement(element);
+  if (direct !== undefined) {
+    return direct;
+  }
+
+  const child = onlyChild(element);
+  return (
+    fromElement(onlyOfType(element, 'img')) ??
+    fromElement(onlyOfType(element, 'object')) ??
+    (child ? fromElement(onlyOfType(child, 'img')) : undefined) ??
+    (child ? fromElement(onlyOfType(child, 'object')) : undefined)
+  );
+}
+
+/**
+ * Imply the `url` property.
+ */
+function impliedUrl(element: Element, baseUrl: string | undefined): string | undefined {
+  const fromElement = (candidate: Element | null): string | undefined => {
+    if (!candidate) {
+      return undefined;
+    }
+    const tag = candidate.tagName.toLowerCase();
+    if ((tag === 'a' || tag === 'area') && candidate.hasAttribute('href')) {
+      return resolveUrl(candidate.getAttribute('href') ?? '', baseUrl);
+    }
+    return undefined;
+  };
+
+  const direct = fromElement(element);
+  if (direct !== undefined) {
+    return direct;
+  }
+
+  const child = onlyChild(element);
+  return (
+    fromElement(onlyOfType(element, 'a')) ??
+    fromElement(onlyOfType(element, 'area')) ??
+    (child ? fromElement(onlyOfType(child, 'a')) : undefined) ??
+    (child ? fromElement(onlyOfType(child, 'area')) : undefined)
+  );
+}
+
+/**
+ * Get the only child element, unless it is a microformat root.
+ */
+function onlyChild(element: Element): Element | null {
+  const children = Array.from(element.children);
+  return children.length === 1 && !isRoot(children[0]) ? children[0] : null;
+}
+
+/**
+ * Get the only child element of a tag, unless it is a microformat root.
+ */
+function onlyOfType(element: Element, tag: string): Element | null {
+  const matches = Array.from(element.children).filter(
+    (child) => child.tagName.toLowerCase() === tag,
+  );
+  return matches.length === 1 && !isRoot(matches[0]) ? matches[0] : null;
+}
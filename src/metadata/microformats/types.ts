@@ -0,0 +1,101 @@
+/**
+ * Microformats2 types.
+ *
+ * @remarks
+ * Canonical mf2 JSON structure as produced by the microformats2 parsing
+ * algorithm (and expected by the official mf2 test suite).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Image URL with alternative text (`u-photo` on an `<img alt>`).
+ */
+export interface MicroformatImage {
+  /** Absolute image URL */
+  value: string;
+
+  /** Alternative text */
+  alt: string;
+}
+
+/**
+ * Embedded markup (`e-*` properties).
+ */
+export interface MicroformatHtml {
+  /** Inner HTML with relative URLs resolved */
+  html: string;
+
+  /** Plain text content */
+  value: string;
+}
+
+/**
+ * Value of a microformat property.
+ */
+export type MicroformatValue = string | MicroformatImage | MicroformatHtml | MicroformatItem;
+
+/**
+ * A parsed microformat (h-card, h-entry, h-feed, h-event, ...).
+ */
+export interface MicroformatItem {
+  /** Root class names, sorted (e.g. `['h-entry']`) */
+  type: string[];
+
+  /** Properties by name (without prefix); values are always arrays */
+  properties: Record<string, MicroformatValue[]>;
+
+  /** `id` attribute of the root element */
+  id?: string;
+
+  /** Nested microformats that are not properties */
+  children?: MicroformatItem[];
+
+  /**
+   * Representative value when the item is a property of another item.
+   *
+   * @remarks
+   * The nested item's `name` (p-*), `url` (u-*) or text content.
+   */
+  value?: string | MicroformatImage;
+
+  /** Inner HTML when the item is an `e-*` property of another item */
+  html?: string;
+}
+
+/**
+ * Details of a URL found in a `rel` attribute.
+ */
+export interface MicroformatRelUrl {
+  /** All rel values pointing to this URL */
+  rels: string[];
+
+  /** Link text */
+  text: string;
+
+  /** `hreflang` attribute (first seen) */
+  hreflang?: string;
+
+  /** `media` attribute (first seen) */
+  media?: string;
+
+  /** `title` attribute (first seen) */
+  title?: string;
+
+  /** `type` attribute (first seen) */
+  type?: string;
+}
+
+/**
+ * Microformats2 metadata of a document (canonical mf2 JSON).
+ */
+export interface MicroformatsMetadata {
+  /** Top-level microformats */
+  items: MicroformatItem[];
+
+  /** URLs by rel value (e.g. `me`, `webmention`, `authorization_endpoint`) */
+  rels: Record<string, string[]>;
+
+  /** Rel details by URL */
+  'rel-urls': Record<string, MicroformatRelUrl>;
+}
@@ -0,0 +1,340 @@
+/**
+ * Microformats2 property value parsing.
+ *
+ * @remarks
+ * Text content rules, the value class pattern and `dt-*` date/time handling
+ * from the microformats2 parsing specification.
+ *
+ * @packageDocumentation
+ */
+
+import { normalizeUrl } from '../../utils/normalize-url.js';
+
+/**
+ * Matches microformats2 root class names (`h-card`, `h-x-custom`).
+ */
+export const ROOT_CLASS = /^h-(?:[a-z0-9]+-)?[a-z]+(?:-[a-z]+)*$/;
+
+/**
+ * Matches microformats2 property class names (`p-name`, `dt-start`, `e-content`).
+ */
+export const PROPERTY_CLASS = /^(p|u|dt|e)-((?:[a-z0-9]+-)?[a-z]+(?:-[a-z]+)*)$/;
+
+/**
+ * Elements whose content never contributes text.
+ */
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template']);
+
+/**
+ * Get the class names of an element.
+ *
+ * @param element - Element to read
+ * @returns Class tokens
+ */
+export function getClasses(element: Element): string[] {
+  const value = element.getAttribute('class');
+  return value ? value.trim().split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Check whether an element is the root of a microformat.
+ *
+ * @param element - Element to check
+ * @returns True if the element has an `h-*` class
+ */
+export function isRoot(element: Element): boolean {
+  return getClasses(element).some((name) => ROOT_CLASS.test(name));
+}
+
+/**
+ * Check whether an element has a property class.
+ *
+ * @param element - Element to check
+ * @returns True if the element has a `p-*`, `u-*`, `dt-*` or `e-*` class
+ */
+export function isProperty(element: Element): boolean {
+  return getClasses(element).some((name) => PROPERTY_CLASS.test(name));
+}
+
+/**
+ * Resolve a relative URL against the base URL.
+ *
+ * @remarks
+ * Absolute URLs are kept as written, as in the canonical mf2 output.
+ *
+ * @param value - URL as written
+ * @param baseUrl - Base URL
+ * @returns Absolute URL (or the trimmed value if it can't be resolved)
+ */
+export function resolveUrl(value: string, baseUrl: string | undefined): string {
+  const trimmed = value.trim();
+  if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+    return trimmed;
+  }
+  return normalizeUrl(baseUrl, trimmed) || trimmed;
+}
+
+/**
+ * Get the text content of an element per the mf2 rules.
+ *
+ * @remarks
+ * Drops `<script>`, `<style>` and `<template>`, replaces `<img>` with its alt
+ * text (or, with `images: 'alt-or-src'`, its resolved src) and trims.
+ *
+ * @param element - Element to read
+ * @param baseUrl - Base URL for image sources
+ * @param images - Image replacement mode
+ * @returns Trimmed text
+ */
+export function readText(
+  element: Element,
+  baseUrl: string | undefined,
+  images: 'alt' | 'alt-or-src' = 'alt-or-src',
+): string {
+  let text = '';
+
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      text += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== 1) {
+      return;
+    }
+
+    const child = node as Element;
+    const tag = child.tagName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tag)) {
+      return;
+    }
+    if (tag === 'img') {
+      const alt = child.getAttribute('alt');
+      const src = child.getAttribute('src');
+      if (alt !== null) {
+        text += ` ${alt} `;
+      } else if (images === 'alt-or-src' && src) {
+        text += ` ${resolveUrl(src, baseUrl)} `;
+      }
+      return;
+    }
+    for (const grandchild of Array.from(child.childNodes)) {
+      walk(grandchild);
+    }
+  };
+
+  for (const child of Array.from(element.childNodes)) {
+    walk(child);
+  }
+  return text.trim();
+}
+
+/**
+ * Get inner HTML with relative `href` and `src` attributes resolved.
+ *
+ * @param element - Element to read
+ * @param baseUrl - Base URL
+ * @returns Trimmed inner HTML
+ */
+export function readHtml(element: Element, baseUrl: string | undefined): string {
+  if (!baseUrl) {
+    return element.innerHTML.trim();
+  }
+
+  const clone = element.cloneNode(true) as Element;
+  for (const child of Array.from(clone.querySelectorAll('[href], [src]'))) {
+    for (const attribute of ['href', 'src']) {
+      const value = child.getAttribute(attribute);
+      if (value !== null) {
+        child.setAttribute(attribute, resolveUrl(value, baseUrl));
+      }
+    }
+  }
+  return clone.innerHTML.trim();
+}
+
+/**
+ * Parse the value class pattern of a property element.
+ *
+ * @remarks
+ * Collects `.value` and `.value-title` descendants that are not inside
+ * nested properties or microformats.
+ *
+ * @param element - Property element
+ * @returns Values in document order, or null if the pattern is not used
+ */
+export function parseValueClassPattern(element: Element): string[] | null {
+  const values: string[] = [];
+
+  const walk = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      if (isRoot(child) || isProperty(child)) {
+        continue;
+      }
+
+      const classes = getClasses(child);
+      if (classes.includes('value-title')) {
+        values.push(child.getAttribute('title') ?? '');
+      } else if (classes.includes('value')) {
+        values.push(readValueElement(child));
+      } else {
+        walk(child);
+      }
+    }
+  };
+
+  walk(element);
+  return values.length > 0 ? values : null;
+}
+
+/**
+ * Read the value of a single `.value` element.
+ */
+function readValueElement(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  if ((tag === 'img' || tag === 'area') && element.hasAttribute('alt')) {
+    return element.getAttribute('alt') ?? '';
+  }
+  if (tag === 'data' && element.hasAttribute('value')) {
+    return element.getAttribute('value') ?? '';
+  }
+  if (tag === 'abbr' && element.hasAttribute('title')) {
+    return element.getAttribute('title') ?? '';
+  }
+  if ((tag === 'time' || tag === 'ins' || tag === 'del') && element.hasAttribute('datetime')) {
+    return element.getAttribute('datetime') ?? '';
+  }
+  return (element.textContent ?? '').trim();
+}
+
+/**
+ * Matches a date (`2024-05-01` or ordinal `2024-122`).
+ */
+const DATE = /^\d{4}-(?:\d{2}-\d{2}|\d{3})$/;
+
+/**
+ * Matches a time with optional am/pm and timezone.
+ */
+const TIME =
+  /^(\d{1,2})(?::(\d{2})(?::(\d{2}(?:\.\d+)?))?)?\s*([ap])?\.?m?\.?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Matches a standalone timezone.
+ */
+const TIMEZONE = /^(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Parse a `dt-*` property value.
+ *
+ * @remarks
+ * Uses the value class pattern (combining separate date, time and timezone
+ * parts) if present, otherwise `datetime`, `title` or `value` attributes,
+ * then text content. A time without a date takes `impliedDate` (the date of
+ * an earlier `dt-*` property of the same item).
+ *
+ * @param element - Property element
+ * @param impliedDate - Date to use for time-only values
+ * @returns Date/time string
+ */
+export function parseDatetime(element: Element, impliedDate?: string): string {
+  const parts = parseValueClassPattern(element);
+  if (parts) {
+    return combineDatetime(parts, impliedDate);
+  }
+
+  const tag = element.tagName.toLowerCase();
+  let value: string;
+  if ((tag === 'time' || tag === 'ins' || tag === 'del') && element.hasAttribute('datetime')) {
+    value = element.getAttribute('datetime') ?? '';
+  } else if (tag === 'abbr' && element.hasAttribute('title')) {
+    value = element.getAttribute('title') ?? '';
+  } else if ((tag === 'data' || tag === 'input') && element.hasAttribute('value')) {
+    value = element.getAttribute('value') ?? '';
+  } else {
+    value = (element.textContent ?? '').trim();
+  }
+
+  value = value.trim();
+  if (impliedDate && TIME.test(value)) {
+    return `${impliedDate} ${normalizeTime(value)}`;
+  }
+  return value;
+}
+
+/**
+ * Get the date part of a date/time string.
+ *
+ * @param value - Date/time string
+ * @returns Date part, or undefined if the value has none
+ */
+export function getDatePart(value: string): string | undefined {
+  const date = value.split(/[T\s]/)[0];
+  return DATE.test(date) ? date : undefined;
+}
+
+/**
+ * Combine value class pattern parts into a date/time string.
+ */
+function combineDatetime(parts: string[], impliedDate?: string): string {
+  let date: string | undefined;
+  let time: string | undefined;
+  let timezone: string | undefined;
+
+  for (const raw of parts) {
+    const part = raw.trim();
+    if (!date && DATE.test(part)) {
+      date = part;
+    } else if (!time && TIME.test(part)) {
+      time = normalizeTime(part);
+    } else if (!timezone && TIMEZONE.test(part)) {
+      timezone = part.toUpperCase();
+    } else if (!date && !time) {
+      // A full date-time in a single value
+      const [datePart, timePart] = part.split(/[T\s]/);
+      if (DATE.test(datePart)) {
+        date = datePart;
+        if (timePart && TIME.test(timePart)) {
+          time = normalizeTime(timePart);
+        }
+      }
+    }
+  }
+
+  date ??= impliedDate;
+  if (date && time) {
+    return `${date} ${time}${timezone ?? ''}`;
+  }
+  if (date) {
+    return date;
+  }
+  if (time) {
+    return `${time}${timezone ?? ''}`;
+  }
+  return parts.join('').trim();
+}
+
+/**
+ * Normalize a time to 24-hour `HH:MM[:SS][timezone]`.
+ */
+function normalizeTime(value: string): string {
+  const match = TIME.exec(value.trim());
+  if (!match) {
+    return value;
+  }
+
+  const [, hours, minutes, seconds, meridiem, timezone] = match;
+  let hour = Number.parseInt(hours, 10);
+  if (meridiem) {
+    const pm = meridiem.toLowerCase() === 'p';
+    if (pm && hour < 12) {
+      hour += 12;
+    } else if (!pm && hour === 12) {
+      hour = 0;
+    }
+  }
+
+  let time = `${String(hour).padStart(2, '0')}:${minutes ?? '00'}`;
+  if (seconds) {
+    time += `:${seconds}`;
+  }
+  return time + (timezone?.toUpperCase() ?? '');
+}
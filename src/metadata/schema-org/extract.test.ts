@@ -329,4 +329,69 @@ describe('extractSchemaOrg', () => {
     assert.equal(org.name, 'First Org');
     assert.equal(person.name, 'First Person');
   });
+
+  it('should merge microdata and RDFa items with a source marker', () => {
+    const html = `
+      <script type="application/ld+json">
+      {"@type": "Product", "name": "JSON-LD Product"}
+      </script>
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Microdata Product</span>
+        <img itemprop="image" src="/product.jpg">
+      </div>
+      <div vocab="https://schema.org/" typeof="Event">
+        <span property="name">RDFa Event</span>
+      </div>
+      <div itemscope itemtype="https://schema.org/Recipe"><span itemprop="name">Cake</span></div>
+    `;
+    const doc = parseHTML(html);
+
+    const result = extractSchemaOrg(doc, 'https://shop.example.com/item');
+
+    assert.equal(result.jsonLd.length, 1);
+    assert.equal(result.jsonLd[0].source, 'json-ld');
+    assert.equal(result.microdata?.length, 2);
+    assert.equal(result.rdfa?.length, 1);
+    assert.deepEqual(result.products, [
+      { '@type': 'Product', name: 'JSON-LD Product', source: 'json-ld' },
+      {
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        name: 'Microdata Product',
+        image: 'https://shop.example.com/product.jpg',
+        source: 'microdata',
+      },
+    ]);
+    assert.deepEqual(result.events, [
+      { '@context': 'https://schema.org', '@type': 'Event', name: 'RDFa Event', source: 'rdfa' },
+    ]);
+    assert.equal((result.recipes?.[0] as { source: string }).source, 'microdata');
+  });
+
+  it('should leave parsed blocks untouched by the source marker', () => {
+    const doc = parseHTML(`
+      <script type="application/ld+json">{"@type": "Article", "headline": "Hi"}</script>
+    `);
+
+    const result = extractSchemaOrg(doc);
+
+    assert.deepEqual(result.jsonLd[0].parsed, { '@type': 'Article', headline: 'Hi' });
+    assert.equal((result.articles?.[0] as { source: string }).source, 'json-ld');
+  });
+
+  it('should honor the <base> tag for microdata URLs', () => {
+    const doc = parseHTML(`
+      <base href="https://cdn.example.com/assets/">
+      <div itemscope itemtype="https://schema.org/ImageObject">
+        <link itemprop="contentUrl" href="photo.jpg">
+      </div>
+    `);
+
+    const result = extractSchemaOrg(doc, 'https://example.com/gallery');
+
+    assert.equal(
+      (result.images?.[0] as { contentUrl: string }).contentUrl,
+      'https://cdn.example.com/assets/photo.jpg',
+    );
+  });
 });
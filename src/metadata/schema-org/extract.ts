@@ -2,23 +2,28 @@
  * Schema.org / JSON-LD extraction.
  *
  * @remarks
- * Extracts structured data from JSON-LD script tags.
+ * Extracts structured data from JSON-LD script tags, microdata and RDFa.
  *
  * @packageDocumentation
  */
 
+import { getBaseUrl } from '../../utils/base-url.js';
 import { type DocumentInput, ensureDocument } from '../../utils/html-parser.js';
 import { extractGraphItems, matchesAnyType, parseJsonLd } from './parse-json-ld.js';
-import type { SchemaOrgMetadata } from './types.js';
+import { parseMicrodata } from './parse-microdata.js';
+import { parseRdfa } from './parse-rdfa.js';
+import type { SchemaOrgMetadata, SchemaOrgSource } from './types.js';
 
 /**
  * Extract Schema.org metadata from HTML.
  *
  * @remarks
  * Finds all <script type="application/ld+json"> tags, parses the JSON-LD,
- * and organizes by type for easy access.
+ * reads microdata (`itemscope`/`itemprop`) and RDFa Lite (`typeof`/`property`)
+ * items into the same shape, and organizes all of them by type for easy access.
  *
  * @param input - Parsed HTML document or raw HTML string
+ * @param baseUrl - Document URL for resolving URL-valued microdata/RDFa properties
  * @returns Schema.org metadata object
  *
  * @example
@@ -31,7 +36,10 @@ import type { SchemaOrgMetadata } from './types.js';
  * const schema = extractSchemaOrg(htmlString);
  * ```
  */
-export function extractSchemaOrg(input: DocumentInput): SchemaOrgMetadata {
+export function extractSchemaOrg(
+  input: DocumentInput,
+  baseUrl?: string | URL | null,
+): SchemaOrgMetadata {
   const doc = ensureDocument(input);
   const metadata: SchemaOrgMetadata = {
     jsonLd: [],
@@ -52,8 +60,19 @@ export function extractSchemaOrg(input: DocumentInput): SchemaOrgMetadata {
     }
   }
 
+  // Read microdata and RDFa items
+  const resolveBase = getBaseUrl(doc, baseUrl ?? undefined);
+  const microdata = parseMicrodata(doc, resolveBase);
+  if (microdata.length > 0) {
+    metadata.microdata = microdata;
+  }
+  const rdfa = parseRdfa(doc, resolveBase);
+  if (rdfa.length > 0) {
+    metadata.rdfa = rdfa;
+  }
+
   // Organize by type for convenience
-  if (metadata.jsonLd.length > 0) {
+  if (metadata.jsonLd.length > 0 || microdata.length > 0 || rdfa.length > 0) {
     organizeByType(metadata);
   }
 
@@ -61,7 +80,11 @@ export function extractSchemaOrg(input: DocumentInput): SchemaOrgMetadata {
 }
 
 /**
- * Organize JSON-LD blocks by type for convenience accessors.
+ * Organize all blocks by type for convenience accessors.
+ *
+ * @remarks
+ * Items are shallow copies marked with the `source` of their block, so the
+ * parsed blocks themselves stay untouched.
  */
 function organizeByType(metadata: SchemaOrgMetadata): void {
   const articles: unknown[] = [];
@@ -75,12 +98,15 @@ function organizeByType(metadata: SchemaOrgMetadata): void {
   let organization: unknown | undefined;
   let person: unknown | undefined;
 
-  // Process each JSON-LD block
-  for (const block of metadata.jsonLd) {
+  // Process each block (JSON-LD first, then microdata and RDFa)
+  const blocks = [...metadata.jsonLd, ...(metadata.microdata ?? []), ...(metadata.rdfa ?? [])];
+  for (const block of blocks) {
     // Extract items from @graph if present
     const items = extractGraphItems(block.parsed);
 
-    for (const item of items) {
+    for (const graphItem of items) {
+      const item = markSource(graphItem, block.source);
+
       // Articles (Article, NewsArticle, BlogPosting, etc.)
       if (matchesAnyType(item, ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle'])) {
         articles.push(item);
@@ -145,3 +171,13 @@ function organizeByType(metadata: SchemaOrgMetadata): void {
   if (organization) metadata.organization = organization;
   if (person) metadata.person = person;
 }
+
+/**
+ * Shallow-copy an item with a `source` marker (non-objects are returned as-is).
+ */
+function markSource(item: unknown, source: SchemaOrgSource): unknown {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return item;
+  }
+  return { ...(item as Record<string, unknown>), source };
+}
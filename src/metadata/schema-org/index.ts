@@ -2,10 +2,10 @@
  * Schema.org / JSON-LD extraction module.
  *
  * @remarks
- * Extracts structured data from JSON-LD script tags.
+ * Extracts structured data from JSON-LD script tags, microdata and RDFa.
  *
  * @packageDocumentation
  */
 
 export { extractSchemaOrg } from './extract.js';
-export type { JsonLdBlock, SchemaOrgMetadata } from './types.js';
+export type { JsonLdBlock, SchemaOrgMetadata, SchemaOrgSource } from './types.js';
@@ -46,6 +46,7 @@ export function parseJsonLd(jsonString: string): JsonLdBlock | null {
       parsed,
       type,
       context,
+      source: 'json-ld',
     };
   } catch {
     // Invalid JSON - return null
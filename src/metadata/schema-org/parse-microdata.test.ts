@@ -0,0 +1,169 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseHTML } from '../../utils/html-parser.js';
+import { parseMicrodata } from './parse-microdata.js';
+
+describe('parseMicrodata', () => {
+  it('should parse a Schema.org item', () => {
+    const doc = parseHTML(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Espresso   Machine</span>
+        <meta itemprop="sku" content="EM-100">
+      </div>
+    `);
+
+    const [block] = parseMicrodata(doc);
+
+    assert.equal(block.source, 'microdata');
+    assert.equal(block.type, 'Product');
+    assert.equal(block.context, 'https://schema.org');
+    assert.deepEqual(block.parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Espresso Machine',
+      sku: 'EM-100',
+    });
+    assert.match(block.raw, /^<div itemscope/);
+  });
+
+  it('should parse nested items without leaking their properties', () => {
+    const doc = parseHTML(`
+      <div itemscope itemtype="http://schema.org/Product">
+        <span itemprop="name">Grinder</span>
+        <div itemprop="offers" itemscope itemtype="http://schema.org/Offer">
+          <span itemprop="price">129.00</span>
+          <meta itemprop="priceCurrency" content="EUR">
+        </div>
+      </div>
+    `);
+
+    const blocks = parseMicrodata(doc);
+
+    assert.equal(blocks.length, 1);
+    assert.deepEqual(blocks[0].parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Grinder',
+      offers: { '@type': 'Offer', price: '129.00', priceCurrency: 'EUR' },
+    });
+  });
+
+  it('should resolve itemref', () => {
+    const doc = parseHTML(`
+      <div itemscope itemtype="https://schema.org/Recipe" itemref="ingredients author">
+        <h1 itemprop="name">Pancakes</h1>
+      </div>
+      <ul id="ingredients">
+        <li itemprop="recipeIngredient">Flour</li>
+        <li itemprop="recipeIngredient">Milk</li>
+      </ul>
+      <p id="author" itemprop="author" itemscope itemtype="https://schema.org/Person">
+        <span itemprop="name">Ada</span>
+      </p>
+    `);
+
+    const [block] = parseMicrodata(doc);
+
+    assert.deepEqual(block.parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Pancakes',
+      recipeIngredient: ['Flour', 'Milk'],
+      author: { '@type': 'Person', name: 'Ada' },
+    });
+  });
+
+  it('should resolve URL-valued properties to absolute URLs', () => {
+    const doc = parseHTML(`
+      <article itemscope itemtype="https://schema.org/Article" itemid="/posts/1">
+        <img itemprop="image" src="/img/cover.jpg">
+        <a itemprop="url" href="posts/1">Link</a>
+        <link itemprop="license" href="//cdn.example.com/license">
+      </article>
+    `);
+
+    const [block] = parseMicrodata(doc, 'https://example.com/blog/');
+
+    assert.deepEqual(block.parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      '@id': 'https://example.com/posts/1',
+      image: 'https://example.com/img/cover.jpg',
+      url: 'https://example.com/blog/posts/1',
+      license: 'https://cdn.example.com/license',
+    });
+  });
+
+  it('should read element-specific values', () => {
+    const doc = parseHTML(`
+      <div itemscope itemtype="https://schema.org/Event">
+        <time itemprop="startDate" datetime="2024-05-01T19:00">May 1st</time>
+        <data itemprop="maximumAttendeeCapacity" value="120">one hundred twenty</data>
+        <meter itemprop="ratingValue" value="4.5">4.5 stars</meter>
+        <time itemprop="endDate">2024-05-01</time>
+      </div>
+    `);
+
+    const [block] = parseMicrodata(doc);
+    const parsed = block.parsed as Record<string, unknown>;
+
+    assert.equal(parsed.startDate, '2024-05-01T19:00');
+    assert.equal(parsed.maximumAttendeeCapacity, '120');
+    assert.equal(parsed.ratingValue, '4.5');
+    assert.equal(parsed.endDate, '2024-05-01');
+  });
+
+  it('should handle multiple types, multiple property names and full IRIs', () => {
+    const doc = parseHTML(`
+      <div itemscope itemtype="https://schema.org/Book https://schema.org/Product">
+        <span itemprop="name https://schema.org/alternateName">Dune</span>
+      </div>
+    `);
+
+    const [block] = parseMicrodata(doc);
+
+    assert.deepEqual(block.type, ['Book', 'Product']);
+    assert.deepEqual(block.parsed, {
+      '@context': 'https://schema.org',
+      '@type': ['Book', 'Product'],
+      name: 'Dune',
+      alternateName: 'Dune',
+    });
+  });
+
+  it('should keep other vocabularies as full IRIs without a context', () => {
+    const doc = parseHTML(`
+      <div itemscope itemtype="http://data-vocabulary.org/Breadcrumb">
+        <span itemprop="title">Home</span>
+      </div>
+    `);
+
+    const [block] = parseMicrodata(doc);
+
+    assert.deepEqual(block.parsed, {
+      '@type': 'http://data-vocabulary.org/Breadcrumb',
+      title: 'Home',
+    });
+  });
+
+  it('should not loop on cyclic itemref', () => {
+    const doc = parseHTML(`
+      <div id="a" itemscope itemtype="https://schema.org/Thing" itemref="b">
+        <span itemprop="name">A</span>
+      </div>
+      <div id="b" itemprop="subjectOf" itemscope itemtype="https://schema.org/Thing" itemref="a">
+        <span itemprop="name">B</span>
+      </div>
+    `);
+
+    const [block] = parseMicrodata(doc);
+    const parsed = block.parsed as Record<string, unknown>;
+
+    assert.equal(parsed.name, 'A');
+    assert.deepEqual(parsed.subjectOf, { '@type': 'Thing', name: 'B' });
+  });
+
+  it('should return an empty array without microdata', () => {
+    assert.deepEqual(parseMicrodata(parseHTML('<p>Nothing here</p>')), []);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * HTML microdata parsing.
+ *
+ * @remarks
+ * Reads `itemscope` / `itemtype` / `itemprop` microdata into JSON-LD shaped
+ * items, following the WHATWG "microdata to JSON" algorithm.
+ *
+ * @packageDocumentation
+ */
+
+import type { JsonLdBlock } from './types.js';
+import {
+  addProperty,
+  compactIri,
+  createBlock,
+  isSchemaOrgIri,
+  readText,
+  readUrl,
+  SCHEMA_ORG_CONTEXT,
+  splitTokens,
+} from './vocabulary.js';
+
+/**
+ * Elements whose microdata value is their `src` attribute.
+ */
+const SRC_ELEMENTS = new Set(['audio', 'embed', 'iframe', 'img', 'source', 'track', 'video']);
+
+/**
+ * Elements whose microdata value is their `href` attribute.
+ */
+const HREF_ELEMENTS = new Set(['a', 'area', 'link']);
+
+/**
+ * Parse all top-level microdata items in a document.
+ *
+ * @remarks
+ * Top-level items are elements with `itemscope` but no `itemprop`. Nested
+ * items become nested objects, `itemref` is resolved, and URL-valued
+ * properties are resolved to absolute URLs. Schema.org types and properties
+ * are compacted (`https://schema.org/Product` → `Product`).
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Base URL for resolving URL values
+ * @returns One block per top-level item
+ */
+export function parseMicrodata(doc: Document, baseUrl?: string): JsonLdBlock[] {
+  const blocks: JsonLdBlock[] = [];
+
+  for (const element of Array.from(doc.querySelectorAll('[itemscope]'))) {
+    if (element.hasAttribute('itemprop')) {
+      continue;
+    }
+    const parsed = readItem(element, doc, baseUrl, new Set(), true);
+    blocks.push(createBlock(element, parsed, 'microdata'));
+  }
+
+  return blocks;
+}
+
+/**
+ * Read an item and its properties.
+ */
+function readItem(
+  element: Element,
+  doc: Document,
+  baseUrl: string | undefined,
+  memory: Set<Element>,
+  topLevel: boolean,
+): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+  const scope = new Set(memory).add(element);
+
+  const types = splitTokens(element.getAttribute('itemtype'));
+  if (types.length > 0) {
+    if (topLevel && types.some(isSchemaOrgIri)) {
+      item['@context'] = SCHEMA_ORG_CONTEXT;
+    }
+    const terms = types.map(compactIri);
+    item['@type'] = terms.length === 1 ? terms[0] : terms;
+  }
+
+  const id = element.getAttribute('itemid');
+  if (id) {
+    item['@id'] = readUrl(element, 'itemid', baseUrl);
+  }
+
+  for (const property of collectProperties(element, doc)) {
+    let value: unknown;
+    if (property.hasAttribute('itemscope')) {
+      // Skip cyclic references (an item containing itself via itemref)
+      if (scope.has(property)) {
+        continue;
+      }
+      value = readItem(property, doc, baseUrl, scope, false);
+    } else {
+      value = readValue(property, baseUrl);
+    }
+
+    for (const name of splitTokens(property.getAttribute('itemprop'))) {
+      addProperty(item, compactIri(name), value);
+    }
+  }
+
+  return item;
+}
+
+/**
+ * Collect the property elements of an item (descendants and `itemref` targets).
+ *
+ * @remarks
+ * Does not descend into nested items: their properties belong to them.
+ */
+function collectProperties(root: Element, doc: Document): Element[] {
+  const properties: Element[] = [];
+  const visited = new Set<Element>([root]);
+
+  const crawl = (element: Element) => {
+    if (visited.has(element)) {
+      return;
+    }
+    visited.add(element);
+
+    if (element.hasAttribute('itemprop')) {
+      properties.push(element);
+    }
+    if (!element.hasAttribute('itemscope')) {
+      for (const child of Array.from(element.children)) {
+        crawl(child);
+      }
+    }
+  };
+
+  for (const child of Array.from(root.children)) {
+    crawl(child);
+  }
+  for (const id of splitTokens(root.getAttribute('itemref'))) {
+    const referenced = doc.getElementById(id);
+    if (referenced) {
+      crawl(referenced);
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Read the value of a non-item property element.
+ */
+function readValue(element: Element, baseUrl: string | undefined): string {
+  const tag = element.tagName.toLowerCase();
+
+  if (tag === 'meta') {
+    return element.getAttribute('content') ?? '';
+  }
+  if (SRC_ELEMENTS.has(tag)) {
+    return readUrl(element, 'src', baseUrl);
+  }
+  if (HREF_ELEMENTS.has(tag)) {
+    return readUrl(element, 'href', baseUrl);
+  }
+  if (tag === 'object') {
+    return readUrl(element, 'data', baseUrl);
+  }
+  if (tag === 'data' || tag === 'meter') {
+    return element.getAttribute('value') ?? '';
+  }
+  if (tag === 'time' && element.hasAttribute('datetime')) {
+    return element.getAttribute('datetime') ?? '';
+  }
+  return readText(element);
+}
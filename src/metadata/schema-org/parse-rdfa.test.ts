@@ -0,0 +1,122 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseHTML } from '../../utils/html-parser.js';
+import { parseRdfa } from './parse-rdfa.js';
+
+describe('parseRdfa', () => {
+  it('should parse a vocab item', () => {
+    const doc = parseHTML(`
+      <div vocab="https://schema.org/" typeof="Event">
+        <span property="name">Jazz   Night</span>
+        <time property="startDate" datetime="2024-06-01T20:00">June 1st</time>
+      </div>
+    `);
+
+    const [block] = parseRdfa(doc);
+
+    assert.equal(block.source, 'rdfa');
+    assert.equal(block.type, 'Event');
+    assert.equal(block.context, 'https://schema.org');
+    assert.deepEqual(block.parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: 'Jazz Night',
+      startDate: '2024-06-01T20:00',
+    });
+  });
+
+  it('should parse nested items', () => {
+    const doc = parseHTML(`
+      <div vocab="http://schema.org/" typeof="Product">
+        <span property="name">Kettle</span>
+        <div property="offers" typeof="Offer">
+          <span property="price" content="39.90">39,90 €</span>
+          <meta property="priceCurrency" content="EUR">
+        </div>
+      </div>
+    `);
+
+    const blocks = parseRdfa(doc);
+
+    assert.equal(blocks.length, 1);
+    assert.deepEqual(blocks[0].parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Kettle',
+      offers: { '@type': 'Offer', price: '39.90', priceCurrency: 'EUR' },
+    });
+  });
+
+  it('should expand prefixes and the default schema prefix', () => {
+    const doc = parseHTML(`
+      <div prefix="s: https://schema.org/" typeof="s:Recipe">
+        <span property="s:name">Soup</span>
+      </div>
+      <div typeof="schema:Person">
+        <span property="schema:name">Ada</span>
+      </div>
+    `);
+
+    const blocks = parseRdfa(doc);
+
+    assert.deepEqual(
+      blocks.map((block) => block.parsed),
+      [
+        { '@context': 'https://schema.org', '@type': 'Recipe', name: 'Soup' },
+        { '@context': 'https://schema.org', '@type': 'Person', name: 'Ada' },
+      ],
+    );
+  });
+
+  it('should resolve resource and URL-valued properties to absolute URLs', () => {
+    const doc = parseHTML(`
+      <article vocab="https://schema.org/" typeof="BlogPosting" resource="#post">
+        <img property="image" src="/cover.png">
+        <a property="url" href="post.html">Permalink</a>
+        <span property="sameAs" resource="https://other.test/post"></span>
+      </article>
+    `);
+
+    const [block] = parseRdfa(doc, 'https://example.com/blog/');
+
+    assert.deepEqual(block.parsed, {
+      '@context': 'https://schema.org',
+      '@type': 'BlogPosting',
+      '@id': 'https://example.com/blog/#post',
+      image: 'https://example.com/cover.png',
+      url: 'https://example.com/blog/post.html',
+      sameAs: 'https://other.test/post',
+    });
+  });
+
+  it('should collect repeated properties into arrays', () => {
+    const doc = parseHTML(`
+      <div vocab="https://schema.org/" typeof="Recipe">
+        <ul><li property="recipeIngredient">Eggs</li><li property="recipeIngredient">Sugar</li></ul>
+      </div>
+    `);
+
+    const [block] = parseRdfa(doc);
+
+    assert.deepEqual((block.parsed as Record<string, unknown>).recipeIngredient, ['Eggs', 'Sugar']);
+  });
+
+  it('should keep terms of other vocabularies as full IRIs', () => {
+    const doc = parseHTML(`
+      <div vocab="http://xmlns.com/foaf/0.1/" typeof="Person">
+        <span property="name">Grace</span>
+      </div>
+    `);
+
+    const [block] = parseRdfa(doc);
+
+    assert.deepEqual(block.parsed, {
+      '@type': 'http://xmlns.com/foaf/0.1/Person',
+      'http://xmlns.com/foaf/0.1/name': 'Grace',
+    });
+  });
+
+  it('should return an empty array without RDFa', () => {
+    assert.deepEqual(parseRdfa(parseHTML('<p property="name">No subject</p>')), []);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * RDFa Lite parsing.
+ *
+ * @remarks
+ * Reads `vocab` / `typeof` / `property` / `resource` / `prefix` attributes
+ * into JSON-LD shaped items.
+ *
+ * @packageDocumentation
+ */
+
+import type { JsonLdBlock } from './types.js';
+import {
+  addProperty,
+  compactIri,
+  createBlock,
+  isSchemaOrgIri,
+  readText,
+  readUrl,
+  SCHEMA_ORG_CONTEXT,
+  splitTokens,
+} from './vocabulary.js';
+
+/**
+ * Prefixes predefined by the RDFa initial context (subset).
+ */
+const DEFAULT_PREFIXES: Record<string, string> = {
+  schema: 'http://schema.org/',
+  og: 'http://ogp.me/ns#',
+  dc: 'http://purl.org/dc/terms/',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+};
+
+/**
+ * Parse all top-level RDFa items in a document.
+ *
+ * @remarks
+ * Top-level items are elements with `typeof` but no `property`. Elements
+ * with both `property` and `typeof` become nested objects. Terms are
+ * expanded against `vocab` and `prefix` declarations, then Schema.org IRIs
+ * are compacted (`schema:Product`, `https://schema.org/Product` → `Product`).
+ *
+ * @param doc - Parsed HTML document
+ * @param baseUrl - Base URL for resolving URL values
+ * @returns One block per top-level item
+ */
+export function parseRdfa(doc: Document, baseUrl?: string): JsonLdBlock[] {
+  const blocks: JsonLdBlock[] = [];
+
+  for (const element of Array.from(doc.querySelectorAll('[typeof]'))) {
+    if (element.hasAttribute('property')) {
+      continue;
+    }
+    const parsed = readSubject(element, baseUrl, true);
+    blocks.push(createBlock(element, parsed, 'rdfa'));
+  }
+
+  return blocks;
+}
+
+/**
+ * Read a typed subject and its properties.
+ */
+function readSubject(
+  element: Element,
+  baseUrl: string | undefined,
+  topLevel: boolean,
+): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+
+  const types = splitTokens(element.getAttribute('typeof')).map((term) =>
+    expandTerm(element, term),
+  );
+  if (types.length > 0) {
+    if (topLevel && types.some(isSchemaOrgIri)) {
+      item['@context'] = SCHEMA_ORG_CONTEXT;
+    }
+    const terms = types.map(compactIri);
+    item['@type'] = terms.length === 1 ? terms[0] : terms;
+  }
+
+  if (element.hasAttribute('resource')) {
+    item['@id'] = readUrl(element, 'resource', baseUrl);
+  }
+
+  for (const child of Array.from(element.children)) {
+    readProperties(child, item, baseUrl);
+  }
+
+  return item;
+}
+
+/**
+ * Walk an element tree and add its properties to the current subject.
+ */
+function readProperties(
+  element: Element,
+  item: Record<string, unknown>,
+  baseUrl: string | undefined,
+): void {
+  const names = splitTokens(element.getAttribute('property'));
+  const typed = element.hasAttribute('typeof');
+
+  if (names.length > 0) {
+    const value = typed ? readSubject(element, baseUrl, false) : readValue(element, baseUrl);
+    for (const name of names) {
+      addProperty(item, compactIri(expandTerm(element, name)), value);
+    }
+  }
+
+  // Typed elements start a new subject that owns its descendants
+  if (typed) {
+    return;
+  }
+  for (const child of Array.from(element.children)) {
+    readProperties(child, item, baseUrl);
+  }
+}
+
+/**
+ * Read the literal or URL value of a property element.
+ */
+function readValue(element: Element, baseUrl: string | undefined): string {
+  if (element.hasAttribute('content')) {
+    return element.getAttribute('content') ?? '';
+  }
+  for (const attribute of ['resource', 'href', 'src']) {
+    if (element.hasAttribute(attribute)) {
+      return readUrl(element, attribute, baseUrl);
+    }
+  }
+  if (element.tagName.toLowerCase() === 'time' && element.hasAttribute('datetime')) {
+    return element.getAttribute('datetime') ?? '';
+  }
+  return readText(element);
+}
+
+/**
+ * Expand a term, CURIE or IRI against the element's `vocab` and `prefix` mappings.
+ */
+function expandTerm(element: Element, term: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(term)) {
+    return term;
+  }
+
+  const colon = term.indexOf(':');
+  if (colon > 0) {
+    const prefix = term.slice(0, colon).toLowerCase();
+    const namespace = findPrefix(element, prefix) ?? DEFAULT_PREFIXES[prefix];
+    return namespace ? namespace + term.slice(colon + 1) : term;
+  }
+
+  const vocab = element.closest('[vocab]')?.getAttribute('vocab')?.trim();
+  return vocab ? vocab + term : term;
+}
+
+/**
+ * Find a prefix declared on the element or one of its ancestors.
+ */
+function findPrefix(element: Element, prefix: string): string | undefined {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const tokens = splitTokens(current.getAttribute('prefix'));
+    for (let i = 0; i + 1 < tokens.length; i += 2) {
+      if (tokens[i].toLowerCase() === `${prefix}:`) {
+        return tokens[i + 1];
+      }
+    }
+  }
+  return undefined;
+}
@@ -2,16 +2,26 @@
  * Schema.org / JSON-LD metadata types.
  *
  * @remarks
- * Structured data for search engines and rich snippets using JSON-LD format.
+ * Structured data for search engines and rich snippets using JSON-LD,
+ * microdata and RDFa Lite.
  *
  * @packageDocumentation
  */
 
 /**
- * A single JSON-LD block found in the document.
+ * Syntax a Schema.org item was read from.
+ */
+export type SchemaOrgSource = 'json-ld' | 'microdata' | 'rdfa';
+
+/**
+ * A single structured data block found in the document.
+ *
+ * @remarks
+ * Microdata and RDFa items are converted to the same JSON-LD shape
+ * (`@context`, `@type`, `@id` and compact property names).
  */
 export interface JsonLdBlock {
-  /** Original JSON string */
+  /** Original JSON string (or the item element's HTML for microdata and RDFa) */
   raw: string;
 
   /** Parsed JSON object */
@@ -22,19 +32,29 @@ export interface JsonLdBlock {
 
   /** JSON-LD context field */
   context?: string | unknown;
+
+  /** Syntax the block was read from */
+  source: SchemaOrgSource;
 }
 
 /**
- * Schema.org metadata extracted from JSON-LD scripts.
+ * Schema.org metadata extracted from JSON-LD scripts, microdata and RDFa.
  *
  * @remarks
- * Contains all JSON-LD structured data blocks found in the document.
- * Provides convenience accessors for common types.
+ * Contains all structured data blocks found in the document.
+ * Provides convenience accessors for common types, merged across all
+ * syntaxes. Each convenience item is a shallow copy with a `source` marker.
  */
 export interface SchemaOrgMetadata {
   /** All JSON-LD blocks found in the document */
   jsonLd: JsonLdBlock[];
 
+  /** Top-level microdata items (`itemscope` without `itemprop`) */
+  microdata?: JsonLdBlock[];
+
+  /** Top-level RDFa items (`typeof` without `property`) */
+  rdfa?: JsonLdBlock[];
+
   /** Convenience: Article/NewsArticle/BlogPosting types */
   articles?: unknown[];
 
@@ -0,0 +1,117 @@
+/**
+ * Shared helpers for attribute-based structured data (microdata, RDFa).
+ *
+ * @remarks
+ * Converts vocabulary IRIs to the compact Schema.org terms used by JSON-LD,
+ * and reads property values from HTML elements.
+ *
+ * @packageDocumentation
+ */
+
+import { normalizeUrl } from '../../utils/normalize-url.js';
+import type { JsonLdBlock, SchemaOrgSource } from './types.js';
+
+/**
+ * JSON-LD context for Schema.org items.
+ */
+export const SCHEMA_ORG_CONTEXT = 'https://schema.org';
+
+/**
+ * Matches Schema.org vocabulary IRIs (http/https, with or without www).
+ */
+const SCHEMA_ORG_IRI = /^https?:\/\/(?:www\.)?schema\.org\//i;
+
+/**
+ * Split a space-separated attribute value into tokens.
+ *
+ * @param value - Attribute value
+ * @returns Non-empty tokens
+ */
+export function splitTokens(value: string | null): string[] {
+  return value ? value.trim().split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Check whether an IRI belongs to the Schema.org vocabulary.
+ *
+ * @param iri - Type or property IRI
+ * @returns True for `https://schema.org/...` and variants
+ */
+export function isSchemaOrgIri(iri: string): boolean {
+  return SCHEMA_ORG_IRI.test(iri);
+}
+
+/**
+ * Compact a Schema.org IRI to its term (`https://schema.org/Product` → `Product`).
+ *
+ * @remarks
+ * IRIs of other vocabularies are returned unchanged.
+ *
+ * @param iri - Type or property IRI
+ * @returns Compact term or the original IRI
+ */
+export function compactIri(iri: string): string {
+  return iri.replace(SCHEMA_ORG_IRI, '');
+}
+
+/**
+ * Add a property value to an item, turning repeated properties into arrays.
+ *
+ * @param item - Item to modify
+ * @param name - Property name
+ * @param value - Property value
+ */
+export function addProperty(item: Record<string, unknown>, name: string, value: unknown): void {
+  const existing = item[name];
+  if (existing === undefined) {
+    item[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    item[name] = [existing, value];
+  }
+}
+
+/**
+ * Read the text content of an element with collapsed whitespace.
+ *
+ * @param element - Element to read
+ * @returns Trimmed text
+ */
+export function readText(element: Element): string {
+  return (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read a URL attribute and resolve it to an absolute URL.
+ *
+ * @param element - Element to read
+ * @param attribute - Attribute name (`href`, `src`, ...)
+ * @param baseUrl - Base URL for resolution
+ * @returns Absolute URL (or the value as-is if it can't be resolved)
+ */
+export function readUrl(element: Element, attribute: string, baseUrl: string | undefined): string {
+  return normalizeUrl(baseUrl, element.getAttribute(attribute) ?? '');
+}
+
+/**
+ * Wrap a parsed item in a block.
+ *
+ * @param element - Root element of the item
+ * @param parsed - Item in JSON-LD shape
+ * @param source - Syntax the item was read from
+ * @returns Block with the element's HTML as `raw`
+ */
+export function createBlock(
+  element: Element,
+  parsed: Record<string, unknown>,
+  source: SchemaOrgSource,
+): JsonLdBlock {
+  return {
+    raw: element.outerHTML,
+    parsed,
+    type: parsed['@type'] as string | string[] | undefined,
+    context: parsed['@context'],
+    source,
+  };
+}
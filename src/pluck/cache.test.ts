@@ -0,0 +1,282 @@
+/**
+ * Response cache tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import {
+  applyConditionalHeaders,
+  computeExpiresAt,
+  createCacheEntry,
+  FileCacheStore,
+  getCacheKey,
+  getVaryHeaders,
+  isCacheable,
+  isFresh,
+  MemoryCacheStore,
+  matchesVary,
+  parseCacheControl,
+  responseFromCacheEntry,
+  revalidateCacheEntry,
+} from './cache.js';
+import type { PluckCacheEntry } from './types.js';
+
+function entry(overrides: Partial<PluckCacheEntry> = {}): PluckCacheEntry {
+  return {
+    url: 'https://example.com/feed.xml',
+    redirectChain: [],
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/rss+xml', etag: '"abc"' },
+    body: new TextEncoder().encode('<rss/>'),
+    storedAt: 1000,
+    expiresAt: null,
+    etag: '"abc"',
+    ...overrides,
+  };
+}
+
+describe('parseCacheControl', () => {
+  it('should parse max-age', () => {
+    assert.deepEqual(parseCacheControl('public, max-age=300'), {
+      maxAge: 300,
+      noStore: false,
+      noCache: false,
+    });
+  });
+
+  it('should parse no-store and no-cache', () => {
+    const result = parseCacheControl('no-store, No-Cache');
+    assert.equal(result.noStore, true);
+    assert.equal(result.noCache, true);
+  });
+
+  it('should handle missing header', () => {
+    assert.deepEqual(parseCacheControl(null), { noStore: false, noCache: false });
+  });
+
+  it('should ignore invalid max-age', () => {
+    assert.equal(parseCacheControl('max-age=abc').maxAge, undefined);
+  });
+});
+
+describe('computeExpiresAt', () => {
+  it('should use max-age', () => {
+    const headers = new Headers({ 'cache-control': 'max-age=60' });
+    assert.equal(computeExpiresAt(headers, 1000), 61000);
+  });
+
+  it('should require revalidation for max-age=0 and no-cache', () => {
+    assert.equal(computeExpiresAt(new Headers({ 'cache-control': 'max-age=0' }), 1000), null);
+    assert.equal(
+      computeExpiresAt(new Headers({ 'cache-control': 'no-cache, max-age=60' }), 1000),
+      null,
+    );
+  });
+
+  it('should fall back to Expires relative to Date', () => {
+    const headers = new Headers({
+      date: 'Wed, 21 Oct 2015 07:28:00 GMT',
+      expires: 'Wed, 21 Oct 2015 07:29:00 GMT',
+    });
+    assert.equal(computeExpiresAt(headers, 1000), 61000);
+  });
+
+  it('should return null without freshness information', () => {
+    assert.equal(computeExpiresAt(new Headers(), 1000), null);
+  });
+});
+
+describe('isCacheable', () => {
+  it('should accept plain 200 responses', () => {
+    assert.ok(isCacheable(new Response('ok')));
+  });
+
+  it('should reject non-200, no-store and Vary: *', () => {
+    assert.ok(!isCacheable(new Response('', { status: 404 })));
+    assert.ok(!isCacheable(new Response('ok', { headers: { 'cache-control': 'no-store' } })));
+    assert.ok(!isCacheable(new Response('ok', { headers: { vary: '*' } })));
+  });
+});
+
+describe('getCacheKey', () => {
+  it('should key GET requests by URL', () => {
+    assert.equal(getCacheKey('https://example.com/'), 'GET https://example.com/');
+    assert.equal(getCacheKey('https://example.com/', 'get'), 'GET https://example.com/');
+  });
+
+  it('should not cache other methods', () => {
+    assert.equal(getCacheKey('https://example.com/', 'POST'), null);
+  });
+
+  it('should not cache credentialed requests', () => {
+    const url = 'https://example.com/';
+    assert.equal(getCacheKey(url, 'GET', new Headers({ authorization: 'Bearer x' })), null);
+    assert.equal(getCacheKey(url, 'GET', new Headers({ cookie: 'sid=1' })), null);
+    assert.equal(getCacheKey(url, 'GET', new Headers({ accept: '*/*' })), `GET ${url}`);
+  });
+});
+
+describe('getVaryHeaders / matchesVary', () => {
+  it('should match requests by the headers the response varies on', () => {
+    const vary = getVaryHeaders(
+      new Headers({ vary: 'Accept-Language, User-Agent' }),
+      new Headers({ 'accept-language': 'de' }),
+    );
+    assert.deepEqual(vary, { 'accept-language': 'de', 'user-agent': '' });
+
+    assert.equal(matchesVary(entry({ vary }), new Headers({ 'accept-language': 'de' })), true);
+    assert.equal(matchesVary(entry({ vary }), new Headers({ 'accept-language': 'en' })), false);
+    assert.equal(matchesVary(entry({ vary }), new Headers({ 'user-agent': 'Bot' })), false);
+    assert.equal(matchesVary(entry(), new Headers({ 'accept-language': 'en' })), true);
+  });
+});
+
+describe('isFresh', () => {
+  it('should compare expiry with now', () => {
+    assert.ok(isFresh(entry({ expiresAt: 2000 }), 1500));
+    assert.ok(!isFresh(entry({ expiresAt: 2000 }), 2500));
+    assert.ok(!isFresh(entry({ expiresAt: null }), 0));
+  });
+});
+
+describe('applyConditionalHeaders', () => {
+  it('should add validators', () => {
+    const headers = new Headers();
+    applyConditionalHeaders(headers, entry({ lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT' }));
+    assert.equal(headers.get('if-none-match'), '"abc"');
+    assert.equal(headers.get('if-modified-since'), 'Wed, 21 Oct 2015 07:28:00 GMT');
+  });
+
+  it('should not override explicit conditional headers', () => {
+    const headers = new Headers({ 'if-none-match': '"custom"' });
+    applyConditionalHeaders(headers, entry());
+    assert.equal(headers.get('if-none-match'), '"custom"');
+  });
+});
+
+describe('createCacheEntry / revalidateCacheEntry', () => {
+  it('should capture validators and freshness', () => {
+    const response = new Response('body', {
+      headers: {
+        etag: '"v1"',
+        'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT',
+        'cache-control': 'max-age=10',
+      },
+    });
+    const created = createCacheEntry(
+      response,
+      new TextEncoder().encode('body').buffer,
+      'https://x/',
+      [],
+      0,
+    );
+    assert.equal(created.etag, '"v1"');
+    assert.equal(created.lastModified, 'Mon, 01 Jan 2024 00:00:00 GMT');
+    assert.equal(created.expiresAt, 10000);
+    assert.equal(new TextDecoder().decode(created.body), 'body');
+  });
+
+  it('should merge 304 headers and keep the body', () => {
+    const notModified = new Response(null, {
+      status: 304,
+      headers: { etag: '"def"', 'cache-control': 'max-age=30', 'content-length': '0' },
+    });
+    const updated = revalidateCacheEntry(entry(), notModified, 5000);
+    assert.equal(updated.etag, '"def"');
+    assert.equal(updated.expiresAt, 35000);
+    assert.equal(updated.storedAt, 5000);
+    assert.equal(updated.headers['content-type'], 'application/rss+xml');
+    assert.equal(updated.headers['content-length'], undefined);
+    assert.equal(new TextDecoder().decode(updated.body), '<rss/>');
+  });
+});
+
+describe('responseFromCacheEntry', () => {
+  it('should rebuild the response', async () => {
+    const response = responseFromCacheEntry(entry());
+    assert.equal(response.status, 200);
+    assert.equal(response.url, 'https://example.com/feed.xml');
+    assert.equal(response.headers.get('content-type'), 'application/rss+xml');
+    assert.equal(await response.text(), '<rss/>');
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should store and retrieve entries', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', entry());
+    assert.equal(store.get('a')?.etag, '"abc"');
+    assert.equal(store.size, 1);
+    store.delete('a');
+    assert.equal(store.get('a'), undefined);
+  });
+
+  it('should evict least recently used entries', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', entry());
+    store.set('b', entry());
+    store.get('a');
+    store.set('c', entry());
+    assert.ok(store.get('a'));
+    assert.equal(store.get('b'), undefined);
+    assert.ok(store.get('c'));
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'magpie-cache-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip entries through the filesystem', async () => {
+    const store = new FileCacheStore(join(directory, 'nested'));
+    await store.set('GET https://example.com/', entry());
+
+    const loaded = await store.get('GET https://example.com/');
+    assert.ok(loaded);
+    assert.equal(loaded.etag, '"abc"');
+    assert.equal(new TextDecoder().decode(loaded.body), '<rss/>');
+    assert.deepEqual(loaded.headers, entry().headers);
+  });
+
+  it('should return undefined for missing entries', async () => {
+    const store = new FileCacheStore(directory);
+    assert.equal(await store.get('GET https://missing.example/'), undefined);
+  });
+
+  it('should survive concurrent writes to the same key', async () => {
+    const store = new FileCacheStore(directory);
+    const writes = Array.from({ length: 5 }, (_, i) =>
+      store.set('GET https://example.com/busy', entry({ etag: `"${i}"` })),
+    );
+
+    await Promise.all(writes);
+
+    const loaded = await store.get('GET https://example.com/busy');
+    assert.ok(loaded?.etag?.match(/^"[0-4]"$/));
+    assert.deepEqual(
+      (await readdir(directory)).filter((name) => name.endsWith('.tmp')),
+      [],
+    );
+  });
+
+  it('should delete entries', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('k', entry());
+    await store.delete('k');
+    assert.equal(await store.get('k'), undefined);
+  });
+});
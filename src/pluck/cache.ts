@@ -0,0 +1,444 @@
+/**
+ * HTTP response cache for pluck().
+ *
+ * @remarks
+ * Conditional requests (ETag / Last-Modified) and Cache-Control freshness
+ * on top of a pluggable store. Ships with in-memory and filesystem stores.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import type { PluckCacheEntry, PluckCacheStore } from './types.js';
+
+/**
+ * Parsed Cache-Control directives relevant to a private cache.
+ */
+export interface CacheControl {
+  /** max-age in seconds */
+  maxAge?: number;
+  /** no-store: never store the response */
+  noStore: boolean;
+  /** no-cache: store, but always revalidate before use */
+  noCache: boolean;
+}
+
+/**
+ * Parse a Cache-Control header.
+ *
+ * @param header - Cache-Control header value
+ * @returns Parsed directives
+ *
+ * @example
+ * parseCacheControl('public, max-age=300') // { maxAge: 300, noStore: false, noCache: false }
+ */
+export function parseCacheControl(header: string | null | undefined): CacheControl {
+  const result: CacheControl = { noStore: false, noCache: false };
+  if (!header) {
+    return result;
+  }
+
+  for (const part of header.split(',')) {
+    const [rawName, rawValue] = part.split('=', 2);
+    const name = rawName.trim().toLowerCase();
+    const value = rawValue?.trim().replace(/^"|"$/g, '');
+
+    if (name === 'no-store') {
+      result.noStore = true;
+    } else if (name === 'no-cache') {
+      result.noCache = true;
+    } else if (name === 'max-age' && value !== undefined) {
+      const seconds = Number.parseInt(value, 10);
+      if (!Number.isNaN(seconds)) {
+        result.maxAge = Math.max(0, seconds);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compute until when a response is fresh.
+ *
+ * @remarks
+ * Uses `Cache-Control: max-age`, falling back to `Expires` (relative to `Date`).
+ * Responses with `no-cache` or without freshness information must be revalidated.
+ *
+ * @param headers - Response headers
+ * @param now - Current timestamp in milliseconds
+ * @returns Expiry timestamp, or null if the response must be revalidated
+ */
+export function computeExpiresAt(headers: Headers, now = Date.now()): number | null {
+  const cacheControl = parseCacheControl(headers.get('cache-control'));
+  if (cacheControl.noCache) {
+    return null;
+  }
+
+  if (cacheControl.maxAge !== undefined) {
+    return cacheControl.maxAge > 0 ? now + cacheControl.maxAge * 1000 : null;
+  }
+
+  const expires = headers.get('expires');
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    if (Number.isNaN(expiresAt)) {
+      return null;
+    }
+    const date = Date.parse(headers.get('date') ?? '');
+    const lifetime = expiresAt - (Number.isNaN(date) ? now : date);
+    return lifetime > 0 ? now + lifetime : null;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a response may be stored.
+ *
+ * @param response - Response to check
+ * @returns True if the response is cacheable
+ */
+export function isCacheable(response: Response): boolean {
+  if (response.status !== 200) {
+    return false;
+  }
+  if (parseCacheControl(response.headers.get('cache-control')).noStore) {
+    return false;
+  }
+  if (response.headers.get('vary')?.trim() === '*') {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether request headers carry credentials (Authorization or Cookie).
+ *
+ * @param headers - Request headers
+ * @returns True if the request is credentialed
+ */
+export function hasCredentialHeaders(headers: Headers): boolean {
+  return headers.has('authorization') || headers.has('cookie');
+}
+
+/**
+ * Build the cache key for a request.
+ *
+ * @remarks
+ * Credentialed requests are not cacheable: their responses may be personalized
+ * and must never be served to calls made without (or with other) credentials.
+ *
+ * @param url - Request URL
+ * @param method - HTTP method
+ * @param headers - Request headers
+ * @returns Cache key, or null if the request is not cacheable
+ */
+export function getCacheKey(url: string, method = 'GET', headers?: Headers): string | null {
+  if (method.toUpperCase() !== 'GET') {
+    return null;
+  }
+  if (headers && hasCredentialHeaders(headers)) {
+    return null;
+  }
+  return `GET ${url}`;
+}
+
+/**
+ * Capture the request headers a response varies on.
+ *
+ * @param responseHeaders - Response headers (with the Vary header)
+ * @param requestHeaders - Headers of the request that produced the response
+ * @returns Request header values by lowercase name (empty string if absent)
+ */
+export function getVaryHeaders(
+  responseHeaders: Headers,
+  requestHeaders: Headers,
+): Record<string, string> {
+  const vary: Record<string, string> = {};
+  for (const part of (responseHeaders.get('vary') ?? '').split(',')) {
+    const name = part.trim().toLowerCase();
+    if (name) {
+      vary[name] = requestHeaders.get(name) ?? '';
+    }
+  }
+  return vary;
+}
+
+/**
+ * Check whether a request matches the Vary headers of a cache entry.
+ *
+ * @param entry - Cache entry
+ * @param requestHeaders - Headers of the new request
+ * @returns True if the entry may be used for the request
+ */
+export function matchesVary(entry: PluckCacheEntry, requestHeaders: Headers): boolean {
+  return Object.entries(entry.vary ?? {}).every(
+    ([name, value]) => (requestHeaders.get(name) ?? '') === value,
+  );
+}
+
+/**
+ * Check whether a cache entry can be served without revalidation.
+ *
+ * @param entry - Cache entry
+ * @param now - Current timestamp in milliseconds
+ * @returns True if the entry is fresh
+ */
+export function isFresh(entry: PluckCacheEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== null && entry.expiresAt > now;
+}
+
+/**
+ * Add conditional request headers for a cached entry.
+ *
+ * @param headers - Request headers to modify
+ * @param entry - Cache entry with validators
+ */
+export function applyConditionalHeaders(headers: Headers, entry: PluckCacheEntry): void {
+  if (entry.etag && !headers.has('if-none-match')) {
+    headers.set('if-none-match', entry.etag);
+  }
+  if (entry.lastModified && !headers.has('if-modified-since')) {
+    headers.set('if-modified-since', entry.lastModified);
+  }
+}
+
+/**
+ * Create a cache entry from a response and its body.
+ *
+ * @param response - Network response
+ * @param body - Raw response body
+ * @param url - Final URL
+ * @param redirectChain - Redirect chain leading to the final URL
+ * @param now - Current timestamp in milliseconds
+ * @returns Cache entry
+ */
+export function createCacheEntry(
+  response: Response,
+  body: ArrayBuffer,
+  url: string,
+  redirectChain: string[],
+  now = Date.now(),
+): PluckCacheEntry {
+  return {
+    url,
+    redirectChain,
+    status: response.status,
+    statusText: response.statusText,
+    headers: headersToRecord(response.headers),
+    body: new Uint8Array(body),
+    storedAt: now,
+    expiresAt: computeExpiresAt(response.headers, now),
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+}
+
+/**
+ * Refresh a cache entry after a `304 Not Modified` response.
+ *
+ * @remarks
+ * Headers from the 304 response replace the stored ones (RFC 9111 §4.3.4).
+ *
+ * @param entry - Existing cache entry
+ * @param notModified - The 304 response
+ * @param now - Current timestamp in milliseconds
+ * @returns Updated cache entry
+ */
+export function revalidateCacheEntry(
+  entry: PluckCacheEntry,
+  notModified: Response,
+  now = Date.now(),
+): PluckCacheEntry {
+  const headers = new Headers(entry.headers);
+  notModified.headers.forEach((value, name) => {
+    // Content-Length describes the (empty) 304 body, not the cached one
+    if (name !== 'content-length') {
+      headers.set(name, value);
+    }
+  });
+
+  return {
+    ...entry,
+    headers: headersToRecord(headers),
+    storedAt: now,
+    expiresAt: computeExpiresAt(headers, now),
+    etag: headers.get('etag') ?? undefined,
+    lastModified: headers.get('last-modified') ?? undefined,
+  };
+}
+
+/**
+ * Convert Headers into a plain record with lowercase names.
+ */
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+/**
+ * Recreate a Response from a cache entry.
+ *
+ * @param entry - Cache entry
+ * @returns Response with the cached status, headers, body and URL
+ */
+export function responseFromCacheEntry(entry: PluckCacheEntry): Response {
+  const response = new Response(entry.body.slice(), {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+  Object.defineProperty(response, 'url', { value: entry.url });
+  return response;
+}
+
+/**
+ * In-memory cache store.
+ *
+ * @remarks
+ * Least recently used entries are evicted once `maxEntries` is exceeded.
+ *
+ * @example
+ * ```typescript
+ * const cacheStore = new MemoryCacheStore({ maxEntries: 500 });
+ * const response = await pluck('https://example.com/feed.xml', { cacheStore });
+ * console.log(response.cacheStatus); // 'miss', later 'hit' or 'revalidated'
+ * ```
+ */
+export class MemoryCacheStore implements PluckCacheStore {
+  private readonly entries = new Map<string, PluckCacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get(key: string): PluckCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the end to mark as recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: PluckCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Number of stored entries */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Remove all entries */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Error codes of a rename that lost the race against a concurrent write.
+ */
+const RENAME_RACE_CODES = new Set(['EPERM', 'EBUSY', 'EEXIST']);
+
+/**
+ * Filesystem cache store (Node.js only).
+ *
+ * @remarks
+ * Each entry is stored as a JSON file named after the SHA-256 hash of its key.
+ * The directory is created on first write.
+ *
+ * @example
+ * ```typescript
+ * const cacheStore = new FileCacheStore('./.cache/pluck');
+ * const response = await pluck('https://example.com/feed.xml', { cacheStore });
+ * ```
+ */
+export class FileCacheStore implements PluckCacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<PluckCacheEntry | undefined> {
+    const { readFile } = await import('node:fs/promises');
+    let raw: string;
+    try {
+      raw = await readFile(await this.pathFor(key), 'utf-8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const stored = JSON.parse(raw) as Omit<PluckCacheEntry, 'body'> & {
+        key: string;
+        body: string;
+      };
+      if (stored.key !== key) {
+        return undefined;
+      }
+      const { key: _key, body, ...entry } = stored;
+      return { ...entry, body: new Uint8Array(Buffer.from(body, 'base64')) };
+    } catch {
+      // Corrupt entry, treat as missing
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: PluckCacheEntry): Promise<void> {
+    const { mkdir, rename, rm, writeFile } = await import('node:fs/promises');
+    const { randomUUID } = await import('node:crypto');
+    await mkdir(this.directory, { recursive: true });
+
+    const path = await this.pathFor(key);
+    const tempPath = `${path}.${randomUUID()}.tmp`;
+    const data = JSON.stringify({
+      ...entry,
+      key,
+      body: Buffer.from(entry.body).toString('base64'),
+    });
+
+    // Write atomically so concurrent readers never see partial files
+    // (each write uses its own temp file; the last rename wins)
+    try {
+      await writeFile(tempPath, data, 'utf-8');
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+    try {
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      // Windows refuses to replace a file another write is renaming: that write wins
+      if (!RENAME_RACE_CODES.has((error as { code?: string }).code ?? '')) {
+        throw error;
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(await this.pathFor(key), { force: true });
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const { createHash } = await import('node:crypto');
+    const { join } = await import('node:path');
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Statistical encoding detection tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { sniffEncoding } from './charset-sniffer.js';
+
+const encoderTables = new Map<string, Map<string, number[]>>();
+
+/**
+ * Encode text in a legacy encoding by inverting the native TextDecoder.
+ */
+function encodeLegacy(text: string, encoding: string): Uint8Array {
+  let table = encoderTables.get(encoding);
+  if (!table) {
+    table = new Map();
+    const decoder = new TextDecoder(encoding, { fatal: true });
+    const add = (bytes: number[]) => {
+      try {
+        const char = decoder.decode(new Uint8Array(bytes));
+        if (Array.from(char).length === 1 && !table?.has(char)) {
+          table?.set(char, bytes);
+        }
+      } catch {
+        // Not a valid sequence
+      }
+    };
+    for (let lead = 0x80; lead <= 0xff; lead++) {
+      add([lead]);
+      for (let trail = 0x40; trail <= 0xfe; trail++) {
+        add([lead, trail]);
+      }
+    }
+    encoderTables.set(encoding, table);
+  }
+
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const encoded = code < 0x80 ? [code] : table.get(char);
+    assert.ok(encoded, `${char} is not encodable in ${encoding}`);
+    bytes.push(...encoded);
+  }
+  return new Uint8Array(bytes);
+}
+
+const SAMPLES: Record<string, string> = {
+  french: '<p>Café crème à la française, déjà vu « très » élégant. Où est la bibliothèque ?</p>',
+  german: '<p>Die Straße führt über die Brücke zum Schloß. Grüße aus München!</p>',
+  polish: '<p>Zażółć gęślą jaźń. Pchnąć w tę łódź jeża lub ośm skrzyń fig.</p>',
+  czech: '<p>Příliš žluťoučký kůň úpěl ďábelské ódy. Šťastný řidič dělá čistou práci.</p>',
+  russian: '<p>Съешь же ещё этих мягких французских булок, да выпей чаю. Привет, мир!</p>',
+  greek: '<p>Καλημέρα κόσμε, ξεσκεπάζω την ψυχοφθόρα βδελυγμία.</p>',
+  japanese: '<p>こんにちは世界。日本語のテキストを正しく検出できるかどうかを確認します。</p>',
+  korean: '<p>안녕하세요 세계. 한국어 텍스트를 올바르게 감지할 수 있는지 확인합니다.</p>',
+  simplified: '<p>你好世界。我们要检查是否能够正确地识别中文的编码，这是一个简单的测试。</p>',
+  traditional: '<p>你好世界。我們要檢查是否能夠正確地識別中文的編碼，這是一個簡單的測試。</p>',
+};
+
+describe('sniffEncoding', () => {
+  const cases: [string, keyof typeof SAMPLES][] = [
+    ['windows-1252', 'french'],
+    ['windows-1252', 'german'],
+    ['iso-8859-2', 'polish'],
+    ['windows-1250', 'czech'],
+    ['windows-1251', 'russian'],
+    ['koi8-r', 'russian'],
+    ['iso-8859-5', 'russian'],
+    ['iso-8859-7', 'greek'],
+    ['shift_jis', 'japanese'],
+    ['euc-jp', 'japanese'],
+    ['euc-kr', 'korean'],
+    ['gb18030', 'simplified'],
+    ['big5', 'traditional'],
+  ];
+
+  for (const [encoding, sample] of cases) {
+    it(`should detect ${encoding} (${sample})`, () => {
+      const result = sniffEncoding(encodeLegacy(SAMPLES[sample], encoding));
+      assert.equal(result?.encoding, encoding);
+      assert.ok(result.confidence > 0.5 && result.confidence <= 1);
+    });
+  }
+
+  it('should return null for pure ASCII', () => {
+    assert.equal(sniffEncoding(new TextEncoder().encode('<p>Hello World</p>')), null);
+  });
+
+  it('should detect valid UTF-8', () => {
+    const result = sniffEncoding(new TextEncoder().encode(SAMPLES.japanese));
+    assert.equal(result?.encoding, 'utf-8');
+    assert.ok((result?.confidence ?? 0) > 0.9);
+  });
+
+  it('should report lower confidence for UTF-8 with few multi-byte sequences', () => {
+    const result = sniffEncoding(new TextEncoder().encode('<p>Café</p>'));
+    assert.equal(result?.encoding, 'utf-8');
+    assert.ok((result?.confidence ?? 1) < 0.9);
+  });
+
+  it('should detect legacy content after a long ASCII head', () => {
+    const head = new TextEncoder().encode(`<script>${'var x = 1;\n'.repeat(4000)}</script>`);
+    const body = encodeLegacy(SAMPLES.russian, 'windows-1251');
+    const bytes = new Uint8Array(head.length + body.length);
+    bytes.set(head);
+    bytes.set(body, head.length);
+
+    assert.ok(head.length > 32 * 1024);
+    assert.equal(sniffEncoding(bytes)?.encoding, 'windows-1251');
+  });
+
+  it('should detect ISO-2022-JP escape sequences', () => {
+    const bytes = new Uint8Array([0x1b, 0x24, 0x42, 0x24, 0x33, 0x24, 0x73, 0x1b, 0x28, 0x42]);
+    assert.equal(sniffEncoding(bytes)?.encoding, 'iso-2022-jp');
+  });
+
+  it('should skip excluded encodings', () => {
+    const bytes = encodeLegacy(SAMPLES.russian, 'windows-1251');
+    assert.notEqual(sniffEncoding(bytes, ['windows-1251'])?.encoding, 'windows-1251');
+  });
+
+  it('should accept ArrayBuffer input', () => {
+    const bytes = encodeLegacy(SAMPLES.korean, 'euc-kr');
+    assert.equal(sniffEncoding(bytes.slice().buffer)?.encoding, 'euc-kr');
+  });
+
+  it('should return null for random binary data', () => {
+    const bytes = new Uint8Array(512);
+    let seed = 42;
+    for (let i = 0; i < bytes.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      bytes[i] = seed >> 16;
+    }
+    assert.equal(sniffEncoding(bytes), null);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Statistical character encoding detection.
+ *
+ * @remarks
+ * Guesses the encoding of undeclared legacy content (windows-1252, ISO-8859-x,
+ * Cyrillic, Greek, Shift_JIS, EUC-JP, EUC-KR, GB18030, Big5). Every candidate
+ * decodes a sample with the native TextDecoder; the result is scored with a
+ * small per-language model of letter frequencies, character classes and
+ * letter bigrams (letters inside words, case changes). Invalid sequences rule
+ * a candidate out.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Result of statistical encoding detection.
+ */
+export interface SniffResult {
+  /** Detected encoding (WHATWG label) */
+  encoding: string;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+}
+
+/**
+ * Scoring model for a language (or group of languages) sharing a script.
+ */
+interface LanguageModel {
+  /** Letters of the script */
+  letters: RegExp;
+  /** Most frequent non-ASCII characters (full score) */
+  common: string;
+  /** Punctuation and symbols that appear on their own */
+  punctuation: string;
+  /** Characters that make the text implausible for this language */
+  foreign?: RegExp;
+  /** Whether the script has letter case (enables word and case bigram checks) */
+  cased: boolean;
+  /** Whether the letters extend the Latin alphabet (may share words with ASCII letters) */
+  latin?: boolean;
+}
+
+/**
+ * An encoding to try, with the model that scores its output.
+ */
+interface Candidate {
+  encoding: string;
+  model: LanguageModel;
+  /** Prior likelihood; breaks ties between encodings that decode alike */
+  prior: number;
+}
+
+const LATIN_PUNCTUATION = '\u00a0‘’‚“”„–—…€«»°§©®·•×÷¡¿£¥¢¤¦¨ª¬¯±²³´µ¶¸¹º¼½¾†‡‰‹›™';
+const CJK_PUNCTUATION = '、。〈〉《》「」『』【】〒〓〔〕〜・ー〃々○●◎◇◆□■△▲▽▼※→←↑↓☆★♪';
+
+const WESTERN: LanguageModel = {
+  letters: /[A-Za-zÀ-ÖØ-öø-ÿŒœŠšŽžŸƒ]/,
+  common: 'éèàçêüöäßáíóúñãõâôîûùòìëïåæøœÉÀÇÜÖÄ',
+  punctuation: LATIN_PUNCTUATION,
+  cased: true,
+  latin: true,
+};
+
+const CENTRAL_EUROPEAN: LanguageModel = {
+  letters: /[A-Za-zÀ-ÖØ-öø-ÿ\u0100-\u017f]/,
+  common: 'áéíóúýčďěňřšťůžąćęłńśźżőűöüäôĺľŕăâîșşțţČŘŠŽŁŚŻ',
+  punctuation: LATIN_PUNCTUATION,
+  cased: true,
+  latin: true,
+};
+
+const CYRILLIC: LanguageModel = {
+  letters: /[\u0400-\u04ff]/,
+  common: 'оеаинтсрвлкмдпуяыьгзбчйхжшюцщэфъёієїґў',
+  punctuation: `${LATIN_PUNCTUATION}№`,
+  cased: true,
+};
+
+const GREEK: LanguageModel = {
+  letters: /[\u0370-\u03ff]/,
+  common: 'αεοιντσυρηκπμλωδγχθφβξζψςάέήίόύώ',
+  punctuation: LATIN_PUNCTUATION,
+  cased: true,
+};
+
+const JAPANESE: LanguageModel = {
+  letters: /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/,
+  common:
+    'のにはをたがでてとしれさいかなるもっすりまあこくらうけおだよやんつどそ' +
+    'アイスルトンラリクシレタカロドマジテコプディーッ日人一大年出本中事上会見生',
+  punctuation: `${CJK_PUNCTUATION}\u3000！＂＃＄％＆＇（）＊＋，－．／：；＜＝＞？［＼］＾＿｀｛｜｝～`,
+  foreign: /[\uac00-\ud7af\u3130-\u318f]/,
+  cased: false,
+};
+
+const KOREAN: LanguageModel = {
+  letters: /[\uac00-\ud7af]/,
+  common: '이의다는에을하고가지한로서기도사를은대리수있인자어시정들일나되해보',
+  punctuation: `${CJK_PUNCTUATION}\u3000！（），．：；？～`,
+  foreign: /[\u3040-\u30ff\u3130-\u318f]/,
+  cased: false,
+};
+
+const CHINESE_SIMPLIFIED: LanguageModel = {
+  letters: /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/,
+  common:
+    '的一是不了人我在有他这中大来上国个到说们为子和你地出道也时年得就那要下以生会自着去之过家学对可她里后小么心多天而能好都然没日于起还发成事只作当想看文无开手十用主行方又如前所本见经头面公同三已老从动两长知民样现分将外但身些与高意进把法此实回二理美点月明其种声全工己话儿者向情部正名定女问力机给等几很业最间新什打便位因重被走电四第门相次东政海口使教西再平真听世气信北少关并内加化由却代军产入先山五太水万市眼体别处总才场师书比住员九笑性通目华报立马命张活难神数件安表原车白应路期叫死常提感金何更反合放做系计或司利受光王果亲界及今京务制解各任至清物台象记边共风战干接它许八特觉望直服毛林题建南度统色字请交爱让认算论百吃义科怎元社术结六功指思非流每青管夫连远资队跟带花快条院变联言权往展该领传近留红治决周保达办运武半候七必城父强步完革深区即求品士转量空甚众技轻程告江语英基派满式李息写呢识极令黄德收脸钱党倒未持取设始版双历越史商千片容研像找友孩站广改议形委早房音火际则首单据导影失拿网香似斯专石若兵弟谁校读志飞观争究包组造落视济喜离虽坐集编宝谈府拉黑且随格尽剑讲布杀微怕母调局根曾准团段终乐切级克精哪官示冷域',
+  punctuation: `${CJK_PUNCTUATION}\u3000！＂（），－．：；？～`,
+  foreign: /[\u3040-\u30ff\uac00-\ud7af\u3130-\u318f\u0370-\u03ff\u0400-\u04ff]/,
+  cased: false,
+};
+
+const CHINESE_TRADITIONAL: LanguageModel = {
+  ...CHINESE_SIMPLIFIED,
+  common:
+    '的一是不了人我在有他這中大來上國個到說們為子和你地出道也時年得就那要下以生會自著去之過家學對可她裡後小麼心多天而能好都然沒日於起還發成事只作當想看文無開手十用主行方又如前所本見經頭面公同三已老從動兩長知民樣現分將外但身些與高意進把法此實回二理美點月明其種聲全工己話兒者向情部正名定女問力機給等幾很業最間新什打便位因重被走電四第門相次東政海口使教西再平真聽世氣信北少關並內加化由卻代軍產入先山五太水萬市眼體別處總才場師書比住員九笑性通目華報立馬命張活難神數件安表原車白應路期叫死常提感金何更反合放做系計或司利受光王果親界及今京務制解各任至清物台象記邊共風戰乾接它許八特覺望直服毛林題建南度統色字請交愛讓認算論百吃義科怎元社術結六功指思非流每青管夫連遠資隊跟帶花快條院變聯言權往展該領傳近留紅治決周保達辦運武半候七必城父強步完革深區即求品士轉量空甚眾技輕程告江語英基派滿式李息寫呢識極令黃德收臉錢黨倒未持取設始版雙歷越史商千片容研像找友孩站廣改議形委早房音火際則首單據導影失拿網香似斯專石若兵弟誰校讀志飛觀爭究包組造落視濟喜離雖坐集編寶談府拉黑且隨格盡劍講布殺微怕母調局根曾準團段終樂切級克精哪官示冷域',
+};
+
+/**
+ * Encodings considered by the sniffer.
+ */
+const CANDIDATES: Candidate[] = [
+  { encoding: 'windows-1252', model: WESTERN, prior: 1 },
+  { encoding: 'windows-1250', model: CENTRAL_EUROPEAN, prior: 0.97 },
+  { encoding: 'iso-8859-2', model: CENTRAL_EUROPEAN, prior: 0.96 },
+  { encoding: 'windows-1251', model: CYRILLIC, prior: 1 },
+  { encoding: 'koi8-r', model: CYRILLIC, prior: 0.98 },
+  { encoding: 'iso-8859-5', model: CYRILLIC, prior: 0.9 },
+  { encoding: 'iso-8859-7', model: GREEK, prior: 0.95 },
+  { encoding: 'shift_jis', model: JAPANESE, prior: 1 },
+  { encoding: 'euc-jp', model: JAPANESE, prior: 0.98 },
+  { encoding: 'euc-kr', model: KOREAN, prior: 1 },
+  { encoding: 'gb18030', model: CHINESE_SIMPLIFIED, prior: 1 },
+  { encoding: 'big5', model: CHINESE_TRADITIONAL, prior: 0.98 },
+];
+
+/** Bytes examined by the sniffer */
+const SAMPLE_SIZE = 32 * 1024;
+
+/** ASCII bytes kept before the first non-ASCII byte (word context for scoring) */
+const SAMPLE_CONTEXT = 64;
+
+/** Candidates below this confidence are not reported */
+const MIN_CONFIDENCE = 0.3;
+
+/** Share of undecodable characters that rules a candidate out */
+const MAX_ERROR_RATE = 0.02;
+
+/**
+ * Guess the encoding of content without a charset declaration.
+ *
+ * @remarks
+ * Pure ASCII yields null (every ASCII-compatible encoding decodes it alike),
+ * as does binary data. The sample starts shortly before the first non-ASCII
+ * byte, so pages with a long ASCII head (scripts, styles) are still detected.
+ * Valid UTF-8 wins over legacy encodings; ISO-2022-JP is recognized by its
+ * escape sequences. Otherwise the best-scoring legacy candidate is returned.
+ *
+ * @param buffer - Content bytes
+ * @param exclude - Encodings to skip (e.g. a declared encoding that failed to decode)
+ * @returns Detected encoding with confidence, or null if undecidable
+ *
+ * @example
+ * ```typescript
+ * sniffEncoding(bytes); // { encoding: 'shift_jis', confidence: 0.82 }
+ * ```
+ */
+export function sniffEncoding(
+  buffer: ArrayBuffer | Uint8Array,
+  exclude: string[] = [],
+): SniffResult | null {
+  const all = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const start = Math.max(0, findFirstHighByte(all) - SAMPLE_CONTEXT);
+  const bytes = all.subarray(start, start + SAMPLE_SIZE);
+
+  let highBytes = 0;
+  let controls = 0;
+  let escapes = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte >= 0x80) {
+      highBytes++;
+    } else if (byte === 0x1b) {
+      escapes += bytes[i + 1] === 0x24 ? 1 : 0;
+    } else if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) {
+      controls++;
+    }
+  }
+
+  // Control characters mean binary data, not text
+  if (controls > bytes.length * MAX_ERROR_RATE) {
+    return null;
+  }
+  if (highBytes === 0) {
+    return escapes > 0 && !exclude.includes('iso-2022-jp')
+      ? { encoding: 'iso-2022-jp', confidence: 0.95 }
+      : null;
+  }
+
+  if (!exclude.includes('utf-8')) {
+    const sequences = countUtf8Sequences(bytes);
+    if (sequences > 0) {
+      return { encoding: 'utf-8', confidence: Math.min(0.99, 1 - 0.5 ** (sequences + 1)) };
+    }
+  }
+
+  let best: SniffResult | null = null;
+  for (const candidate of CANDIDATES) {
+    if (exclude.includes(candidate.encoding)) continue;
+    const confidence = scoreCandidate(bytes, candidate);
+    if (confidence >= MIN_CONFIDENCE && (!best || confidence > best.confidence)) {
+      best = { encoding: candidate.encoding, confidence };
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the index of the first non-ASCII byte (0 if there is none).
+ *
+ * @remarks
+ * Everything before it is ASCII, so the sample can start anywhere up to it
+ * without splitting a multi-byte character.
+ */
+function findFirstHighByte(bytes: Uint8Array): number {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] >= 0x80) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Count multi-byte sequences if the bytes are valid UTF-8.
+ *
+ * @returns Number of multi-byte sequences, or 0 if the content is not valid UTF-8
+ */
+function countUtf8Sequences(bytes: Uint8Array): number {
+  let text: string;
+  try {
+    // stream: true tolerates a sequence cut off at the end of the sample
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return 0;
+  }
+  let sequences = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) >= 0x80) {
+      sequences++;
+    }
+  }
+  return sequences;
+}
+
+/**
+ * Decode the sample with a candidate encoding and score how natural the text looks.
+ *
+ * @returns Confidence between 0 and 1
+ */
+function scoreCandidate(bytes: Uint8Array, candidate: Candidate): number {
+  let text: string;
+  try {
+    text = new TextDecoder(candidate.encoding).decode(bytes, { stream: true });
+  } catch {
+    return 0;
+  }
+
+  const { model } = candidate;
+  const chars = Array.from(text);
+  let total = 0;
+  let errors = 0;
+  let score = 0;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) continue;
+    total++;
+
+    // Replacement characters mean invalid byte sequences
+    if (code === 0xfffd) {
+      errors++;
+      score -= 1;
+      continue;
+    }
+    // C1 controls mean unmapped bytes, except for windows-1252 punctuation,
+    // which some runtimes decode as C1 (ISO-8859-1 behaviour)
+    if (code <= 0x9f) {
+      score += candidate.encoding === 'windows-1252' ? 0.25 : -1;
+      continue;
+    }
+
+    const prev = chars[i - 1] ?? ' ';
+    const next = chars[i + 1] ?? ' ';
+    const insideWord = model.cased && isLetter(prev, model) && isLetter(next, model);
+
+    let value: number;
+    if (model.foreign?.test(char)) {
+      value = -1;
+    } else if (model.common.includes(char)) {
+      value = 1;
+    } else if (model.letters.test(char)) {
+      value = 0.5;
+    } else if (model.punctuation.includes(char)) {
+      value = insideWord ? -1 : 0.5;
+    } else {
+      value = -1;
+    }
+
+    // Non-Latin letters glued to ASCII letters ("Cafй") are a mis-decoding tell
+    if (
+      value > 0 &&
+      !model.latin &&
+      model.cased &&
+      (/[A-Za-z]/.test(prev) || /[A-Za-z]/.test(next))
+    ) {
+      value = -1;
+    }
+    // Uppercase letter right after a lowercase one ("пРИВЕТ") is a mis-decoding tell
+    if (value > 0 && model.cased && isUppercase(char) && isLowercase(prev)) {
+      value = -1;
+    }
+    // Uppercase letters are far less frequent than lowercase ones in running text
+    if (value > 0.5 && model.cased && isUppercase(char)) {
+      value = 0.5;
+    }
+
+    score += value;
+  }
+
+  if (total === 0 || errors / total > MAX_ERROR_RATE) {
+    return 0;
+  }
+  return Math.max(0, score / total) * candidate.prior;
+}
+
+/**
+ * Check whether a character is a letter of the model's script (or ASCII).
+ */
+function isLetter(char: string, model: LanguageModel): boolean {
+  return /[A-Za-z]/.test(char) || model.letters.test(char);
+}
+
+/**
+ * Check whether a character is an uppercase letter.
+ */
+function isUppercase(char: string): boolean {
+  return char !== char.toLowerCase() && char === char.toUpperCase();
+}
+
+/**
+ * Check whether a character is a lowercase letter.
+ */
+function isLowercase(char: string): boolean {
+  return char !== char.toUpperCase() && char === char.toLowerCase();
+}
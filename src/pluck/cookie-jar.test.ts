@@ -0,0 +1,206 @@
+/**
+ * Cookie jar tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { CookieJar } from './cookie-jar.js';
+
+const NOW = Date.parse('2025-01-01T00:00:00Z');
+
+describe('CookieJar', () => {
+  describe('setCookie', () => {
+    it('should store host-only cookies with the default path', () => {
+      const jar = new CookieJar();
+      assert.equal(jar.setCookie('sid=abc', 'https://example.com/account/login', NOW), true);
+
+      const [cookie] = jar.getAllCookies(NOW);
+      assert.equal(cookie.name, 'sid');
+      assert.equal(cookie.value, 'abc');
+      assert.equal(cookie.domain, 'example.com');
+      assert.equal(cookie.path, '/account');
+      assert.equal(cookie.hostOnly, true);
+      assert.equal(cookie.expires, null);
+      assert.equal(cookie.sameSite, 'lax');
+    });
+
+    it('should parse attributes', () => {
+      const jar = new CookieJar();
+      jar.setCookie(
+        'id=1; Domain=.Example.com; Path=/; Max-Age=60; Secure; HttpOnly; SameSite=Strict',
+        'https://www.example.com/',
+        NOW,
+      );
+
+      const [cookie] = jar.getAllCookies(NOW);
+      assert.equal(cookie.domain, 'example.com');
+      assert.equal(cookie.hostOnly, false);
+      assert.equal(cookie.path, '/');
+      assert.equal(cookie.expires, NOW + 60000);
+      assert.equal(cookie.secure, true);
+      assert.equal(cookie.httpOnly, true);
+      assert.equal(cookie.sameSite, 'strict');
+    });
+
+    it('should prefer Max-Age over Expires', () => {
+      const jar = new CookieJar();
+      jar.setCookie(
+        'a=1; Expires=Wed, 01 Jan 2031 00:00:00 GMT; Max-Age=10',
+        'https://example.com/',
+        NOW,
+      );
+      assert.equal(jar.getAllCookies(NOW)[0].expires, NOW + 10000);
+    });
+
+    it('should delete cookies with an expiry in the past', () => {
+      const jar = new CookieJar();
+      jar.setCookie('a=1', 'https://example.com/', NOW);
+      jar.setCookie('a=; Max-Age=0', 'https://example.com/', NOW);
+      assert.equal(jar.size, 0);
+    });
+
+    it('should reject domains that do not cover the host', () => {
+      const jar = new CookieJar();
+      assert.equal(jar.setCookie('a=1; Domain=other.com', 'https://example.com/', NOW), false);
+      assert.equal(jar.setCookie('a=1; Domain=com', 'https://example.com/', NOW), false);
+      assert.equal(jar.size, 0);
+    });
+
+    it('should reject Secure cookies set over HTTP', () => {
+      const jar = new CookieJar();
+      assert.equal(jar.setCookie('a=1; Secure', 'http://example.com/', NOW), false);
+    });
+
+    it('should reject SameSite=None without Secure', () => {
+      const jar = new CookieJar();
+      assert.equal(jar.setCookie('a=1; SameSite=None', 'https://example.com/', NOW), false);
+    });
+
+    it('should enforce cookie name prefixes', () => {
+      const jar = new CookieJar();
+      assert.equal(jar.setCookie('__Secure-a=1', 'https://example.com/', NOW), false);
+      assert.equal(
+        jar.setCookie('__Host-a=1; Secure; Path=/x', 'https://example.com/', NOW),
+        false,
+      );
+      assert.equal(jar.setCookie('__Host-a=1; Secure; Path=/', 'https://example.com/', NOW), true);
+    });
+
+    it('should replace cookies with the same name, domain and path', () => {
+      const jar = new CookieJar();
+      jar.setCookie('a=1; Path=/', 'https://example.com/', NOW);
+      jar.setCookie('a=2; Path=/', 'https://example.com/', NOW + 1000);
+
+      const cookies = jar.getAllCookies(NOW);
+      assert.equal(cookies.length, 1);
+      assert.equal(cookies[0].value, '2');
+      assert.equal(cookies[0].createdAt, NOW);
+    });
+
+    it('should ignore malformed headers', () => {
+      const jar = new CookieJar();
+      assert.equal(jar.setCookie('novalue', 'https://example.com/', NOW), false);
+      assert.equal(jar.setCookie('=value', 'https://example.com/', NOW), false);
+    });
+  });
+
+  describe('getCookieHeader', () => {
+    it('should match domains and paths', () => {
+      const jar = new CookieJar();
+      jar.setCookie('host=1; Path=/', 'https://example.com/', NOW);
+      jar.setCookie('domain=2; Domain=example.com; Path=/', 'https://example.com/', NOW);
+      jar.setCookie('docs=3; Path=/docs', 'https://example.com/', NOW);
+
+      assert.equal(jar.getCookieHeader('https://example.com/', { now: NOW }), 'host=1; domain=2');
+      assert.equal(jar.getCookieHeader('https://sub.example.com/', { now: NOW }), 'domain=2');
+      assert.equal(
+        jar.getCookieHeader('https://example.com/docs/page', { now: NOW }),
+        'docs=3; host=1; domain=2',
+      );
+      assert.equal(
+        jar.getCookieHeader('https://example.com/docsx', { now: NOW }),
+        'host=1; domain=2',
+      );
+      assert.equal(jar.getCookieHeader('https://notexample.com/', { now: NOW }), '');
+    });
+
+    it('should only send Secure cookies over HTTPS', () => {
+      const jar = new CookieJar();
+      jar.setCookie('a=1; Secure', 'https://example.com/', NOW);
+      assert.equal(jar.getCookieHeader('http://example.com/', { now: NOW }), '');
+      assert.equal(jar.getCookieHeader('https://example.com/', { now: NOW }), 'a=1');
+    });
+
+    it('should not send expired cookies', () => {
+      const jar = new CookieJar();
+      jar.setCookie('a=1; Max-Age=10', 'https://example.com/', NOW);
+      assert.equal(jar.getCookieHeader('https://example.com/', { now: NOW + 5000 }), 'a=1');
+      assert.equal(jar.getCookieHeader('https://example.com/', { now: NOW + 10000 }), '');
+    });
+
+    it('should apply SameSite to cross-site requests', () => {
+      const jar = new CookieJar();
+      jar.setCookie('strict=1; SameSite=Strict', 'https://example.com/', NOW);
+      jar.setCookie('lax=2; SameSite=Lax', 'https://example.com/', NOW);
+      jar.setCookie('none=3; SameSite=None; Secure', 'https://example.com/', NOW);
+      const crossSite = { siteUrl: 'https://other.com/', now: NOW };
+
+      assert.equal(jar.getCookieHeader('https://example.com/', crossSite), 'lax=2; none=3');
+      assert.equal(
+        jar.getCookieHeader('https://example.com/', { ...crossSite, method: 'POST' }),
+        'none=3',
+      );
+      assert.equal(
+        jar.getCookieHeader('https://example.com/', { now: NOW, method: 'POST' }),
+        'strict=1; lax=2; none=3',
+      );
+    });
+  });
+
+  describe('setCookiesFromResponse', () => {
+    it('should store all Set-Cookie headers', () => {
+      const headers = new Headers();
+      headers.append('set-cookie', 'a=1; Expires=Wed, 01 Jan 2031 00:00:00 GMT');
+      headers.append('set-cookie', 'b=2');
+      const jar = new CookieJar();
+
+      jar.setCookiesFromResponse(new Response(null, { headers }), 'https://example.com/', NOW);
+
+      assert.equal(jar.getCookieHeader('https://example.com/', { now: NOW }), 'a=1; b=2');
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip through JSON', () => {
+      const jar = new CookieJar();
+      jar.setCookie('a=1; Path=/; Max-Age=3600', 'https://example.com/', Date.now());
+      jar.setCookie('b=2; Path=/', 'https://example.com/', Date.now());
+
+      const restored = CookieJar.fromJSON(JSON.stringify(jar));
+
+      assert.deepEqual(restored.getAllCookies(), jar.getAllCookies());
+      assert.equal(restored.getCookieHeader('https://example.com/'), 'a=1; b=2');
+    });
+
+    it('should drop expired cookies when serializing', () => {
+      const jar = new CookieJar();
+      jar.setCookie('a=1; Max-Age=1', 'https://example.com/', Date.now() - 5000);
+      assert.deepEqual(JSON.parse(JSON.stringify(jar)), { cookies: [] });
+    });
+
+    it('should accept parsed objects and tolerate missing data', () => {
+      assert.equal(CookieJar.fromJSON({ cookies: [] }).size, 0);
+      assert.equal(CookieJar.fromJSON('{}').size, 0);
+    });
+  });
+
+  it('should clear all cookies', () => {
+    const jar = new CookieJar();
+    jar.setCookie('a=1', 'https://example.com/', NOW);
+    jar.clear();
+    assert.equal(jar.getAllCookies(NOW).length, 0);
+  });
+});
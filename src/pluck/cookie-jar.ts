@@ -0,0 +1,372 @@
+/**
+ * Cookie jar for pluck().
+ *
+ * @remarks
+ * Implements RFC 6265 cookie storage and retrieval: Set-Cookie parsing,
+ * domain and path matching, expiry (Max-Age / Expires), Secure, HttpOnly,
+ * SameSite and the `__Secure-` / `__Host-` name prefixes.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import type { PluckCookie } from './types.js';
+
+/**
+ * Options for retrieving cookies for a request.
+ */
+export interface CookieRequestOptions {
+  /** HTTP method of the request (SameSite=Lax cookies are only sent cross-site for GET/HEAD) */
+  method?: string;
+  /**
+   * URL that started the request chain (the "site for cookies").
+   *
+   * @remarks
+   * SameSite=Strict cookies are only sent if this URL belongs to the cookie's
+   * domain, SameSite=Lax cookies additionally on safe cross-site requests.
+   * Defaults to the request URL itself (a same-site request).
+   */
+  siteUrl?: string;
+  /** Current timestamp in milliseconds */
+  now?: number;
+}
+
+/**
+ * Serialized form of a {@link CookieJar}.
+ */
+export interface CookieJarData {
+  cookies: PluckCookie[];
+}
+
+/**
+ * RFC 6265 cookie jar.
+ *
+ * @remarks
+ * Pass it to pluck() via `cookieJar` to keep cookies across redirect hops and
+ * requests. Serialize with `JSON.stringify(jar)` and restore with
+ * `CookieJar.fromJSON()` to reuse a session between runs. Expired cookies are
+ * dropped on access. The public suffix list is not consulted; a Domain
+ * attribute without a dot (like `com`) is rejected instead.
+ *
+ * @example
+ * ```typescript
+ * const cookieJar = new CookieJar();
+ * const response = await pluck('https://news.example.de/article', { cookieJar });
+ *
+ * await writeFile('cookies.json', JSON.stringify(cookieJar));
+ * const restored = CookieJar.fromJSON(await readFile('cookies.json', 'utf-8'));
+ * ```
+ */
+export class CookieJar {
+  private readonly cookies = new Map<string, PluckCookie>();
+
+  constructor(cookies: PluckCookie[] = []) {
+    for (const cookie of cookies) {
+      this.cookies.set(cookieKey(cookie), { ...cookie });
+    }
+  }
+
+  /**
+   * Restore a jar serialized with `JSON.stringify(jar)`.
+   *
+   * @param data - JSON string or parsed object
+   * @returns Cookie jar
+   */
+  static fromJSON(data: string | CookieJarData): CookieJar {
+    const parsed = typeof data === 'string' ? (JSON.parse(data) as CookieJarData) : data;
+    return new CookieJar(Array.isArray(parsed?.cookies) ? parsed.cookies : []);
+  }
+
+  /** Number of stored (not yet expired) cookies */
+  get size(): number {
+    return this.getAllCookies().length;
+  }
+
+  /**
+   * Store a cookie from a `Set-Cookie` header value.
+   *
+   * @param header - Set-Cookie header value
+   * @param url - URL of the response that set the cookie
+   * @param now - Current timestamp in milliseconds
+   * @returns True if the cookie was stored (or deleted by an expiry in the past)
+   */
+  setCookie(header: string, url: string, now = Date.now()): boolean {
+    const cookie = parseSetCookie(header, new URL(url), now);
+    if (!cookie) {
+      return false;
+    }
+
+    const key = cookieKey(cookie);
+    const existing = this.cookies.get(key);
+    if (cookie.expires !== null && cookie.expires <= now) {
+      this.cookies.delete(key);
+      return true;
+    }
+
+    // Replacing a cookie keeps its original creation time (RFC 6265 §5.3)
+    this.cookies.set(key, existing ? { ...cookie, createdAt: existing.createdAt } : cookie);
+    return true;
+  }
+
+  /**
+   * Store all cookies set by a response.
+   *
+   * @param response - Response with Set-Cookie headers
+   * @param url - URL of the response (defaults to `response.url`)
+   * @param now - Current timestamp in milliseconds
+   */
+  setCookiesFromResponse(response: Response, url = response.url, now = Date.now()): void {
+    for (const header of getSetCookieHeaders(response.headers)) {
+      this.setCookie(header, url, now);
+    }
+  }
+
+  /**
+   * Get the cookies to send with a request, in sending order.
+   *
+   * @param url - Request URL
+   * @param options - Request method and site for SameSite checks
+   * @returns Matching cookies (longest path first)
+   */
+  getCookies(url: string, options: CookieRequestOptions = {}): PluckCookie[] {
+    const now = options.now ?? Date.now();
+    const target = new URL(url);
+    const host = target.hostname.toLowerCase();
+    const siteHost = new URL(options.siteUrl ?? url).hostname.toLowerCase();
+    const safeMethod = ['GET', 'HEAD'].includes((options.method ?? 'GET').toUpperCase());
+
+    return this.getAllCookies(now)
+      .filter((cookie) => {
+        const hostMatches = cookie.hostOnly
+          ? host === cookie.domain
+          : domainMatches(host, cookie.domain);
+        if (!hostMatches || !pathMatches(target.pathname || '/', cookie.path)) {
+          return false;
+        }
+        if (cookie.secure && target.protocol !== 'https:') {
+          return false;
+        }
+        const sameSite = domainMatches(siteHost, cookie.domain);
+        if (cookie.sameSite === 'strict') {
+          return sameSite;
+        }
+        if (cookie.sameSite === 'lax') {
+          return sameSite || safeMethod;
+        }
+        return true;
+      })
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Build the `Cookie` header for a request.
+   *
+   * @param url - Request URL
+   * @param options - Request method and site for SameSite checks
+   * @returns Header value, or an empty string if no cookie matches
+   */
+  getCookieHeader(url: string, options: CookieRequestOptions = {}): string {
+    return this.getCookies(url, options)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  /**
+   * Get all stored cookies that have not expired.
+   *
+   * @param now - Current timestamp in milliseconds
+   * @returns Stored cookies
+   */
+  getAllCookies(now = Date.now()): PluckCookie[] {
+    const cookies: PluckCookie[] = [];
+    for (const [key, cookie] of this.cookies) {
+      if (cookie.expires !== null && cookie.expires <= now) {
+        this.cookies.delete(key);
+      } else {
+        cookies.push({ ...cookie });
+      }
+    }
+    return cookies;
+  }
+
+  /** Remove all cookies */
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  /** Serialize for `JSON.stringify()` */
+  toJSON(): CookieJarData {
+    return { cookies: this.getAllCookies() };
+  }
+}
+
+/**
+ * Parse a Set-Cookie header value (RFC 6265 §5.2) and apply the storage rules (§5.3).
+ *
+ * @returns The cookie, or null if it must be ignored
+ */
+function parseSetCookie(header: string, url: URL, now: number): PluckCookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator === -1) {
+    return null;
+  }
+  const name = pair.slice(0, separator).trim();
+  const value = pair.slice(separator + 1).trim();
+  if (!name) {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  let maxAge: number | undefined;
+  let expires: number | undefined;
+  let domain: string | undefined;
+  let path: string | undefined;
+  let secure = false;
+  let httpOnly = false;
+  let sameSite: PluckCookie['sameSite'] = 'lax';
+
+  for (const attribute of attributes) {
+    const index = attribute.indexOf('=');
+    const key = (index === -1 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+    const attributeValue = index === -1 ? '' : attribute.slice(index + 1).trim();
+
+    switch (key) {
+      case 'max-age':
+        if (/^-?\d+$/.test(attributeValue)) {
+          maxAge = Number.parseInt(attributeValue, 10);
+        }
+        break;
+      case 'expires': {
+        const date = Date.parse(attributeValue);
+        if (!Number.isNaN(date)) {
+          expires = date;
+        }
+        break;
+      }
+      case 'domain':
+        if (attributeValue) {
+          domain = attributeValue.replace(/^\./, '').toLowerCase();
+        }
+        break;
+      case 'path':
+        path = attributeValue.startsWith('/') ? attributeValue : undefined;
+        break;
+      case 'secure':
+        secure = true;
+        break;
+      case 'httponly':
+        httpOnly = true;
+        break;
+      case 'samesite': {
+        const mode = attributeValue.toLowerCase();
+        if (mode === 'strict' || mode === 'lax' || mode === 'none') {
+          sameSite = mode;
+        }
+        break;
+      }
+    }
+  }
+
+  // Domain must cover the request host and must not be a bare TLD
+  if (domain !== undefined) {
+    if (!domainMatches(host, domain) || (!domain.includes('.') && domain !== host)) {
+      return null;
+    }
+  }
+
+  // Secure cookies can only be set over HTTPS; SameSite=None requires Secure
+  if (secure && url.protocol !== 'https:') {
+    return null;
+  }
+  if (sameSite === 'none' && !secure) {
+    return null;
+  }
+
+  // Name prefixes (RFC 6265bis §4.1.3)
+  if (name.startsWith('__Secure-') && !secure) {
+    return null;
+  }
+  if (name.startsWith('__Host-') && (!secure || domain !== undefined || path !== '/')) {
+    return null;
+  }
+
+  let expiresAt: number | null = null;
+  if (maxAge !== undefined) {
+    expiresAt = maxAge <= 0 ? 0 : now + maxAge * 1000;
+  } else if (expires !== undefined) {
+    expiresAt = expires;
+  }
+
+  return {
+    name,
+    value,
+    domain: domain ?? host,
+    path: path ?? defaultPath(url.pathname),
+    expires: expiresAt,
+    secure,
+    httpOnly,
+    sameSite,
+    hostOnly: domain === undefined,
+    createdAt: now,
+  };
+}
+
+/**
+ * Read all Set-Cookie header values of a response.
+ */
+function getSetCookieHeaders(headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function') {
+    return headers.getSetCookie();
+  }
+  // Older runtimes join multiple headers with commas; split before each "name="
+  const combined = headers.get('set-cookie');
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/).map((part) => part.trim()) : [];
+}
+
+/**
+ * Check whether a host domain-matches a cookie domain (RFC 6265 §5.1.3).
+ */
+function domainMatches(host: string, domain: string): boolean {
+  if (host === domain) {
+    return true;
+  }
+  // IP addresses only match exactly
+  if (/^[\d.]+$/.test(host) || host.includes(':')) {
+    return false;
+  }
+  return host.endsWith(`.${domain}`);
+}
+
+/**
+ * Check whether a request path path-matches a cookie path (RFC 6265 §5.1.4).
+ */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) {
+    return true;
+  }
+  if (!requestPath.startsWith(cookiePath)) {
+    return false;
+  }
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+/**
+ * Compute the default cookie path for a request path (RFC 6265 §5.1.4).
+ */
+function defaultPath(requestPath: string): string {
+  if (!requestPath.startsWith('/')) {
+    return '/';
+  }
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash === 0 ? '/' : requestPath.slice(0, lastSlash);
+}
+
+/**
+ * Identity of a cookie: name, domain and path.
+ */
+function cookieKey(cookie: PluckCookie): string {
+  return `${cookie.domain};${cookie.path};${cookie.name}`;
+}
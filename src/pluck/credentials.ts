@@ -0,0 +1,145 @@
+/**
+ * Per-origin credentials for pluck().
+ *
+ * @remarks
+ * Matches request URLs against origin or glob keys and applies Basic, Bearer
+ * or custom header credentials. Also strips authentication headers from
+ * redirect hops that leave the origin of the initial request.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import type { PluckCredential, PluckCredentials } from './types.js';
+
+/**
+ * Headers that are never forwarded to another origin.
+ */
+export const CROSS_ORIGIN_STRIPPED_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+/**
+ * Find the credential for a URL.
+ *
+ * @remarks
+ * Keys containing `://` are matched against the origin (`https://example.com`,
+ * `https://*.example.com`, `http://localhost:*`), other keys against the host
+ * of https URLs (`example.com`, `*.example.com`), so a redirect to plain http
+ * never receives them. `*` matches any run of characters within the origin.
+ * Exact matches win over globs, longer globs over shorter ones.
+ *
+ * @param url - Request URL
+ * @param credentials - Credentials keyed by origin or glob
+ * @returns Matching credential, or null
+ */
+export function findCredential(url: string, credentials: PluckCredentials): PluckCredential | null {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return null;
+  }
+
+  let best: { credential: PluckCredential; specificity: number } | null = null;
+  for (const [key, credential] of Object.entries(credentials)) {
+    const pattern = key.trim().toLowerCase().replace(/\/+$/, '');
+    const isOrigin = pattern.includes('://');
+    if (!isOrigin && target.protocol !== 'https:') {
+      continue;
+    }
+    const subject = isOrigin ? target.origin : target.host;
+    const specificity = matchPattern(pattern, subject);
+    if (specificity > (best?.specificity ?? -1)) {
+      best = { credential, specificity };
+    }
+  }
+
+  return best?.credential ?? null;
+}
+
+/**
+ * Apply a credential to request headers.
+ *
+ * @remarks
+ * Headers that are already set are left alone, so explicit headers win.
+ *
+ * @param headers - Request headers (modified in place)
+ * @param credential - Credential to apply
+ */
+export function applyCredential(headers: Headers, credential: PluckCredential): void {
+  const values = new Headers();
+  switch (credential.type) {
+    case 'basic':
+      values.set(
+        'authorization',
+        `Basic ${encodeBase64(`${credential.username}:${credential.password}`)}`,
+      );
+      break;
+    case 'bearer':
+      values.set('authorization', `Bearer ${credential.token}`);
+      break;
+    case 'headers':
+      new Headers(credential.headers).forEach((value, name) => {
+        values.set(name, value);
+      });
+      break;
+  }
+
+  values.forEach((value, name) => {
+    if (!headers.has(name)) {
+      headers.set(name, value);
+    }
+  });
+}
+
+/**
+ * Check whether two URLs share the same origin.
+ *
+ * @param a - First URL
+ * @param b - Second URL
+ * @returns True if scheme, host and port match
+ */
+export function isSameOrigin(a: string, b: string): boolean {
+  try {
+    return new URL(a).origin === new URL(b).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Match a lowercase pattern against an origin or host.
+ *
+ * @returns -1 if it does not match, otherwise a specificity score
+ */
+function matchPattern(pattern: string, subject: string): number {
+  if (!pattern.includes('*')) {
+    // Normalize default ports and the like by parsing origins
+    if (pattern.includes('://')) {
+      try {
+        return new URL(pattern).origin === subject ? Number.MAX_SAFE_INTEGER : -1;
+      } catch {
+        return -1;
+      }
+    }
+    return pattern === subject ? Number.MAX_SAFE_INTEGER : -1;
+  }
+
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  return new RegExp(`^${source}$`).test(subject) ? pattern.replace(/\*/g, '').length : -1;
+}
+
+/**
+ * Base64-encode a string as UTF-8 (works in Node.js and browsers).
+ */
+function encodeBase64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
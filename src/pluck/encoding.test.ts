@@ -9,11 +9,14 @@ import { strict as assert } from 'node:assert';
 import { describe, it } from 'node:test';
 import {
   decodeToUtf8,
+  decodeWithDetection,
   detectEncoding,
+  detectEncodingWithSource,
   isEncodingSupported,
   parseCharsetFromContentType,
   parseCharsetFromHtml,
   parseCharsetFromXml,
+  trimIncompleteUtf8,
 } from './encoding.js';
 
 describe('parseCharsetFromContentType', () => {
@@ -221,6 +224,96 @@ describe('detectEncoding', () => {
   });
 });
 
+// "Привет, мир! Как дела?" in windows-1251
+const RUSSIAN_1251 = new Uint8Array([
+  0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2, 0x2c, 0x20, 0xec, 0xe8, 0xf0, 0x21, 0x20, 0xca, 0xe0, 0xea,
+  0x20, 0xe4, 0xe5, 0xeb, 0xe0, 0x3f,
+]).buffer;
+
+describe('detectEncodingWithSource', () => {
+  it('should report the BOM as source', () => {
+    const buffer = new Uint8Array([0xef, 0xbb, 0xbf, 0x48, 0x69]).buffer;
+    assert.deepEqual(detectEncodingWithSource(buffer), {
+      encoding: 'utf-8',
+      source: 'bom',
+      confidence: 1,
+    });
+  });
+
+  it('should report declarations as source', () => {
+    const buffer = new TextEncoder().encode('<meta charset="windows-1252">Hello').buffer;
+    assert.equal(detectEncodingWithSource(buffer, 'text/html; charset=utf-8').source, 'header');
+    assert.equal(detectEncodingWithSource(buffer).source, 'meta');
+
+    const xml = new TextEncoder().encode('<?xml version="1.0" encoding="utf-8"?><rss>').buffer;
+    assert.equal(detectEncodingWithSource(xml).source, 'xml');
+  });
+
+  it('should sniff undeclared legacy content', () => {
+    const result = detectEncodingWithSource(RUSSIAN_1251, 'text/html');
+    assert.equal(result.encoding, 'windows-1251');
+    assert.equal(result.source, 'sniffed');
+    assert.ok(result.confidence > 0 && result.confidence < 1);
+  });
+
+  it('should default to UTF-8 for ASCII content', () => {
+    const buffer = new TextEncoder().encode('Hello World').buffer;
+    assert.deepEqual(detectEncodingWithSource(buffer), {
+      encoding: 'utf-8',
+      source: 'default',
+      confidence: 1,
+    });
+  });
+});
+
+describe('decodeWithDetection', () => {
+  it('should decode with the declared encoding', () => {
+    const buffer = new Uint8Array([0x48, 0xe9, 0x6c, 0x6c, 0x6f]).buffer;
+    const result = decodeWithDetection(buffer, 'text/html; charset=windows-1252');
+    assert.equal(result.content, 'Héllo');
+    assert.equal(result.source, 'header');
+  });
+
+  it('should sniff when the declared encoding produces invalid sequences', () => {
+    const result = decodeWithDetection(RUSSIAN_1251, 'text/html; charset=utf-8');
+    assert.equal(result.content, 'Привет, мир! Как дела?');
+    assert.equal(result.encoding, 'windows-1251');
+    assert.equal(result.source, 'sniffed');
+  });
+
+  it('should sniff invalid sequences after a long ASCII head', () => {
+    const head = new TextEncoder().encode(`<style>${'p { margin: 0; }\n'.repeat(3000)}</style>`);
+    const bytes = new Uint8Array(head.length + RUSSIAN_1251.byteLength);
+    bytes.set(head);
+    bytes.set(new Uint8Array(RUSSIAN_1251), head.length);
+
+    const result = decodeWithDetection(bytes.buffer, 'text/html; charset=utf-8');
+    assert.equal(result.encoding, 'windows-1251');
+    assert.ok(result.content.endsWith('Привет, мир! Как дела?'));
+  });
+
+  it('should decode undeclared legacy content', () => {
+    const result = decodeWithDetection(RUSSIAN_1251, null);
+    assert.equal(result.content, 'Привет, мир! Как дела?');
+  });
+
+  it('should throw for unsupported encodings if validate=true', () => {
+    const buffer = new TextEncoder().encode('Hello').buffer;
+    assert.throws(
+      () => decodeWithDetection(buffer, 'text/html; charset=invalid-encoding'),
+      /Failed to decode content/,
+    );
+  });
+
+  it('should decode lossy if validate=false and nothing fits', () => {
+    const buffer = new Uint8Array([0x00, 0x01, 0xff, 0xfe, 0x02]).buffer;
+    const result = decodeWithDetection(buffer, 'text/plain; charset=utf-8', false);
+    assert.equal(result.encoding, 'utf-8');
+    assert.equal(result.source, 'header');
+    assert.ok(result.content.includes('\ufffd'));
+  });
+});
+
 describe('decodeToUtf8', () => {
   it('should decode UTF-8 content', () => {
     const buffer = new TextEncoder().encode('Hello World').buffer;
@@ -273,6 +366,21 @@ describe('decodeToUtf8', () => {
   });
 });
 
+describe('trimIncompleteUtf8', () => {
+  const EURO = new TextEncoder().encode('a€'); // 61 E2 82 AC
+
+  it('should drop a partial character at the end', () => {
+    assert.equal(trimIncompleteUtf8(EURO.slice(0, 2).buffer).byteLength, 1);
+    assert.equal(trimIncompleteUtf8(EURO.slice(0, 3).buffer).byteLength, 1);
+  });
+
+  it('should keep complete characters', () => {
+    assert.equal(trimIncompleteUtf8(EURO.slice().buffer).byteLength, 4);
+    assert.equal(trimIncompleteUtf8(EURO.slice(0, 1).buffer).byteLength, 1);
+    assert.equal(trimIncompleteUtf8(new ArrayBuffer(0)).byteLength, 0);
+  });
+});
+
 describe('isEncodingSupported', () => {
   it('should return true for UTF-8', () => {
     assert.equal(isEncodingSupported('utf-8'), true);
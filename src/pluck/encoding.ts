@@ -2,7 +2,8 @@
  * Character encoding detection and conversion.
  *
  * @remarks
- * Detects character encoding from BOM, HTTP headers, and HTML meta tags.
+ * Detects character encoding from BOM, HTTP headers, and HTML meta tags, with
+ * statistical sniffing for undeclared content.
  * Converts all content to UTF-8 using native TextDecoder.
  *
  * @author Anonyfox <max@anonyfox.com>
@@ -11,8 +12,22 @@
  * @packageDocumentation
  */
 
+import { sniffEncoding } from './charset-sniffer.js';
+import type { PluckEncodingSource } from './types.js';
 import { PluckEncodingError } from './types.js';
 
+/**
+ * Detected encoding with the source that decided it.
+ */
+export interface EncodingDetection {
+  /** Detected encoding (e.g., 'utf-8', 'windows-1252') */
+  encoding: string;
+  /** What decided the encoding */
+  source: PluckEncodingSource;
+  /** Confidence between 0 and 1 (1 for declarations) */
+  confidence: number;
+}
+
 /**
  * Detect character encoding from various sources.
  *
@@ -20,26 +35,44 @@ import { PluckEncodingError } from './types.js';
  * Priority order:
  * 1. BOM (Byte Order Mark) in content
  * 2. charset in Content-Type header
- * 3. <meta charset> in HTML (first 1KB)
- * 4. <meta http-equiv="Content-Type"> in HTML
- * 5. Default to UTF-8
+ * 3. <?xml encoding> declaration (first 1KB)
+ * 4. <meta charset> or <meta http-equiv="Content-Type"> in HTML (first 1KB)
+ * 5. Statistical sniffing of the content
+ * 6. Default to UTF-8
  *
  * @param buffer - Response body as ArrayBuffer
  * @param contentType - Content-Type header value
  * @returns Detected encoding (e.g., 'utf-8', 'windows-1252')
  */
 export function detectEncoding(buffer: ArrayBuffer, contentType?: string | null): string {
+  return detectEncodingWithSource(buffer, contentType).encoding;
+}
+
+/**
+ * Detect character encoding, reporting which source decided it.
+ *
+ * @remarks
+ * Same priority order as {@link detectEncoding}.
+ *
+ * @param buffer - Response body as ArrayBuffer
+ * @param contentType - Content-Type header value
+ * @returns Encoding, source and confidence
+ */
+export function detectEncodingWithSource(
+  buffer: ArrayBuffer,
+  contentType?: string | null,
+): EncodingDetection {
   // Check BOM first (most reliable)
   const bomEncoding = detectBOM(buffer);
   if (bomEncoding) {
-    return bomEncoding;
+    return { encoding: bomEncoding, source: 'bom', confidence: 1 };
   }
 
   // Check Content-Type header
   if (contentType) {
     const headerEncoding = parseCharsetFromContentType(contentType);
     if (headerEncoding) {
-      return headerEncoding;
+      return { encoding: headerEncoding, source: 'header', confidence: 1 };
     }
   }
 
@@ -50,17 +83,65 @@ export function detectEncoding(buffer: ArrayBuffer, contentType?: string | null)
   // Check XML declaration first (for RSS/Atom feeds)
   const xmlEncoding = parseCharsetFromXml(previewText);
   if (xmlEncoding) {
-    return xmlEncoding;
+    return { encoding: xmlEncoding, source: 'xml', confidence: 1 };
   }
 
   // Check HTML meta tags
   const metaEncoding = parseCharsetFromHtml(previewText);
   if (metaEncoding) {
-    return metaEncoding;
+    return { encoding: metaEncoding, source: 'meta', confidence: 1 };
+  }
+
+  // Guess from the content itself
+  const sniffed = sniffEncoding(buffer);
+  if (sniffed) {
+    return { ...sniffed, source: 'sniffed' };
   }
 
   // Default to UTF-8
-  return 'utf-8';
+  return { encoding: 'utf-8', source: 'default', confidence: 1 };
+}
+
+/**
+ * Detect the encoding and decode the buffer to UTF-8.
+ *
+ * @remarks
+ * If a declared encoding produces invalid byte sequences (a page served as
+ * UTF-8 that is really windows-1252, say), the content is sniffed and decoded
+ * with the detected encoding instead. Only if that fails too does `validate`
+ * decide between throwing and lossy decoding.
+ *
+ * @param buffer - Response body as ArrayBuffer
+ * @param contentType - Content-Type header value
+ * @param validate - Whether to throw on invalid encoding
+ * @returns UTF-8 content with the encoding detection
+ * @throws PluckEncodingError if decoding fails and validate=true
+ */
+export function decodeWithDetection(
+  buffer: ArrayBuffer,
+  contentType: string | null | undefined,
+  validate = true,
+): EncodingDetection & { content: string } {
+  const detection = detectEncodingWithSource(buffer, contentType);
+  try {
+    return { ...detection, content: decodeToUtf8(buffer, detection.encoding, true) };
+  } catch (error) {
+    if (detection.source !== 'bom' && isEncodingSupported(detection.encoding)) {
+      const sniffed = sniffEncoding(buffer, [detection.encoding]);
+      if (sniffed) {
+        try {
+          const content = decodeToUtf8(buffer, sniffed.encoding, true);
+          return { ...sniffed, source: 'sniffed', content };
+        } catch {
+          // Fall through to the declared encoding
+        }
+      }
+    }
+    if (validate) {
+      throw error;
+    }
+    return { ...detection, content: decodeToUtf8(buffer, detection.encoding, false) };
+  }
 }
 
 /**
@@ -218,6 +299,32 @@ export function decodeToUtf8(buffer: ArrayBuffer, encoding: string, validate = t
   }
 }
 
+/**
+ * Drop an incomplete UTF-8 sequence from the end of a buffer.
+ *
+ * @remarks
+ * Truncated bodies can be cut in the middle of a multi-byte character,
+ * which would otherwise fail strict decoding.
+ *
+ * @param buffer - UTF-8 encoded bytes
+ * @returns The buffer without a trailing partial character
+ */
+export function trimIncompleteUtf8(buffer: ArrayBuffer): ArrayBuffer {
+  const bytes = new Uint8Array(buffer);
+  const end = bytes.length;
+
+  // Find the lead byte of the last character (at most 3 bytes back)
+  for (let i = end - 1; i >= Math.max(0, end - 4); i--) {
+    const byte = bytes[i];
+    if ((byte & 0xc0) === 0x80) {
+      continue;
+    }
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return end - i < length ? buffer.slice(0, i) : buffer;
+  }
+  return buffer;
+}
+
 /**
  * Check if encoding is supported by TextDecoder.
  *
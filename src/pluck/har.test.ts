@@ -0,0 +1,200 @@
+/**
+ * HAR recording and replay tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { HarRecorder, HarReplayer } from './har.js';
+import { pluck } from './pluck.js';
+import type { PluckTransport } from './types.js';
+import { PluckNetworkError } from './types.js';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00]);
+
+/**
+ * Upstream transport for a small fake site with a redirect, cookies and a binary asset.
+ */
+const upstream: PluckTransport = async (url) => {
+  switch (new URL(url).pathname) {
+    case '/old':
+      return new Response(null, {
+        status: 301,
+        headers: { location: '/page?lang=en' },
+      });
+    case '/page': {
+      const headers = new Headers({ 'content-type': 'text/html; charset=utf-8' });
+      headers.append('set-cookie', 'a=1; Path=/');
+      headers.append('set-cookie', 'b=2; Path=/');
+      return new Response('<html><body>Grüße</body></html>', { headers });
+    }
+    case '/logo.png':
+      return new Response(PNG_BYTES, { headers: { 'content-type': 'image/png' } });
+    default:
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+  }
+};
+
+describe('HarRecorder', () => {
+  it('should record every redirect hop', async () => {
+    const recorder = new HarRecorder(upstream);
+    const response = await pluck('https://example.com/old', { transport: recorder.transport });
+
+    assert.equal(await response.textUtf8(), '<html><body>Grüße</body></html>');
+    assert.equal(recorder.size, 2);
+
+    const [redirect, page] = recorder.toHAR().log.entries;
+    assert.equal(redirect.request.url, 'https://example.com/old');
+    assert.equal(redirect.response.status, 301);
+    assert.equal(redirect.response.redirectURL, '/page?lang=en');
+    assert.equal(page.request.url, 'https://example.com/page?lang=en');
+    assert.deepEqual(page.request.queryString, [{ name: 'lang', value: 'en' }]);
+    assert.equal(page.response.content.mimeType, 'text/html; charset=utf-8');
+    assert.equal(page.response.content.text, '<html><body>Grüße</body></html>');
+    assert.equal(page.response.content.encoding, undefined);
+  });
+
+  it('should record request headers and separate Set-Cookie headers', async () => {
+    const recorder = new HarRecorder(upstream);
+    await pluck('https://example.com/page', {
+      transport: recorder.transport,
+      headers: { 'X-Test': 'yes' },
+    });
+
+    const [entry] = recorder.toHAR().log.entries;
+    assert.ok(entry.request.headers.some((h) => h.name === 'x-test' && h.value === 'yes'));
+    assert.ok(entry.request.headers.some((h) => h.name === 'user-agent'));
+    const cookies = entry.response.headers.filter((h) => h.name === 'set-cookie');
+    assert.deepEqual(
+      cookies.map((h) => h.value),
+      ['a=1; Path=/', 'b=2; Path=/'],
+    );
+  });
+
+  it('should redact credential request headers', async () => {
+    const recorder = new HarRecorder(upstream);
+    await pluck('https://example.com/page', {
+      transport: recorder.transport,
+      headers: { authorization: 'Bearer secret', cookie: 'sid=1' },
+    });
+
+    const [entry] = recorder.toHAR().log.entries;
+    const header = (name: string) => entry.request.headers.find((h) => h.name === name)?.value;
+    assert.equal(header('authorization'), '[redacted]');
+    assert.equal(header('cookie'), '[redacted]');
+  });
+
+  it('should record decompressed bodies without Content-Encoding', async () => {
+    // fetch() has already decompressed the body but keeps the original headers
+    const recorder = new HarRecorder(
+      async () =>
+        new Response('<p>Hello</p>', {
+          headers: { 'content-encoding': 'gzip', 'content-length': '32' },
+        }),
+    );
+    await recorder.transport('https://example.com/', {});
+
+    const [entry] = recorder.toHAR().log.entries;
+    const header = (name: string) => entry.response.headers.find((h) => h.name === name)?.value;
+    assert.equal(header('content-encoding'), undefined);
+    assert.equal(header('content-length'), '12');
+    assert.equal(entry.response.content.text, '<p>Hello</p>');
+  });
+
+  it('should base64-encode binary bodies', async () => {
+    const recorder = new HarRecorder(upstream);
+    const response = await recorder.transport('https://example.com/logo.png', {});
+
+    assert.deepEqual(new Uint8Array(await response.arrayBuffer()), PNG_BYTES);
+    const [entry] = recorder.toHAR().log.entries;
+    assert.equal(entry.response.content.encoding, 'base64');
+    assert.equal(entry.response.content.size, PNG_BYTES.length);
+  });
+
+  it('should produce a HAR 1.2 document', async () => {
+    const recorder = new HarRecorder(upstream);
+    await pluck('https://example.com/page', { transport: recorder.transport });
+
+    const har = JSON.parse(JSON.stringify(recorder));
+    assert.equal(har.log.version, '1.2');
+    assert.equal(har.log.creator.name, 'magpie-html');
+    assert.equal(har.log.entries.length, 1);
+  });
+});
+
+describe('HarReplayer', () => {
+  it('should replay a recording without network access', async () => {
+    const recorder = new HarRecorder(upstream);
+    const recorded = await pluck('https://example.com/old', { transport: recorder.transport });
+
+    const replayer = new HarReplayer(JSON.stringify(recorder));
+    const replayed = await pluck('https://example.com/old', { transport: replayer.transport });
+
+    assert.equal(replayed.finalUrl, recorded.finalUrl);
+    assert.equal(replayed.status, recorded.status);
+    assert.deepEqual(replayed.redirectChain, recorded.redirectChain);
+    assert.equal(await replayed.textUtf8(), await recorded.textUtf8());
+    assert.deepEqual(replayed.headers.getSetCookie(), ['a=1; Path=/', 'b=2; Path=/']);
+  });
+
+  it('should replay binary bodies byte-exact', async () => {
+    const recorder = new HarRecorder(upstream);
+    await recorder.transport('https://example.com/logo.png', {});
+
+    const replayer = new HarReplayer(JSON.stringify(recorder));
+    const response = await replayer.transport('https://example.com/logo.png', {});
+    assert.equal(response.headers.get('content-type'), 'image/png');
+    assert.deepEqual(new Uint8Array(await response.arrayBuffer()), PNG_BYTES);
+  });
+
+  it('should throw for requests without a recording', async () => {
+    const replayer = new HarReplayer({
+      log: { version: '1.2', creator: { name: 'test', version: '1' }, entries: [] },
+    });
+
+    await assert.rejects(
+      () => pluck('https://example.com/missing', { transport: replayer.transport, retry: false }),
+      (error: unknown) =>
+        error instanceof PluckNetworkError &&
+        /GET https:\/\/example.com\/missing/.test(error.message),
+    );
+  });
+
+  it('should serve repeated requests in recorded order and repeat the last', async () => {
+    let counter = 0;
+    const recorder = new HarRecorder(async () => new Response(`visit ${++counter}`));
+    await recorder.transport('https://example.com/counter', {});
+    await recorder.transport('https://example.com/counter', {});
+
+    const replayer = new HarReplayer(recorder.toHAR());
+    const read = async () =>
+      (await replayer.transport('https://example.com/counter', { method: 'GET' })).text();
+    assert.equal(await read(), 'visit 1');
+    assert.equal(await read(), 'visit 2');
+    assert.equal(await read(), 'visit 2');
+
+    replayer.reset();
+    assert.equal(await read(), 'visit 1');
+  });
+
+  it('should round-trip through a HAR file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'magpie-har-'));
+    try {
+      const recorder = new HarRecorder(upstream);
+      await pluck('https://example.com/page', { transport: recorder.transport });
+      const path = join(dir, 'session.har');
+      await recorder.save(path);
+
+      const replayer = await HarReplayer.fromFile(path);
+      const response = await pluck('https://example.com/page', { transport: replayer.transport });
+      assert.equal(await response.textUtf8(), '<html><body>Grüße</body></html>');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
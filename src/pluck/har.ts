@@ -0,0 +1,370 @@
+/**
+ * HAR recording and replay transports for pluck().
+ *
+ * @remarks
+ * {@link HarRecorder} wraps a transport and records every request and response
+ * (including redirect hops, headers and bodies) as HAR 1.2. {@link HarReplayer}
+ * serves recorded responses without any network access, for reproducible
+ * tests and bug reports.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import { CROSS_ORIGIN_STRIPPED_HEADERS } from './credentials.js';
+import type { PluckTransport } from './types.js';
+import { PluckNetworkError } from './types.js';
+
+/**
+ * A name/value pair in a HAR file.
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * A single request/response pair in a HAR file.
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64' };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+/**
+ * A HAR 1.2 document.
+ */
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Value recorded instead of credential request headers.
+ */
+const REDACTED = '[redacted]';
+
+/**
+ * Statuses whose responses never have a body.
+ */
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+/**
+ * Transport that records all traffic as HAR 1.2.
+ *
+ * @remarks
+ * Bodies are buffered completely so they can be recorded. Text bodies are
+ * stored as text, everything else base64-encoded, so replay is byte-exact.
+ * Bodies are recorded as delivered by the transport (already decompressed),
+ * so `Content-Encoding` is dropped and `Content-Length` matches the recording.
+ *
+ * `Authorization`, `Proxy-Authorization` and `Cookie` request headers are
+ * redacted. Response headers, including `Set-Cookie`, are kept for replay,
+ * so review recordings of logged-in sessions before sharing them.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new HarRecorder();
+ * await gatherWebsite('https://example.com', { pluckFn: createPluck({ transport: recorder.transport }) });
+ * await recorder.save('./fixtures/example.har');
+ * ```
+ */
+export class HarRecorder {
+  private readonly entries: HarEntry[] = [];
+
+  /**
+   * @param upstream - Transport that performs the actual requests (default: global fetch)
+   */
+  constructor(private readonly upstream: PluckTransport = (url, init) => fetch(url, init)) {}
+
+  /**
+   * The recording transport; pass it to pluck() via `transport`.
+   */
+  readonly transport: PluckTransport = async (url, init) => {
+    const started = Date.now();
+    const response = await this.upstream(url, init);
+    const body = new Uint8Array(await response.arrayBuffer());
+    const time = Date.now() - started;
+
+    this.entries.push(createHarEntry(url, init, response, body, started, time));
+    return createResponse(response.status, response.statusText, response.headers, body, url);
+  };
+
+  /** Recorded entries */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Get the recording as a HAR 1.2 document.
+   */
+  toHAR(): Har {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'magpie-html', version: '1.0' },
+        entries: this.entries.map((entry) => structuredClone(entry)),
+      },
+    };
+  }
+
+  /** Serialize for `JSON.stringify()` */
+  toJSON(): Har {
+    return this.toHAR();
+  }
+
+  /**
+   * Write the recording to a HAR file (Node.js only).
+   *
+   * @param path - File path
+   */
+  async save(path: string): Promise<void> {
+    const { writeFile } = await import('node:fs/promises');
+    await writeFile(path, `${JSON.stringify(this.toHAR(), null, 2)}\n`, 'utf-8');
+  }
+}
+
+/**
+ * Transport that replays a HAR file without network access.
+ *
+ * @remarks
+ * Requests are matched by method and URL. Repeated requests to the same URL
+ * get the recorded responses in order; once exhausted, the last one is
+ * repeated. Requests without a recording fail with {@link PluckNetworkError}.
+ *
+ * @example
+ * ```typescript
+ * const replayer = await HarReplayer.fromFile('./fixtures/example.har');
+ * const site = await gatherWebsite('https://example.com', {
+ *   pluckFn: createPluck({ transport: replayer.transport }),
+ * });
+ * ```
+ */
+export class HarReplayer {
+  private readonly recordings = new Map<string, HarEntry[]>();
+  private readonly served = new Map<string, number>();
+
+  /**
+   * @param har - HAR document (object or JSON string)
+   */
+  constructor(har: Har | string) {
+    const parsed = typeof har === 'string' ? (JSON.parse(har) as Har) : har;
+    for (const entry of parsed.log?.entries ?? []) {
+      const key = requestKey(entry.request.method, entry.request.url);
+      const list = this.recordings.get(key) ?? [];
+      list.push(entry);
+      this.recordings.set(key, list);
+    }
+  }
+
+  /**
+   * Load a HAR file (Node.js only).
+   *
+   * @param path - File path
+   * @returns Replayer for the file
+   */
+  static async fromFile(path: string): Promise<HarReplayer> {
+    const { readFile } = await import('node:fs/promises');
+    return new HarReplayer(await readFile(path, 'utf-8'));
+  }
+
+  /**
+   * The replaying transport; pass it to pluck() via `transport`.
+   */
+  readonly transport: PluckTransport = async (url, init) => {
+    const key = requestKey(init.method ?? 'GET', url);
+    const list = this.recordings.get(key);
+    if (!list) {
+      throw new PluckNetworkError(`No recorded response for ${key}`);
+    }
+
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    const { response } = list[Math.min(index, list.length - 1)];
+
+    const headers = new Headers();
+    for (const { name, value } of response.headers) {
+      headers.append(name, value);
+    }
+    return createResponse(
+      response.status,
+      response.statusText,
+      headers,
+      decodeContent(response.content),
+      url,
+    );
+  };
+
+  /**
+   * Start serving every recording from its first response again.
+   */
+  reset(): void {
+    this.served.clear();
+  }
+}
+
+/**
+ * Build a HAR entry from a request and its buffered response.
+ */
+function createHarEntry(
+  url: string,
+  init: RequestInit,
+  response: Response,
+  body: Uint8Array,
+  started: number,
+  time: number,
+): HarEntry {
+  const requestHeaders = toNameValues(new Headers(init.headers)).map(({ name, value }) => ({
+    name,
+    value: CROSS_ORIGIN_STRIPPED_HEADERS.includes(name) ? REDACTED : value,
+  }));
+  const responseHeaders = new Headers(response.headers);
+  if (responseHeaders.has('content-encoding')) {
+    responseHeaders.delete('content-encoding');
+    responseHeaders.set('content-length', String(body.byteLength));
+  }
+  const parsedUrl = new URL(url);
+  const queryString: HarNameValue[] = [];
+  parsedUrl.searchParams.forEach((value, name) => {
+    queryString.push({ name, value });
+  });
+
+  const postText =
+    typeof init.body === 'string'
+      ? init.body
+      : init.body instanceof URLSearchParams
+        ? init.body.toString()
+        : undefined;
+
+  const mimeType = response.headers.get('content-type') ?? '';
+  return {
+    startedDateTime: new Date(started).toISOString(),
+    time,
+    request: {
+      method: (init.method ?? 'GET').toUpperCase(),
+      url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: requestHeaders,
+      queryString,
+      ...(postText !== undefined && {
+        postData: {
+          mimeType: new Headers(init.headers).get('content-type') ?? '',
+          text: postText,
+        },
+      }),
+      headersSize: -1,
+      bodySize: postText?.length ?? 0,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(responseHeaders),
+      content: { size: body.byteLength, mimeType, ...encodeContent(body) },
+      redirectURL: response.headers.get('location') ?? '',
+      headersSize: -1,
+      bodySize: body.byteLength,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+  };
+}
+
+/**
+ * Encode a body as text if it is valid UTF-8, otherwise as base64.
+ */
+function encodeContent(body: Uint8Array): { text: string; encoding?: 'base64' } {
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(body) };
+  } catch {
+    let binary = '';
+    for (const byte of body) {
+      binary += String.fromCharCode(byte);
+    }
+    return { text: btoa(binary), encoding: 'base64' };
+  }
+}
+
+/**
+ * Decode recorded content back into bytes.
+ */
+function decodeContent(content: HarEntry['response']['content']): Uint8Array<ArrayBuffer> {
+  const text = content.text ?? '';
+  if (content.encoding === 'base64') {
+    return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+  }
+  return new TextEncoder().encode(text);
+}
+
+/**
+ * Create a Response with the given URL.
+ */
+function createResponse(
+  status: number,
+  statusText: string,
+  headers: Headers,
+  body: Uint8Array<ArrayBuffer>,
+  url: string,
+): Response {
+  const response = new Response(NULL_BODY_STATUSES.includes(status) ? null : body, {
+    status,
+    statusText,
+    headers,
+  });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+/**
+ * Convert headers into HAR name/value pairs (keeping multiple Set-Cookie headers apart).
+ */
+function toNameValues(headers: Headers): HarNameValue[] {
+  const pairs: HarNameValue[] = [];
+  headers.forEach((value, name) => {
+    if (name !== 'set-cookie') {
+      pairs.push({ name, value });
+    }
+  });
+  for (const value of headers.getSetCookie?.() ?? []) {
+    pairs.push({ name: 'set-cookie', value });
+  }
+  return pairs;
+}
+
+/**
+ * Key used to match replayed requests.
+ */
+function requestKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url}`;
+}
@@ -13,15 +13,65 @@
  * @packageDocumentation
  */
 
-export { pluck } from './pluck.js';
-export type { PluckInit, PluckResponse } from './types.js';
+export { FileCacheStore, MemoryCacheStore } from './cache.js';
+export type { CookieJarData, CookieRequestOptions } from './cookie-jar.js';
+export { CookieJar } from './cookie-jar.js';
+export type { Har, HarEntry, HarNameValue } from './har.js';
+export { HarRecorder, HarReplayer } from './har.js';
+export { isPrivateAddress } from './network-policy.js';
+export { createPluck, pluck } from './pluck.js';
+export { createProxyTransport, ProxyPool } from './proxy.js';
 export {
+  findRobotsTxtGroup,
+  getRobotsTxtCrawlDelay,
+  isAllowedByRobotsTxt,
+  parseRobotsTxt,
+} from './robots-txt.js';
+export { PluckScheduler } from './scheduler.js';
+export type {
+  PluckCacheEntry,
+  PluckCacheStatus,
+  PluckCacheStore,
+  PluckCookie,
+  PluckCredential,
+  PluckCredentials,
+  PluckEncodingSource,
+  PluckFunction,
+  PluckInit,
+  PluckMetaRefreshOptions,
+  PluckMiddleware,
+  PluckNetworkPolicy,
+  PluckProgress,
+  PluckProxyPoolOptions,
+  PluckProxyRotation,
+  PluckRedirectContext,
+  PluckRedirectKind,
+  PluckRequestContext,
+  PluckResponse,
+  PluckRetryAttempt,
+  PluckRetryOptions,
+  PluckRobotsOptions,
+  PluckScheduleOptions,
+  PluckSchedulerOptions,
+  PluckSchedulerProgress,
+  PluckTiming,
+  PluckTimingHop,
+  PluckTransport,
+  RobotsTxt,
+  RobotsTxtCacheEntry,
+  RobotsTxtGroup,
+  RobotsTxtRule,
+} from './types.js';
+export {
+  PluckBlockedError,
   PluckContentTypeError,
   PluckEncodingError,
   PluckError,
+  PluckFileError,
   PluckHttpError,
   PluckNetworkError,
   PluckRedirectError,
+  PluckRobotsError,
   PluckSizeError,
   PluckTimeoutError,
 } from './types.js';
@@ -0,0 +1,220 @@
+/**
+ * Local resource (data: and file: URL) tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { fetchLocalUrl, isLocalUrl } from './local.js';
+import { pluck } from './pluck.js';
+import { PluckBlockedError, PluckFileError } from './types.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'magpie-local-'));
+  await writeFile(join(dir, 'page.html'), '<html><head><title>Local</title></head></html>');
+  // "Café à la crème" in windows-1252, declared via meta charset
+  await writeFile(
+    join(dir, 'legacy.htm'),
+    Buffer.concat([
+      Buffer.from('<meta charset="windows-1252"><p>Caf'),
+      Buffer.from([0xe9]),
+      Buffer.from(' '),
+      Buffer.from([0xe0]),
+      Buffer.from(' la cr'),
+      Buffer.from([0xe8]),
+      Buffer.from('me</p>'),
+    ]),
+  );
+  await writeFile(join(dir, 'notes'), 'plain');
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('isLocalUrl', () => {
+  it('should detect data: and file: URLs', () => {
+    assert.equal(isLocalUrl('data:,hello'), true);
+    assert.equal(isLocalUrl('FILE:///tmp/x'), true);
+    assert.equal(isLocalUrl('https://example.com/data:'), false);
+  });
+});
+
+describe('fetchLocalUrl - data:', () => {
+  it('should decode percent-encoded data', async () => {
+    const response = await fetchLocalUrl('data:text/html,%3Cp%3EHello%20W%C3%B6rld%3C%2Fp%3E');
+    assert.equal(response.headers.get('content-type'), 'text/html');
+    assert.equal(await response.text(), '<p>Hello Wörld</p>');
+  });
+
+  it('should decode base64 data', async () => {
+    const base64 = Buffer.from('<rss/>').toString('base64');
+    const response = await fetchLocalUrl(`data:application/rss+xml;charset=utf-8;base64,${base64}`);
+    assert.equal(response.headers.get('content-type'), 'application/rss+xml;charset=utf-8');
+    assert.equal(response.headers.get('content-length'), '6');
+    assert.equal(await response.text(), '<rss/>');
+  });
+
+  it('should default to text/plain', async () => {
+    const plain = await fetchLocalUrl('data:,hi');
+    assert.equal(plain.headers.get('content-type'), 'text/plain;charset=US-ASCII');
+    const charset = await fetchLocalUrl('data:;charset=utf-8,hi');
+    assert.equal(charset.headers.get('content-type'), 'text/plain;charset=utf-8');
+  });
+
+  it('should reject malformed data URLs', async () => {
+    await assert.rejects(() => fetchLocalUrl('data:text/html'), PluckFileError);
+    await assert.rejects(() => fetchLocalUrl('data:;base64,%%%'), PluckFileError);
+  });
+});
+
+describe('fetchLocalUrl - file:', () => {
+  it('should stream files with a guessed content type', async () => {
+    const response = await fetchLocalUrl(pathToFileURL(join(dir, 'page.html')).href);
+    assert.equal(response.headers.get('content-type'), 'text/html');
+    assert.equal(response.headers.get('content-length'), '46');
+    assert.match(await response.text(), /<title>Local<\/title>/);
+  });
+
+  it('should omit the content type for unknown extensions', async () => {
+    const response = await fetchLocalUrl(pathToFileURL(join(dir, 'notes')).href);
+    assert.equal(response.headers.get('content-type'), null);
+    assert.equal(await response.text(), 'plain');
+  });
+
+  it('should throw PluckFileError for missing files and directories', async () => {
+    await assert.rejects(
+      () => fetchLocalUrl(pathToFileURL(join(dir, 'missing.html')).href),
+      (error: unknown) => error instanceof PluckFileError && error.code === 'ENOENT',
+    );
+    await assert.rejects(() => fetchLocalUrl(pathToFileURL(dir).href), PluckFileError);
+  });
+});
+
+describe('pluck - local URLs', () => {
+  it('should pluck data: URLs', async () => {
+    const response = await pluck('data:text/html;charset=utf-8,%3Ctitle%3EInline%3C%2Ftitle%3E');
+
+    assert.equal(await response.textUtf8(), '<title>Inline</title>');
+    assert.equal(response.finalUrl.startsWith('data:text/html'), true);
+    assert.equal(response.encodingSource, 'header');
+  });
+
+  it('should pluck file: URLs with encoding detection', async () => {
+    const url = pathToFileURL(join(dir, 'legacy.htm'));
+    const response = await pluck(url, { allowFileUrls: true });
+
+    assert.equal(response.finalUrl, url.href);
+    assert.equal(response.detectedEncoding, 'windows-1252');
+    assert.equal(response.encodingSource, 'meta');
+    assert.match(await response.textUtf8(), /Café à la crème/);
+  });
+
+  it('should enforce maxSize on files', async () => {
+    const response = await pluck(pathToFileURL(join(dir, 'page.html')), {
+      allowFileUrls: true,
+      maxSize: 10,
+      truncate: true,
+    });
+    assert.equal(response.truncated, true);
+    assert.equal(await response.textUtf8(), '<html><hea');
+  });
+
+  it('should block local URLs with blockPrivateNetworks', async () => {
+    await assert.rejects(
+      () =>
+        pluck(pathToFileURL(join(dir, 'page.html')), {
+          allowFileUrls: true,
+          blockPrivateNetworks: true,
+        }),
+      PluckBlockedError,
+    );
+  });
+
+  it('should block file: URLs unless allowFileUrls is set', async () => {
+    await assert.rejects(
+      () => pluck(pathToFileURL(join(dir, 'page.html'))),
+      (error: unknown) => error instanceof PluckBlockedError && error.reason === 'protocol',
+    );
+  });
+
+  it('should not reach file: URLs on later hops', async () => {
+    const file = pathToFileURL(join(dir, 'page.html')).href;
+    await assert.rejects(
+      () =>
+        pluck('https://example.com/', {
+          allowFileUrls: true,
+          transport: async () =>
+            new Response(null, { status: 302, headers: { location: '/next' } }),
+          middleware: [
+            {
+              beforeRequest: (request) => {
+                if (request.hop > 0) request.url = file;
+              },
+            },
+          ],
+        }),
+      PluckBlockedError,
+    );
+  });
+
+  it('should not retry unreadable files', async () => {
+    let attempts = 0;
+    await assert.rejects(
+      () =>
+        pluck(pathToFileURL(join(dir, 'missing.html')), {
+          allowFileUrls: true,
+          retry: { attempts: 3, baseDelay: 0 },
+          middleware: [
+            {
+              beforeRequest: () => {
+                attempts++;
+              },
+            },
+          ],
+        }),
+      PluckFileError,
+    );
+    assert.equal(attempts, 1);
+  });
+
+  it('should not retry malformed data URLs', async () => {
+    for (const url of ['data:text/html', 'data:;base64,%%%']) {
+      let attempts = 0;
+      await assert.rejects(
+        () =>
+          pluck(url, {
+            retry: { attempts: 3, baseDelay: 0 },
+            middleware: [
+              {
+                beforeRequest: () => {
+                  attempts++;
+                },
+              },
+            ],
+          }),
+        PluckFileError,
+      );
+      assert.equal(attempts, 1);
+    }
+  });
+
+  it('should not follow redirects to local URLs', async () => {
+    await assert.rejects(
+      () =>
+        pluck('https://example.com/', {
+          transport: async () =>
+            new Response(null, { status: 302, headers: { location: 'data:,gotcha' } }),
+        }),
+      /Invalid redirect scheme/,
+    );
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Local resources for pluck(): `data:` and `file:` URLs.
+ *
+ * @remarks
+ * Both are answered without any network access and go through the same
+ * size limits and encoding detection as HTTP responses. `file:` URLs are
+ * only supported on Node.js, and pluck() only reads them with `allowFileUrls`.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import { PluckFileError } from './types.js';
+
+/**
+ * Content types guessed from file extensions (no charset, so the
+ * body is inspected for BOMs and declarations).
+ */
+const FILE_CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  xhtml: 'application/xhtml+xml',
+  xml: 'application/xml',
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  rdf: 'application/rdf+xml',
+  opml: 'text/x-opml',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+/**
+ * Check whether a URL is answered locally instead of over the network.
+ *
+ * @param url - Request URL
+ * @returns True for `data:` and `file:` URLs
+ */
+export function isLocalUrl(url: string): boolean {
+  return /^(?:data|file):/i.test(url.trimStart());
+}
+
+/**
+ * Answer a `data:` or `file:` URL with a synthetic response.
+ *
+ * @param url - `data:` or `file:` URL
+ * @param signal - Abort signal for file reads
+ * @returns 200 response with a Content-Type (and Content-Length) header
+ * @throws {PluckFileError} If the URL is malformed or the file can't be read
+ */
+export async function fetchLocalUrl(url: string, signal?: AbortSignal): Promise<Response> {
+  signal?.throwIfAborted();
+  return /^data:/i.test(url.trimStart()) ? fetchDataUrl(url) : fetchFileUrl(url, signal);
+}
+
+/**
+ * Decode a `data:` URL (RFC 2397, as processed by the Fetch standard).
+ */
+function fetchDataUrl(url: string): Response {
+  const input = url.trim().slice('data:'.length);
+  const comma = input.indexOf(',');
+  if (comma === -1) {
+    throw new PluckFileError(`Invalid data URL: ${truncateUrl(url)}`, url);
+  }
+
+  let mediaType = input.slice(0, comma).trim();
+  let body = percentDecode(input.slice(comma + 1));
+
+  const base64 = /;\s*base64\s*$/i.exec(mediaType);
+  if (base64) {
+    mediaType = mediaType.slice(0, base64.index).trim();
+    let binary = '';
+    for (const byte of body) {
+      binary += String.fromCharCode(byte);
+    }
+    body = decodeBase64(binary, url);
+  }
+
+  if (!mediaType || mediaType.startsWith(';')) {
+    mediaType = `text/plain${mediaType || ';charset=US-ASCII'}`;
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'content-type': mediaType, 'content-length': String(body.byteLength) },
+  });
+}
+
+/**
+ * Stream a `file:` URL from disk (Node.js only).
+ */
+async function fetchFileUrl(url: string, signal?: AbortSignal): Promise<Response> {
+  let fs: typeof import('node:fs');
+  let Readable: typeof import('node:stream').Readable;
+  let fileURLToPath: typeof import('node:url').fileURLToPath;
+  try {
+    fs = await import('node:fs');
+    ({ Readable } = await import('node:stream'));
+    ({ fileURLToPath } = await import('node:url'));
+  } catch (error) {
+    throw new PluckFileError(
+      'file: URLs are only supported on Node.js',
+      url,
+      undefined,
+      error as Error,
+    );
+  }
+
+  let path: string;
+  try {
+    path = fileURLToPath(url);
+  } catch (error) {
+    throw new PluckFileError(`Invalid file URL: ${url}`, url, undefined, error as Error);
+  }
+
+  // Open first so missing files and missing permissions fail here, not mid-stream
+  let handle: import('node:fs/promises').FileHandle;
+  let stats: import('node:fs').Stats;
+  try {
+    handle = await fs.promises.open(path, 'r');
+  } catch (error) {
+    throw unreadableFile(url, error as Error);
+  }
+  try {
+    stats = await handle.stat();
+  } catch (error) {
+    await handle.close();
+    throw unreadableFile(url, error as Error);
+  }
+  if (!stats.isFile()) {
+    await handle.close();
+    throw new PluckFileError(`Not a file: ${url}`, url);
+  }
+
+  const headers = new Headers({
+    'content-length': String(stats.size),
+    'last-modified': stats.mtime.toUTCString(),
+  });
+  const extension = /\.([a-z0-9]+)$/i.exec(path)?.[1].toLowerCase();
+  const contentType = extension ? FILE_CONTENT_TYPES[extension] : undefined;
+  if (contentType) {
+    headers.set('content-type', contentType);
+  }
+
+  const stream = fs.createReadStream(path, { fd: handle, signal });
+  const body = Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+  return new Response(body, { status: 200, headers });
+}
+
+/**
+ * Wrap a file system error, keeping its code (ENOENT, EACCES, ...).
+ */
+function unreadableFile(url: string, error: Error): PluckFileError {
+  const code = (error as { code?: string }).code;
+  return new PluckFileError(`Cannot read ${url}: ${error.message}`, url, code, error);
+}
+
+/**
+ * Percent-decode a string to bytes (non-ASCII characters as UTF-8).
+ */
+function percentDecode(input: string): Uint8Array<ArrayBuffer> {
+  const encoded = new TextEncoder().encode(input);
+  const bytes = new Uint8Array(encoded.length);
+  const isHex = (byte: number) =>
+    (byte >= 0x30 && byte <= 0x39) ||
+    (byte >= 0x41 && byte <= 0x46) ||
+    (byte >= 0x61 && byte <= 0x66);
+
+  let length = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] === 0x25 && isHex(encoded[i + 1]) && isHex(encoded[i + 2])) {
+      bytes[length++] = Number.parseInt(String.fromCharCode(encoded[i + 1], encoded[i + 2]), 16);
+      i += 2;
+    } else {
+      bytes[length++] = encoded[i];
+    }
+  }
+  return bytes.slice(0, length);
+}
+
+/**
+ * Decode forgiving base64 (whitespace allowed, padding optional).
+ */
+function decodeBase64(input: string, url: string): Uint8Array<ArrayBuffer> {
+  let binary: string;
+  try {
+    binary = atob(input.replace(/[\t\n\f\r ]/g, ''));
+  } catch (error) {
+    throw new PluckFileError(
+      `Invalid base64 in data URL: ${truncateUrl(url)}`,
+      url,
+      undefined,
+      error as Error,
+    );
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Shorten long data URLs for error messages.
+ */
+function truncateUrl(url: string): string {
+  return url.length > 64 ? `${url.slice(0, 64)}...` : url;
+}
@@ -0,0 +1,60 @@
+/**
+ * Meta refresh parsing tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseMetaRefresh, parseRefresh } from './meta-refresh.js';
+
+describe('parseRefresh', () => {
+  it('should parse delay and URL', () => {
+    assert.deepEqual(parseRefresh('0; url=/next'), { delay: 0, url: '/next' });
+    assert.deepEqual(parseRefresh('5;URL=https://example.com/'), {
+      delay: 5,
+      url: 'https://example.com/',
+    });
+  });
+
+  it('should accept quotes, commas and a missing url= prefix', () => {
+    assert.deepEqual(parseRefresh("0; url='/a b'"), { delay: 0, url: '/a b' });
+    assert.deepEqual(parseRefresh('0;url="/quoted'), { delay: 0, url: '/quoted' });
+    assert.deepEqual(parseRefresh('1, url=/comma'), { delay: 1, url: '/comma' });
+    assert.deepEqual(parseRefresh('0; /bare'), { delay: 0, url: '/bare' });
+  });
+
+  it('should treat a bare delay as reload', () => {
+    assert.deepEqual(parseRefresh('30'), { delay: 30, url: null });
+    assert.deepEqual(parseRefresh('2.5'), { delay: 2, url: null });
+  });
+
+  it('should reject invalid values', () => {
+    assert.equal(parseRefresh('soon'), null);
+    assert.equal(parseRefresh('url=/next'), null);
+    assert.equal(parseRefresh(''), null);
+  });
+});
+
+describe('parseMetaRefresh', () => {
+  it('should find the meta refresh tag', () => {
+    const html = `<html><head>
+      <meta charset="utf-8">
+      <meta content="0; url=/landing" http-equiv="refresh" />
+    </head></html>`;
+    assert.deepEqual(parseMetaRefresh(html), { delay: 0, url: '/landing' });
+  });
+
+  it('should handle unquoted attributes and character references', () => {
+    const html = '<META HTTP-EQUIV=Refresh CONTENT="0;URL=/p?a=1&amp;b=2">';
+    assert.deepEqual(parseMetaRefresh(html), { delay: 0, url: '/p?a=1&b=2' });
+  });
+
+  it('should skip comments and other meta tags', () => {
+    const html = `<!-- <meta http-equiv="refresh" content="0; url=/old"> -->
+      <meta http-equiv="content-type" content="text/html; charset=utf-8">
+      <meta name="refresh" content="0; url=/not-equiv">`;
+    assert.equal(parseMetaRefresh(html), null);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * HTML meta refresh and `Refresh` header parsing.
+ *
+ * @remarks
+ * JavaScript-free redirects used by old CMS landing pages and link shorteners:
+ * `<meta http-equiv="refresh" content="0; url=...">` and the non-standard but
+ * widely supported `Refresh: 0; url=...` response header.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Parsed refresh declaration.
+ */
+export interface RefreshDirective {
+  /** Delay in seconds before the refresh */
+  delay: number;
+  /** Target URL (as written, unresolved), null for a plain reload */
+  url: string | null;
+}
+
+/**
+ * Number of body bytes scanned for a meta refresh tag.
+ */
+export const META_REFRESH_SCAN_SIZE = 16 * 1024;
+
+/**
+ * Parse a refresh value (`content` attribute or `Refresh` header).
+ *
+ * @remarks
+ * Follows the HTML "shared declarative refresh steps" leniently: accepts
+ * `5`, `0; url=/next`, `0;URL='/next'`, `0, url=/next` and `0; /next`.
+ *
+ * @param value - Refresh value
+ * @returns Parsed directive, or null if the value is invalid
+ */
+export function parseRefresh(value: string): RefreshDirective | null {
+  const match = /^\s*(\d+)(?:\.[\d.]*)?\s*(?:[;,]\s*(.*))?$/s.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const delay = Number.parseInt(match[1], 10);
+  let url = (match[2] ?? '').trim();
+
+  // Strip optional "url=" prefix
+  const prefix = /^url\s*=\s*/i.exec(url);
+  if (prefix) {
+    url = url.slice(prefix[0].length);
+  }
+
+  // Strip matching quotes (the closing quote may be missing)
+  const quote = url[0];
+  if (quote === '"' || quote === "'") {
+    const end = url.indexOf(quote, 1);
+    url = end === -1 ? url.slice(1) : url.slice(1, end);
+  }
+
+  url = url.trim();
+  return { delay, url: url || null };
+}
+
+/**
+ * Find the meta refresh declaration in an HTML document.
+ *
+ * @remarks
+ * Uses light regex scanning, not full HTML parsing. Comments are skipped.
+ *
+ * @param html - HTML content (typically the first few KB)
+ * @returns Parsed directive of the first meta refresh tag, or null
+ */
+export function parseMetaRefresh(html: string): RefreshDirective | null {
+  const source = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const [tag] of source.matchAll(/<meta\b[^>]*>/gi)) {
+    const httpEquiv = getAttribute(tag, 'http-equiv');
+    if (httpEquiv?.trim().toLowerCase() !== 'refresh') {
+      continue;
+    }
+    const content = getAttribute(tag, 'content');
+    if (content !== null) {
+      return parseRefresh(decodeAttribute(content));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read an attribute value from a single tag.
+ */
+function getAttribute(tag: string, name: string): string | null {
+  const pattern = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i');
+  const match = pattern.exec(tag);
+  if (!match) {
+    return null;
+  }
+  return match[1] ?? match[2] ?? match[3];
+}
+
+/**
+ * Decode the character references that commonly appear in URLs.
+ */
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0*39;|&apos;/gi, "'")
+    .replace(/&#x0*2f;|&#0*47;/gi, '/');
+}
@@ -0,0 +1,207 @@
+/**
+ * Network policy tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  assertAllowedByNetworkPolicy,
+  isPrivateAddress,
+  parseIpAddress,
+} from './network-policy.js';
+import { PluckBlockedError } from './types.js';
+
+const resolveTo =
+  (...addresses: string[]) =>
+  async () =>
+    addresses;
+
+describe('parseIpAddress', () => {
+  it('should parse IPv4 addresses', () => {
+    assert.deepEqual(Array.from(parseIpAddress('192.168.1.2') ?? []), [192, 168, 1, 2]);
+  });
+
+  it('should parse compressed IPv6 addresses', () => {
+    const bytes = parseIpAddress('::1');
+    assert.equal(bytes?.length, 16);
+    assert.equal(bytes?.[15], 1);
+    assert.ok(bytes?.subarray(0, 15).every((byte) => byte === 0));
+  });
+
+  it('should parse bracketed IPv6 with embedded IPv4', () => {
+    const bytes = parseIpAddress('[::ffff:10.0.0.1]');
+    assert.deepEqual(Array.from(bytes?.subarray(10) ?? []), [0xff, 0xff, 10, 0, 0, 1]);
+  });
+
+  it('should strip IPv6 zone IDs', () => {
+    assert.equal(parseIpAddress('fe80::1%eth0')?.length, 16);
+  });
+
+  it('should reject invalid addresses', () => {
+    assert.equal(parseIpAddress('example.com'), null);
+    assert.equal(parseIpAddress('256.1.1.1'), null);
+    assert.equal(parseIpAddress('1.2.3'), null);
+    assert.equal(parseIpAddress('1::2::3'), null);
+    assert.equal(parseIpAddress('1:2:3:4:5:6:7:8:9'), null);
+    assert.equal(parseIpAddress('12345::'), null);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('should detect private and special IPv4 ranges', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.0.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '224.0.0.1',
+      '255.255.255.255',
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('should allow public IPv4 addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '100.128.0.1']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('should detect private and special IPv6 ranges', () => {
+    for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('should allow public IPv6 addresses', () => {
+    assert.equal(isPrivateAddress('2606:2800:220:1:248:1893:25c8:1946'), false);
+  });
+
+  it('should check the IPv4 address embedded in mapped and NAT64 addresses', () => {
+    assert.equal(isPrivateAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isPrivateAddress('::ffff:7f00:1'), true);
+    assert.equal(isPrivateAddress('64:ff9b::a9fe:a9fe'), true);
+    assert.equal(isPrivateAddress('::ffff:8.8.8.8'), false);
+  });
+});
+
+describe('assertAllowedByNetworkPolicy', () => {
+  it('should allow public targets', async () => {
+    await assertAllowedByNetworkPolicy('https://example.com/', {
+      lookup: resolveTo('93.184.216.34'),
+    });
+  });
+
+  it('should block private IP literals', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('http://169.254.169.254/latest/meta-data/', {}),
+      (error: unknown) =>
+        error instanceof PluckBlockedError &&
+        error.reason === 'address' &&
+        error.address === '169.254.169.254' &&
+        error.url === 'http://169.254.169.254/latest/meta-data/',
+    );
+  });
+
+  it('should block IPv6 literals', async () => {
+    await assert.rejects(assertAllowedByNetworkPolicy('http://[::1]:8080/', {}), PluckBlockedError);
+  });
+
+  it('should block alternative IPv4 notations', async () => {
+    // The URL parser normalizes these to 127.0.0.1
+    for (const url of ['http://2130706433/', 'http://0x7f.1/', 'http://127.1/']) {
+      await assert.rejects(assertAllowedByNetworkPolicy(url, {}), PluckBlockedError, url);
+    }
+  });
+
+  it('should block localhost without resolving it', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('http://localhost:3000/', {
+        lookup: () => assert.fail('should not resolve'),
+      }),
+      (error: unknown) => error instanceof PluckBlockedError && error.reason === 'hostname',
+    );
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('http://app.localhost/', {}),
+      PluckBlockedError,
+    );
+  });
+
+  it('should block hostnames resolving to private addresses', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('https://internal.example.com/', {
+        lookup: resolveTo('93.184.216.34', '10.0.0.5'),
+      }),
+      (error: unknown) => error instanceof PluckBlockedError && error.address === '10.0.0.5',
+    );
+  });
+
+  it('should skip DNS resolution when disabled', async () => {
+    await assertAllowedByNetworkPolicy('https://internal.example.com/', {
+      resolveDns: false,
+      lookup: resolveTo('10.0.0.5'),
+    });
+  });
+
+  it('should block when DNS resolution fails', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('https://unknown.example.com/', {
+        lookup: async () => {
+          throw new Error('ENOTFOUND');
+        },
+      }),
+      (error: unknown) => error instanceof PluckBlockedError && error.reason === 'hostname',
+    );
+  });
+
+  it('should block non-HTTP schemes', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('file:///etc/passwd', {}),
+      (error: unknown) => error instanceof PluckBlockedError && error.reason === 'protocol',
+    );
+  });
+
+  it('should allow listed CIDR ranges and hostnames', async () => {
+    await assertAllowedByNetworkPolicy('http://10.1.2.3/', { allow: ['10.1.0.0/16'] });
+    await assertAllowedByNetworkPolicy('http://[fd00::1]/', { allow: ['fd00::/8'] });
+    await assertAllowedByNetworkPolicy('http://api.internal.test/', {
+      allow: ['*.internal.test'],
+      lookup: resolveTo('10.0.0.1'),
+    });
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('http://10.2.0.1/', { allow: ['10.1.0.0/16'] }),
+      PluckBlockedError,
+    );
+  });
+
+  it('should block listed CIDR ranges and hostnames', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('http://93.184.216.34/', { deny: ['93.184.216.0/24'] }),
+      PluckBlockedError,
+    );
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('https://tracker.example.com/', {
+        deny: ['*.example.com'],
+        lookup: resolveTo('93.184.216.34'),
+      }),
+      (error: unknown) => error instanceof PluckBlockedError && error.reason === 'hostname',
+    );
+  });
+
+  it('should let deny take precedence over allow', async () => {
+    await assert.rejects(
+      assertAllowedByNetworkPolicy('http://10.1.2.3/', {
+        allow: ['10.0.0.0/8'],
+        deny: ['10.1.2.3'],
+      }),
+      PluckBlockedError,
+    );
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Network policy for pluck() (SSRF protection).
+ *
+ * @remarks
+ * Blocks requests to private, loopback, link-local and other non-public
+ * addresses, with allow/deny lists of CIDR ranges and hostnames.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import type { PluckNetworkPolicy } from './types.js';
+import { PluckBlockedError } from './types.js';
+
+/**
+ * An IP range in CIDR notation.
+ */
+interface Cidr {
+  bytes: Uint8Array;
+  prefix: number;
+}
+
+/**
+ * Address ranges that are not reachable on the public internet.
+ */
+const NON_PUBLIC_RANGES: Cidr[] = [
+  // IPv4
+  '0.0.0.0/8', // "This" network
+  '10.0.0.0/8', // Private (RFC 1918)
+  '100.64.0.0/10', // Carrier-grade NAT
+  '127.0.0.0/8', // Loopback
+  '169.254.0.0/16', // Link-local (cloud metadata endpoints)
+  '172.16.0.0/12', // Private (RFC 1918)
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.0.2.0/24', // Documentation
+  '192.168.0.0/16', // Private (RFC 1918)
+  '198.18.0.0/15', // Benchmarking
+  '198.51.100.0/24', // Documentation
+  '203.0.113.0/24', // Documentation
+  '224.0.0.0/4', // Multicast
+  '240.0.0.0/4', // Reserved and broadcast
+  // IPv6
+  '::/128', // Unspecified
+  '::1/128', // Loopback
+  '100::/64', // Discard
+  '2001:db8::/32', // Documentation
+  'fc00::/7', // Unique local
+  'fe80::/10', // Link-local
+  'fec0::/10', // Site-local (deprecated)
+  'ff00::/8', // Multicast
+].map((range) => parseCidr(range) as Cidr);
+
+/**
+ * Parse an IPv4 or IPv6 address into its bytes.
+ *
+ * @param value - IP address, optionally in brackets (`[::1]`)
+ * @returns 4 or 16 bytes, or null if the value is not an IP address
+ */
+export function parseIpAddress(value: string): Uint8Array | null {
+  const address = value.replace(/^\[(.*)\]$/, '$1');
+  return address.includes(':') ? parseIPv6(address) : parseIPv4(address);
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise non-public.
+ *
+ * @remarks
+ * IPv4-mapped (`::ffff:127.0.0.1`) and NAT64 (`64:ff9b::a00:1`) IPv6 addresses
+ * are checked as the IPv4 address they embed.
+ *
+ * @param address - IP address
+ * @returns True if the address is not publicly routable (or not an IP address)
+ *
+ * @example
+ * ```typescript
+ * isPrivateAddress('169.254.169.254'); // true
+ * isPrivateAddress('::ffff:10.0.0.1'); // true
+ * isPrivateAddress('93.184.216.34'); // false
+ * ```
+ */
+export function isPrivateAddress(address: string): boolean {
+  const bytes = parseIpAddress(address);
+  if (!bytes) {
+    return true;
+  }
+  const unwrapped = unwrapIPv4(bytes);
+  return NON_PUBLIC_RANGES.some((range) => matchesCidr(unwrapped, range));
+}
+
+/**
+ * Throw if a URL is blocked by the network policy.
+ *
+ * @remarks
+ * Order of checks: scheme (http/https only), denied hostnames, allowed
+ * hostnames, then every address of the host (the IP literal, or all DNS
+ * results): denied ranges block, allowed ranges pass, non-public addresses block.
+ * If DNS resolution fails the check passes and the request fails on its own.
+ *
+ * @param url - URL about to be requested
+ * @param policy - Network policy
+ * @throws {PluckBlockedError} If the URL is blocked
+ */
+export async function assertAllowedByNetworkPolicy(
+  url: string,
+  policy: PluckNetworkPolicy,
+): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new PluckBlockedError(`Blocked non-HTTP URL: ${url}`, url, 'protocol');
+  }
+
+  const hostname = parsed.hostname
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '')
+    .toLowerCase();
+  const deny = compileTargets(policy.deny);
+  const allow = compileTargets(policy.allow);
+
+  if (deny.hostnames.some((pattern) => matchesHostname(hostname, pattern))) {
+    throw new PluckBlockedError(`Blocked hostname: ${hostname}`, url, 'hostname');
+  }
+  if (allow.hostnames.some((pattern) => matchesHostname(hostname, pattern))) {
+    return;
+  }
+
+  let addresses: string[];
+  if (parseIpAddress(hostname)) {
+    addresses = [hostname];
+  } else if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    throw new PluckBlockedError(`Blocked hostname: ${hostname}`, url, 'hostname');
+  } else if (policy.resolveDns === false) {
+    addresses = [];
+  } else {
+    // Fail closed: a hostname that can't be checked is not requested
+    try {
+      addresses = (await (policy.lookup ?? lookupAddresses)(hostname)) ?? [];
+    } catch (error) {
+      throw new PluckBlockedError(
+        `Blocked unresolvable hostname: ${hostname} (${(error as Error).message})`,
+        url,
+        'hostname',
+      );
+    }
+  }
+
+  for (const address of addresses) {
+    const bytes = parseIpAddress(address);
+    if (!bytes) continue;
+    const unwrapped = unwrapIPv4(bytes);
+
+    if (deny.ranges.some((range) => matchesCidr(unwrapped, range))) {
+      throw new PluckBlockedError(`Blocked address ${address} for ${url}`, url, 'address', address);
+    }
+    if (allow.ranges.some((range) => matchesCidr(unwrapped, range))) {
+      continue;
+    }
+    if (isPrivateAddress(address)) {
+      throw new PluckBlockedError(
+        `Blocked private address ${address} for ${url}`,
+        url,
+        'address',
+        address,
+      );
+    }
+  }
+}
+
+/**
+ * Resolve all addresses of a hostname (Node.js only).
+ *
+ * @returns The addresses, or null where DNS is not available
+ */
+async function lookupAddresses(hostname: string): Promise<string[] | null> {
+  let lookup: typeof import('node:dns/promises').lookup;
+  try {
+    ({ lookup } = await import('node:dns/promises'));
+  } catch {
+    return null;
+  }
+  const results = await lookup(hostname, { all: true, verbatim: true });
+  return results.map((result) => result.address);
+}
+
+/**
+ * Split allow/deny entries into CIDR ranges and hostname patterns.
+ */
+function compileTargets(entries: string[] = []): { ranges: Cidr[]; hostnames: string[] } {
+  const ranges: Cidr[] = [];
+  const hostnames: string[] = [];
+  for (const entry of entries) {
+    const range = parseCidr(entry.trim());
+    if (range) {
+      ranges.push(range);
+    } else {
+      hostnames.push(entry.trim().replace(/\.$/, '').toLowerCase());
+    }
+  }
+  return { ranges, hostnames };
+}
+
+/**
+ * Match a hostname against an exact name or a `*.` wildcard pattern.
+ */
+function matchesHostname(hostname: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+/**
+ * Parse a CIDR range; a plain IP address is a single-address range.
+ */
+function parseCidr(value: string): Cidr | null {
+  const [address, prefixText, ...rest] = value.split('/');
+  if (rest.length > 0) {
+    return null;
+  }
+  const bytes = parseIpAddress(address);
+  if (!bytes) {
+    return null;
+  }
+
+  if (prefixText === undefined) {
+    const unwrapped = unwrapIPv4(bytes);
+    return { bytes: unwrapped, prefix: unwrapped.length * 8 };
+  }
+  const bits = bytes.length * 8;
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) {
+    return null;
+  }
+  return { bytes, prefix: Number(prefixText) };
+}
+
+/**
+ * Check whether an address lies within a CIDR range of the same family.
+ */
+function matchesCidr(bytes: Uint8Array, range: Cidr): boolean {
+  if (bytes.length !== range.bytes.length) {
+    return false;
+  }
+  const fullBytes = Math.floor(range.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (bytes[i] !== range.bytes[i]) {
+      return false;
+    }
+  }
+  const remainingBits = range.prefix % 8;
+  if (remainingBits === 0) {
+    return true;
+  }
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (bytes[fullBytes] & mask) === (range.bytes[fullBytes] & mask);
+}
+
+/**
+ * Return the embedded IPv4 address of IPv4-mapped and NAT64 IPv6 addresses.
+ */
+function unwrapIPv4(bytes: Uint8Array): Uint8Array {
+  if (bytes.length !== 16) {
+    return bytes;
+  }
+  const isMapped =
+    bytes.subarray(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  const isNat64 =
+    bytes[0] === 0x00 &&
+    bytes[1] === 0x64 &&
+    bytes[2] === 0xff &&
+    bytes[3] === 0x9b &&
+    bytes.subarray(4, 12).every((byte) => byte === 0);
+  return isMapped || isNat64 ? bytes.slice(12) : bytes;
+}
+
+/**
+ * Parse a dotted-quad IPv4 address.
+ */
+function parseIPv4(value: string): Uint8Array | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+  const bytes = new Uint8Array(4);
+  for (let i = 0; i < 4; i++) {
+    if (!/^\d{1,3}$/.test(parts[i]) || Number(parts[i]) > 255) {
+      return null;
+    }
+    bytes[i] = Number(parts[i]);
+  }
+  return bytes;
+}
+
+/**
+ * Parse an IPv6 address (with `::` compression, embedded IPv4 and zone IDs).
+ */
+function parseIPv6(value: string): Uint8Array | null {
+  let address = value.replace(/%.*$/, '');
+  if (!/^[0-9a-f:.]+$/i.test(address)) {
+    return null;
+  }
+
+  // Rewrite an embedded IPv4 tail (::ffff:1.2.3.4) as two hex groups
+  const lastColon = address.lastIndexOf(':');
+  if (address.includes('.', lastColon)) {
+    const ipv4 = parseIPv4(address.slice(lastColon + 1));
+    if (!ipv4) {
+      return null;
+    }
+    const high = ((ipv4[0] << 8) | ipv4[1]).toString(16);
+    const low = ((ipv4[2] << 8) | ipv4[3]).toString(16);
+    address = `${address.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [
+    ...head,
+    ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'),
+    ...tail,
+  ];
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 8; i++) {
+    if (!/^[0-9a-f]{1,4}$/i.test(groups[i])) {
+      return null;
+    }
+    const group = Number.parseInt(groups[i], 16);
+    bytes[i * 2] = group >> 8;
+    bytes[i * 2 + 1] = group & 0xff;
+  }
+  return bytes;
+}
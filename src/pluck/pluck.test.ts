@@ -10,13 +10,17 @@
 
 import { strict as assert } from 'node:assert';
 import { after, before, describe, it } from 'node:test';
-import { pluck } from './pluck.js';
+import { MemoryCacheStore } from './cache.js';
+import { CookieJar } from './cookie-jar.js';
+import { createPluck, pluck } from './pluck.js';
 import {
+  PluckBlockedError,
   PluckContentTypeError,
   PluckEncodingError,
   PluckHttpError,
   PluckNetworkError,
   PluckRedirectError,
+  PluckRobotsError,
   PluckSizeError,
   PluckTimeoutError,
 } from './types.js';
@@ -75,6 +79,21 @@ function createMockResponse(
   } as Response;
 }
 
+// Helper to create an endless streamed body of fixed-size chunks
+function createEndlessStream(chunkSize: number) {
+  const state = { pulled: 0, cancelled: false };
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      state.pulled++;
+      controller.enqueue(new Uint8Array(chunkSize).fill(120));
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return { stream, state };
+}
+
 describe('pluck - basic usage', () => {
   it('should fetch HTML successfully', async () => {
     mockFetch = async () => createMockResponse('<html>Hello World</html>');
@@ -276,6 +295,30 @@ describe('pluck - redirects', () => {
     assert.equal(response.redirectChain.length, 0);
   });
 
+  it('should return redirects as-is with default options if followRedirects=false', async () => {
+    mockFetch = async () =>
+      createMockResponse('', {
+        status: 301,
+        statusText: 'Moved Permanently',
+        headers: { location: 'https://example.com/other' },
+      });
+
+    const response = await pluck('https://example.com/', { followRedirects: false });
+
+    assert.equal(response.status, 301);
+    assert.equal(response.headers.get('location'), 'https://example.com/other');
+  });
+
+  it('should still throw on HTTP errors if followRedirects=false', async () => {
+    mockFetch = async () =>
+      createMockResponse('Not Found', { status: 404, statusText: 'Not Found' });
+
+    await assert.rejects(
+      async () => pluck('https://example.com/', { followRedirects: false }),
+      PluckHttpError,
+    );
+  });
+
   it('should reject redirects to non-HTTP(S) schemes', async () => {
     mockFetch = async () =>
       createMockResponse('', {
@@ -287,6 +330,167 @@ describe('pluck - redirects', () => {
   });
 });
 
+describe('pluck - meta refresh', () => {
+  const pages: Record<string, Response | (() => Response)> = {};
+  const route: MockFetchFn = async (input) => {
+    const page = pages[input.toString()];
+    assert.ok(page, `unexpected request: ${input}`);
+    return typeof page === 'function' ? page() : page;
+  };
+
+  function html(body: string, url: string, headers: Record<string, string> = {}) {
+    return () =>
+      createMockResponse(`<html><head>${body}</head><body>page</body></html>`, {
+        url,
+        headers: { 'content-type': 'text/html', ...headers },
+      });
+  }
+
+  it('should ignore meta refresh by default', async () => {
+    pages['https://example.com/'] = html(
+      '<meta http-equiv="refresh" content="0; url=/landing">',
+      'https://example.com/',
+    );
+    mockFetch = route;
+
+    const response = await pluck('https://example.com/');
+
+    assert.equal(response.finalUrl, 'https://example.com/');
+    assert.deepEqual(response.redirectKinds, []);
+  });
+
+  it('should follow meta refresh tags and tag the hops', async () => {
+    pages['https://example.com/'] = () =>
+      createMockResponse('', { status: 301, headers: { location: '/short' } });
+    pages['https://example.com/short'] = html(
+      '<META HTTP-EQUIV="Refresh" CONTENT="0;URL=\'https://target.example/article?a=1&amp;b=2\'">',
+      'https://example.com/short',
+    );
+    pages['https://target.example/article?a=1&b=2'] = html(
+      '<title>Article</title>',
+      'https://target.example/article?a=1&b=2',
+    );
+    mockFetch = route;
+
+    const response = await pluck('https://example.com/', { followMetaRefresh: true });
+
+    assert.equal(response.finalUrl, 'https://target.example/article?a=1&b=2');
+    assert.deepEqual(response.redirectChain, ['https://example.com/', 'https://example.com/short']);
+    assert.deepEqual(response.redirectKinds, ['http', 'meta-refresh']);
+    assert.match(await response.textUtf8(), /Article/);
+  });
+
+  it('should follow Refresh headers', async () => {
+    pages['https://example.com/'] = () =>
+      createMockResponse('moved', { headers: { refresh: '0; url=/next' } });
+    pages['https://example.com/next'] = html('', 'https://example.com/next');
+    mockFetch = route;
+
+    const response = await pluck('https://example.com/', { followMetaRefresh: true });
+
+    assert.equal(response.finalUrl, 'https://example.com/next');
+    assert.deepEqual(response.redirectKinds, ['refresh-header']);
+  });
+
+  it('should ignore reloads, long delays and non-HTTP targets', async () => {
+    mockFetch = route;
+    for (const tag of [
+      '<meta http-equiv="refresh" content="30">',
+      '<meta http-equiv="refresh" content="0; url=/same#top">',
+      '<meta http-equiv="refresh" content="300; url=/other">',
+      '<meta http-equiv="refresh" content="0; url=javascript:alert(1)">',
+      '<!-- <meta http-equiv="refresh" content="0; url=/other"> -->',
+    ]) {
+      pages['https://example.com/same'] = html(tag, 'https://example.com/same');
+      const response = await pluck('https://example.com/same', { followMetaRefresh: true });
+      assert.equal(response.finalUrl, 'https://example.com/same', tag);
+    }
+  });
+
+  it('should respect maxDelay', async () => {
+    pages['https://example.com/'] = html(
+      '<meta http-equiv="refresh" content="30; url=/later">',
+      'https://example.com/',
+    );
+    pages['https://example.com/later'] = html('', 'https://example.com/later');
+    mockFetch = route;
+
+    const response = await pluck('https://example.com/', { followMetaRefresh: { maxDelay: 60 } });
+
+    assert.equal(response.finalUrl, 'https://example.com/later');
+  });
+
+  it('should share loop detection with HTTP redirects', async () => {
+    pages['https://example.com/a'] = () =>
+      createMockResponse('', { status: 302, headers: { location: '/b' } });
+    pages['https://example.com/b'] = html(
+      '<meta http-equiv="refresh" content="0; url=/a">',
+      'https://example.com/b',
+    );
+    mockFetch = route;
+
+    await assert.rejects(
+      () => pluck('https://example.com/a', { followMetaRefresh: true }),
+      /Redirect loop detected/,
+    );
+  });
+
+  it('should share the maxRedirects budget', async () => {
+    pages['https://example.com/1'] = html(
+      '<meta http-equiv="refresh" content="0; url=/2">',
+      'https://example.com/1',
+    );
+    pages['https://example.com/2'] = () =>
+      createMockResponse('', { status: 302, headers: { location: '/3' } });
+    pages['https://example.com/3'] = html('', 'https://example.com/3');
+    mockFetch = route;
+
+    await assert.rejects(
+      () => pluck('https://example.com/1', { followMetaRefresh: true, maxRedirects: 1 }),
+      PluckRedirectError,
+    );
+  });
+
+  it('should not scan non-HTML bodies', async () => {
+    pages['https://example.com/feed'] = () =>
+      createMockResponse('<meta http-equiv="refresh" content="0; url=/other">', {
+        url: 'https://example.com/feed',
+        headers: { 'content-type': 'application/rss+xml' },
+      });
+    mockFetch = route;
+
+    const response = await pluck('https://example.com/feed', { followMetaRefresh: true });
+
+    assert.equal(response.finalUrl, 'https://example.com/feed');
+  });
+
+  it('should pass the redirect kind to middleware', async () => {
+    pages['https://example.com/'] = html(
+      '<meta http-equiv="refresh" content="0; url=/next">',
+      'https://example.com/',
+    );
+    pages['https://example.com/next'] = html('', 'https://example.com/next');
+    mockFetch = route;
+    const kinds: string[] = [];
+
+    await pluck('https://example.com/', {
+      followMetaRefresh: true,
+      middleware: [{ onRedirect: (redirect) => void kinds.push(redirect.kind) }],
+    });
+
+    assert.deepEqual(kinds, ['meta-refresh']);
+  });
+
+  it('should keep the body of streamed pages intact', async () => {
+    const body = `<meta http-equiv="refresh" content="5">${'x'.repeat(40000)}`;
+    mockFetch = async () => new Response(body, { headers: { 'content-type': 'text/html' } });
+
+    const response = await pluck('https://example.com/', { followMetaRefresh: true });
+
+    assert.equal(await response.textUtf8(), body);
+  });
+});
+
 describe('pluck - timeouts', () => {
   it('should timeout slow requests', async () => {
     mockFetch = async (_input, init) => {
@@ -342,6 +546,17 @@ describe('pluck - size limits', () => {
     );
   });
 
+  it('should cancel the body when Content-Length exceeds the limit', async () => {
+    const { stream, state } = createEndlessStream(100);
+    mockFetch = async () => new Response(stream, { headers: { 'content-length': '100000' } });
+
+    await assert.rejects(
+      async () => pluck('https://example.com/', { maxSize: 50 }),
+      PluckSizeError,
+    );
+    assert.ok(state.cancelled);
+  });
+
   it('should enforce size limit on actual content', async () => {
     const largeContent = 'x'.repeat(1000);
     mockFetch = async () => createMockResponse(largeContent);
@@ -375,6 +590,102 @@ describe('pluck - size limits', () => {
 
     assert.equal(response.status, 200);
   });
+
+  it('should stop reading streamed bodies once the limit is exceeded', async () => {
+    const { stream, state } = createEndlessStream(100);
+    mockFetch = async () => new Response(stream, { headers: { 'content-type': 'text/plain' } });
+
+    await assert.rejects(
+      async () => pluck('https://example.com/', { maxSize: 1000 }),
+      (error: unknown) => error instanceof PluckSizeError && error.actualSize === 1100,
+    );
+    assert.ok(state.pulled <= 12);
+    assert.ok(state.cancelled);
+  });
+
+  it('should truncate oversized bodies in truncate mode', async () => {
+    const { stream, state } = createEndlessStream(100);
+    mockFetch = async () => new Response(stream, { headers: { 'content-type': 'text/plain' } });
+
+    const response = await pluck('https://example.com/', { maxSize: 250, truncate: true });
+
+    assert.equal(response.truncated, true);
+    assert.equal((await response.textUtf8()).length, 250);
+    assert.ok(state.cancelled);
+  });
+
+  it('should truncate despite a too large Content-Length in truncate mode', async () => {
+    mockFetch = async () =>
+      createMockResponse('x'.repeat(100), {
+        headers: { 'content-length': '100' },
+      });
+
+    const response = await pluck('https://example.com/', { maxSize: 50, truncate: true });
+
+    assert.equal(response.truncated, true);
+    assert.equal(await response.textUtf8(), 'x'.repeat(50));
+  });
+
+  it('should not cut multi-byte characters when truncating', async () => {
+    const body = `${'x'.repeat(200)}€€`;
+    mockFetch = async () =>
+      createMockResponse(body, { headers: { 'content-type': 'text/plain; charset=utf-8' } });
+
+    for (const maxSize of [201, 202]) {
+      const response = await pluck('https://example.com/', { maxSize, truncate: true });
+
+      assert.equal(response.truncated, true);
+      assert.equal(await response.textUtf8(), 'x'.repeat(200));
+    }
+    const response = await pluck('https://example.com/', { maxSize: 205, truncate: true });
+    assert.equal(await response.textUtf8(), `${'x'.repeat(200)}€`);
+  });
+
+  it('should not mark complete bodies as truncated', async () => {
+    mockFetch = async () => new Response('Small content');
+
+    const response = await pluck('https://example.com/', { maxSize: 1000, truncate: true });
+
+    assert.equal(response.truncated, false);
+    assert.equal(await response.textUtf8(), 'Small content');
+  });
+
+  it('should report download progress', async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('Hello, '));
+        controller.enqueue(encoder.encode('World!'));
+        controller.close();
+      },
+    });
+    mockFetch = async () => new Response(stream, { headers: { 'content-length': '13' } });
+    const progress: Array<{ loaded: number; total: number | null }> = [];
+
+    await pluck('https://example.com/', {
+      onProgress: ({ loaded, total }) => progress.push({ loaded, total }),
+    });
+
+    assert.deepEqual(progress, [
+      { loaded: 7, total: 13 },
+      { loaded: 13, total: 13 },
+    ]);
+  });
+
+  it('should not cache truncated responses', async () => {
+    const cacheStore = new MemoryCacheStore();
+    mockFetch = async () =>
+      new Response('x'.repeat(100), { headers: { 'cache-control': 'max-age=60' } });
+
+    const response = await pluck('https://example.com/', {
+      cacheStore,
+      maxSize: 10,
+      truncate: true,
+    });
+
+    assert.equal(response.truncated, true);
+    assert.equal(cacheStore.size, 0);
+  });
 });
 
 describe('pluck - HTTP errors', () => {
@@ -529,6 +840,66 @@ describe('pluck - encoding detection', () => {
     assert.equal(response.detectedEncoding, 'utf-8');
   });
 
+  it('should report the encoding source and confidence', async () => {
+    mockFetch = async () =>
+      createMockResponse('<html>Hello</html>', {
+        headers: { 'content-type': 'text/html; charset=utf-8' },
+      });
+
+    const response = await pluck('https://example.com/');
+
+    assert.equal(response.encodingSource, 'header');
+    assert.equal(response.encodingConfidence, 1);
+  });
+
+  it('should sniff undeclared legacy encodings', async () => {
+    // "<p>Привет, мир!</p>" in windows-1251
+    const buffer = new Uint8Array([
+      ...Array.from(new TextEncoder().encode('<p>')),
+      0xcf,
+      0xf0,
+      0xe8,
+      0xe2,
+      0xe5,
+      0xf2,
+      0x2c,
+      0x20,
+      0xec,
+      0xe8,
+      0xf0,
+      0x21,
+      ...Array.from(new TextEncoder().encode('</p>')),
+    ]).buffer;
+    mockFetch = async () =>
+      createMockResponse(buffer, { headers: { 'content-type': 'text/html' } });
+
+    const response = await pluck('https://example.com/');
+
+    assert.equal(response.detectedEncoding, 'windows-1251');
+    assert.equal(response.encodingSource, 'sniffed');
+    assert.ok(response.encodingConfidence > 0.5 && response.encodingConfidence < 1);
+    assert.equal(await response.textUtf8(), '<p>Привет, мир!</p>');
+  });
+
+  it('should sniff when the declared encoding is wrong', async () => {
+    // "<p>Café crème</p>" in windows-1252, served as UTF-8
+    const buffer = new Uint8Array([
+      ...Array.from(new TextEncoder().encode('<p>Caf')),
+      0xe9,
+      ...Array.from(new TextEncoder().encode(' cr')),
+      0xe8,
+      ...Array.from(new TextEncoder().encode('me</p>')),
+    ]).buffer;
+    mockFetch = async () =>
+      createMockResponse(buffer, { headers: { 'content-type': 'text/html; charset=utf-8' } });
+
+    const response = await pluck('https://example.com/');
+
+    assert.equal(response.detectedEncoding, 'windows-1252');
+    assert.equal(response.encodingSource, 'sniffed');
+    assert.equal(await response.textUtf8(), '<p>Café crème</p>');
+  });
+
   it('should throw on invalid encoding if validateEncoding=true', async () => {
     mockFetch = async () =>
       createMockResponse('Hello', {
@@ -606,6 +977,90 @@ describe('pluck - headers', () => {
   });
 });
 
+describe('pluck - timing', () => {
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('should record one hop per request', async () => {
+    mockFetch = async (input) => {
+      await delay(20);
+      if (input.toString() === 'https://example.com/') {
+        return createMockResponse('', { status: 301, headers: { location: '/final' } });
+      }
+      return createMockResponse('Final', { url: 'https://example.com/final' });
+    };
+
+    const response = await pluck('https://example.com/');
+    const { hops } = response.timing;
+
+    assert.deepEqual(
+      hops.map((hop) => [hop.url, hop.status]),
+      [
+        ['https://example.com/', 301],
+        ['https://example.com/final', 200],
+      ],
+    );
+    for (const hop of hops) {
+      assert.ok(hop.ttfb >= 15, `ttfb ${hop.ttfb}`);
+      assert.ok(hop.duration >= hop.ttfb);
+      assert.ok(hop.start >= response.timing.start && hop.start <= response.timing.end);
+    }
+    assert.ok(hops[1].start >= hops[0].start + hops[0].duration);
+  });
+
+  it('should measure the body download', async () => {
+    const encoder = new TextEncoder();
+    mockFetch = async () =>
+      new Response(
+        new ReadableStream<Uint8Array>({
+          async start(controller) {
+            controller.enqueue(encoder.encode('Hello, '));
+            await delay(30);
+            controller.enqueue(encoder.encode('World!'));
+            controller.close();
+          },
+        }),
+      );
+
+    const response = await pluck('https://example.com/');
+    const { timing } = response;
+
+    assert.ok(timing.downloadDuration >= 25, `download ${timing.downloadDuration}`);
+    assert.ok(timing.hops[0].duration >= timing.downloadDuration);
+    assert.ok(timing.decodeDuration >= 0);
+    assert.equal(timing.decodedBytes, 13);
+    assert.equal(timing.encodedBytes, 13);
+  });
+
+  it('should report compressed sizes from Content-Length', async () => {
+    mockFetch = async () =>
+      createMockResponse('x'.repeat(1000), {
+        headers: { 'content-encoding': 'gzip', 'content-length': '29' },
+      });
+    const compressed = await pluck('https://example.com/');
+    assert.equal(compressed.timing.encodedBytes, 29);
+    assert.equal(compressed.timing.decodedBytes, 1000);
+
+    mockFetch = async () =>
+      createMockResponse('x'.repeat(1000), { headers: { 'content-encoding': 'br' } });
+    const unknown = await pluck('https://example.com/');
+    assert.equal(unknown.timing.encodedBytes, null);
+  });
+
+  it('should report no hops for cache hits', async () => {
+    const cacheStore = new MemoryCacheStore();
+    mockFetch = async () =>
+      createMockResponse('cached', { headers: { 'cache-control': 'max-age=60' } });
+    await pluck('https://example.com/', { cacheStore });
+
+    const response = await pluck('https://example.com/', { cacheStore });
+
+    assert.equal(response.cacheStatus, 'hit');
+    assert.deepEqual(response.timing.hops, []);
+    assert.equal(response.timing.encodedBytes, 0);
+    assert.equal(response.timing.decodedBytes, 6);
+  });
+});
+
 describe('pluck - network errors', () => {
   it('should convert TypeError to PluckNetworkError', async () => {
     mockFetch = async () => {
@@ -677,3 +1132,1014 @@ describe('pluck - edge cases', () => {
     assert.equal(receivedMethod, 'POST');
   });
 });
+
+describe('pluck - retries', () => {
+  it('should not retry by default', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      throw new TypeError('fetch failed');
+    };
+
+    await assert.rejects(async () => pluck('https://example.com/'), PluckNetworkError);
+    assert.equal(callCount, 1);
+  });
+
+  it('should retry network errors and record history', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      if (callCount < 3) {
+        throw new TypeError('fetch failed');
+      }
+      return createMockResponse('OK');
+    };
+
+    const response = await pluck('https://example.com/', {
+      retry: { attempts: 3, baseDelay: 1, jitter: false },
+    });
+
+    assert.equal(callCount, 3);
+    assert.equal(response.retries.length, 2);
+    assert.equal(response.retries[0].attempt, 1);
+    assert.match(response.retries[0].error ?? '', /fetch failed/);
+    assert.equal(response.retries[1].delay, 2);
+  });
+
+  it('should retry 503 responses', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      if (callCount === 1) {
+        return createMockResponse('Unavailable', { status: 503, statusText: 'Unavailable' });
+      }
+      return createMockResponse('OK');
+    };
+
+    const response = await pluck('https://example.com/', { retry: { baseDelay: 1 } });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.retries.length, 1);
+    assert.equal(response.retries[0].status, 503);
+  });
+
+  it('should not retry non-retryable status codes', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      return createMockResponse('Not Found', { status: 404, statusText: 'Not Found' });
+    };
+
+    await assert.rejects(
+      async () => pluck('https://example.com/', { retry: { baseDelay: 1 } }),
+      PluckHttpError,
+    );
+    assert.equal(callCount, 1);
+  });
+
+  it('should honour Retry-After header', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      if (callCount === 1) {
+        return createMockResponse('', {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'retry-after': '0' },
+        });
+      }
+      return createMockResponse('OK');
+    };
+
+    const response = await pluck('https://example.com/', { retry: { baseDelay: 5000 } });
+
+    assert.equal(response.retries.length, 1);
+    assert.equal(response.retries[0].retryAfter, true);
+    assert.equal(response.retries[0].delay, 0);
+  });
+
+  it('should throw the last error after exhausting attempts', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      return createMockResponse('Error', { status: 500, statusText: 'Server Error' });
+    };
+
+    await assert.rejects(
+      async () => pluck('https://example.com/', { retry: { attempts: 2, baseDelay: 1 } }),
+      PluckHttpError,
+    );
+    assert.equal(callCount, 2);
+  });
+
+  it('should not retry non-idempotent methods by default', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      throw new TypeError('fetch failed');
+    };
+
+    await assert.rejects(
+      async () =>
+        pluck('https://example.com/', { method: 'POST', body: 'x', retry: { baseDelay: 1 } }),
+      PluckNetworkError,
+    );
+    assert.equal(callCount, 1);
+  });
+
+  it('should retry non-idempotent methods when opted in', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      return callCount === 1
+        ? createMockResponse('Unavailable', { status: 503, statusText: 'Unavailable' })
+        : createMockResponse('OK');
+    };
+
+    const response = await pluck('https://example.com/', {
+      method: 'PATCH',
+      body: 'x',
+      retry: { baseDelay: 1, methods: ['PATCH'] },
+    });
+
+    assert.equal(callCount, 2);
+    assert.equal(response.retries.length, 1);
+  });
+
+  it('should return the last response when throwOnHttpError=false', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      return createMockResponse('Error', { status: 502, statusText: 'Bad Gateway' });
+    };
+
+    const response = await pluck('https://example.com/', {
+      retry: { attempts: 3, baseDelay: 1 },
+      throwOnHttpError: false,
+    });
+
+    assert.equal(callCount, 3);
+    assert.equal(response.status, 502);
+    assert.equal(response.retries.length, 2);
+  });
+
+  it('should stop retrying when the signal aborts', async () => {
+    const controller = new AbortController();
+    mockFetch = async () => {
+      controller.abort(new Error('cancelled'));
+      throw new TypeError('fetch failed');
+    };
+
+    await assert.rejects(
+      async () =>
+        pluck('https://example.com/', {
+          retry: { attempts: 5, baseDelay: 10000 },
+          signal: controller.signal,
+        }),
+      /cancelled/,
+    );
+  });
+});
+
+describe('pluck - cache', () => {
+  it('should report bypass without a cache store', async () => {
+    mockFetch = async () => createMockResponse('OK');
+
+    const response = await pluck('https://example.com/');
+
+    assert.equal(response.cacheStatus, 'bypass');
+  });
+
+  it('should serve fresh entries without a request', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      return createMockResponse('<rss>fresh</rss>', {
+        headers: { 'cache-control': 'max-age=300', 'content-type': 'application/rss+xml' },
+      });
+    };
+    const cacheStore = new MemoryCacheStore();
+
+    const first = await pluck('https://example.com/feed.xml', { cacheStore });
+    const second = await pluck('https://example.com/feed.xml', { cacheStore });
+
+    assert.equal(callCount, 1);
+    assert.equal(first.cacheStatus, 'miss');
+    assert.equal(second.cacheStatus, 'hit');
+    assert.equal(await second.textUtf8(), '<rss>fresh</rss>');
+    assert.equal(second.headers.get('content-type'), 'application/rss+xml');
+  });
+
+  it('should revalidate stale entries with conditional headers', async () => {
+    const received: Headers[] = [];
+    mockFetch = async (_input, init) => {
+      const headers = new Headers(init?.headers);
+      received.push(headers);
+      if (headers.get('if-none-match') === '"v1"') {
+        return createMockResponse('', { status: 304, statusText: 'Not Modified' });
+      }
+      return createMockResponse('<rss>v1</rss>', {
+        headers: { etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' },
+      });
+    };
+    const cacheStore = new MemoryCacheStore();
+
+    await pluck('https://example.com/feed.xml', { cacheStore });
+    const second = await pluck('https://example.com/feed.xml', { cacheStore });
+
+    assert.equal(received.length, 2);
+    assert.equal(received[1].get('if-none-match'), '"v1"');
+    assert.equal(received[1].get('if-modified-since'), 'Mon, 01 Jan 2024 00:00:00 GMT');
+    assert.equal(second.cacheStatus, 'revalidated');
+    assert.equal(second.status, 200);
+    assert.equal(await second.textUtf8(), '<rss>v1</rss>');
+  });
+
+  it('should replace entries when the resource changed', async () => {
+    let version = 1;
+    mockFetch = async () =>
+      createMockResponse(`v${version}`, { headers: { etag: `"v${version}"` } });
+    const cacheStore = new MemoryCacheStore();
+
+    await pluck('https://example.com/', { cacheStore });
+    version = 2;
+    const second = await pluck('https://example.com/', { cacheStore });
+
+    assert.equal(second.cacheStatus, 'miss');
+    assert.equal(await second.textUtf8(), 'v2');
+    assert.equal(cacheStore.get('GET https://example.com/')?.etag, '"v2"');
+  });
+
+  it('should not store no-store responses', async () => {
+    mockFetch = async () =>
+      createMockResponse('secret', { headers: { 'cache-control': 'no-store', etag: '"x"' } });
+    const cacheStore = new MemoryCacheStore();
+
+    await pluck('https://example.com/', { cacheStore });
+
+    assert.equal(cacheStore.size, 0);
+  });
+
+  it('should honour cache mode no-store and force-cache', async () => {
+    let callCount = 0;
+    mockFetch = async () => {
+      callCount++;
+      return createMockResponse('OK', { headers: { etag: '"x"' } });
+    };
+    const cacheStore = new MemoryCacheStore();
+
+    const bypassed = await pluck('https://example.com/', { cacheStore, cache: 'no-store' });
+    assert.equal(bypassed.cacheStatus, 'bypass');
+    assert.equal(cacheStore.size, 0);
+
+    await pluck('https://example.com/', { cacheStore });
+    const forced = await pluck('https://example.com/', { cacheStore, cache: 'force-cache' });
+
+    assert.equal(forced.cacheStatus, 'hit');
+    assert.equal(callCount, 2);
+  });
+
+  it('should not cache POST requests', async () => {
+    mockFetch = async () => createMockResponse('OK', { headers: { etag: '"x"' } });
+    const cacheStore = new MemoryCacheStore();
+
+    const response = await pluck('https://example.com/', { cacheStore, method: 'POST' });
+
+    assert.equal(response.cacheStatus, 'bypass');
+    assert.equal(cacheStore.size, 0);
+  });
+
+  it('should not share responses to credentialed requests', async () => {
+    mockFetch = async (_input, init) => {
+      const auth = new Headers(init?.headers).get('authorization');
+      return createMockResponse(auth ? 'private' : 'public', {
+        headers: { 'cache-control': 'max-age=300' },
+      });
+    };
+    const cacheStore = new MemoryCacheStore();
+    const credentials = { 'https://example.com': { type: 'bearer' as const, token: 'tok' } };
+
+    const credentialed = await pluck('https://example.com/', { cacheStore, credentials });
+    const explicit = await pluck('https://example.com/', {
+      cacheStore,
+      headers: { authorization: 'Bearer x' },
+    });
+    const anonymous = await pluck('https://example.com/', { cacheStore });
+
+    assert.equal(credentialed.cacheStatus, 'bypass');
+    assert.equal(explicit.cacheStatus, 'bypass');
+    assert.equal(anonymous.cacheStatus, 'miss');
+    assert.equal(await anonymous.textUtf8(), 'public');
+    assert.equal(cacheStore.size, 1);
+  });
+
+  it('should not store responses if a redirect hop sent cookies', async () => {
+    mockFetch = async (input) => {
+      if (input.toString() === 'https://example.com/') {
+        return createMockResponse('', {
+          status: 302,
+          headers: { location: 'https://example.com/home', 'set-cookie': 'sid=1; Path=/' },
+        });
+      }
+      return createMockResponse('Hello sid=1', { headers: { 'cache-control': 'max-age=300' } });
+    };
+    const cacheStore = new MemoryCacheStore();
+
+    await pluck('https://example.com/', { cacheStore, cookieJar: new CookieJar() });
+
+    assert.equal(cacheStore.size, 0);
+  });
+
+  it('should only serve entries matching the Vary request headers', async () => {
+    let callCount = 0;
+    mockFetch = async (_input, init) => {
+      callCount++;
+      const language = new Headers(init?.headers).get('accept-language');
+      return createMockResponse(`lang=${language}`, {
+        headers: { 'cache-control': 'max-age=300', vary: 'Accept-Language' },
+      });
+    };
+    const cacheStore = new MemoryCacheStore();
+
+    await pluck('https://example.com/', { cacheStore });
+    const german = await pluck('https://example.com/', {
+      cacheStore,
+      headers: { 'accept-language': 'de' },
+    });
+    const again = await pluck('https://example.com/', {
+      cacheStore,
+      headers: { 'accept-language': 'de' },
+    });
+
+    assert.equal(german.cacheStatus, 'miss');
+    assert.equal(await german.textUtf8(), 'lang=de');
+    assert.equal(again.cacheStatus, 'hit');
+    assert.equal(callCount, 2);
+  });
+});
+
+describe('pluck - robots.txt', () => {
+  const robotsTxt = 'User-agent: *\nDisallow: /private/\n\nUser-agent: MyBot\nDisallow: /';
+
+  function robotsMock(requested: string[], robots = robotsTxt, status = 200): MockFetchFn {
+    return async (input) => {
+      const url = input.toString();
+      requested.push(url);
+      if (url.endsWith('/robots.txt')) {
+        return createMockResponse(robots, { status, url });
+      }
+      if (url === 'https://example.com/redirect') {
+        return createMockResponse('', {
+          status: 302,
+          headers: { location: 'https://example.com/private/page' },
+        });
+      }
+      return createMockResponse('OK', { url });
+    };
+  }
+
+  it('should not fetch robots.txt by default', async () => {
+    const requested: string[] = [];
+    mockFetch = robotsMock(requested);
+
+    await pluck('https://example.com/private/page');
+
+    assert.deepEqual(requested, ['https://example.com/private/page']);
+  });
+
+  it('should parse oversized robots.txt up to the size limit', async () => {
+    const requested: string[] = [];
+    const padding = `# ${'x'.repeat(600 * 1024)}\n`;
+    mockFetch = robotsMock(requested, `User-agent: *\nDisallow: /private/\n${padding}`);
+
+    await assert.rejects(
+      () => pluck('https://example.com/private/page', { respectRobotsTxt: { cache: new Map() } }),
+      PluckRobotsError,
+    );
+    const response = await pluck('https://example.com/public', {
+      respectRobotsTxt: { cache: new Map() },
+    });
+    assert.equal(response.status, 200);
+  });
+
+  it('should allow permitted URLs', async () => {
+    const requested: string[] = [];
+    mockFetch = robotsMock(requested);
+
+    const response = await pluck('https://example.com/public', {
+      respectRobotsTxt: { cache: new Map() },
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(requested, ['https://example.com/robots.txt', 'https://example.com/public']);
+  });
+
+  it('should throw PluckRobotsError for disallowed URLs', async () => {
+    const requested: string[] = [];
+    mockFetch = robotsMock(requested);
+
+    await assert.rejects(
+      async () =>
+        pluck('https://example.com/private/page', { respectRobotsTxt: { cache: new Map() } }),
+      (error: PluckRobotsError) => {
+        assert.ok(error instanceof PluckRobotsError);
+        assert.equal(error.url, 'https://example.com/private/page');
+        return true;
+      },
+    );
+    assert.deepEqual(requested, ['https://example.com/robots.txt']);
+  });
+
+  it('should check redirect hops', async () => {
+    mockFetch = robotsMock([]);
+
+    await assert.rejects(
+      async () => pluck('https://example.com/redirect', { respectRobotsTxt: { cache: new Map() } }),
+      PluckRobotsError,
+    );
+  });
+
+  it('should match the configured user agent', async () => {
+    mockFetch = robotsMock([]);
+
+    await assert.rejects(
+      async () =>
+        pluck('https://example.com/public', {
+          userAgent: 'MyBot/2.0',
+          respectRobotsTxt: { cache: new Map() },
+        }),
+      PluckRobotsError,
+    );
+  });
+
+  it('should cache robots.txt per origin', async () => {
+    const requested: string[] = [];
+    mockFetch = robotsMock(requested);
+    const cache = new Map();
+
+    await pluck('https://example.com/a', { respectRobotsTxt: { cache } });
+    await pluck('https://example.com/b', { respectRobotsTxt: { cache } });
+
+    assert.equal(requested.filter((url) => url.endsWith('/robots.txt')).length, 1);
+  });
+
+  it('should allow everything when robots.txt is missing', async () => {
+    mockFetch = robotsMock([], 'Not Found', 404);
+
+    const response = await pluck('https://example.com/private/page', {
+      respectRobotsTxt: { cache: new Map() },
+    });
+
+    assert.equal(response.status, 200);
+  });
+
+  it('should disallow everything on robots.txt server errors', async () => {
+    mockFetch = robotsMock([], 'Error', 503);
+
+    await assert.rejects(
+      async () => pluck('https://example.com/public', { respectRobotsTxt: { cache: new Map() } }),
+      PluckRobotsError,
+    );
+  });
+
+  it('should disallow everything when robots.txt is unreachable', async () => {
+    mockFetch = async (input) => {
+      const url = input.toString();
+      if (url.endsWith('/robots.txt')) {
+        throw new TypeError('fetch failed');
+      }
+      return createMockResponse('OK', { url });
+    };
+    const cache = new Map();
+
+    await assert.rejects(
+      async () => pluck('https://example.com/public', { respectRobotsTxt: { cache } }),
+      PluckRobotsError,
+    );
+    assert.equal(cache.get('https://example.com')?.unreachable, true);
+  });
+
+  it('should allow everything after too many robots.txt redirects', async () => {
+    let hop = 0;
+    mockFetch = async (input) => {
+      const url = input.toString();
+      if (url.includes('robots')) {
+        hop++;
+        return createMockResponse('', {
+          status: 301,
+          headers: { location: `https://example.com/robots-${hop}.txt` },
+        });
+      }
+      return createMockResponse('OK', { url });
+    };
+
+    const response = await pluck('https://example.com/private/page', {
+      respectRobotsTxt: { cache: new Map() },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(hop, 6);
+  });
+});
+
+describe('pluck - private network blocking', () => {
+  const lookup = async (hostname: string) =>
+    hostname === 'internal.example.com' ? ['10.0.0.5'] : ['93.184.216.34'];
+
+  it('should not block private targets by default', async () => {
+    mockFetch = async () => createMockResponse('OK', { url: 'http://127.0.0.1/' });
+
+    const response = await pluck('http://127.0.0.1/');
+
+    assert.equal(response.status, 200);
+  });
+
+  it('should block private targets before connecting', async () => {
+    const requested: string[] = [];
+    mockFetch = async (input) => {
+      requested.push(input.toString());
+      return createMockResponse('OK');
+    };
+
+    await assert.rejects(
+      () => pluck('http://169.254.169.254/latest/meta-data/', { blockPrivateNetworks: true }),
+      PluckBlockedError,
+    );
+    await assert.rejects(
+      () => pluck('https://internal.example.com/', { blockPrivateNetworks: { lookup } }),
+      PluckBlockedError,
+    );
+    assert.deepEqual(requested, []);
+  });
+
+  it('should block redirects to private targets and report the hop', async () => {
+    const requested: string[] = [];
+    mockFetch = async (input) => {
+      const url = input.toString();
+      requested.push(url);
+      if (url === 'https://example.com/') {
+        return createMockResponse('', {
+          status: 302,
+          headers: { location: 'http://127.0.0.1:8080/admin' },
+        });
+      }
+      return createMockResponse('OK', { url });
+    };
+
+    await assert.rejects(
+      () => pluck('https://example.com/', { blockPrivateNetworks: { lookup } }),
+      (error: unknown) =>
+        error instanceof PluckBlockedError &&
+        error.url === 'http://127.0.0.1:8080/admin' &&
+        error.address === '127.0.0.1',
+    );
+    assert.deepEqual(requested, ['https://example.com/']);
+  });
+
+  it('should return redirects to private targets unfollowed if followRedirects=false', async () => {
+    const redirectModes: (RequestRedirect | undefined)[] = [];
+    mockFetch = async (input, init) => {
+      redirectModes.push(init?.redirect);
+      if (init?.redirect !== 'manual') {
+        return createMockResponse('secret', { url: 'http://127.0.0.1/admin' });
+      }
+      return createMockResponse('', {
+        status: 302,
+        headers: { location: 'http://127.0.0.1/admin' },
+        url: input.toString(),
+      });
+    };
+
+    const response = await pluck('http://localhost/', {
+      followRedirects: false,
+      throwOnHttpError: false,
+      blockPrivateNetworks: { allow: ['localhost'] },
+    });
+
+    assert.equal(response.status, 302);
+    assert.equal(response.finalUrl, 'http://localhost/');
+    assert.deepEqual(redirectModes, ['manual']);
+  });
+
+  it('should not retry blocked requests', async () => {
+    let calls = 0;
+    mockFetch = async () => {
+      calls++;
+      return createMockResponse('OK');
+    };
+
+    await assert.rejects(
+      () =>
+        pluck('http://10.0.0.1/', {
+          blockPrivateNetworks: true,
+          retry: { attempts: 3, baseDelay: 1 },
+        }),
+      PluckBlockedError,
+    );
+    assert.equal(calls, 0);
+  });
+
+  it('should fetch allowed targets', async () => {
+    mockFetch = async (input) => createMockResponse('OK', { url: input.toString() });
+
+    const response = await pluck('http://10.1.2.3/', {
+      blockPrivateNetworks: { allow: ['10.1.0.0/16'] },
+    });
+
+    assert.equal(response.status, 200);
+  });
+});
+
+describe('pluck - middleware', () => {
+  it('should let beforeRequest modify headers and URL', async () => {
+    const requests: Array<{ url: string; auth: string | null }> = [];
+    mockFetch = async (input, init) => {
+      const url = input.toString();
+      requests.push({ url, auth: new Headers(init?.headers).get('authorization') });
+      return createMockResponse('OK', { url });
+    };
+
+    const response = await pluck('https://example.com/amp/article', {
+      middleware: [
+        {
+          beforeRequest(request) {
+            request.url = request.url.replace('/amp/', '/');
+          },
+        },
+        {
+          beforeRequest(request) {
+            request.headers.set('authorization', 'Bearer secret');
+          },
+        },
+      ],
+    });
+
+    assert.deepEqual(requests, [{ url: 'https://example.com/article', auth: 'Bearer secret' }]);
+    assert.equal(response.finalUrl, 'https://example.com/article');
+  });
+
+  it('should short-circuit with a synthetic response', async () => {
+    let fetched = false;
+    mockFetch = async () => {
+      fetched = true;
+      return createMockResponse('network');
+    };
+    const seen: number[] = [];
+
+    const response = await pluck('https://example.com/', {
+      middleware: [
+        { beforeRequest: () => new Response('synthetic', { status: 200 }) },
+        { beforeRequest: () => assert.fail('later hooks should be skipped') },
+        { afterResponse: (res) => void seen.push(res.status) },
+      ],
+    });
+
+    assert.equal(fetched, false);
+    assert.deepEqual(seen, [200]);
+    assert.equal(await response.textUtf8(), 'synthetic');
+    assert.equal(response.finalUrl, 'https://example.com/');
+  });
+
+  it('should let afterResponse replace the response', async () => {
+    mockFetch = async () => createMockResponse('original');
+
+    const response = await pluck('https://example.com/', {
+      middleware: [{ afterResponse: () => new Response('replaced') }],
+    });
+
+    assert.equal(await response.textUtf8(), 'replaced');
+  });
+
+  it('should run hooks for every redirect hop', async () => {
+    mockFetch = async (input) => {
+      const url = input.toString();
+      if (url === 'https://example.com/old') {
+        return createMockResponse('', {
+          status: 301,
+          headers: { location: '/new' },
+          url,
+        });
+      }
+      return createMockResponse('OK', { url });
+    };
+    const hops: Array<[number, string]> = [];
+    const redirects: Array<[string, string, number]> = [];
+
+    await pluck('https://example.com/old', {
+      middleware: [
+        {
+          beforeRequest: (request) => void hops.push([request.hop, request.url]),
+          onRedirect: ({ from, to, status }) => void redirects.push([from, to, status]),
+        },
+      ],
+    });
+
+    assert.deepEqual(hops, [
+      [0, 'https://example.com/old'],
+      [1, 'https://example.com/new'],
+    ]);
+    assert.deepEqual(redirects, [['https://example.com/old', 'https://example.com/new', 301]]);
+  });
+
+  it('should abort redirects when onRedirect returns false', async () => {
+    mockFetch = async () =>
+      createMockResponse('', {
+        status: 302,
+        headers: { location: 'https://tracker.example.net/' },
+      });
+
+    await assert.rejects(
+      () =>
+        pluck('https://example.com/', {
+          middleware: [{ onRedirect: ({ to }) => !to.includes('tracker') }],
+        }),
+      (error: unknown) => error instanceof PluckRedirectError && /aborted/.test(error.message),
+    );
+  });
+
+  it('should retarget redirects when onRedirect returns a URL', async () => {
+    const requested: string[] = [];
+    mockFetch = async (input) => {
+      const url = input.toString();
+      requested.push(url);
+      if (url === 'https://example.com/') {
+        return createMockResponse('', { status: 302, headers: { location: '/login' } });
+      }
+      return createMockResponse('OK', { url });
+    };
+
+    const response = await pluck('https://example.com/', {
+      middleware: [{ onRedirect: () => '/public' }],
+    });
+
+    assert.deepEqual(requested, ['https://example.com/', 'https://example.com/public']);
+    assert.equal(response.finalUrl, 'https://example.com/public');
+  });
+
+  it('should apply the network policy to rewritten URLs', async () => {
+    mockFetch = async () => createMockResponse('OK');
+
+    await assert.rejects(
+      () =>
+        pluck('https://93.184.216.34/', {
+          blockPrivateNetworks: true,
+          middleware: [
+            {
+              beforeRequest(request) {
+                request.url = 'http://127.0.0.1/';
+              },
+            },
+          ],
+        }),
+      PluckBlockedError,
+    );
+  });
+});
+
+describe('createPluck', () => {
+  it('should apply default options', async () => {
+    let userAgent: string | null = null;
+    mockFetch = async (_input, init) => {
+      userAgent = new Headers(init?.headers).get('user-agent');
+      return createMockResponse('OK');
+    };
+
+    const myPluck = createPluck({ userAgent: 'MyBot/1.0' });
+    await myPluck('https://example.com/');
+
+    assert.equal(userAgent, 'MyBot/1.0');
+  });
+
+  it('should merge headers and middleware with per-call options', async () => {
+    let headers = new Headers();
+    mockFetch = async (_input, init) => {
+      headers = new Headers(init?.headers);
+      return createMockResponse('OK');
+    };
+    const order: string[] = [];
+
+    const myPluck = createPluck({
+      headers: { 'x-default': 'a', 'x-shared': 'default' },
+      middleware: [{ beforeRequest: () => void order.push('default') }],
+    });
+    await myPluck('https://example.com/', {
+      headers: { 'x-shared': 'call' },
+      middleware: [{ beforeRequest: () => void order.push('call') }],
+    });
+
+    assert.equal(headers.get('x-default'), 'a');
+    assert.equal(headers.get('x-shared'), 'call');
+    assert.deepEqual(order, ['default', 'call']);
+  });
+});
+
+describe('pluck - cookies', () => {
+  it('should carry cookies across redirect hops', async () => {
+    const cookies: Array<[string, string | null]> = [];
+    mockFetch = async (input, init) => {
+      const url = input.toString();
+      const cookie = new Headers(init?.headers).get('cookie');
+      cookies.push([url, cookie]);
+      if (url === 'https://news.example.de/article' && !cookie) {
+        return createMockResponse('', {
+          status: 302,
+          headers: { location: 'https://consent.example.de/accept?return=/article' },
+          url,
+        });
+      }
+      if (url.startsWith('https://consent.example.de/')) {
+        return createMockResponse('', {
+          status: 302,
+          headers: {
+            location: 'https://news.example.de/article',
+            'set-cookie': 'consent=yes; Domain=example.de; Path=/',
+          },
+          url,
+        });
+      }
+      return createMockResponse('Article', { url });
+    };
+
+    const cookieJar = new CookieJar();
+    const response = await pluck('https://news.example.de/article', { cookieJar });
+
+    assert.equal(await response.textUtf8(), 'Article');
+    assert.deepEqual(cookies, [
+      ['https://news.example.de/article', null],
+      ['https://consent.example.de/accept?return=/article', null],
+      ['https://news.example.de/article', 'consent=yes'],
+    ]);
+    assert.deepEqual(response.redirectChain, [
+      'https://news.example.de/article',
+      'https://consent.example.de/accept?return=/article',
+    ]);
+  });
+
+  it('should still detect loops that set no new cookies', async () => {
+    mockFetch = async () =>
+      createMockResponse('', {
+        status: 302,
+        headers: { location: 'https://example.com/', 'set-cookie': 'a=1' },
+      });
+
+    await assert.rejects(
+      () => pluck('https://example.com/', { cookieJar: new CookieJar() }),
+      /Redirect loop detected/,
+    );
+  });
+
+  it('should reuse the jar across requests', async () => {
+    const sent: Array<string | null> = [];
+    mockFetch = async (_input, init) => {
+      sent.push(new Headers(init?.headers).get('cookie'));
+      return createMockResponse('OK', { headers: { 'set-cookie': 'session=42; Path=/' } });
+    };
+    const cookieJar = new CookieJar();
+
+    await pluck('https://example.com/', { cookieJar });
+    await pluck('https://example.com/', { cookieJar });
+
+    assert.deepEqual(sent, [null, 'session=42']);
+  });
+
+  it('should not override an explicit Cookie header', async () => {
+    let sent: string | null = null;
+    mockFetch = async (_input, init) => {
+      sent = new Headers(init?.headers).get('cookie');
+      return createMockResponse('OK');
+    };
+    const cookieJar = new CookieJar();
+    cookieJar.setCookie('jar=1', 'https://example.com/');
+
+    await pluck('https://example.com/', { cookieJar, headers: { cookie: 'manual=1' } });
+
+    assert.equal(sent, 'manual=1');
+  });
+});
+
+describe('pluck - credentials', () => {
+  type Seen = {
+    url: string;
+    headers: Headers;
+    credentials?: RequestCredentials;
+    redirect?: RequestRedirect;
+  };
+  let seen: Seen[] = [];
+
+  function routeRedirects(routes: Record<string, string>): MockFetchFn {
+    seen = [];
+    return async (input, init) => {
+      const url = input.toString();
+      seen.push({
+        url,
+        headers: new Headers(init?.headers),
+        credentials: init?.credentials,
+        redirect: init?.redirect,
+      });
+      const location = routes[url];
+      if (location) {
+        return createMockResponse('', { status: 302, headers: { location } });
+      }
+      return createMockResponse('OK', { url });
+    };
+  }
+
+  it('should apply credentials to matching origins only', async () => {
+    mockFetch = routeRedirects({ 'https://intranet.example.com/': 'https://cdn.example.net/' });
+
+    await pluck('https://intranet.example.com/', {
+      credentials: {
+        'https://intranet.example.com': { type: 'basic', username: 'bot', password: 'secret' },
+      },
+    });
+
+    assert.equal(seen[0].headers.get('authorization'), `Basic ${btoa('bot:secret')}`);
+    assert.equal(seen[1].headers.get('authorization'), null);
+  });
+
+  it('should apply the credential of each redirect target', async () => {
+    mockFetch = routeRedirects({ 'https://www.partner.test/': 'https://login.partner.test/' });
+
+    await pluck('https://www.partner.test/', {
+      credentials: { '*.partner.test': { type: 'bearer', token: 'tok' } },
+    });
+
+    assert.deepEqual(
+      seen.map((request) => request.headers.get('authorization')),
+      ['Bearer tok', 'Bearer tok'],
+    );
+  });
+
+  it('should not send host credentials after a downgrade to http', async () => {
+    mockFetch = routeRedirects({ 'https://www.partner.test/': 'http://www.partner.test/' });
+
+    await pluck('https://www.partner.test/', {
+      credentials: { '*.partner.test': { type: 'bearer', token: 'tok' } },
+    });
+
+    assert.deepEqual(
+      seen.map((request) => request.headers.get('authorization')),
+      ['Bearer tok', null],
+    );
+  });
+
+  it('should strip auth headers on cross-origin redirects', async () => {
+    mockFetch = routeRedirects({
+      'https://example.com/': 'https://example.com/next',
+      'https://example.com/next': 'https://other.test/',
+    });
+
+    await pluck('https://example.com/', {
+      headers: { authorization: 'Bearer secret', cookie: 'sid=1', 'x-custom': 'kept' },
+    });
+
+    assert.equal(seen[1].headers.get('authorization'), 'Bearer secret');
+    assert.equal(seen[1].headers.get('cookie'), 'sid=1');
+    assert.equal(seen[2].headers.get('authorization'), null);
+    assert.equal(seen[2].headers.get('cookie'), null);
+    assert.equal(seen[2].headers.get('x-custom'), 'kept');
+  });
+
+  it('should not send credentials across origins if followRedirects=false', async () => {
+    mockFetch = routeRedirects({ 'https://intranet.example.com/': 'https://cdn.example.net/' });
+
+    const response = await pluck('https://intranet.example.com/', {
+      followRedirects: false,
+      throwOnHttpError: false,
+      headers: { cookie: 'sid=1' },
+      credentials: { 'https://intranet.example.com': { type: 'bearer', token: 'tok' } },
+    });
+
+    assert.equal(response.status, 302);
+    assert.deepEqual(
+      seen.map((request) => [request.url, request.redirect]),
+      [['https://intranet.example.com/', 'manual']],
+    );
+  });
+
+  it('should let explicit headers win over credentials', async () => {
+    mockFetch = routeRedirects({});
+
+    await pluck('https://api.example.com/', {
+      headers: { authorization: 'Bearer explicit' },
+      credentials: {
+        'https://api.example.com': {
+          type: 'headers',
+          headers: { authorization: 'x', 'x-key': 'k' },
+        },
+      },
+    });
+
+    assert.equal(seen[0].headers.get('authorization'), 'Bearer explicit');
+    assert.equal(seen[0].headers.get('x-key'), 'k');
+    assert.equal(seen[0].credentials, undefined);
+  });
+
+  it('should pass credentials modes to fetch', async () => {
+    mockFetch = routeRedirects({});
+
+    await pluck('https://example.com/', { credentials: 'include' });
+
+    assert.equal(seen[0].credentials, 'include');
+  });
+});
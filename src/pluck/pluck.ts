@@ -13,13 +13,78 @@
  * @packageDocumentation
  */
 
-import { decodeToUtf8, detectEncoding } from './encoding.js';
-import type { PluckInit, PluckResponse } from './types.js';
 import {
+  applyConditionalHeaders,
+  createCacheEntry,
+  getCacheKey,
+  getVaryHeaders,
+  hasCredentialHeaders,
+  isCacheable,
+  isFresh,
+  matchesVary,
+  responseFromCacheEntry,
+  revalidateCacheEntry,
+} from './cache.js';
+import type { CookieJar } from './cookie-jar.js';
+import {
+  applyCredential,
+  CROSS_ORIGIN_STRIPPED_HEADERS,
+  findCredential,
+  isSameOrigin,
+} from './credentials.js';
+import type { EncodingDetection } from './encoding.js';
+import {
+  decodeToUtf8,
+  decodeWithDetection,
+  detectEncoding,
+  trimIncompleteUtf8,
+} from './encoding.js';
+import { fetchLocalUrl, isLocalUrl } from './local.js';
+import { META_REFRESH_SCAN_SIZE, parseMetaRefresh, parseRefresh } from './meta-refresh.js';
+import { assertAllowedByNetworkPolicy } from './network-policy.js';
+import type { ProxyPool } from './proxy.js';
+import { createProxyTransport, redactProxyUrl } from './proxy.js';
+import type { NormalizedRetryOptions } from './retry.js';
+import {
+  isRetryableError,
+  isRetryableMethod,
+  normalizeRetryOptions,
+  resolveRetryDelay,
+  sleep,
+} from './retry.js';
+import {
+  getRobotsTxt,
+  getRobotsTxtCrawlDelay,
+  isAllowedByRobotsTxt,
+  parseRobotsTxt,
+  ROBOTS_TXT_ALLOW_ALL,
+  ROBOTS_TXT_DISALLOW_ALL,
+  ROBOTS_TXT_MAX_SIZE,
+} from './robots-txt.js';
+import type {
+  PluckCacheEntry,
+  PluckCacheStatus,
+  PluckCacheStore,
+  PluckFunction,
+  PluckInit,
+  PluckMetaRefreshOptions,
+  PluckNetworkPolicy,
+  PluckRedirectKind,
+  PluckRequestContext,
+  PluckResponse,
+  PluckRetryAttempt,
+  PluckRobotsOptions,
+  PluckTimingHop,
+  PluckTransport,
+  RobotsTxt,
+} from './types.js';
+import {
+  PluckBlockedError,
   PluckContentTypeError,
   PluckHttpError,
   PluckNetworkError,
   PluckRedirectError,
+  PluckRobotsError,
   PluckSizeError,
   PluckTimeoutError,
 } from './types.js';
@@ -27,6 +92,7 @@ import {
 // Default options
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
 const DEFAULT_MAX_REDIRECTS = 10;
+const DEFAULT_META_REFRESH_MAX_DELAY = 10; // seconds
 const DEFAULT_MAX_SIZE = 10 * 1024 * 1024; // 10MB
 const DEFAULT_USER_AGENT =
   'Mozilla/5.0 (compatible; Magpie-HTML/1.0; +https://github.com/Anonyfox/magpie-html)';
@@ -40,6 +106,60 @@ const DEFAULT_ALLOWED_CONTENT_TYPES = [
   'application/json',
 ];
 
+/**
+ * Pluck options with all defaults applied.
+ */
+type NormalizedOptions = Required<
+  Omit<
+    PluckInit,
+    | keyof RequestInit
+    | 'retry'
+    | 'cacheStore'
+    | 'respectRobotsTxt'
+    | 'blockPrivateNetworks'
+    | 'followMetaRefresh'
+    | 'middleware'
+    | 'cookieJar'
+    | 'transport'
+    | 'proxy'
+    | 'onProgress'
+  >
+> &
+  Omit<RequestInit, 'credentials'> & {
+    credentials?: PluckInit['credentials'];
+    retry: NormalizedRetryOptions;
+    cacheStore?: PluckCacheStore;
+    onProgress?: PluckInit['onProgress'];
+    respectRobotsTxt: PluckRobotsOptions | false;
+    blockPrivateNetworks: PluckNetworkPolicy | false;
+    followMetaRefresh: PluckMetaRefreshOptions | false;
+    middleware: NonNullable<PluckInit['middleware']>;
+    cookieJar?: CookieJar;
+    transport?: PluckTransport;
+    proxy?: string | ProxyPool;
+  };
+
+/**
+ * Position of a request within its redirect chain.
+ */
+interface HopContext {
+  /** 0 for the initial request, n for the n-th redirect */
+  hop: number;
+  /** URL that started the chain (site for SameSite cookies) */
+  siteUrl: string;
+}
+
+/**
+ * Cache lookup state shared between attempts.
+ */
+interface CacheContext {
+  store: PluckCacheStore;
+  key: string;
+  entry?: PluckCacheEntry;
+  /** Headers of the initial request, matched against the entry's Vary headers */
+  requestHeaders: Headers;
+}
+
 /**
  * Enhanced fetch for web scraping.
  *
@@ -48,11 +168,21 @@ const DEFAULT_ALLOWED_CONTENT_TYPES = [
  * redirect tracking, and size limits. Perfect for scraping HTML, feeds, and APIs.
  *
  * Features:
- * - Manual redirect tracking with full chain
- * - Automatic encoding detection and UTF-8 conversion
- * - Configurable timeouts and size limits
+ * - Manual redirect tracking with full chain (optionally following meta refresh)
+ * - Automatic encoding detection (declarations, then statistical sniffing) and UTF-8 conversion
+ * - Configurable timeouts and streaming size limits (optionally truncating)
  * - Smart default headers for web scraping
  * - Content-Type validation
+ * - Optional retries with exponential backoff and Retry-After support
+ * - Optional response cache with conditional requests (ETag / Last-Modified)
+ * - Optional robots.txt compliance
+ * - Optional blocking of private network targets (SSRF protection)
+ * - Request/response middleware hooks
+ * - Optional cookie jar across redirect hops and requests
+ * - Per-origin credentials (Basic, Bearer, custom headers), stripped on cross-origin redirects
+ * - Pluggable transport (e.g. HAR recording and offline replay)
+ * - HTTP(S) and SOCKS5 proxies with rotating proxy pools
+ * - `data:` URLs and, on Node.js, opt-in `file:` URLs
  * - Comprehensive error types
  *
  * @param input - URL string or Request object
@@ -65,6 +195,9 @@ const DEFAULT_ALLOWED_CONTENT_TYPES = [
  * @throws {PluckSizeError} Response too large
  * @throws {PluckEncodingError} Invalid encoding
  * @throws {PluckContentTypeError} Invalid content type
+ * @throws {PluckRobotsError} URL disallowed by robots.txt (with respectRobotsTxt)
+ * @throws {PluckBlockedError} Private network target (with blockPrivateNetworks) or `file:` URL
+ * @throws {PluckFileError} Malformed `data:` URL or unreadable `file:` URL (with allowFileUrls)
  *
  * @example
  * ```typescript
@@ -88,6 +221,15 @@ const DEFAULT_ALLOWED_CONTENT_TYPES = [
  *   throwOnHttpError: true
  * });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Retry transient failures (network errors, timeouts, 429/5xx)
+ * const response = await pluck('https://example.com', {
+ *   retry: { attempts: 4, baseDelay: 1000 }
+ * });
+ * console.log(response.retries); // failed attempts before success
+ * ```
  */
 export async function pluck(
   input: string | URL | Request,
@@ -98,22 +240,202 @@ export async function pluck(
   // Parse options
   const options = normalizeOptions(init);
   const originalUrl = typeof input === 'string' || input instanceof URL ? String(input) : input.url;
+  const retries: PluckRetryAttempt[] = [];
+
+  // Look up the response cache
+  const cache = await lookupCache(originalUrl, options);
+  if (cache?.entry && canServeFromCache(cache.entry, options.cache)) {
+    const response = responseFromCacheEntry(cache.entry);
+    if (options.strictContentType) {
+      validateContentType(response, options.allowedContentTypes);
+    }
+    const buffer = toArrayBuffer(cache.entry.body);
+    const enhancedResponse = finalizeResponse(response, buffer, options, {
+      originalUrl,
+      finalUrl: cache.entry.url,
+      redirectChain: cache.entry.redirectChain,
+      redirectKinds: cache.entry.redirectKinds ?? cache.entry.redirectChain.map(() => 'http'),
+      redirectDuration: 0,
+      startTime,
+      cacheStatus: 'hit',
+      proxy: null,
+      truncated: false,
+      hops: [],
+      downloadDuration: 0,
+      encodedBytes: 0,
+    });
+    enhancedResponse.retries = retries;
+    return enhancedResponse;
+  }
+
+  // Non-idempotent requests get a single attempt unless opted in
+  const maxAttempts = isRetryableMethod(options.method, options.retry) ? options.retry.attempts : 1;
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= maxAttempts;
+
+    try {
+      const response = await pluckAttempt(input, options, originalUrl, startTime, cache);
+
+      // Retry on retryable status codes (only reached when throwOnHttpError=false)
+      if (!isLastAttempt && options.retry.statusCodes.includes(response.status)) {
+        const { delay, retryAfter } = resolveRetryDelay(attempt, response.headers, options.retry);
+        retries.push({ attempt, url: originalUrl, status: response.status, delay, retryAfter });
+        await sleep(delay, init?.signal);
+        continue;
+      }
+
+      response.retries = retries;
+      return response;
+    } catch (error) {
+      if (isLastAttempt || !isRetryableError(error, options.retry)) {
+        throw error;
+      }
+
+      const headers = error instanceof PluckHttpError ? error.response.headers : undefined;
+      const { delay, retryAfter } = resolveRetryDelay(attempt, headers, options.retry);
+      retries.push({
+        attempt,
+        url: originalUrl,
+        status: error instanceof PluckHttpError ? error.statusCode : undefined,
+        error: (error as Error).message,
+        delay,
+        retryAfter,
+      });
+      await sleep(delay, init?.signal);
+    }
+  }
+}
+
+/**
+ * Create a preconfigured pluck() function.
+ *
+ * @remarks
+ * Options passed per call are merged over the defaults: headers are combined
+ * (per-call values win) and middleware runs defaults first. Pass the result
+ * to `gatherWebsite()`, `gatherArticle()`, `gatherFeed()` or `swoop()` via
+ * their `pluckFn` option.
+ *
+ * @param defaults - Default pluck options
+ * @returns pluck() function using the defaults
+ *
+ * @example
+ * ```typescript
+ * const myPluck = createPluck({
+ *   userAgent: 'MyBot/1.0',
+ *   retry: true,
+ *   middleware: [{ beforeRequest: (request) => console.log('GET', request.url) }],
+ * });
+ *
+ * const response = await myPluck('https://example.com');
+ * const article = await gatherArticle('https://example.com/post', { pluckFn: myPluck });
+ * ```
+ */
+export function createPluck(defaults: PluckInit = {}): PluckFunction {
+  return (input, init) => pluck(input, mergePluckInit(defaults, init));
+}
+
+/**
+ * Merge per-call pluck options over defaults.
+ *
+ * @remarks
+ * Headers, middleware and the object forms of `retry`, `respectRobotsTxt` and
+ * `blockPrivateNetworks` are combined instead of replaced.
+ */
+export function mergePluckInit(defaults: PluckInit, init?: PluckInit): PluckInit {
+  if (!init) {
+    return defaults;
+  }
 
-  // Setup timeout signal
-  const signal = AbortSignal.timeout(options.timeout);
+  const headers = new Headers(defaults.headers);
+  new Headers(init.headers).forEach((value, name) => {
+    headers.set(name, value);
+  });
+
+  return {
+    ...defaults,
+    ...init,
+    headers,
+    middleware: [...(defaults.middleware ?? []), ...(init.middleware ?? [])],
+    retry: mergeOptionObject(defaults.retry, init.retry),
+    respectRobotsTxt: mergeOptionObject(defaults.respectRobotsTxt, init.respectRobotsTxt),
+    blockPrivateNetworks: mergeOptionObject(
+      defaults.blockPrivateNetworks,
+      init.blockPrivateNetworks,
+    ),
+  };
+}
+
+/**
+ * Merge an option that is either a scalar or an options object.
+ */
+function mergeOptionObject<T>(base: T, override: T): T {
+  if (override === undefined) {
+    return base;
+  }
+  if (typeof base === 'object' && base && typeof override === 'object' && override) {
+    return { ...base, ...override };
+  }
+  return override;
+}
+
+/**
+ * Perform a single request attempt (including redirects, decoding and validation).
+ */
+async function pluckAttempt(
+  input: string | URL | Request,
+  options: NormalizedOptions,
+  originalUrl: string,
+  startTime: number,
+  cache: CacheContext | null,
+): Promise<PluckResponse> {
+  // Setup timeout signal (combined with the caller's signal, if any)
+  const signal = createAttemptSignal(options.timeout, options.signal);
+
+  // Revalidate stored entries with conditional headers (unless reloading)
+  const cachedEntry = options.cache === 'reload' ? undefined : cache?.entry;
+  let requestOptions = options;
+  if (cachedEntry) {
+    const headers = new Headers(options.headers);
+    applyConditionalHeaders(headers, cachedEntry);
+    requestOptions = { ...options, headers };
+  }
 
   try {
     // Follow redirects manually to capture chain
-    const { response, redirectChain, redirectDuration } = await followRedirects(
-      input,
-      options,
-      signal,
-    );
+    const { response, redirectChain, redirectKinds, redirectDuration, proxy, hops, credentialed } =
+      await followRedirects(input, requestOptions, signal);
 
     const finalUrl = response.url;
 
-    // Check HTTP status
-    if (options.throwOnHttpError && !response.ok) {
+    // Not modified: serve the cached body and refresh the entry
+    if (response.status === 304 && cache && cachedEntry) {
+      const entry = revalidateCacheEntry(
+        { ...cachedEntry, url: finalUrl || cachedEntry.url, redirectChain, redirectKinds },
+        response,
+      );
+      if (!credentialed) {
+        await cache.store.set(cache.key, entry);
+      }
+      return finalizeResponse(responseFromCacheEntry(entry), toArrayBuffer(entry.body), options, {
+        originalUrl,
+        finalUrl: entry.url,
+        redirectChain,
+        redirectKinds,
+        redirectDuration,
+        startTime,
+        cacheStatus: 'revalidated',
+        proxy,
+        truncated: false,
+        hops,
+        downloadDuration: 0,
+        encodedBytes: 0,
+      });
+    }
+
+    // Check HTTP status (a 3xx returned as-is with followRedirects=false is not an error)
+    const isUnfollowedRedirect =
+      !options.followRedirects && response.status >= 300 && response.status < 400;
+    if (options.throwOnHttpError && !response.ok && !isUnfollowedRedirect) {
       throw new PluckHttpError(
         `HTTP ${response.status}: ${response.statusText}`,
         response.status,
@@ -128,32 +450,36 @@ export async function pluck(
     }
 
     // Read response with size limit
-    const buffer = await readResponseWithSizeLimit(response, options.maxSize);
+    const downloadStart = Date.now();
+    const { buffer, truncated } = await readResponseWithSizeLimit(response, options);
+    const downloadEnd = Date.now();
+    const finalHop = hops[hops.length - 1];
+    finalHop.duration = downloadEnd - finalHop.start;
 
-    // Detect encoding
-    const contentType = response.headers.get('content-type');
-    const detectedEncoding = detectEncoding(buffer, contentType);
-
-    // Decode to UTF-8
-    const utf8Content = decodeToUtf8(buffer, detectedEncoding, options.validateEncoding);
+    // Store cacheable responses (never partial bodies or responses to credentialed hops)
+    const storable = !truncated && !credentialed && isCacheable(response);
+    if (cache && options.cache !== 'no-store' && storable) {
+      await cache.store.set(cache.key, {
+        ...createCacheEntry(response, buffer, finalUrl, redirectChain),
+        redirectKinds,
+        vary: getVaryHeaders(response.headers, cache.requestHeaders),
+      });
+    }
 
-    // Create enhanced response
-    const endTime = Date.now();
-    const enhancedResponse = createPluckResponse(response, {
+    return finalizeResponse(response, buffer, options, {
       originalUrl,
       finalUrl,
       redirectChain,
-      detectedEncoding,
-      utf8Content,
-      timing: {
-        start: startTime,
-        end: endTime,
-        duration: endTime - startTime,
-        redirectDuration,
-      },
+      redirectKinds,
+      redirectDuration,
+      startTime,
+      cacheStatus: cache ? 'miss' : 'bypass',
+      proxy,
+      truncated,
+      hops,
+      downloadDuration: downloadEnd - downloadStart,
+      encodedBytes: getEncodedBytes(response, buffer.byteLength, truncated),
     });
-
-    return enhancedResponse;
   } catch (error) {
     // Convert errors to pluck error types
     if (error instanceof PluckTimeoutError || error instanceof PluckNetworkError) {
@@ -174,23 +500,179 @@ export async function pluck(
   }
 }
 
+/**
+ * Combine the caller's abort signal with the per-attempt timeout.
+ */
+function createAttemptSignal(timeout: number, signal?: AbortSignal | null): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(timeout);
+  if (!signal) {
+    return timeoutSignal;
+  }
+  if (typeof AbortSignal.any === 'function') {
+    return AbortSignal.any([signal, timeoutSignal]);
+  }
+
+  // Fallback for runtimes without AbortSignal.any()
+  const controller = new AbortController();
+  for (const source of [signal, timeoutSignal]) {
+    if (source.aborted) {
+      controller.abort(source.reason);
+      break;
+    }
+    source.addEventListener('abort', () => controller.abort(source.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Detect encoding, decode and wrap the response.
+ */
+function finalizeResponse(
+  response: Response,
+  buffer: ArrayBuffer,
+  options: NormalizedOptions,
+  metadata: {
+    originalUrl: string;
+    finalUrl: string;
+    redirectChain: string[];
+    redirectKinds: PluckRedirectKind[];
+    redirectDuration: number;
+    startTime: number;
+    cacheStatus: PluckCacheStatus;
+    proxy: string | null;
+    truncated: boolean;
+    hops: PluckTimingHop[];
+    downloadDuration: number;
+    encodedBytes: number | null;
+  },
+): PluckResponse {
+  // Detect encoding and decode to UTF-8
+  const decodeStart = Date.now();
+  const contentType = response.headers.get('content-type');
+  // A truncated body may end in the middle of a multi-byte character
+  const body =
+    metadata.truncated && detectEncoding(buffer, contentType) === 'utf-8'
+      ? trimIncompleteUtf8(buffer)
+      : buffer;
+  const decoded = decodeWithDetection(body, contentType, options.validateEncoding);
+  const decodeDuration = Date.now() - decodeStart;
+
+  // Create enhanced response
+  const endTime = Date.now();
+  return createPluckResponse(response, {
+    originalUrl: metadata.originalUrl,
+    finalUrl: metadata.finalUrl,
+    redirectChain: metadata.redirectChain,
+    redirectKinds: metadata.redirectKinds,
+    encoding: decoded,
+    utf8Content: decoded.content,
+    cacheStatus: metadata.cacheStatus,
+    proxy: metadata.proxy,
+    truncated: metadata.truncated,
+    timing: {
+      start: metadata.startTime,
+      end: endTime,
+      duration: endTime - metadata.startTime,
+      redirectDuration: metadata.redirectDuration,
+      downloadDuration: metadata.downloadDuration,
+      decodeDuration,
+      encodedBytes: metadata.encodedBytes,
+      decodedBytes: buffer.byteLength,
+      hops: metadata.hops,
+    },
+  });
+}
+
+/**
+ * Number of body bytes as transferred, if it can be determined.
+ *
+ * @remarks
+ * fetch() decodes `Content-Encoding` transparently, so the size on the wire
+ * of a compressed body is only known from its Content-Length header.
+ */
+function getEncodedBytes(
+  response: Response,
+  decodedBytes: number,
+  truncated: boolean,
+): number | null {
+  const contentEncoding = response.headers.get('content-encoding')?.trim().toLowerCase();
+  if (!contentEncoding || contentEncoding === 'identity') {
+    return decodedBytes;
+  }
+  if (truncated) {
+    return null;
+  }
+
+  const contentLength = Number.parseInt(response.headers.get('content-length') ?? '', 10);
+  return Number.isNaN(contentLength) ? null : contentLength;
+}
+
+/**
+ * Look up the cache entry for a request, if a cache store is configured.
+ */
+async function lookupCache(url: string, options: NormalizedOptions): Promise<CacheContext | null> {
+  if (!options.cacheStore || options.cache === 'no-store') {
+    return null;
+  }
+
+  const method = (options.method ?? 'GET').toUpperCase();
+  const requestHeaders = new Headers(options.headers);
+  applyDefaultHeaders(requestHeaders, options);
+  applyStoredCredentials(requestHeaders, url, method, url, options);
+
+  const key = getCacheKey(url, method, requestHeaders);
+  if (!key) {
+    return null;
+  }
+
+  const stored = options.cache === 'reload' ? undefined : await options.cacheStore.get(key);
+  const entry = stored && matchesVary(stored, requestHeaders) ? stored : undefined;
+  return { store: options.cacheStore, key, entry, requestHeaders };
+}
+
+/**
+ * Check whether a cached entry may be served without contacting the server.
+ */
+function canServeFromCache(entry: PluckCacheEntry, mode: RequestCache | undefined): boolean {
+  if (mode === 'force-cache') {
+    return true;
+  }
+  if (mode === 'no-cache' || mode === 'reload') {
+    return false;
+  }
+  return isFresh(entry);
+}
+
+/**
+ * Copy a byte view into a standalone ArrayBuffer.
+ */
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
 /**
  * Normalize pluck options with defaults.
  */
-function normalizeOptions(
-  init?: PluckInit,
-): Required<Omit<PluckInit, keyof RequestInit>> & RequestInit {
+function normalizeOptions(init?: PluckInit): NormalizedOptions {
   return {
     ...init,
     timeout: init?.timeout ?? DEFAULT_TIMEOUT,
     maxRedirects: init?.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
     maxSize: init?.maxSize ?? DEFAULT_MAX_SIZE,
+    truncate: init?.truncate ?? false,
     userAgent: init?.userAgent ?? DEFAULT_USER_AGENT,
     throwOnHttpError: init?.throwOnHttpError ?? true,
     strictContentType: init?.strictContentType ?? false,
     allowedContentTypes: init?.allowedContentTypes ?? DEFAULT_ALLOWED_CONTENT_TYPES,
     followRedirects: init?.followRedirects ?? true,
+    allowFileUrls: init?.allowFileUrls ?? false,
+    followMetaRefresh: init?.followMetaRefresh === true ? {} : (init?.followMetaRefresh ?? false),
     validateEncoding: init?.validateEncoding ?? true,
+    retry: normalizeRetryOptions(init?.retry),
+    respectRobotsTxt: init?.respectRobotsTxt === true ? {} : (init?.respectRobotsTxt ?? false),
+    blockPrivateNetworks:
+      init?.blockPrivateNetworks === true ? {} : (init?.blockPrivateNetworks ?? false),
+    middleware: init?.middleware ?? [],
   };
 }
 
@@ -199,70 +681,138 @@ function normalizeOptions(
  */
 async function followRedirects(
   input: string | URL | Request,
-  options: ReturnType<typeof normalizeOptions>,
+  options: NormalizedOptions,
   signal: AbortSignal,
-): Promise<{ response: Response; redirectChain: string[]; redirectDuration: number }> {
+): Promise<{
+  response: Response;
+  redirectChain: string[];
+  redirectKinds: PluckRedirectKind[];
+  redirectDuration: number;
+  proxy: string | null;
+  hops: PluckTimingHop[];
+  credentialed: boolean;
+}> {
   let url = typeof input === 'string' || input instanceof URL ? String(input) : input.url;
   const redirectChain: string[] = [];
+  const redirectKinds: PluckRedirectKind[] = [];
+  const hops: PluckTimingHop[] = [];
   const redirectStart = Date.now();
   const seenUrls = new Set<string>();
+  let credentialed = false;
 
-  // If not following redirects, just do one request
+  // If not following redirects, just do one request and return the 3xx as-is
   if (!options.followRedirects) {
-    const response = await fetchWithHeaders(url, options, signal, false);
-    return { response, redirectChain: [], redirectDuration: 0 };
+    const { response, proxy, ttfb, credentialed } = await fetchWithHeaders(url, options, signal, {
+      hop: 0,
+      siteUrl: url,
+    });
+    hops.push({ url, status: response.status, start: redirectStart, ttfb, duration: ttfb });
+    return {
+      response,
+      redirectChain: [],
+      redirectKinds: [],
+      redirectDuration: 0,
+      proxy,
+      hops,
+      credentialed,
+    };
   }
 
   for (let i = 0; i <= options.maxRedirects; i++) {
-    // Detect redirect loops
-    if (seenUrls.has(url)) {
+    // Detect redirect loops (revisiting a URL with new cookies is progress, not a loop)
+    const cookies = options.cookieJar?.getCookieHeader(url, { siteUrl: redirectChain[0] ?? url });
+    const state = cookies ? `${url}\n${cookies}` : url;
+    if (seenUrls.has(state)) {
       throw new PluckRedirectError(
         `Redirect loop detected: ${url}`,
         redirectChain,
         options.maxRedirects,
       );
     }
-    seenUrls.add(url);
+    seenUrls.add(state);
 
-    // Fetch with manual redirect handling
-    const response = await fetchWithHeaders(url, options, signal, true);
+    // Fetch with manual redirect handling (middleware may rewrite the URL)
+    const hopStart = Date.now();
+    const sent = await fetchWithHeaders(url, options, signal, {
+      hop: i,
+      siteUrl: redirectChain[0] ?? url,
+    });
+    const response = sent.response;
+    url = sent.url;
+    credentialed ||= sent.credentialed;
 
-    // Check if it's a redirect
-    if (response.status >= 300 && response.status < 400) {
-      const location = response.headers.get('location');
-      if (!location) {
-        throw new PluckRedirectError('Redirect response missing Location header', redirectChain);
-      }
+    // Check if it's a redirect (3xx Location, or refresh if enabled)
+    const redirect = await findRedirect(response, url, options);
+    const duration = Date.now() - hopStart;
+    hops.push({ url, status: response.status, start: hopStart, ttfb: sent.ttfb, duration });
+    if (!redirect) {
+      const redirectDuration = Date.now() - redirectStart;
+      return {
+        response,
+        redirectChain,
+        redirectKinds,
+        redirectDuration,
+        proxy: sent.proxy,
+        hops,
+        credentialed,
+      };
+    }
 
-      // Add current URL to chain
-      redirectChain.push(url);
+    if (!redirect.location) {
+      throw new PluckRedirectError('Redirect response missing Location header', redirectChain);
+    }
 
-      // Resolve relative/absolute location
-      try {
-        url = new URL(location, url).href;
-      } catch {
-        throw new PluckRedirectError(
-          `Invalid redirect location: ${location}`,
-          redirectChain,
-          options.maxRedirects,
-        );
-      }
+    // Add current URL to chain
+    redirectChain.push(url);
+    redirectKinds.push(redirect.kind);
 
-      // Validate redirect URL scheme
-      if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    // Resolve relative/absolute location
+    const from = url;
+    try {
+      url = new URL(redirect.location, url).href;
+    } catch {
+      throw new PluckRedirectError(
+        `Invalid redirect location: ${redirect.location}`,
+        redirectChain,
+        options.maxRedirects,
+      );
+    }
+
+    // Let middleware abort or retarget the redirect
+    for (const middleware of options.middleware) {
+      const decision = await middleware.onRedirect?.({
+        from,
+        to: url,
+        status: response.status,
+        kind: redirect.kind,
+        response,
+        redirectChain: [...redirectChain],
+      });
+      if (decision === false) {
         throw new PluckRedirectError(
-          `Invalid redirect scheme: ${url}`,
+          `Redirect to ${url} aborted by middleware`,
           redirectChain,
           options.maxRedirects,
         );
       }
+      if (typeof decision === 'string') {
+        url = new URL(decision, from).href;
+      }
+    }
 
-      continue;
+    // Validate redirect URL scheme
+    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+      throw new PluckRedirectError(
+        `Invalid redirect scheme: ${url}`,
+        redirectChain,
+        options.maxRedirects,
+      );
     }
 
-    // Not a redirect, return response
-    const redirectDuration = Date.now() - redirectStart;
-    return { response, redirectChain, redirectDuration };
+    // Discard the body of refresh pages (3xx bodies are left to the runtime)
+    if (redirect.kind !== 'http') {
+      await response.body?.cancel().catch(() => {});
+    }
   }
 
   // Too many redirects
@@ -274,63 +824,404 @@ async function followRedirects(
 }
 
 /**
- * Fetch with smart default headers.
+ * Find the redirect declared by a response, if any.
+ *
+ * @remarks
+ * 3xx responses (except 304) always redirect. With `followMetaRefresh`,
+ * successful responses redirect via a `Refresh` header or, for HTML, a meta
+ * refresh tag near the start of the body (read from a clone, so the body
+ * stays intact). Reloads, long delays and non-HTTP(S) targets are ignored.
+ */
+async function findRedirect(
+  response: Response,
+  url: string,
+  options: NormalizedOptions,
+): Promise<{ location: string | null; kind: PluckRedirectKind } | null> {
+  if (response.status >= 300 && response.status < 400 && response.status !== 304) {
+    return { location: response.headers.get('location'), kind: 'http' };
+  }
+
+  if (!options.followMetaRefresh || !response.ok) {
+    return null;
+  }
+
+  const header = response.headers.get('refresh');
+  if (header) {
+    const refresh = parseRefresh(header);
+    return refreshTarget(refresh, 'refresh-header', url, options.followMetaRefresh);
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType || /html/i.test(contentType)) {
+    const prefix = await readBodyPrefix(response.clone(), META_REFRESH_SCAN_SIZE);
+    const html = decodeToUtf8(prefix, detectEncoding(prefix, contentType), false);
+    const refresh = parseMetaRefresh(html);
+    return refreshTarget(refresh, 'meta-refresh', url, options.followMetaRefresh);
+  }
+
+  return null;
+}
+
+/**
+ * Turn a refresh directive into a redirect, unless it should be ignored.
+ */
+function refreshTarget(
+  refresh: ReturnType<typeof parseRefresh>,
+  kind: PluckRedirectKind,
+  url: string,
+  metaRefresh: PluckMetaRefreshOptions,
+): { location: string; kind: PluckRedirectKind } | null {
+  if (!refresh?.url || refresh.delay > (metaRefresh.maxDelay ?? DEFAULT_META_REFRESH_MAX_DELAY)) {
+    return null;
+  }
+
+  let target: URL;
+  try {
+    target = new URL(refresh.url, url);
+  } catch {
+    return null;
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return null;
+  }
+
+  // Refreshing the same page is a reload, not a redirect
+  target.hash = '';
+  const current = new URL(url);
+  current.hash = '';
+  if (target.href === current.href) {
+    return null;
+  }
+
+  return { location: refresh.url, kind };
+}
+
+/**
+ * Read up to `limit` bytes from the start of a response body.
+ */
+async function readBodyPrefix(response: Response, limit: number): Promise<ArrayBuffer> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return (await response.arrayBuffer()).slice(0, limit);
+  }
+
+  const bytes = new Uint8Array(limit);
+  let length = 0;
+  try {
+    while (length < limit) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      const chunk = value.subarray(0, limit - length);
+      bytes.set(chunk, length);
+      length += chunk.length;
+    }
+  } finally {
+    // Not awaited: cancelling a cloned branch settles only once the original is consumed
+    reader.cancel().catch(() => {});
+  }
+
+  return bytes.buffer.slice(0, length);
+}
+
+/**
+ * Throw if a request (or redirect hop) to the URL is not allowed.
+ */
+async function assertAllowedHop(url: string, options: NormalizedOptions): Promise<void> {
+  if (options.blockPrivateNetworks) {
+    await assertAllowedByNetworkPolicy(url, options.blockPrivateNetworks);
+  }
+  await assertAllowedByRobotsTxt(url, options);
+}
+
+/**
+ * Throw if robots.txt compliance is enabled and the URL is disallowed.
+ */
+async function assertAllowedByRobotsTxt(url: string, options: NormalizedOptions): Promise<void> {
+  if (!options.respectRobotsTxt) {
+    return;
+  }
+
+  const userAgent = getRobotsUserAgent(options);
+  const robots = await getRobotsTxt(url, options.respectRobotsTxt, (robotsUrl) =>
+    fetchRobotsTxt(robotsUrl, options),
+  );
+
+  if (!isAllowedByRobotsTxt(robots, url, userAgent)) {
+    throw new PluckRobotsError(`URL disallowed by robots.txt: ${url}`, url, userAgent);
+  }
+}
+
+/**
+ * Look up the robots.txt Crawl-delay (in seconds) that applies to a URL.
+ *
+ * @remarks
+ * Shares the robots.txt cache with `respectRobotsTxt` (the cache from
+ * `init.respectRobotsTxt` if given, otherwise the shared cache).
+ *
+ * @param url - URL whose origin's robots.txt is consulted
+ * @param init - Pluck options used for fetching robots.txt
+ * @returns Crawl delay in seconds, or undefined if none is set
+ */
+export async function fetchCrawlDelay(url: string, init?: PluckInit): Promise<number | undefined> {
+  const options = normalizeOptions(init);
+  const robots = await getRobotsTxt(url, options.respectRobotsTxt || {}, (robotsUrl) =>
+    fetchRobotsTxt(robotsUrl, options),
+  );
+  return getRobotsTxtCrawlDelay(robots, getRobotsUserAgent(options));
+}
+
+/**
+ * User agent used for robots.txt group matching.
+ */
+function getRobotsUserAgent(options: NormalizedOptions): string {
+  const robotsOptions = options.respectRobotsTxt || {};
+  return (
+    robotsOptions.userAgent || new Headers(options.headers).get('user-agent') || options.userAgent
+  );
+}
+
+/**
+ * Fetch and parse robots.txt, mapping failures to allow-all / disallow-all.
+ *
+ * @remarks
+ * Only server errors (5xx) disallow everything; missing files (4xx), redirect
+ * overflows and network errors allow everything.
+ */
+async function fetchRobotsTxt(
+  robotsUrl: string,
+  options: NormalizedOptions,
+): Promise<{ robots: RobotsTxt; unreachable: boolean }> {
+  try {
+    const response = await pluck(robotsUrl, {
+      ...options,
+      method: 'GET',
+      body: undefined,
+      respectRobotsTxt: false,
+      throwOnHttpError: false,
+      strictContentType: false,
+      validateEncoding: false,
+      followRedirects: true,
+      maxRedirects: 5,
+      // Oversized files are parsed up to the limit (RFC 9309 §2.5)
+      maxSize: ROBOTS_TXT_MAX_SIZE,
+      truncate: true,
+      onProgress: undefined,
+    });
+
+    // Server errors mean "unreachable": assume complete disallow
+    if (response.status >= 500) {
+      return { robots: ROBOTS_TXT_DISALLOW_ALL, unreachable: true };
+    }
+
+    // Client errors mean "unavailable": no restrictions
+    if (response.status >= 400) {
+      return { robots: ROBOTS_TXT_ALLOW_ALL, unreachable: false };
+    }
+
+    return { robots: parseRobotsTxt(await response.textUtf8()), unreachable: false };
+  } catch (error) {
+    // More than five redirects mean "unavailable" (RFC 9309 §2.3.1.2)
+    if (error instanceof PluckRedirectError) {
+      return { robots: ROBOTS_TXT_ALLOW_ALL, unreachable: false };
+    }
+    // Network errors mean "unreachable" too (RFC 9309 §2.3.1.4), cached briefly
+    return { robots: ROBOTS_TXT_DISALLOW_ALL, unreachable: true };
+  }
+}
+
+/**
+ * Fetch with smart default headers, running middleware and hop checks.
+ *
+ * @returns The response, the URL actually requested (after middleware rewrites),
+ *   the proxy that served it and whether credentials were sent
  */
 async function fetchWithHeaders(
   url: string,
-  options: ReturnType<typeof normalizeOptions>,
+  options: NormalizedOptions,
   signal: AbortSignal,
-  manualRedirect: boolean,
-): Promise<Response> {
+  context: HopContext,
+): Promise<{
+  response: Response;
+  url: string;
+  proxy: string | null;
+  ttfb: number;
+  credentialed: boolean;
+}> {
   const headers = new Headers(options.headers);
 
-  // Set User-Agent
+  // Never forward auth headers to other origins
+  if (context.hop > 0 && !isSameOrigin(url, context.siteUrl)) {
+    for (const name of CROSS_ORIGIN_STRIPPED_HEADERS) {
+      headers.delete(name);
+    }
+  }
+
+  applyDefaultHeaders(headers, options);
+
+  const request: PluckRequestContext = {
+    url,
+    headers,
+    method: (options.method ?? 'GET').toUpperCase(),
+    hop: context.hop,
+  };
+
+  // Middleware may modify the request or answer it directly
+  let response: Response | undefined;
+  let proxy: string | null = null;
+  let ttfb = 0;
+  let credentialed = false;
+  for (const middleware of options.middleware) {
+    response = await middleware.beforeRequest?.(request);
+    if (response) break;
+  }
+
+  // data: and file: URLs are answered locally (no robots.txt, cookies or credentials)
+  if (!response && isLocalUrl(request.url)) {
+    // file: only for the initial URL, never reached via redirects or refreshes
+    if (/^file:/i.test(request.url.trimStart()) && (!options.allowFileUrls || context.hop > 0)) {
+      throw new PluckBlockedError(`Blocked file URL: ${request.url}`, request.url, 'protocol');
+    }
+    if (options.blockPrivateNetworks) {
+      await assertAllowedByNetworkPolicy(request.url, options.blockPrivateNetworks);
+    }
+    response = await fetchLocalUrl(request.url, signal);
+  }
+
+  if (!response) {
+    // Check network policy and robots.txt for every hop
+    await assertAllowedHop(request.url, options);
+
+    applyStoredCredentials(request.headers, request.url, request.method, context.siteUrl, options);
+    credentialed = hasCredentialHeaders(request.headers);
+
+    const init: RequestInit = {
+      ...options,
+      credentials: typeof options.credentials === 'string' ? options.credentials : undefined,
+      headers: request.headers,
+      signal,
+      // Never let fetch follow redirects: every hop must pass the checks above
+      redirect: 'manual',
+    };
+    const sendStart = Date.now();
+    if (options.transport) {
+      response = await options.transport(request.url, init);
+    } else if (options.proxy) {
+      const { proxy: pool } = options;
+      const proxyUrl = typeof pool === 'string' ? pool : pool.select(request.url);
+      proxy = redactProxyUrl(proxyUrl);
+      try {
+        response = await createProxyTransport(proxyUrl)(request.url, init);
+      } catch (error) {
+        // Evict proxies that fail with network errors (not timeouts or aborts)
+        if (typeof pool !== 'string' && error instanceof PluckNetworkError) {
+          pool.markFailed(proxyUrl);
+        }
+        throw error;
+      }
+      if (typeof pool !== 'string') {
+        pool.markSucceeded(proxyUrl);
+      }
+    } else {
+      response = await fetch(request.url, init);
+    }
+    ttfb = Date.now() - sendStart;
+    options.cookieJar?.setCookiesFromResponse(response, request.url);
+  }
+
+  for (const middleware of options.middleware) {
+    response = (await middleware.afterResponse?.(response, request)) ?? response;
+  }
+
+  // Synthetic responses have no URL
+  if (!response.url) {
+    Object.defineProperty(response, 'url', { value: request.url });
+  }
+
+  return { response, url: request.url, proxy, ttfb, credentialed };
+}
+
+/**
+ * Set the default User-Agent, Accept and Accept-Language headers (explicit headers win).
+ */
+function applyDefaultHeaders(headers: Headers, options: NormalizedOptions): void {
   if (!headers.has('user-agent')) {
     headers.set('user-agent', options.userAgent);
   }
-
-  // Set Accept
   if (!headers.has('accept')) {
     headers.set('accept', 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8');
   }
-
-  // Set Accept-Language
   if (!headers.has('accept-language')) {
     headers.set('accept-language', 'en-US,en;q=0.9');
   }
+}
+
+/**
+ * Apply per-origin credentials and stored cookies to a request.
+ */
+function applyStoredCredentials(
+  headers: Headers,
+  url: string,
+  method: string,
+  siteUrl: string,
+  options: NormalizedOptions,
+): void {
+  // Apply per-origin credentials (explicit headers win)
+  const credential =
+    typeof options.credentials === 'object' ? findCredential(url, options.credentials) : null;
+  if (credential) {
+    applyCredential(headers, credential);
+  }
 
-  return fetch(url, {
-    ...options,
-    headers,
-    signal,
-    redirect: manualRedirect ? 'manual' : 'follow',
-  });
+  // Send stored cookies unless a Cookie header was set explicitly
+  const { cookieJar } = options;
+  if (cookieJar && !headers.has('cookie')) {
+    const cookie = cookieJar.getCookieHeader(url, { method, siteUrl });
+    if (cookie) {
+      headers.set('cookie', cookie);
+    }
+  }
 }
 
 /**
  * Read response body with size limit.
+ *
+ * @remarks
+ * The body is streamed chunk by chunk and reading stops as soon as `maxSize`
+ * is exceeded, so responses without Content-Length can't exhaust memory.
+ * In truncate mode the first `maxSize` bytes are kept instead of throwing.
  */
 async function readResponseWithSizeLimit(
   response: Response,
-  maxSize: number,
-): Promise<ArrayBuffer> {
+  options: NormalizedOptions,
+): Promise<{ buffer: ArrayBuffer; truncated: boolean }> {
+  const { maxSize, truncate, onProgress } = options;
+  const url = response.url;
+
   const contentLength = response.headers.get('content-length');
-  if (contentLength) {
-    const size = Number.parseInt(contentLength, 10);
-    if (size > maxSize) {
-      throw new PluckSizeError(
-        `Response size ${size} bytes exceeds maximum ${maxSize} bytes`,
-        maxSize,
-        size,
-      );
-    }
+  const parsedLength = contentLength ? Number.parseInt(contentLength, 10) : Number.NaN;
+  const total = Number.isNaN(parsedLength) ? null : parsedLength;
+  if (total !== null && total > maxSize && !truncate) {
+    // Release the connection instead of leaving the body unread
+    await response.body?.cancel().catch(() => {});
+    throw new PluckSizeError(
+      `Response size ${total} bytes exceeds maximum ${maxSize} bytes`,
+      maxSize,
+      total,
+    );
   }
 
-  // Read response
-  const buffer = await response.arrayBuffer();
-
-  // Check actual size
-  if (buffer.byteLength > maxSize) {
+  // Bodies that aren't streams can only be read at once
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onProgress?.({ url, loaded: buffer.byteLength, total });
+    if (buffer.byteLength <= maxSize) {
+      return { buffer, truncated: false };
+    }
+    if (truncate) {
+      return { buffer: buffer.slice(0, maxSize), truncated: true };
+    }
     throw new PluckSizeError(
       `Response size ${buffer.byteLength} bytes exceeds maximum ${maxSize} bytes`,
       maxSize,
@@ -338,7 +1229,46 @@ async function readResponseWithSizeLimit(
     );
   }
 
-  return buffer;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    if (loaded + value.byteLength > maxSize) {
+      // Stop downloading the rest of the body
+      await reader.cancel().catch(() => {});
+      if (!truncate) {
+        throw new PluckSizeError(
+          `Response size ${loaded + value.byteLength} bytes exceeds maximum ${maxSize} bytes`,
+          maxSize,
+          loaded + value.byteLength,
+        );
+      }
+      chunks.push(value.subarray(0, maxSize - loaded));
+      loaded = maxSize;
+      truncated = true;
+      onProgress?.({ url, loaded, total });
+      break;
+    }
+
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress?.({ url, loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { buffer: bytes.buffer, truncated };
 }
 
 /**
@@ -377,8 +1307,12 @@ function createPluckResponse(
     originalUrl: string;
     finalUrl: string;
     redirectChain: string[];
-    detectedEncoding: string;
+    redirectKinds: PluckRedirectKind[];
+    encoding: EncodingDetection;
     utf8Content: string;
+    cacheStatus: PluckCacheStatus;
+    proxy: string | null;
+    truncated: boolean;
     timing: PluckResponse['timing'];
   },
 ): PluckResponse {
@@ -392,8 +1326,15 @@ function createPluckResponse(
   enhancedResponse.originalUrl = metadata.originalUrl;
   enhancedResponse.finalUrl = metadata.finalUrl;
   enhancedResponse.redirectChain = metadata.redirectChain;
-  enhancedResponse.detectedEncoding = metadata.detectedEncoding;
+  enhancedResponse.redirectKinds = metadata.redirectKinds;
+  enhancedResponse.detectedEncoding = metadata.encoding.encoding;
+  enhancedResponse.encodingSource = metadata.encoding.source;
+  enhancedResponse.encodingConfidence = metadata.encoding.confidence;
   enhancedResponse.timing = metadata.timing;
+  enhancedResponse.retries = [];
+  enhancedResponse.cacheStatus = metadata.cacheStatus;
+  enhancedResponse.truncated = metadata.truncated;
+  enhancedResponse.proxy = metadata.proxy;
 
   // Add textUtf8() method
   enhancedResponse.textUtf8 = async () => {
@@ -0,0 +1,195 @@
+/**
+ * Retry policy tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  computeBackoffDelay,
+  isRetryableError,
+  isRetryableMethod,
+  normalizeRetryOptions,
+  parseRetryAfter,
+  resolveRetryDelay,
+  sleep,
+} from './retry.js';
+import { PluckHttpError, PluckNetworkError, PluckSizeError, PluckTimeoutError } from './types.js';
+
+describe('normalizeRetryOptions', () => {
+  it('should disable retries by default', () => {
+    assert.equal(normalizeRetryOptions(undefined).attempts, 1);
+    assert.equal(normalizeRetryOptions(false).attempts, 1);
+  });
+
+  it('should use defaults for true', () => {
+    const options = normalizeRetryOptions(true);
+    assert.equal(options.attempts, 3);
+    assert.equal(options.baseDelay, 500);
+    assert.equal(options.jitter, true);
+    assert.ok(options.statusCodes.includes(503));
+    assert.ok(options.statusCodes.includes(429));
+  });
+
+  it('should treat a number as attempt count', () => {
+    assert.equal(normalizeRetryOptions(5).attempts, 5);
+  });
+
+  it('should clamp attempts to at least 1', () => {
+    assert.equal(normalizeRetryOptions({ attempts: 0 }).attempts, 1);
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const options = normalizeRetryOptions({
+    baseDelay: 100,
+    factor: 2,
+    maxDelay: 1000,
+    jitter: false,
+  });
+
+  it('should grow exponentially', () => {
+    assert.equal(computeBackoffDelay(1, options), 100);
+    assert.equal(computeBackoffDelay(2, options), 200);
+    assert.equal(computeBackoffDelay(3, options), 400);
+  });
+
+  it('should cap at maxDelay', () => {
+    assert.equal(computeBackoffDelay(10, options), 1000);
+  });
+
+  it('should apply full jitter', () => {
+    const jittered = { ...options, jitter: true };
+    assert.equal(
+      computeBackoffDelay(3, jittered, () => 0.5),
+      200,
+    );
+    assert.equal(
+      computeBackoffDelay(3, jittered, () => 0),
+      0,
+    );
+  });
+
+  it('should apply proportional jitter', () => {
+    const jittered = { ...options, jitter: 0.5 };
+    assert.equal(
+      computeBackoffDelay(3, jittered, () => 0),
+      200,
+    );
+    assert.equal(
+      computeBackoffDelay(3, jittered, () => 0.5),
+      400,
+    );
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delay-seconds', () => {
+    assert.equal(parseRetryAfter('120'), 120000);
+    assert.equal(parseRetryAfter(' 0 '), 0);
+  });
+
+  it('should parse HTTP-date', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now), 30000);
+  });
+
+  it('should not return negative delays for past dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:00:00 GMT', now), 0);
+  });
+
+  it('should return null for missing or invalid values', () => {
+    assert.equal(parseRetryAfter(null), null);
+    assert.equal(parseRetryAfter(''), null);
+    assert.equal(parseRetryAfter('soon'), null);
+  });
+});
+
+describe('isRetryableMethod', () => {
+  it('should only retry idempotent methods by default', () => {
+    const options = normalizeRetryOptions(true);
+    for (const method of [undefined, 'get', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']) {
+      assert.ok(isRetryableMethod(method, options), String(method));
+    }
+    assert.ok(!isRetryableMethod('POST', options));
+    assert.ok(!isRetryableMethod('patch', options));
+  });
+
+  it('should respect custom methods', () => {
+    const options = normalizeRetryOptions({ methods: ['get', 'post'] });
+    assert.ok(isRetryableMethod('POST', options));
+    assert.ok(!isRetryableMethod('PUT', options));
+  });
+});
+
+describe('isRetryableError', () => {
+  const options = normalizeRetryOptions(true);
+
+  it('should retry network and timeout errors', () => {
+    assert.ok(isRetryableError(new PluckNetworkError('boom'), options));
+    assert.ok(isRetryableError(new PluckTimeoutError('slow', 100), options));
+  });
+
+  it('should retry HTTP errors with retryable status', () => {
+    const response = new Response('', { status: 503 });
+    assert.ok(isRetryableError(new PluckHttpError('HTTP 503', 503, '', response), options));
+  });
+
+  it('should not retry HTTP errors with other status', () => {
+    const response = new Response('', { status: 404 });
+    assert.ok(!isRetryableError(new PluckHttpError('HTTP 404', 404, '', response), options));
+  });
+
+  it('should not retry other errors', () => {
+    assert.ok(!isRetryableError(new PluckSizeError('big', 10, 20), options));
+    assert.ok(!isRetryableError(new Error('generic'), options));
+  });
+
+  it('should respect custom error classes', () => {
+    const custom = normalizeRetryOptions({ errors: [PluckSizeError] });
+    assert.ok(isRetryableError(new PluckSizeError('big', 10, 20), custom));
+    assert.ok(!isRetryableError(new PluckNetworkError('boom'), custom));
+  });
+});
+
+describe('resolveRetryDelay', () => {
+  const options = normalizeRetryOptions({ baseDelay: 100, jitter: false, maxDelay: 5000 });
+
+  it('should prefer Retry-After header', () => {
+    const headers = new Headers({ 'retry-after': '2' });
+    assert.deepEqual(resolveRetryDelay(1, headers, options), { delay: 2000, retryAfter: true });
+  });
+
+  it('should cap Retry-After at maxDelay', () => {
+    const headers = new Headers({ 'retry-after': '3600' });
+    assert.deepEqual(resolveRetryDelay(1, headers, options), { delay: 5000, retryAfter: true });
+  });
+
+  it('should ignore Retry-After when disabled', () => {
+    const headers = new Headers({ 'retry-after': '2' });
+    const ignoring = { ...options, respectRetryAfter: false };
+    assert.deepEqual(resolveRetryDelay(1, headers, ignoring), { delay: 100, retryAfter: false });
+  });
+
+  it('should fall back to backoff without headers', () => {
+    assert.deepEqual(resolveRetryDelay(2, undefined, options), { delay: 200, retryAfter: false });
+  });
+});
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    const start = Date.now();
+    await sleep(20);
+    assert.ok(Date.now() - start >= 15);
+  });
+
+  it('should reject when aborted', async () => {
+    const controller = new AbortController();
+    const promise = sleep(10000, controller.signal);
+    controller.abort(new Error('cancelled'));
+    await assert.rejects(promise, /cancelled/);
+  });
+});
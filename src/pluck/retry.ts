@@ -0,0 +1,191 @@
+/**
+ * Retry policy for pluck().
+ *
+ * @remarks
+ * Exponential backoff with jitter and Retry-After header support.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import type { PluckRetryOptions } from './types.js';
+import { PluckHttpError, PluckNetworkError, PluckTimeoutError } from './types.js';
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 500;
+const DEFAULT_MAX_DELAY = 30000;
+const DEFAULT_FACTOR = 2;
+const DEFAULT_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+const DEFAULT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Fully resolved retry options.
+ */
+export type NormalizedRetryOptions = Required<PluckRetryOptions>;
+
+/**
+ * Normalize the `retry` option of PluckInit.
+ *
+ * @param retry - Raw retry option (boolean, attempt count, or options object)
+ * @returns Resolved options (`attempts` is 1 when retries are disabled)
+ */
+export function normalizeRetryOptions(
+  retry: boolean | number | PluckRetryOptions | undefined,
+): NormalizedRetryOptions {
+  const options: PluckRetryOptions =
+    typeof retry === 'object'
+      ? retry
+      : typeof retry === 'number'
+        ? { attempts: retry }
+        : retry
+          ? {}
+          : { attempts: 1 };
+
+  return {
+    attempts: Math.max(1, Math.floor(options.attempts ?? DEFAULT_ATTEMPTS)),
+    baseDelay: Math.max(0, options.baseDelay ?? DEFAULT_BASE_DELAY),
+    maxDelay: Math.max(0, options.maxDelay ?? DEFAULT_MAX_DELAY),
+    factor: options.factor ?? DEFAULT_FACTOR,
+    jitter: options.jitter ?? true,
+    statusCodes: options.statusCodes ?? DEFAULT_STATUS_CODES,
+    errors: options.errors ?? [PluckNetworkError, PluckTimeoutError],
+    methods: (options.methods ?? DEFAULT_METHODS).map((method) => method.toUpperCase()),
+    respectRetryAfter: options.respectRetryAfter ?? true,
+  };
+}
+
+/**
+ * Compute the backoff delay for a given attempt.
+ *
+ * @param attempt - Attempt number that just failed (1-based)
+ * @param options - Resolved retry options
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: NormalizedRetryOptions,
+  random: () => number = Math.random,
+): number {
+  const exponential = options.baseDelay * options.factor ** (attempt - 1);
+  const capped = Math.min(exponential, options.maxDelay);
+
+  if (options.jitter === true) {
+    // Full jitter: uniformly distributed between 0 and the capped delay
+    return Math.round(random() * capped);
+  }
+
+  if (typeof options.jitter === 'number' && options.jitter > 0) {
+    // Proportional jitter: capped delay ± jitter fraction
+    const spread = capped * Math.min(options.jitter, 1);
+    return Math.round(Math.min(options.maxDelay, capped - spread + random() * spread * 2));
+  }
+
+  return Math.round(capped);
+}
+
+/**
+ * Parse a Retry-After header value.
+ *
+ * @remarks
+ * Supports both delay-seconds (`Retry-After: 120`) and HTTP-date
+ * (`Retry-After: Wed, 21 Oct 2015 07:28:00 GMT`) forms.
+ *
+ * @param value - Retry-After header value
+ * @param now - Current timestamp in milliseconds, injectable for tests
+ * @returns Delay in milliseconds, or null if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Check whether requests with the given method may be retried.
+ *
+ * @param method - Request method (defaults to GET)
+ * @param options - Resolved retry options
+ * @returns True if the method is listed in `methods`
+ */
+export function isRetryableMethod(
+  method: string | undefined,
+  options: NormalizedRetryOptions,
+): boolean {
+  return options.methods.includes((method ?? 'GET').toUpperCase());
+}
+
+/**
+ * Check whether an error thrown by a pluck attempt should be retried.
+ *
+ * @param error - Error thrown by the attempt
+ * @param options - Resolved retry options
+ * @returns True if the error is retryable
+ */
+export function isRetryableError(error: unknown, options: NormalizedRetryOptions): boolean {
+  if (error instanceof PluckHttpError) {
+    return options.statusCodes.includes(error.statusCode);
+  }
+  return options.errors.some((errorClass) => error instanceof errorClass);
+}
+
+/**
+ * Resolve the delay before the next attempt.
+ *
+ * @param attempt - Attempt number that just failed (1-based)
+ * @param headers - Response headers of the failed attempt, if any
+ * @param options - Resolved retry options
+ * @returns Delay in milliseconds and whether it came from Retry-After
+ */
+export function resolveRetryDelay(
+  attempt: number,
+  headers: Headers | undefined,
+  options: NormalizedRetryOptions,
+): { delay: number; retryAfter: boolean } {
+  if (options.respectRetryAfter && headers) {
+    const retryAfter = parseRetryAfter(headers.get('retry-after'));
+    if (retryAfter !== null) {
+      return { delay: Math.min(retryAfter, options.maxDelay), retryAfter: true };
+    }
+  }
+  return { delay: computeBackoffDelay(attempt, options), retryAfter: false };
+}
+
+/**
+ * Wait for the given delay, aborting early if the signal fires.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
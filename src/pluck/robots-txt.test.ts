@@ -0,0 +1,237 @@
+/**
+ * robots.txt parser tests.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  findRobotsTxtGroup,
+  getProductToken,
+  getRobotsTxt,
+  getRobotsTxtCrawlDelay,
+  isAllowedByRobotsTxt,
+  parseRobotsTxt,
+  ROBOTS_TXT_ALLOW_ALL,
+} from './robots-txt.js';
+import type { RobotsTxtCacheEntry } from './types.js';
+
+describe('parseRobotsTxt', () => {
+  it('should parse groups, rules and sitemaps', () => {
+    const robots = parseRobotsTxt(`
+# Comment line
+User-agent: *
+Disallow: /private/ # inline comment
+Allow: /private/public.html
+
+Sitemap: https://example.com/sitemap.xml
+`);
+
+    assert.equal(robots.groups.length, 1);
+    assert.deepEqual(robots.groups[0].userAgents, ['*']);
+    assert.deepEqual(robots.groups[0].rules, [
+      { type: 'disallow', path: '/private/' },
+      { type: 'allow', path: '/private/public.html' },
+    ]);
+    assert.deepEqual(robots.sitemaps, ['https://example.com/sitemap.xml']);
+  });
+
+  it('should group consecutive user-agent lines', () => {
+    const robots = parseRobotsTxt(`
+User-agent: BotA
+User-agent: BotB
+Disallow: /a
+
+User-agent: BotC
+Disallow: /c
+`);
+
+    assert.equal(robots.groups.length, 2);
+    assert.deepEqual(robots.groups[0].userAgents, ['bota', 'botb']);
+    assert.deepEqual(robots.groups[1].userAgents, ['botc']);
+  });
+
+  it('should parse Crawl-delay', () => {
+    const robots = parseRobotsTxt('User-agent: *\nCrawl-delay: 2.5\nDisallow: /tmp');
+    assert.equal(robots.groups[0].crawlDelay, 2.5);
+  });
+
+  it('should ignore empty Disallow and rules outside groups', () => {
+    const robots = parseRobotsTxt('Disallow: /orphan\nUser-agent: *\nDisallow:');
+    assert.equal(robots.groups.length, 1);
+    assert.deepEqual(robots.groups[0].rules, []);
+  });
+
+  it('should handle CRLF line endings and BOM', () => {
+    const robots = parseRobotsTxt('\uFEFFUser-agent: *\r\nDisallow: /x\r\n');
+    assert.deepEqual(robots.groups[0].rules, [{ type: 'disallow', path: '/x' }]);
+  });
+
+  it('should handle empty content', () => {
+    assert.deepEqual(parseRobotsTxt(''), { groups: [], sitemaps: [] });
+  });
+});
+
+describe('getProductToken', () => {
+  it('should extract the product token', () => {
+    assert.equal(getProductToken('MyBot/1.0'), 'mybot');
+    assert.equal(getProductToken('googlebot'), 'googlebot');
+    assert.equal(
+      getProductToken(
+        'Mozilla/5.0 (compatible; Magpie-HTML/1.0; +https://github.com/Anonyfox/magpie-html)',
+      ),
+      'magpie-html',
+    );
+  });
+});
+
+describe('findRobotsTxtGroup', () => {
+  const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /all
+
+User-agent: magpie
+Disallow: /magpie
+
+User-agent: magpie-html
+Disallow: /magpie-html
+`);
+
+  it('should match the product token exactly', () => {
+    assert.deepEqual(findRobotsTxtGroup(robots, 'Magpie-HTML/1.0')?.rules, [
+      { type: 'disallow', path: '/magpie-html' },
+    ]);
+    assert.deepEqual(findRobotsTxtGroup(robots, 'MAGPIE')?.rules, [
+      { type: 'disallow', path: '/magpie' },
+    ]);
+  });
+
+  it('should not match agents that merely contain a group name', () => {
+    const robots = parseRobotsTxt('User-agent: bot\nDisallow: /\n\nUser-agent: *\nDisallow: /all');
+    assert.deepEqual(findRobotsTxtGroup(robots, 'MyBot/1.0')?.rules, [
+      { type: 'disallow', path: '/all' },
+    ]);
+
+    const magpie = parseRobotsTxt('User-agent: magpie\nDisallow: /');
+    assert.equal(findRobotsTxtGroup(magpie, 'magpie-html'), null);
+  });
+
+  it('should fall back to the wildcard group', () => {
+    assert.deepEqual(findRobotsTxtGroup(robots, 'OtherBot')?.rules, [
+      { type: 'disallow', path: '/all' },
+    ]);
+  });
+
+  it('should combine groups for the same agent', () => {
+    const combined = parseRobotsTxt('User-agent: a\nDisallow: /x\n\nUser-agent: a\nDisallow: /y');
+    assert.equal(findRobotsTxtGroup(combined, 'a')?.rules.length, 2);
+  });
+
+  it('should return null if no group applies', () => {
+    assert.equal(findRobotsTxtGroup(parseRobotsTxt('User-agent: a\nDisallow: /'), 'b'), null);
+  });
+});
+
+describe('isAllowedByRobotsTxt', () => {
+  const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /private/
+Allow: /private/public
+Disallow: /*.pdf$
+Disallow: /search?
+Allow: /page
+Disallow: /page
+`);
+
+  it('should allow unmatched paths', () => {
+    assert.ok(isAllowedByRobotsTxt(robots, 'https://example.com/', 'bot'));
+    assert.ok(isAllowedByRobotsTxt(robots, 'https://example.com/articles/1', 'bot'));
+  });
+
+  it('should disallow matching prefixes', () => {
+    assert.ok(!isAllowedByRobotsTxt(robots, 'https://example.com/private/secret', 'bot'));
+  });
+
+  it('should apply longest match precedence', () => {
+    assert.ok(isAllowedByRobotsTxt(robots, 'https://example.com/private/public/doc', 'bot'));
+  });
+
+  it('should prefer Allow on equal length', () => {
+    assert.ok(isAllowedByRobotsTxt(robots, 'https://example.com/page', 'bot'));
+  });
+
+  it('should support * and $ wildcards', () => {
+    assert.ok(!isAllowedByRobotsTxt(robots, 'https://example.com/files/doc.pdf', 'bot'));
+    assert.ok(isAllowedByRobotsTxt(robots, 'https://example.com/files/doc.pdf?x=1', 'bot'));
+  });
+
+  it('should match query strings', () => {
+    assert.ok(!isAllowedByRobotsTxt(robots, 'https://example.com/search?q=test', 'bot'));
+    assert.ok(isAllowedByRobotsTxt(robots, 'https://example.com/search', 'bot'));
+  });
+
+  it('should always allow /robots.txt', () => {
+    const all = parseRobotsTxt('User-agent: *\nDisallow: /');
+    assert.ok(isAllowedByRobotsTxt(all, 'https://example.com/robots.txt', 'bot'));
+    assert.ok(!isAllowedByRobotsTxt(all, 'https://example.com/index.html', 'bot'));
+  });
+
+  it('should compare percent-encoded and raw paths', () => {
+    const encoded = parseRobotsTxt('User-agent: *\nDisallow: /ä');
+    assert.ok(!isAllowedByRobotsTxt(encoded, 'https://example.com/%C3%A4rger', 'bot'));
+  });
+});
+
+describe('getRobotsTxtCrawlDelay', () => {
+  it('should return the delay of the matching group', () => {
+    const robots = parseRobotsTxt(
+      'User-agent: slow\nCrawl-delay: 10\n\nUser-agent: *\nCrawl-delay: 1',
+    );
+    assert.equal(getRobotsTxtCrawlDelay(robots, 'slow'), 10);
+    assert.equal(getRobotsTxtCrawlDelay(robots, 'fast'), 1);
+  });
+
+  it('should return undefined without delay', () => {
+    assert.equal(
+      getRobotsTxtCrawlDelay(parseRobotsTxt('User-agent: *\nDisallow:'), 'bot'),
+      undefined,
+    );
+  });
+});
+
+describe('getRobotsTxt', () => {
+  it('should load once per origin and cache the result', async () => {
+    const cache = new Map<string, RobotsTxtCacheEntry>();
+    const loaded: string[] = [];
+    const load = async (robotsUrl: string) => {
+      loaded.push(robotsUrl);
+      return { robots: ROBOTS_TXT_ALLOW_ALL, unreachable: false };
+    };
+
+    await Promise.all([
+      getRobotsTxt('https://example.com/a', { cache }, load),
+      getRobotsTxt('https://example.com/b', { cache }, load),
+    ]);
+    await getRobotsTxt('https://example.com/c', { cache }, load);
+    await getRobotsTxt('https://other.com/', { cache }, load);
+
+    assert.deepEqual(loaded, ['https://example.com/robots.txt', 'https://other.com/robots.txt']);
+    assert.ok(cache.has('https://example.com'));
+  });
+
+  it('should reload expired entries', async () => {
+    const cache = new Map<string, RobotsTxtCacheEntry>([
+      ['https://example.com', { robots: ROBOTS_TXT_ALLOW_ALL, fetchedAt: 0 }],
+    ]);
+    let loads = 0;
+
+    await getRobotsTxt('https://example.com/', { cache, maxAge: 1000 }, async () => {
+      loads++;
+      return { robots: ROBOTS_TXT_ALLOW_ALL, unreachable: false };
+    });
+
+    assert.equal(loads, 1);
+  });
+});
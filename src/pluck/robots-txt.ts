@@ -0,0 +1,330 @@
+/**
+ * robots.txt parsing and matching.
+ *
+ * @remarks
+ * Implements the Robots Exclusion Protocol (RFC 9309): user-agent groups,
+ * Allow/Disallow rules with `*` and `$` wildcards and longest-match precedence,
+ * plus the widely used Crawl-delay and Sitemap extensions.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  PluckRobotsOptions,
+  RobotsTxt,
+  RobotsTxtCacheEntry,
+  RobotsTxtGroup,
+  RobotsTxtRule,
+} from './types.js';
+
+/**
+ * Maximum robots.txt size that is parsed (RFC 9309 requires at least 500 KiB).
+ */
+export const ROBOTS_TXT_MAX_SIZE = 500 * 1024;
+
+/**
+ * Default lifetime of a cached robots.txt (24 hours).
+ */
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Lifetime of a cached "unreachable" result, so transient outages recover quickly.
+ */
+const UNREACHABLE_MAX_AGE = 60 * 1000;
+
+/**
+ * robots.txt that allows everything (used when robots.txt is missing).
+ */
+export const ROBOTS_TXT_ALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [] };
+
+/**
+ * robots.txt that disallows everything (used when robots.txt is unreachable).
+ */
+export const ROBOTS_TXT_DISALLOW_ALL: RobotsTxt = {
+  groups: [{ userAgents: ['*'], rules: [{ type: 'disallow', path: '/' }] }],
+  sitemaps: [],
+};
+
+/**
+ * Cache shared by all pluck() calls that don't bring their own.
+ */
+const sharedCache = new Map<string, RobotsTxtCacheEntry>();
+
+/**
+ * In-flight robots.txt loads, so concurrent requests to one origin fetch it once.
+ */
+const pendingLoads = new WeakMap<
+  Map<string, RobotsTxtCacheEntry>,
+  Map<string, Promise<RobotsTxt>>
+>();
+
+/**
+ * Parse robots.txt content.
+ *
+ * @remarks
+ * Consecutive `User-agent` lines form one group; the group ends at the next
+ * `User-agent` line following a rule. Rules outside any group, unknown
+ * directives and comments are ignored. Sitemap lines are collected globally.
+ *
+ * @param content - robots.txt content
+ * @returns Parsed robots.txt
+ *
+ * @example
+ * ```typescript
+ * const robots = parseRobotsTxt('User-agent: *\nDisallow: /private/\nSitemap: https://example.com/sitemap.xml');
+ * isAllowedByRobotsTxt(robots, 'https://example.com/private/page', 'MyBot'); // false
+ * robots.sitemaps; // ['https://example.com/sitemap.xml']
+ * ```
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsTxtGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsTxtGroup | null = null;
+  let collectingAgents = false;
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  for (const rawLine of lines) {
+    // Strip comments and surrounding whitespace
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent': {
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+          collectingAgents = true;
+        }
+        if (value) {
+          current.userAgents.push(value.toLowerCase());
+        }
+        break;
+      }
+      case 'allow':
+      case 'disallow': {
+        collectingAgents = false;
+        if (!current) continue;
+        // An empty Disallow means "allow everything" and adds no rule
+        if (value) {
+          current.rules.push({ type: key, path: normalizePattern(value) });
+        }
+        break;
+      }
+      case 'crawl-delay': {
+        collectingAgents = false;
+        if (!current) continue;
+        const delay = Number.parseFloat(value);
+        if (!Number.isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap': {
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+      }
+      default:
+        // Unknown directives don't end the user-agent list
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Extract the product token from a User-Agent string.
+ *
+ * @example
+ * getProductToken('MyBot/1.0') // 'mybot'
+ * getProductToken('Mozilla/5.0 (compatible; Magpie-HTML/1.0; +https://...)') // 'magpie-html'
+ */
+export function getProductToken(userAgent: string): string {
+  const compatible = /compatible;\s*([^/;\s)]+)/i.exec(userAgent);
+  if (compatible) {
+    return compatible[1].toLowerCase();
+  }
+  const first = /^\s*([^/\s]+)/.exec(userAgent);
+  return (first?.[1] ?? userAgent).toLowerCase();
+}
+
+/**
+ * Find the rules that apply to a user agent.
+ *
+ * @remarks
+ * Groups naming exactly the product token (case-insensitive) win over the
+ * `*` group; a group for `magpie` does not apply to `magpie-html`. If several
+ * groups match, their rules are combined (RFC 9309 §2.2.1).
+ *
+ * @param robots - Parsed robots.txt
+ * @param userAgent - User-Agent string or product token
+ * @returns Combined group, or null if no group applies
+ */
+export function findRobotsTxtGroup(robots: RobotsTxt, userAgent: string): RobotsTxtGroup | null {
+  const token = getProductToken(userAgent);
+
+  const specific = robots.groups.filter((group) => group.userAgents.includes(token));
+  const matching =
+    specific.length > 0
+      ? specific
+      : robots.groups.filter((group) => group.userAgents.includes('*'));
+
+  if (matching.length === 0) {
+    return null;
+  }
+
+  const combined: RobotsTxtGroup = { userAgents: [], rules: [] };
+  for (const group of matching) {
+    combined.userAgents.push(...group.userAgents);
+    combined.rules.push(...group.rules);
+    if (group.crawlDelay !== undefined && combined.crawlDelay === undefined) {
+      combined.crawlDelay = group.crawlDelay;
+    }
+  }
+  return combined;
+}
+
+/**
+ * Check whether a URL may be crawled.
+ *
+ * @remarks
+ * The most specific (longest) matching rule wins; on ties Allow wins.
+ * `/robots.txt` itself is always allowed.
+ *
+ * @param robots - Parsed robots.txt
+ * @param url - URL to check
+ * @param userAgent - User-Agent string or product token
+ * @returns True if crawling is allowed
+ */
+export function isAllowedByRobotsTxt(
+  robots: RobotsTxt,
+  url: string | URL,
+  userAgent: string,
+): boolean {
+  const parsed = typeof url === 'string' ? new URL(url) : url;
+  const path = normalizePattern(`${parsed.pathname}${parsed.search}`);
+
+  if (parsed.pathname === '/robots.txt') {
+    return true;
+  }
+
+  const group = findRobotsTxtGroup(robots, userAgent);
+  if (!group) {
+    return true;
+  }
+
+  let best: RobotsTxtRule | null = null;
+  for (const rule of group.rules) {
+    if (!matchesPattern(rule.path, path)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.type === 'allow')
+    ) {
+      best = rule;
+    }
+  }
+
+  return best?.type !== 'disallow';
+}
+
+/**
+ * Get the Crawl-delay for a user agent.
+ *
+ * @param robots - Parsed robots.txt
+ * @param userAgent - User-Agent string or product token
+ * @returns Crawl delay in seconds, or undefined if not set
+ */
+export function getRobotsTxtCrawlDelay(robots: RobotsTxt, userAgent: string): number | undefined {
+  return findRobotsTxtGroup(robots, userAgent)?.crawlDelay;
+}
+
+/**
+ * Check whether a rule pattern matches a path.
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Normalize a path or pattern for comparison.
+ *
+ * @remarks
+ * Percent-encodes characters that would be encoded in a URL and uppercases
+ * existing escapes, so `/ä` and `/%c3%a4` compare equal.
+ */
+function normalizePattern(value: string): string {
+  return value
+    .replace(/%[0-9a-f]{2}/gi, (sequence) => sequence.toUpperCase())
+    .replace(/[^\x21-\x7e]/g, (char) => encodeURIComponent(char));
+}
+
+/**
+ * Get the robots.txt for a URL's origin, using the cache when possible.
+ *
+ * @remarks
+ * Concurrent calls for the same origin share a single load. Results marked as
+ * unreachable are only cached briefly.
+ *
+ * @param url - URL whose origin's robots.txt is needed
+ * @param options - Robots options (cache and max age)
+ * @param load - Fetches and parses robots.txt for the given robots.txt URL
+ * @returns Parsed robots.txt
+ */
+export async function getRobotsTxt(
+  url: string,
+  options: PluckRobotsOptions,
+  load: (robotsUrl: string) => Promise<{ robots: RobotsTxt; unreachable: boolean }>,
+): Promise<RobotsTxt> {
+  const origin = new URL(url).origin;
+  const cache = options.cache ?? sharedCache;
+  const maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+
+  const cached = cache.get(origin);
+  if (cached) {
+    const lifetime = cached.unreachable ? Math.min(maxAge, UNREACHABLE_MAX_AGE) : maxAge;
+    if (Date.now() - cached.fetchedAt < lifetime) {
+      return cached.robots;
+    }
+  }
+
+  let pending = pendingLoads.get(cache);
+  if (!pending) {
+    pending = new Map();
+    pendingLoads.set(cache, pending);
+  }
+
+  const inFlight = pending.get(origin);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const loading = load(`${origin}/robots.txt`)
+    .then(({ robots, unreachable }) => {
+      cache.set(origin, { robots, fetchedAt: Date.now(), unreachable });
+      return robots;
+    })
+    .finally(() => {
+      pending.delete(origin);
+    });
+  pending.set(origin, loading);
+  return loading;
+}
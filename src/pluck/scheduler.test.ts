@@ -0,0 +1,262 @@
+/**
+ * Request scheduler tests with MOCKED fetch.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ */
+
+import { strict as assert } from 'node:assert';
+import { after, before, describe, it } from 'node:test';
+import { PluckScheduler } from './scheduler.js';
+import type { PluckSchedulerProgress } from './types.js';
+
+const originalFetch = global.fetch;
+type MockFetchFn = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+let mockFetch: MockFetchFn | null = null;
+
+before(() => {
+  (global as typeof globalThis & { fetch: MockFetchFn }).fetch = (input, init) => {
+    if (!mockFetch) {
+      throw new Error('Mock fetch not configured! Tests should never make real API calls.');
+    }
+    return mockFetch(input, init);
+  };
+});
+
+after(() => {
+  global.fetch = originalFetch;
+});
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Task that records its concurrency and takes `ms` to complete.
+ */
+function tracker() {
+  const state = { running: 0, maxRunning: 0, order: [] as string[], starts: [] as number[] };
+  const task =
+    (name: string, ms = 20) =>
+    async () => {
+      state.running++;
+      state.maxRunning = Math.max(state.maxRunning, state.running);
+      state.order.push(name);
+      state.starts.push(Date.now());
+      await delay(ms);
+      state.running--;
+      return name;
+    };
+  return { state, task };
+}
+
+describe('PluckScheduler', () => {
+  it('should run tasks and return their results', async () => {
+    const scheduler = new PluckScheduler();
+    const result = await scheduler.schedule('https://example.com/', async () => 42);
+    assert.equal(result, 42);
+  });
+
+  it('should enforce the global concurrency cap', async () => {
+    const scheduler = new PluckScheduler({ concurrency: 2, perOriginConcurrency: 10 });
+    const { state, task } = tracker();
+
+    await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map((name) =>
+        scheduler.schedule(`https://${name}.example.com/`, task(name)),
+      ),
+    );
+
+    assert.equal(state.maxRunning, 2);
+  });
+
+  it('should enforce per-origin concurrency', async () => {
+    const scheduler = new PluckScheduler({ concurrency: 10, perOriginConcurrency: 1 });
+    const { state, task } = tracker();
+
+    await Promise.all(
+      ['1', '2', '3'].map((name) => scheduler.schedule(`https://example.com/${name}`, task(name))),
+    );
+
+    assert.equal(state.maxRunning, 1);
+  });
+
+  it('should run different origins in parallel', async () => {
+    const scheduler = new PluckScheduler({ concurrency: 10, perOriginConcurrency: 1 });
+    const { state, task } = tracker();
+
+    await Promise.all([
+      scheduler.schedule('https://a.example.com/', task('a')),
+      scheduler.schedule('https://b.example.com/', task('b')),
+    ]);
+
+    assert.equal(state.maxRunning, 2);
+  });
+
+  it('should space requests to the same origin', async () => {
+    const scheduler = new PluckScheduler({ minDelay: 50 });
+    const { state, task } = tracker();
+
+    await Promise.all([
+      scheduler.schedule('https://example.com/1', task('1', 0)),
+      scheduler.schedule('https://example.com/2', task('2', 0)),
+    ]);
+
+    assert.ok(state.starts[1] - state.starts[0] >= 45);
+  });
+
+  it('should run higher priorities first', async () => {
+    const scheduler = new PluckScheduler({ concurrency: 1, perOriginConcurrency: 1 });
+    const { state, task } = tracker();
+
+    const first = scheduler.schedule('https://example.com/first', task('first'));
+    const low = scheduler.schedule('https://example.com/low', task('low'), { priority: 0 });
+    const high = scheduler.schedule('https://example.com/high', task('high'), { priority: 5 });
+    const mid = scheduler.schedule('https://example.com/mid', task('mid'), { priority: 1 });
+    await Promise.all([first, low, high, mid]);
+
+    assert.deepEqual(state.order, ['first', 'high', 'mid', 'low']);
+  });
+
+  it('should cancel queued tasks via AbortSignal', async () => {
+    const scheduler = new PluckScheduler({ concurrency: 1 });
+    const { state, task } = tracker();
+    const controller = new AbortController();
+
+    const running = scheduler.schedule('https://example.com/a', task('a'));
+    const cancelled = scheduler.schedule('https://example.com/b', task('b'), {
+      signal: controller.signal,
+    });
+    controller.abort(new Error('cancelled'));
+
+    await assert.rejects(cancelled, /cancelled/);
+    await running;
+    assert.deepEqual(state.order, ['a']);
+  });
+
+  it('should reject immediately for already aborted signals', async () => {
+    const scheduler = new PluckScheduler();
+    await assert.rejects(
+      scheduler.schedule('https://example.com/', async () => 1, {
+        signal: AbortSignal.abort(new Error('too late')),
+      }),
+      /too late/,
+    );
+  });
+
+  it('should pass the signal to running tasks', async () => {
+    const scheduler = new PluckScheduler();
+    const controller = new AbortController();
+
+    const promise = scheduler.schedule(
+      'https://example.com/',
+      (signal) =>
+        new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason));
+        }),
+      { signal: controller.signal },
+    );
+    await delay(5);
+    controller.abort(new Error('stop'));
+
+    await assert.rejects(promise, /stop/);
+  });
+
+  it('should emit progress events', async () => {
+    const events: PluckSchedulerProgress[] = [];
+    const scheduler = new PluckScheduler({ onProgress: (event) => events.push(event) });
+
+    await scheduler.schedule('https://example.com/ok', async () => 'ok');
+    await assert.rejects(
+      scheduler.schedule('https://example.com/fail', async () => {
+        throw new Error('boom');
+      }),
+    );
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['queued', 'started', 'completed', 'queued', 'started', 'failed'],
+    );
+    assert.equal(events.at(-1)?.completed, 1);
+    assert.equal(events.at(-1)?.failed, 1);
+    assert.equal(events.at(-1)?.url, 'https://example.com/fail');
+  });
+
+  it('should resolve idle() when all work is done', async () => {
+    const scheduler = new PluckScheduler({ concurrency: 1 });
+    const { task } = tracker();
+
+    scheduler.schedule('https://example.com/1', task('1'));
+    scheduler.schedule('https://example.com/2', task('2'));
+    assert.equal(scheduler.active, 1);
+    assert.equal(scheduler.queued, 1);
+
+    await scheduler.idle();
+    assert.equal(scheduler.active, 0);
+    assert.equal(scheduler.queued, 0);
+  });
+
+  it('should reject invalid URLs', async () => {
+    const scheduler = new PluckScheduler();
+    await assert.rejects(scheduler.schedule('not a url', async () => 1));
+  });
+
+  it('should fetch through pluck()', async () => {
+    mockFetch = async () => new Response('Hello');
+    const scheduler = new PluckScheduler({ pluck: { userAgent: 'SchedulerBot/1.0' } });
+
+    const response = await scheduler.pluck('https://example.com/');
+
+    assert.equal(await response.textUtf8(), 'Hello');
+  });
+
+  it('should merge nested pluck options with the defaults', async () => {
+    let attempts = 0;
+    let headers = new Headers();
+    mockFetch = async (_input, init) => {
+      attempts++;
+      headers = new Headers(init?.headers);
+      return new Response('Busy', { status: 503 });
+    };
+    const scheduler = new PluckScheduler({
+      pluck: {
+        headers: { 'x-default': 'a' },
+        retry: { attempts: 2, baseDelay: 0 },
+        throwOnHttpError: false,
+      },
+    });
+
+    await scheduler.pluck('https://example.com/', {
+      headers: { 'x-call': 'b' },
+      retry: { maxDelay: 0 },
+    });
+
+    assert.equal(headers.get('x-default'), 'a');
+    assert.equal(headers.get('x-call'), 'b');
+    assert.equal(attempts, 2);
+  });
+
+  it('should apply robots.txt Crawl-delay', async () => {
+    mockFetch = async (input) => {
+      if (input.toString().endsWith('/robots.txt')) {
+        return new Response('User-agent: *\nCrawl-delay: 0.05');
+      }
+      return new Response('OK');
+    };
+    const scheduler = new PluckScheduler({
+      respectCrawlDelay: true,
+      pluck: { respectRobotsTxt: { cache: new Map() } },
+    });
+    const starts: number[] = [];
+
+    await Promise.all(
+      ['1', '2'].map((name) =>
+        scheduler.schedule(`https://crawl-delay.example.com/${name}`, async () => {
+          starts.push(Date.now());
+        }),
+      ),
+    );
+
+    assert.ok(starts[1] - starts[0] >= 45);
+  });
+});
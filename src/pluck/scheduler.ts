@@ -0,0 +1,353 @@
+/**
+ * Polite request scheduling for pluck().
+ *
+ * @remarks
+ * Priority queue with a global concurrency cap, per-origin concurrency,
+ * minimum spacing between requests to one origin (optionally from robots.txt
+ * Crawl-delay), cancellation via AbortSignal and progress events.
+ *
+ * @author Anonyfox <max@anonyfox.com>
+ * @license MIT
+ *
+ * @packageDocumentation
+ */
+
+import { fetchCrawlDelay, mergePluckInit, pluck } from './pluck.js';
+import type {
+  PluckInit,
+  PluckResponse,
+  PluckScheduleOptions,
+  PluckSchedulerOptions,
+  PluckSchedulerProgress,
+} from './types.js';
+
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_PER_ORIGIN_CONCURRENCY = 1;
+const DEFAULT_MAX_CRAWL_DELAY = 60000;
+
+/**
+ * A task waiting in (or running from) the queue.
+ */
+interface Task {
+  url: string;
+  origin: string;
+  priority: number;
+  signal?: AbortSignal;
+  run: (signal?: AbortSignal) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  detach: () => void;
+}
+
+/**
+ * Scheduling state of a single origin.
+ */
+interface OriginState {
+  active: number;
+  lastStart: number;
+  /** Minimum spacing in ms, null while the Crawl-delay is being looked up */
+  delay: number | null;
+}
+
+/**
+ * Request scheduler that keeps crawls polite.
+ *
+ * @remarks
+ * Tasks are started in priority order as soon as the global concurrency,
+ * the per-origin concurrency and the per-origin spacing allow it.
+ * Pass the scheduler to `gatherWebsite()`, `gatherArticle()` or `gatherFeed()`
+ * via their `scheduler` option to route their requests through it.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new PluckScheduler({
+ *   concurrency: 10,
+ *   perOriginConcurrency: 2,
+ *   minDelay: 1000,
+ *   respectCrawlDelay: true,
+ *   onProgress: (event) => console.log(event.type, event.url, event.queued),
+ * });
+ *
+ * const articles = await Promise.all(
+ *   urls.map((url) => gatherArticle(url, { scheduler })),
+ * );
+ * ```
+ */
+export class PluckScheduler {
+  private readonly concurrency: number;
+  private readonly perOriginConcurrency: number;
+  private readonly minDelay: number;
+  private readonly respectCrawlDelay: boolean;
+  private readonly maxCrawlDelay: number;
+  private readonly defaults: PluckInit;
+  private readonly onProgress?: (event: PluckSchedulerProgress) => void;
+
+  private readonly queue: Task[] = [];
+  private readonly origins = new Map<string, OriginState>();
+  private readonly idleWaiters: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = 0;
+  private completed = 0;
+  private failed = 0;
+  private cancelled = 0;
+
+  constructor(options: PluckSchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.perOriginConcurrency = Math.max(
+      1,
+      options.perOriginConcurrency ?? DEFAULT_PER_ORIGIN_CONCURRENCY,
+    );
+    this.minDelay = Math.max(0, options.minDelay ?? 0);
+    this.respectCrawlDelay = options.respectCrawlDelay ?? false;
+    this.maxCrawlDelay = options.maxCrawlDelay ?? DEFAULT_MAX_CRAWL_DELAY;
+    this.defaults = options.pluck ?? {};
+    this.onProgress = options.onProgress;
+  }
+
+  /** Number of tasks waiting in the queue */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /** Number of tasks currently running */
+  get active(): number {
+    return this.running;
+  }
+
+  /**
+   * Schedule a pluck() request.
+   *
+   * @param input - URL to fetch
+   * @param init - Pluck options (merged over the scheduler defaults)
+   * @param options - Priority and cancellation
+   * @returns The pluck response once the request ran
+   */
+  pluck(
+    input: string | URL,
+    init?: PluckInit,
+    options: PluckScheduleOptions = {},
+  ): Promise<PluckResponse> {
+    const signal = options.signal ?? init?.signal ?? undefined;
+    return this.schedule(
+      String(input),
+      (taskSignal) => pluck(input, { ...mergePluckInit(this.defaults, init), signal: taskSignal }),
+      { ...options, signal },
+    );
+  }
+
+  /**
+   * Schedule an arbitrary task that requests the given URL.
+   *
+   * @param url - URL the task requests (used for per-origin limits)
+   * @param task - Task to run; receives the task's abort signal
+   * @param options - Priority and cancellation
+   * @returns The task's result
+   */
+  schedule<T>(
+    url: string,
+    task: (signal?: AbortSignal) => Promise<T>,
+    options: PluckScheduleOptions = {},
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const entry: Task = {
+        url,
+        origin: new URL(url).origin,
+        priority: options.priority ?? 0,
+        signal,
+        run: task,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        detach: () => {},
+      };
+
+      // Cancel while queued
+      if (signal) {
+        const onAbort = () => {
+          const index = this.queue.indexOf(entry);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            this.cancelled++;
+            this.emit('cancelled', entry);
+            reject(signal.reason);
+            this.checkIdle();
+          }
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      // Insert after all tasks with the same or higher priority
+      const index = this.queue.findIndex((queued) => queued.priority < entry.priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+      this.emit('queued', entry);
+      this.pump();
+    });
+  }
+
+  /**
+   * Wait until the queue is empty and no task is running.
+   */
+  idle(): Promise<void> {
+    if (this.queue.length === 0 && this.running === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Start every task that is currently allowed to run.
+   */
+  private pump(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    let wakeAt = Number.POSITIVE_INFINITY;
+
+    for (let i = 0; i < this.queue.length && this.running < this.concurrency; ) {
+      const task = this.queue[i];
+      const origin = this.getOrigin(task);
+
+      // Waiting for the Crawl-delay lookup, or origin at capacity
+      if (origin.delay === null || origin.active >= this.perOriginConcurrency) {
+        i++;
+        continue;
+      }
+
+      // Too early for this origin
+      const readyAt = origin.lastStart + origin.delay;
+      if (readyAt > now) {
+        wakeAt = Math.min(wakeAt, readyAt);
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.start(task, origin);
+    }
+
+    if (wakeAt !== Number.POSITIVE_INFINITY) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, wakeAt - now));
+    }
+  }
+
+  /**
+   * Run a task and update bookkeeping when it settles.
+   */
+  private start(task: Task, origin: OriginState): void {
+    task.detach();
+    origin.active++;
+    origin.lastStart = Date.now();
+    this.running++;
+    this.emit('started', task);
+
+    let outcome: Promise<unknown>;
+    try {
+      outcome = Promise.resolve(task.run(task.signal));
+    } catch (error) {
+      outcome = Promise.reject(error);
+    }
+
+    outcome
+      .then(
+        (value) => {
+          this.completed++;
+          this.finish(task, origin, 'completed');
+          task.resolve(value);
+        },
+        (error) => {
+          if (task.signal?.aborted) {
+            this.cancelled++;
+            this.finish(task, origin, 'cancelled');
+          } else {
+            this.failed++;
+            this.finish(task, origin, 'failed');
+          }
+          task.reject(error);
+        },
+      )
+      .finally(() => {
+        this.pump();
+        this.checkIdle();
+      });
+  }
+
+  /**
+   * Release the slots held by a finished task.
+   */
+  private finish(
+    task: Task,
+    origin: OriginState,
+    type: 'completed' | 'failed' | 'cancelled',
+  ): void {
+    origin.active--;
+    this.running--;
+    this.emit(type, task);
+  }
+
+  /**
+   * Get (or create) the scheduling state of a task's origin.
+   */
+  private getOrigin(task: Task): OriginState {
+    let origin = this.origins.get(task.origin);
+    if (origin) {
+      return origin;
+    }
+
+    origin = {
+      active: 0,
+      lastStart: 0,
+      delay: this.respectCrawlDelay ? null : this.minDelay,
+    };
+    this.origins.set(task.origin, origin);
+
+    if (this.respectCrawlDelay) {
+      const state = origin;
+      fetchCrawlDelay(task.url, this.defaults)
+        .then((seconds) => {
+          const crawlDelay = Math.min((seconds ?? 0) * 1000, this.maxCrawlDelay);
+          state.delay = Math.max(this.minDelay, crawlDelay);
+        })
+        .catch(() => {
+          state.delay = this.minDelay;
+        })
+        .finally(() => this.pump());
+    }
+
+    return origin;
+  }
+
+  /**
+   * Emit a progress event.
+   */
+  private emit(type: PluckSchedulerProgress['type'], task: Task): void {
+    this.onProgress?.({
+      type,
+      url: task.url,
+      queued: this.queue.length,
+      active: this.running,
+      completed: this.completed,
+      failed: this.failed,
+      cancelled: this.cancelled,
+    });
+  }
+
+  /**
+   * Resolve idle() waiters once all work is done.
+   */
+  private checkIdle(): void {
+    if (this.queue.length === 0 && this.running === 0) {
+      for (const resolve of this.idleWaiters.splice(0)) {
+        resolve();
+      }
+    }
+  }
+}
@@ -1,7 +1,6 @@
 import vm from 'node:vm';
 import { parseHTML as linkedomParseHTML } from 'linkedom';
 
-import { pluck } from '../../pluck/index.js';
 import { createConsoleCapture } from '../console.js';
 import { installAsyncEnv } from '../env/async.js';
 import { computeBaseForResolve, patchBaseElementHref, patchDocumentBaseURI } from '../env/base.js';
@@ -18,6 +17,7 @@ import { createScriptLoader } from '../scripts/loader.js';
 import type { SwoopInit, SwoopScriptError } from '../types.js';
 import { sleep } from '../utils.js';
 import {
+  defineSandboxGlobals,
   defineWindowInContext,
   ensureRealmFunctionIntrinsic,
   installRealmWrappers,
@@ -63,10 +63,12 @@ export async function runVmEngine(args: {
   const globalObj: any = Object.create(domWindow);
 
   // Browser-ish globals
-  globalObj.window = globalObj;
-  globalObj.self = globalObj;
-  globalObj.globalThis = globalObj;
-  globalObj.document = document;
+  defineSandboxGlobals(globalObj, domWindow, {
+    window: globalObj,
+    self: globalObj,
+    globalThis: globalObj,
+    document,
+  });
   try {
     Object.defineProperty(document, 'defaultView', { value: globalObj, configurable: true });
   } catch {
@@ -230,6 +232,7 @@ export async function runVmEngine(args: {
     context,
     remainingMs,
     pluckInit: args.options.pluck,
+    pluckFn: args.options.pluckFn,
   });
 
   const scriptLoader = createScriptLoader({
@@ -250,7 +253,7 @@ export async function runVmEngine(args: {
     },
     noteAsyncActivity,
     fetchText: async (url: string) => {
-      const sres = await pluck(url, {
+      const sres = await args.options.pluckFn(url, {
         ...args.options.pluck,
         timeout: Math.min(args.options.pluck.timeout ?? 30000, remainingMs()),
         strictContentType: false,
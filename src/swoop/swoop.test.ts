@@ -1,6 +1,7 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
+import { createPluck, type PluckTransport } from '../pluck/index.js';
 import { swoop } from './swoop.js';
 
 test('swoop() executes inline scripts and snapshots mutated DOM', async () => {
@@ -109,3 +110,53 @@ test('swoop() synthesizes a browser-ish document lifecycle (readyState -> comple
   assert.ok(result.html.includes('data-ready-immediate="loading"'));
   assert.ok(result.html.includes('<html'));
 });
+
+test('swoop() routes in-page fetches through a custom pluckFn transport', async () => {
+  const html = [
+    '<!doctype html>',
+    '<html>',
+    '<body>',
+    '<script>',
+    "fetch('/api/greeting')",
+    '  .then(r => r.json())',
+    "  .then(d => { document.body.setAttribute('data-greeting', d.greeting); });",
+    '</script>',
+    '</body>',
+    '</html>',
+  ].join('');
+  const requested: string[] = [];
+  const transport: PluckTransport = async (url) => {
+    requested.push(url);
+    if (url === 'https://offline.invalid/api/greeting') {
+      return new Response(JSON.stringify({ greeting: 'replayed' }), {
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+    return new Response(html, { headers: { 'content-type': 'text/html' } });
+  };
+
+  const result = await swoop('https://offline.invalid/', {
+    pluckFn: createPluck({ transport }),
+    waitStrategy: 'networkidle',
+    timeout: 500,
+    idleTime: 50,
+    pollInterval: 10,
+  });
+
+  assert.ok(result.html.includes('data-greeting="replayed"'));
+  assert.deepEqual(requested, ['https://offline.invalid/', 'https://offline.invalid/api/greeting']);
+});
+
+test('swoop() leaves host timers and fetch untouched', async () => {
+  const host = { setTimeout, queueMicrotask, fetch: globalThis.fetch };
+  const html = "<script>setTimeout(() => {}, 1); fetch('data:text/plain,x');</script>";
+
+  await swoop(`data:text/html,${encodeURIComponent(html)}`, {
+    waitStrategy: 'timeout',
+    timeout: 50,
+  });
+
+  assert.equal(globalThis.setTimeout, host.setTimeout);
+  assert.equal(globalThis.queueMicrotask, host.queueMicrotask);
+  assert.equal(globalThis.fetch, host.fetch);
+});
@@ -37,7 +37,7 @@ export async function swoop(url: string | URL, init?: SwoopInit): Promise<SwoopR
   }
 
   // Fetch initial HTML (use pluck for robust encoding + redirects)
-  const res = await pluck(String(url), {
+  const res = await options.pluckFn(String(url), {
     ...options.pluck,
     timeout: Math.min(options.pluck.timeout ?? 30000, totalBudgetMs),
     strictContentType: false,
@@ -46,7 +46,12 @@ export async function swoop(url: string | URL, init?: SwoopInit): Promise<SwoopR
   const html = await res.textUtf8();
   const finalUrl = res.finalUrl;
 
-  const { scripts, errors: preErrors } = await discoverAndFetchScripts(html, finalUrl, options);
+  const { scripts, errors: preErrors } = await discoverAndFetchScripts(
+    html,
+    finalUrl,
+    options,
+    options.pluckFn,
+  );
 
   // Engine: vm
   let snapshot = '';
@@ -60,7 +65,7 @@ export async function swoop(url: string | URL, init?: SwoopInit): Promise<SwoopR
     options,
     totalBudgetMs,
     deadline,
-    hostFetch: HOST_FETCH,
+    hostFetch: createHostFetch(options),
   });
   snapshot = r.snapshot;
   consoleEntries = r.consoleEntries;
@@ -79,3 +84,53 @@ export async function swoop(url: string | URL, init?: SwoopInit): Promise<SwoopR
     },
   };
 }
+
+/**
+ * In-page fetch: route through the pluck transport, or through a custom pluckFn
+ * (which may bring its own transport or middleware), so recorded/replayed
+ * sessions stay offline.
+ */
+function createHostFetch(options: Required<SwoopInit>): typeof fetch | undefined {
+  const { transport } = options.pluck;
+  if (transport) {
+    return (input, init) => transport(requestUrl(input), init ?? {});
+  }
+  if (options.pluckFn === pluck) {
+    return HOST_FETCH;
+  }
+
+  const { pluckFn } = options;
+  return async (input, init) => {
+    // pluck consumes the body, so hand the page a clone of the raw response
+    let raw: Response | undefined;
+    const response = await pluckFn(requestUrl(input), {
+      ...options.pluck,
+      ...init,
+      throwOnHttpError: false,
+      strictContentType: false,
+      validateEncoding: false,
+      middleware: [
+        ...(options.pluck.middleware ?? []),
+        {
+          afterResponse: (hop) => {
+            raw = hop.clone();
+            return undefined;
+          },
+        },
+      ],
+    });
+    // Cache hits skip middleware but come with an unread body
+    if (!raw) {
+      return response;
+    }
+    Object.defineProperty(raw, 'url', { value: response.finalUrl });
+    return raw;
+  };
+}
+
+/**
+ * URL of a fetch() input.
+ */
+function requestUrl(input: string | URL | Request): string {
+  return input instanceof Request ? input.url : String(input);
+}
@@ -1,4 +1,4 @@
-import type { PluckInit } from '../pluck/index.js';
+import type { PluckFunction, PluckInit } from '../pluck/index.js';
 
 /**
  * How `swoop()` decides when a client-rendered page is "done enough" to snapshot.
@@ -26,6 +26,18 @@ export interface SwoopInit {
    */
   pluck?: PluckInit;
 
+  /**
+   * Preconfigured pluck function (e.g. from `createPluck()`) used for all requests.
+   *
+   * @remarks
+   * In-page `fetch()` and `XMLHttpRequest` calls go through it too, so a
+   * transport or middleware configured via `createPluck()` (such as HAR replay)
+   * also serves requests made by page scripts.
+   *
+   * @defaultValue pluck
+   */
+  pluckFn?: PluckFunction;
+
   /**
    * Execute inline and external scripts found in the HTML.
    *
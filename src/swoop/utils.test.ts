@@ -1,6 +1,7 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
+import { pluck } from '../pluck/index.js';
 import { isNodeRuntime, normalizeInit, sleep } from './utils.js';
 
 test('swoop/utils: isNodeRuntime() is true under node', () => {
@@ -27,6 +28,7 @@ test('swoop/utils: normalizeInit() applies defaults', () => {
   assert.equal(n.debugFetch, false);
   assert.equal(n.debugProbes, false);
   assert.deepEqual(n.pluck, {});
+  assert.equal(n.pluckFn, pluck);
 });
 
 test('swoop/utils: normalizeInit() respects overrides', () => {
@@ -1,5 +1,6 @@
 import { setTimeout as nodeSetTimeout } from 'node:timers';
 
+import { pluck } from '../pluck/index.js';
 import type { SwoopInit } from './types.js';
 
 export function isNodeRuntime(): boolean {
@@ -18,6 +19,7 @@ export function normalizeInit(init?: SwoopInit): Required<SwoopInit> {
   return {
     engine: init?.engine ?? 'vm',
     pluck: init?.pluck ?? {},
+    pluckFn: init?.pluckFn ?? pluck,
     executeScripts: init?.executeScripts ?? true,
     timeout: init?.timeout ?? 3000,
     waitStrategy: init?.waitStrategy ?? 'networkidle',
@@ -21,6 +21,50 @@ export function ensureRealmFunctionIntrinsic(context: vm.Context, timeoutMs: num
   );
 }
 
+/**
+ * Globals that page code and {@link installRealmWrappers} reassign inside the realm.
+ */
+export const REALM_WRAPPED_GLOBALS = [
+  'setTimeout',
+  'clearTimeout',
+  'setInterval',
+  'clearInterval',
+  'setImmediate',
+  'clearImmediate',
+  'queueMicrotask',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+  'requestIdleCallback',
+  'cancelIdleCallback',
+  'fetch',
+] as const;
+
+/**
+ * Define own properties on the sandbox global: the given values plus the wrapped globals.
+ *
+ * linkedom's window forwards property writes to the host `globalThis`, so plain
+ * assignments (and the realm wrappers) would otherwise replace the host's
+ * `window`, timers and fetch.
+ */
+export function defineSandboxGlobals(
+  globalObj: any,
+  domWindow: any,
+  values: Record<string, unknown>,
+): void {
+  const own: Record<string, unknown> = {};
+  for (const name of REALM_WRAPPED_GLOBALS) {
+    own[name] = domWindow[name];
+  }
+  for (const [name, value] of Object.entries({ ...own, ...values })) {
+    Object.defineProperty(globalObj, name, {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+  }
+}
+
 export function installRealmWrappers(context: vm.Context, timeoutMs: number = 50): void {
   vm.runInContext(
     `